@@ -0,0 +1,21 @@
+-- State store for STATE_BACKEND=d1 (see src/storage.ts)
+-- Apply: npx wrangler d1 migrations apply notion-pmo-state --remote
+
+-- Plain values (thread state, PM threads, pending actions, reminders, heartbeats, snapshots ...)
+CREATE TABLE IF NOT EXISTS state_kv (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  expires_at INTEGER -- unix seconds, NULL = no expiry
+);
+CREATE INDEX IF NOT EXISTS idx_state_kv_expires ON state_kv (expires_at);
+
+-- Appended lists (replies, active threads, mention history, channel list)
+-- One row per item so concurrent appends never overwrite each other
+CREATE TABLE IF NOT EXISTS state_list_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  list_key TEXT NOT NULL,
+  value TEXT NOT NULL,
+  expires_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_state_list_items_key ON state_list_items (list_key, id);
+CREATE INDEX IF NOT EXISTS idx_state_list_items_expires ON state_list_items (expires_at);
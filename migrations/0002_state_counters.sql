@@ -0,0 +1,12 @@
+-- Counters for STATE_BACKEND=d1 (LLM usage; see incrementCounters in src/storage.ts)
+-- Apply: npx wrangler d1 migrations apply notion-pmo-state --remote
+
+-- One row per counter field, incremented in place by an upsert
+CREATE TABLE IF NOT EXISTS state_counters (
+  key TEXT NOT NULL,
+  field TEXT NOT NULL,
+  value REAL NOT NULL DEFAULT 0,
+  expires_at INTEGER, -- unix seconds, NULL = no expiry
+  PRIMARY KEY (key, field)
+);
+CREATE INDEX IF NOT EXISTS idx_state_counters_expires ON state_counters (expires_at);
@@ -0,0 +1,245 @@
+import type { AppConfig } from "./config";
+import { fetchAllSprints, fetchPageParents, fetchPropertyOptions, STATUS_PROPERTY_NAMES } from "./notionApi";
+import { buildUserMapFromDatabase, fetchNotionUserMap, searchProjectsByName } from "./notionWriter";
+import { toJstDateString } from "./workflow";
+
+// ── Guardrails for LLM-proposed Notion actions ──────────────────────────────
+// Checks the update actions an LLM proposed (mentions, PM replies) against Notion
+// before they are shown for approval: the page is in the channel's task DB, the
+// status / assignee / sprint / project exist, dates parse and are not in the past,
+// SP is not negative and on the scale when one is configured. Values that resolve unambiguously (status case, partial
+// names, sprint names) are rewritten; the rest are dropped and listed instead.
+
+export interface NotionAction {
+  action: string;
+  page_id: string;
+  task_name: string;
+  new_value: string;
+}
+
+export interface ActionGuardResult<T extends NotionAction> {
+  /** Actions that passed, with values normalized to what Notion expects */
+  actions: T[];
+  rejected: Array<{ action: T; reason: string }>;
+  /** Rewritten values, e.g. 担当者「北川」→「北川楓」 */
+  notes: string[];
+}
+
+export interface ActionGuardOptions {
+  /** The request the actions came from; past dates written in it are allowed */
+  requestText?: string;
+  /** Pages already known to be in the task DB (current sprint summary), not looked up again */
+  knownPageIds?: string[];
+  /** JST date the past-date check compares against (default: today) */
+  today?: string;
+}
+
+const normalizeId = (id: string) => id.replace(/-/g, "").toLowerCase();
+
+const isValidDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+  new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) === value;
+
+/** "2026-10-05" is in the text as 2026-10-05 / 10/5 / 10月5日 */
+function isDateInText(text: string | undefined, date: string): boolean {
+  if (!text) return false;
+  const [, month, day] = date.split("-").map(Number);
+  return text.includes(date) || new RegExp(`(?<!\\d)0?${month}\\s*[/月]\\s*0?${day}(?!\\d)`).test(text);
+}
+
+/** Load on first use, share the result for the rest of the check */
+function once<V>(load: () => Promise<V>): () => Promise<V> {
+  let loaded: Promise<V> | undefined;
+  return () => (loaded ??= load());
+}
+
+export async function validateNotionActions<T extends NotionAction>(
+  config: AppConfig,
+  actions: T[],
+  options: ActionGuardOptions = {}
+): Promise<ActionGuardResult<T>> {
+  const result: ActionGuardResult<T> = { actions: [], rejected: [], notes: [] };
+  if (actions.length === 0) return result;
+
+  const today = options.today ?? toJstDateString();
+  const taskDbId = config.taskDbId ? normalizeId(config.taskDbId) : null;
+  const known = new Set((options.knownPageIds ?? []).map(normalizeId));
+  const lookupIds = actions.map((a) => a.page_id).filter((id) => id && !known.has(normalizeId(id)));
+  const parents = taskDbId && lookupIds.length > 0 ? await fetchPageParents(config, lookupIds) : new Map();
+
+  // Lookup failures skip the check (the write reports the error as before)
+  const statusOptions = once(async () => {
+    if (!config.taskDbId) return [];
+    return fetchPropertyOptions(config, config.taskDbId, STATUS_PROPERTY_NAMES).catch((err) => {
+      console.warn(`Action guard: status options unavailable: ${(err as Error).message}`);
+      return [] as string[];
+    });
+  });
+  const userNames = once(async () => {
+    const [notionUsers, dbUsers] = await Promise.all([
+      fetchNotionUserMap(config.notionToken),
+      config.taskDbId ? buildUserMapFromDatabase(config.notionToken, config.taskDbId) : new Map<string, string>()
+    ]);
+    return [...new Set([...notionUsers.keys(), ...dbUsers.keys()])];
+  });
+  const sprints = once(() =>
+    fetchAllSprints(config).catch((err) => {
+      console.warn(`Action guard: sprints unavailable: ${(err as Error).message}`);
+      return null;
+    })
+  );
+
+  const checkPage = (pageId: string): string | null => {
+    if (!pageId) return "対象タスクを特定できません";
+    if (!taskDbId || known.has(normalizeId(pageId))) return null;
+    const parent = parents.get(pageId);
+    if (parent === undefined) return null;
+    if (parent === null) return "Notion にタスクが見つかりません";
+    if (parent.archived) return "アーカイブ済みのタスクです";
+    if (!parent.databaseId || normalizeId(parent.databaseId) !== taskDbId) {
+      return "このチャンネルのタスクDBのページではありません";
+    }
+    return null;
+  };
+
+  for (const original of actions) {
+    const action = { ...original };
+    const value = action.new_value.trim();
+    const reject = (reason: string) => result.rejected.push({ action: original, reason });
+
+    const pageIssue = checkPage(action.page_id);
+    if (pageIssue) {
+      reject(pageIssue);
+      continue;
+    }
+
+    switch (action.action) {
+      case "update_status": {
+        const names = await statusOptions();
+        if (names.length === 0) break;
+        const match = names.find((n) => n === value) ?? names.find((n) => n.toLowerCase() === value.toLowerCase());
+        if (!match) {
+          reject(`ステータス「${value}」は存在しません（${names.join(" / ")}）`);
+          continue;
+        }
+        if (match !== action.new_value) {
+          result.notes.push(`ステータス「${action.new_value}」→「${match}」`);
+          action.new_value = match;
+        }
+        break;
+      }
+      case "update_assignee": {
+        if (!value) {
+          reject("担当者が空です");
+          continue;
+        }
+        const names = await userNames();
+        if (names.length === 0 || names.includes(value)) break;
+        const partial = names.filter((n) => n.includes(value) || value.includes(n));
+        if (partial.length === 1) {
+          result.notes.push(`担当者「${value}」→「${partial[0]}」`);
+          action.new_value = partial[0];
+        } else if (partial.length > 1) {
+          reject(`担当者「${value}」が複数のユーザーに一致します（${partial.join(" / ")}）`);
+          continue;
+        } else {
+          reject(`担当者「${value}」が Notion ユーザーに見つかりません`);
+          continue;
+        }
+        break;
+      }
+      case "update_due": {
+        if (!isValidDate(value)) {
+          reject(`期限「${value}」は日付（YYYY-MM-DD）として読めません`);
+          continue;
+        }
+        if (value < today && !isDateInText(options.requestText, value)) {
+          reject(`期限 ${value} は過去の日付です（依頼文で日付を明示すれば設定できます）`);
+          continue;
+        }
+        action.new_value = value;
+        break;
+      }
+      case "update_sp": {
+        const sp = Number(value);
+        if (!value || !Number.isFinite(sp)) {
+          reject(`SP「${value}」は数値ではありません`);
+          continue;
+        }
+        if (sp < 0) {
+          reject(`SP ${value} は負の値です`);
+          continue;
+        }
+        if (config.spScale && !config.spScale.includes(sp)) {
+          reject(`SP ${value} は使える値（${config.spScale.join(" / ")}）ではありません`);
+          continue;
+        }
+        action.new_value = String(sp);
+        break;
+      }
+      case "update_sprint": {
+        // "" = back to the backlog
+        if (!value) break;
+        const list = await sprints();
+        if (!list) break;
+        const byId = list.find((s) => normalizeId(s.id) === normalizeId(value));
+        const byName = byId ? [] : list.filter((s) => s.name.trim() === value);
+        if (byId) {
+          action.new_value = byId.id;
+        } else if (byName.length === 1) {
+          result.notes.push(`スプリント「${value}」→ ${byName[0].id}`);
+          action.new_value = byName[0].id;
+        } else {
+          reject(`スプリント「${value}」が見つかりません`);
+          continue;
+        }
+        break;
+      }
+      case "update_project": {
+        if (!value) {
+          reject("プロジェクト名が空です");
+          continue;
+        }
+        const candidates = await searchProjectsByName(config.notionToken, value, config.projectDbId);
+        if (candidates.length === 0) {
+          reject(`プロジェクト「${value}」が見つかりません`);
+          continue;
+        }
+        if (candidates[0].name !== value) {
+          result.notes.push(`プロジェクト「${value}」→「${candidates[0].name}」`);
+          action.new_value = candidates[0].name;
+        }
+        break;
+      }
+      case "append_description":
+        if (!value) {
+          reject("追記する説明文が空です");
+          continue;
+        }
+        break;
+      default:
+        reject(`未対応の操作です（${action.action}）`);
+        continue;
+    }
+    result.actions.push(action);
+  }
+
+  if (result.rejected.length > 0) {
+    console.log(`Action guard rejected ${result.rejected.length}/${actions.length}: ${result.rejected.map((r) => `${r.action.action}(${r.action.task_name}): ${r.reason}`).join("; ")}`);
+  }
+  return result;
+}
+
+/** Lines for the confirmation message ("" when everything passed as proposed) */
+export function formatActionGuardIssues<T extends NotionAction>(result: ActionGuardResult<T>): string {
+  const lines: string[] = [];
+  if (result.rejected.length > 0) {
+    lines.push("⚠️ 次の変更は確認できなかったため除外しました:");
+    for (const r of result.rejected) lines.push(`・「${r.action.task_name}」: ${r.reason}`);
+  }
+  if (result.notes.length > 0) {
+    lines.push(`ℹ️ 読み替え: ${result.notes.join("、")}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,186 @@
+import type { AdminApiKey, AdminScope, AppConfig } from "./config";
+
+// ── Route table ─────────────────────────────────────────────────────────────
+
+export interface AdminRoute {
+  scope: AdminScope;
+  /** ?channel=C... で対象チャンネルを指定できるか */
+  channelScoped: boolean;
+}
+
+/**
+ * 管理用エンドポイントと必要スコープ。
+ * read: 状態の参照 / trigger: フロー実行・Slack 投稿 / mutate: KV 状態の書き換え
+ */
+export const ADMIN_ROUTES: Record<string, AdminRoute> = {
+  "/pmo/pm-debug": { scope: "read", channelScoped: true },
+  "/pmo/health": { scope: "read", channelScoped: false },
+  "/pmo/audit": { scope: "read", channelScoped: false },
+  "/pmo/runs": { scope: "read", channelScoped: true },
+  "/pmo/snapshots": { scope: "read", channelScoped: true },
+  "/pmo/snapshots/sprint": { scope: "read", channelScoped: true },
+  "/pmo/snapshots/task": { scope: "read", channelScoped: false },
+  "/pmo/burndown": { scope: "read", channelScoped: true },
+  "/pmo/forecast": { scope: "read", channelScoped: true },
+  "/pmo/schedule-mapping": { scope: "read", channelScoped: true },
+  "/pmo/prompts": { scope: "read", channelScoped: true },
+  "/pmo/eval/mention": { scope: "read", channelScoped: false },
+  "/query": { scope: "read", channelScoped: true },
+  "/notion-tasks": { scope: "read", channelScoped: true },
+  "/pmo/morning": { scope: "trigger", channelScoped: true },
+  "/pmo/reminder": { scope: "trigger", channelScoped: true },
+  "/pmo/evening": { scope: "trigger", channelScoped: true },
+  "/pmo/pm-reminder": { scope: "trigger", channelScoped: true },
+  "/pmo/eod-reminder": { scope: "trigger", channelScoped: true },
+  "/pmo/phone-reminder": { scope: "trigger", channelScoped: true },
+  "/pmo/progress-snapshot": { scope: "trigger", channelScoped: true },
+  "/pmo/sprint-retro": { scope: "trigger", channelScoped: true },
+  "/pmo/carry-over": { scope: "trigger", channelScoped: true },
+  "/pmo/sprint-plan": { scope: "trigger", channelScoped: true },
+  "/pmo/schedule-sync": { scope: "trigger", channelScoped: true },
+  "/pmo/eval/mention/run": { scope: "trigger", channelScoped: true },
+  "/notion-tasks/notify": { scope: "trigger", channelScoped: true },
+  "/notion-tasks/notify-assignees": { scope: "trigger", channelScoped: false },
+  "/run-now": { scope: "trigger", channelScoped: false },
+  "/run-sprint-tasks": { scope: "trigger", channelScoped: false },
+  "/pmo/pm-test": { scope: "mutate", channelScoped: true },
+  "/pmo/pm-dismiss": { scope: "mutate", channelScoped: true },
+  "/pmo/prompts/update": { scope: "mutate", channelScoped: true },
+  "/pmo/eval/mention/cases": { scope: "mutate", channelScoped: false },
+  "/pmo/migrate-state": { scope: "mutate", channelScoped: false }
+};
+
+// ── Authentication ──────────────────────────────────────────────────────────
+
+const HMAC_TOLERANCE_SEC = 300;
+
+export type AdminAuthResult =
+  | { ok: true; key: AdminApiKey; method: "bearer" | "hmac" }
+  | { ok: false; status: 401 | 403; message: string; keyId?: string };
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return Array.from(new Uint8Array(mac))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Slack の X-Slack-Signature（`v0=` + HMAC-SHA256 of `v0:{timestamp}:{body}`）を定数時間で照合 */
+export async function verifySlackSignature(
+  body: string,
+  timestamp: string,
+  signature: string,
+  signingSecret: string
+): Promise<boolean> {
+  const expected = "v0=" + (await hmacSha256Hex(signingSecret, `v0:${timestamp}:${body}`));
+  return timingSafeEqual(expected, signature);
+}
+
+/**
+ * HMAC 署名の基底文字列: `v1:{timestamp}:{METHOD}:{path+query}:{body}`
+ * ヘッダー: X-PMO-Key-Id / X-PMO-Timestamp (unix 秒) / X-PMO-Signature: v1=<hex>
+ */
+export function adminSignatureBase(
+  timestamp: string,
+  method: string,
+  pathWithQuery: string,
+  body: string
+): string {
+  return `v1:${timestamp}:${method.toUpperCase()}:${pathWithQuery}:${body}`;
+}
+
+async function identifyKey(
+  request: Request,
+  keys: AdminApiKey[]
+): Promise<
+  | { key: AdminApiKey; method: "bearer" | "hmac" }
+  | { error: string; keyId?: string }
+> {
+  const authHeader = request.headers.get("authorization") ?? "";
+  if (authHeader.toLowerCase().startsWith("bearer ")) {
+    const token = authHeader.slice(7).trim();
+    const key = keys.find((k) => timingSafeEqual(k.secret, token));
+    return key ? { key, method: "bearer" } : { error: "invalid bearer token" };
+  }
+
+  const keyId = request.headers.get("x-pmo-key-id");
+  const timestamp = request.headers.get("x-pmo-timestamp") ?? "";
+  const signature = request.headers.get("x-pmo-signature") ?? "";
+  if (!keyId) return { error: "missing credentials" };
+
+  const key = keys.find((k) => k.id === keyId);
+  if (!key) return { error: "unknown key id", keyId };
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  if (!/^\d+$/.test(timestamp) || Math.abs(nowSec - parseInt(timestamp, 10)) > HMAC_TOLERANCE_SEC) {
+    return { error: "request timestamp too old", keyId };
+  }
+
+  const url = new URL(request.url);
+  const body = request.method === "GET" || request.method === "HEAD"
+    ? ""
+    : await request.clone().text();
+  const expected =
+    "v1=" +
+    (await hmacSha256Hex(
+      key.secret,
+      adminSignatureBase(timestamp, request.method, url.pathname + url.search, body)
+    ));
+  if (!timingSafeEqual(expected, signature)) {
+    return { error: "invalid signature", keyId };
+  }
+  return { key, method: "hmac" };
+}
+
+/**
+ * Bearer トークン or HMAC 署名でキーを特定し、スコープとチャンネル制限を検証する。
+ * ADMIN_API_KEYS 未設定時は全ての管理エンドポイントを拒否する。
+ */
+export async function authenticateAdminRequest(
+  request: Request,
+  config: AppConfig,
+  route: AdminRoute,
+  channelId?: string
+): Promise<AdminAuthResult> {
+  if (config.adminApiKeys.length === 0) {
+    return { ok: false, status: 401, message: "admin API is not configured (ADMIN_API_KEYS)" };
+  }
+
+  const identified = await identifyKey(request, config.adminApiKeys);
+  if ("error" in identified) {
+    return { ok: false, status: 401, message: identified.error, keyId: identified.keyId };
+  }
+
+  const { key, method } = identified;
+  if (!key.scopes.includes(route.scope)) {
+    return { ok: false, status: 403, message: `scope "${route.scope}" required`, keyId: key.id };
+  }
+
+  if (key.channels) {
+    if (!route.channelScoped || !channelId) {
+      return { ok: false, status: 403, message: "this key is restricted to specific channels (?channel= required)", keyId: key.id };
+    }
+    if (!key.channels.includes(channelId)) {
+      return { ok: false, status: 403, message: `key not allowed for channel ${channelId}`, keyId: key.id };
+    }
+  }
+
+  return { ok: true, key, method };
+}
@@ -0,0 +1,406 @@
+import type { StateStore } from "./storage";
+import { getSprintSnapshotSeries } from "./snapshotStore";
+
+// ── Burndown / burnup chart ─────────────────────────────────────────────────
+// Data: daily history snapshots (snapshotStore), falling back to the 5AM
+// `progress-sp-5am:` keys for days without one. Rendered in-worker as SVG
+// (HTTP endpoint) or PNG (Slack upload — Slack doesn't preview SVG).
+
+export interface BurndownPoint {
+  date: string;
+  progressSp: number | null;
+}
+
+export interface BurndownSeries {
+  sprintId: string;
+  sprintName: string;
+  startDate: string;
+  endDate: string;
+  planSp: number | null;
+  points: BurndownPoint[]; // one per sprint day, up to today
+}
+
+function eachDate(start: string, end: string): string[] {
+  const dates: string[] = [];
+  const d = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  while (d.getTime() <= last.getTime()) {
+    dates.push(d.toISOString().slice(0, 10));
+    d.setUTCDate(d.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+export async function collectBurndownSeries(
+  kv: StateStore,
+  sprint: { id: string; name: string; start_date: string; end_date: string },
+  planSp: number | null,
+  today: string
+): Promise<BurndownSeries> {
+  const history = new Map(
+    (await getSprintSnapshotSeries(kv, sprint.id)).map((s) => [s.date, s])
+  );
+  const lastDate = today < sprint.end_date ? today : sprint.end_date;
+
+  const points: BurndownPoint[] = [];
+  for (const date of eachDate(sprint.start_date, lastDate)) {
+    const snapshot = history.get(date);
+    let progressSp = snapshot?.progressSp ?? null;
+    if (progressSp == null) {
+      const raw = (await kv.get(`progress-sp-5am:${sprint.id}:${date}`, "json")) as
+        | { progress_sp: number | null }
+        | null;
+      progressSp = raw?.progress_sp ?? null;
+    }
+    points.push({ date, progressSp });
+  }
+
+  // The caller's live plan wins; else the latest recorded one (scope may have changed mid-sprint)
+  const latestPlan = [...history.values()].reverse().find((s) => s.planSp != null)?.planSp;
+  return {
+    sprintId: sprint.id,
+    sprintName: sprint.name,
+    startDate: sprint.start_date,
+    endDate: sprint.end_date,
+    planSp: planSp ?? latestPlan ?? null,
+    points
+  };
+}
+
+// ── Layout (shared by SVG / PNG) ────────────────────────────────────────────
+
+const WIDTH = 800;
+const HEIGHT = 420;
+const MARGIN = { left: 56, right: 24, top: 44, bottom: 56 };
+
+const COLORS = {
+  background: "#ffffff",
+  grid: "#e5e7eb",
+  axis: "#6b7280",
+  scope: "#9ca3af",
+  ideal: "#9ca3af",
+  remaining: "#dc2626",
+  completed: "#2563eb",
+  text: "#111827"
+};
+
+interface ChartLayout {
+  days: string[];
+  maxY: number;
+  tickStep: number;
+  x: (dayIndex: number) => number;
+  y: (value: number) => number;
+  ideal: Array<[number, number]>;
+  scope: Array<[number, number]>;
+  remaining: Array<[number, number]>;
+  completed: Array<[number, number]>;
+}
+
+function niceStep(max: number): number {
+  const raw = max / 5;
+  const mag = Math.pow(10, Math.floor(Math.log10(Math.max(raw, 1))));
+  for (const m of [1, 2, 5, 10]) {
+    if (raw <= m * mag) return m * mag;
+  }
+  return 10 * mag;
+}
+
+// Days without a snapshot (weekends, missed 05:00 runs) are skipped, so the line
+// connects the surrounding measured days
+function toPolyline(values: Array<number | null>, x: ChartLayout["x"], y: ChartLayout["y"]) {
+  const points: Array<[number, number]> = [];
+  values.forEach((v, i) => {
+    if (v != null) points.push([x(i), y(v)]);
+  });
+  return points;
+}
+
+function layoutChart(series: BurndownSeries): ChartLayout {
+  const days = eachDate(series.startDate, series.endDate);
+  const plan = series.planSp ?? 0;
+  const progress = series.points.map((p) => p.progressSp);
+  const maxValue = Math.max(plan, ...progress.map((v) => v ?? 0), 1);
+  const tickStep = niceStep(maxValue);
+  const maxY = Math.ceil(maxValue / tickStep) * tickStep;
+
+  const plotW = WIDTH - MARGIN.left - MARGIN.right;
+  const plotH = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (i: number) => MARGIN.left + (days.length > 1 ? (i * plotW) / (days.length - 1) : 0);
+  const y = (v: number) => MARGIN.top + plotH - (v / maxY) * plotH;
+
+  const lastIdx = days.length - 1;
+  return {
+    days,
+    maxY,
+    tickStep,
+    x,
+    y,
+    ideal: series.planSp != null ? [[x(0), y(plan)], [x(lastIdx), y(0)]] : [],
+    scope: series.planSp != null ? [[x(0), y(plan)], [x(lastIdx), y(plan)]] : [],
+    remaining: series.planSp != null
+      ? toPolyline(progress.map((v) => (v == null ? null : Math.max(plan - v, 0))), x, y)
+      : [],
+    completed: toPolyline(progress, x, y)
+  };
+}
+
+function dateLabel(date: string): string {
+  return date.slice(5).replace("-", "/");
+}
+
+function labelIndexes(count: number): number[] {
+  if (count <= 1) return [0];
+  const step = Math.max(1, Math.ceil(count / 7));
+  const idx: number[] = [];
+  for (let i = 0; i < count; i += step) idx.push(i);
+  if (idx[idx.length - 1] !== count - 1) idx.push(count - 1);
+  return idx;
+}
+
+// ── SVG ─────────────────────────────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+export function renderBurndownSvg(series: BurndownSeries): string {
+  const l = layoutChart(series);
+  const path = (pts: Array<[number, number]>) =>
+    pts.map(([px, py], i) => `${i === 0 ? "M" : "L"}${px.toFixed(1)},${py.toFixed(1)}`).join(" ");
+  const parts: string[] = [];
+
+  parts.push(`<rect width="${WIDTH}" height="${HEIGHT}" fill="${COLORS.background}"/>`);
+  parts.push(
+    `<text x="${MARGIN.left}" y="24" font-size="16" font-weight="bold" fill="${COLORS.text}">` +
+    `${escapeXml(series.sprintName)} バーンダウン / バーンアップ (${series.startDate} 〜 ${series.endDate})</text>`
+  );
+
+  for (let v = 0; v <= l.maxY; v += l.tickStep) {
+    parts.push(`<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${l.y(v)}" y2="${l.y(v)}" stroke="${COLORS.grid}"/>`);
+    parts.push(`<text x="${MARGIN.left - 8}" y="${l.y(v) + 4}" font-size="11" text-anchor="end" fill="${COLORS.axis}">${v}</text>`);
+  }
+  for (const i of labelIndexes(l.days.length)) {
+    parts.push(
+      `<text x="${l.x(i)}" y="${HEIGHT - MARGIN.bottom + 18}" font-size="11" text-anchor="middle" fill="${COLORS.axis}">${dateLabel(l.days[i])}</text>`
+    );
+  }
+  parts.push(
+    `<line x1="${MARGIN.left}" x2="${MARGIN.left}" y1="${MARGIN.top}" y2="${HEIGHT - MARGIN.bottom}" stroke="${COLORS.axis}"/>`,
+    `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${HEIGHT - MARGIN.bottom}" y2="${HEIGHT - MARGIN.bottom}" stroke="${COLORS.axis}"/>`
+  );
+
+  if (l.scope.length) parts.push(`<path d="${path(l.scope)}" stroke="${COLORS.scope}" stroke-width="1.5" fill="none"/>`);
+  if (l.ideal.length) parts.push(`<path d="${path(l.ideal)}" stroke="${COLORS.ideal}" stroke-width="2" stroke-dasharray="6 4" fill="none"/>`);
+  for (const [pts, color] of [[l.remaining, COLORS.remaining], [l.completed, COLORS.completed]] as const) {
+    if (pts.length === 0) continue;
+    parts.push(`<path d="${path(pts)}" stroke="${color}" stroke-width="2.5" fill="none"/>`);
+    for (const [px, py] of pts) parts.push(`<circle cx="${px}" cy="${py}" r="3" fill="${color}"/>`);
+  }
+
+  const legend: Array<[string, string, boolean]> = [
+    ["理想残SP", COLORS.ideal, true],
+    ["実績残SP", COLORS.remaining, false],
+    ["完了SP", COLORS.completed, false],
+    ["計画SP", COLORS.scope, false]
+  ];
+  legend.forEach(([label, color, dashed], i) => {
+    const lx = MARGIN.left + i * 130;
+    const ly = HEIGHT - 16;
+    parts.push(
+      `<line x1="${lx}" x2="${lx + 24}" y1="${ly - 4}" y2="${ly - 4}" stroke="${color}" stroke-width="2.5"${dashed ? ' stroke-dasharray="6 4"' : ""}/>`,
+      `<text x="${lx + 30}" y="${ly}" font-size="12" fill="${COLORS.text}">${label}</text>`
+    );
+  });
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" ` +
+    `font-family="-apple-system, 'Hiragino Sans', 'Noto Sans JP', sans-serif">` +
+    parts.join("") +
+    `</svg>`
+  );
+}
+
+// ── PNG (minimal rasterizer + encoder) ──────────────────────────────────────
+// No text shaping in-worker: axis numbers/dates use a 3x5 digit font,
+// the legend is explained in the Slack message instead.
+
+type Rgb = [number, number, number];
+
+function hexToRgb(hex: string): Rgb {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+const DIGIT_FONT: Record<string, string[]> = {
+  "0": ["111", "101", "101", "101", "111"],
+  "1": ["010", "110", "010", "010", "111"],
+  "2": ["111", "001", "111", "100", "111"],
+  "3": ["111", "001", "111", "001", "111"],
+  "4": ["101", "101", "111", "001", "001"],
+  "5": ["111", "100", "111", "001", "111"],
+  "6": ["111", "100", "111", "101", "111"],
+  "7": ["111", "001", "010", "010", "010"],
+  "8": ["111", "101", "111", "101", "111"],
+  "9": ["111", "101", "111", "001", "111"],
+  "/": ["001", "001", "010", "100", "100"],
+  ".": ["000", "000", "000", "000", "010"]
+};
+
+function createCanvas(width: number, height: number, background: Rgb) {
+  const pixels = new Uint8Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) pixels.set(background, i * 3);
+
+  const setPixel = (px: number, py: number, color: Rgb) => {
+    const ix = Math.round(px);
+    const iy = Math.round(py);
+    if (ix < 0 || iy < 0 || ix >= width || iy >= height) return;
+    pixels.set(color, (iy * width + ix) * 3);
+  };
+
+  const fillRect = (x0: number, y0: number, w: number, h: number, color: Rgb) => {
+    for (let yy = Math.round(y0); yy < Math.round(y0 + h); yy++) {
+      for (let xx = Math.round(x0); xx < Math.round(x0 + w); xx++) setPixel(xx, yy, color);
+    }
+  };
+
+  const line = (
+    x0: number, y0: number, x1: number, y1: number,
+    color: Rgb, thickness = 1, dash?: [number, number]
+  ) => {
+    const len = Math.hypot(x1 - x0, y1 - y0);
+    const steps = Math.max(Math.ceil(len), 1);
+    const r = thickness / 2;
+    for (let s = 0; s <= steps; s++) {
+      if (dash && (s % (dash[0] + dash[1])) >= dash[0]) continue;
+      const t = s / steps;
+      const cx = x0 + (x1 - x0) * t;
+      const cy = y0 + (y1 - y0) * t;
+      fillRect(cx - r, cy - r, Math.max(thickness, 1), Math.max(thickness, 1), color);
+    }
+  };
+
+  const text = (value: string, px: number, py: number, color: Rgb, scale = 2, align: "left" | "center" | "right" = "left") => {
+    const charW = 4 * scale;
+    const total = value.length * charW - scale;
+    let cx = align === "left" ? px : align === "center" ? px - total / 2 : px - total;
+    for (const ch of value) {
+      const glyph = DIGIT_FONT[ch];
+      if (glyph) {
+        glyph.forEach((row, gy) => {
+          for (let gx = 0; gx < 3; gx++) {
+            if (row[gx] === "1") fillRect(cx + gx * scale, py + gy * scale, scale, scale, color);
+          }
+        });
+      }
+      cx += charW;
+    }
+  };
+
+  return { pixels, fillRect, line, text };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function zlibDeflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  // "deflate" = zlib-wrapped stream, which is exactly what PNG IDAT expects
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function encodePng(width: number, height: number, rgb: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let yy = 0; yy < height; yy++) {
+    raw[yy * (width * 3 + 1)] = 0; // filter: none
+    raw.set(rgb.subarray(yy * width * 3, (yy + 1) * width * 3), yy * (width * 3 + 1) + 1);
+  }
+
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 2; // color type: RGB
+
+  const chunks = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", await zlibDeflate(raw)),
+    pngChunk("IEND", new Uint8Array(0))
+  ];
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+export async function renderBurndownPng(series: BurndownSeries): Promise<Uint8Array<ArrayBuffer>> {
+  const l = layoutChart(series);
+  const canvas = createCanvas(WIDTH, HEIGHT, hexToRgb(COLORS.background));
+  const axis = hexToRgb(COLORS.axis);
+
+  for (let v = 0; v <= l.maxY; v += l.tickStep) {
+    canvas.line(MARGIN.left, l.y(v), WIDTH - MARGIN.right, l.y(v), hexToRgb(COLORS.grid));
+    canvas.text(String(v), MARGIN.left - 8, l.y(v) - 5, axis, 2, "right");
+  }
+  for (const i of labelIndexes(l.days.length)) {
+    canvas.text(dateLabel(l.days[i]), l.x(i), HEIGHT - MARGIN.bottom + 10, axis, 2, "center");
+  }
+  canvas.line(MARGIN.left, MARGIN.top, MARGIN.left, HEIGHT - MARGIN.bottom, axis);
+  canvas.line(MARGIN.left, HEIGHT - MARGIN.bottom, WIDTH - MARGIN.right, HEIGHT - MARGIN.bottom, axis);
+
+  const polyline = (pts: Array<[number, number]>, color: Rgb, thickness: number, dash?: [number, number]) => {
+    for (let i = 1; i < pts.length; i++) {
+      canvas.line(pts[i - 1][0], pts[i - 1][1], pts[i][0], pts[i][1], color, thickness, dash);
+    }
+    for (const [px, py] of pts) canvas.fillRect(px - 3, py - 3, 6, 6, color);
+  };
+  if (l.scope.length) {
+    canvas.line(l.scope[0][0], l.scope[0][1], l.scope[1][0], l.scope[1][1], hexToRgb(COLORS.scope), 2);
+  }
+  if (l.ideal.length) {
+    canvas.line(l.ideal[0][0], l.ideal[0][1], l.ideal[1][0], l.ideal[1][1], hexToRgb(COLORS.ideal), 2, [8, 6]);
+  }
+  polyline(l.remaining, hexToRgb(COLORS.remaining), 3);
+  polyline(l.completed, hexToRgb(COLORS.completed), 3);
+
+  return encodePng(WIDTH, HEIGHT, canvas.pixels);
+}
+
+/** Legend for the Slack message that carries the PNG (the PNG itself has no text) */
+export function burndownLegendText(series: BurndownSeries): string {
+  const latest = [...series.points].reverse().find((p) => p.progressSp != null);
+  const remaining =
+    series.planSp != null && latest?.progressSp != null ? series.planSp - latest.progressSp : null;
+  return (
+    `📉 *${series.sprintName}* バーンダウン / バーンアップ\n` +
+    `赤: 実績残SP / 青: 完了SP / 灰破線: 理想残SP / 灰: 計画SP` +
+    (remaining != null ? `\n計画 ${series.planSp} SP・残り ${remaining} SP（${latest!.date} 時点）` : "")
+  );
+}
@@ -0,0 +1,185 @@
+import type { AppConfig } from "./config";
+import { addDays } from "./sheetsApi";
+
+// ── Business calendar ───────────────────────────────────────────────────────
+// 稼働曜日外（既定は土日）・日本の祝日（振替休日・国民の休日を含む）・チャンネル独自の休業日を
+// 除いた営業日で残り日数や日次ペースを数える。メンバー個人の休みはキャパシティ DB から。
+
+export interface BusinessCalendar {
+  /** 独自の休業日（YYYY-MM-DD → 名前）。BUSINESS_HOLIDAYS + チャンネル設定 */
+  customHolidays: Record<string, string>;
+  /** 稼働曜日（0 = 日 … 6 = 土）。フロースケジュールの activeWeekdays */
+  workingWeekdays: number[];
+}
+
+/** Per-member availability from the sprint capacity DB */
+export interface MemberAvailability {
+  /** 曜日カラム名（"月曜日" 等）→ 稼働時間。0 = その曜日は休み */
+  dailyHours: Record<string, number>;
+  /** 休暇日（YYYY-MM-DD） */
+  daysOff: string[];
+}
+
+export const WEEKDAY_LABELS = ["日曜日", "月曜日", "火曜日", "水曜日", "木曜日", "金曜日", "土曜日"];
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+const ymd = (year: number, month: number, day: number) => `${year}-${pad2(month)}-${pad2(day)}`;
+const dayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/** n-th Monday of the month (Happy Monday) */
+function nthMonday(year: number, month: number, n: number): string {
+  const firstDow = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return ymd(year, month, 1 + ((8 - firstDow) % 7) + (n - 1) * 7);
+}
+
+// 春分・秋分の日の近似式（1980–2099 年）
+const equinoxDay = (year: number, base: number) =>
+  Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+// 東京オリンピック・即位に伴う特例
+const SPECIAL_HOLIDAYS: Record<number, Array<[string, string]>> = {
+  2019: [["2019-04-30", "国民の休日"], ["2019-05-01", "天皇の即位の日"], ["2019-05-02", "国民の休日"], ["2019-10-22", "即位礼正殿の儀の行われる日"]],
+  2020: [["2020-07-23", "海の日"], ["2020-07-24", "スポーツの日"], ["2020-08-10", "山の日"]],
+  2021: [["2021-07-22", "海の日"], ["2021-07-23", "スポーツの日"], ["2021-08-08", "山の日"]]
+};
+
+const jpHolidayCache = new Map<number, Map<string, string>>();
+
+/** 日本の祝日（2007 年以降の祝日法）: date → 名前 */
+export function japaneseHolidays(year: number): Map<string, string> {
+  const cached = jpHolidayCache.get(year);
+  if (cached) return cached;
+
+  const special = SPECIAL_HOLIDAYS[year] ?? [];
+  const moved = new Set(special.map(([, name]) => name));
+  const base: Array<[string, string]> = [
+    [ymd(year, 1, 1), "元日"],
+    [nthMonday(year, 1, 2), "成人の日"],
+    [ymd(year, 2, 11), "建国記念の日"],
+    [ymd(year, 3, equinoxDay(year, 20.8431)), "春分の日"],
+    [ymd(year, 4, 29), "昭和の日"],
+    [ymd(year, 5, 3), "憲法記念日"],
+    [ymd(year, 5, 4), "みどりの日"],
+    [ymd(year, 5, 5), "こどもの日"],
+    [nthMonday(year, 9, 3), "敬老の日"],
+    [ymd(year, 9, equinoxDay(year, 23.2488)), "秋分の日"],
+    [ymd(year, 11, 3), "文化の日"],
+    [ymd(year, 11, 23), "勤労感謝の日"]
+  ];
+  if (year >= 2020) base.push([ymd(year, 2, 23), "天皇誕生日"]);
+  else if (year <= 2018) base.push([ymd(year, 12, 23), "天皇誕生日"]);
+  if (!moved.has("海の日")) base.push([nthMonday(year, 7, 3), "海の日"]);
+  if (year >= 2016 && !moved.has("山の日")) base.push([ymd(year, 8, 11), "山の日"]);
+  if (!moved.has("スポーツの日")) base.push([nthMonday(year, 10, 2), year >= 2020 ? "スポーツの日" : "体育の日"]);
+
+  const holidays = new Map<string, string>([...base, ...special]);
+
+  // 国民の休日: 祝日に挟まれた平日
+  for (const date of [...holidays.keys()]) {
+    const between = addDays(date, 1);
+    if (!holidays.has(between) && holidays.has(addDays(date, 2)) && dayOfWeek(between) !== 0) {
+      holidays.set(between, "国民の休日");
+    }
+  }
+  // 振替休日: 日曜の祝日の後の最初の平日
+  for (const date of [...holidays.keys()].sort()) {
+    if (dayOfWeek(date) !== 0) continue;
+    let substitute = addDays(date, 1);
+    while (holidays.has(substitute)) substitute = addDays(substitute, 1);
+    holidays.set(substitute, "振替休日");
+  }
+
+  jpHolidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * "YYYY-MM-DD [名前]" / "YYYY-MM-DD..YYYY-MM-DD [名前]" の一覧を date → 名前 に展開する。
+ * 不正な行は無視する。
+ */
+export function parseHolidayEntries(entries: string[]): Record<string, string> {
+  const holidays: Record<string, string> = {};
+  for (const entry of entries) {
+    const match = entry.trim().match(/^(\d{4}-\d{2}-\d{2})(?:\.\.(\d{4}-\d{2}-\d{2}))?(?:\s+(.+))?$/);
+    if (!match || Number.isNaN(Date.parse(match[1])) || (match[2] && Number.isNaN(Date.parse(match[2])))) {
+      console.warn(`Invalid holiday entry ignored: ${entry}`);
+      continue;
+    }
+    const [, from, to = from, name = "休業日"] = match;
+    // 長すぎる範囲は設定ミスとみなして打ち切る
+    for (let d = from, i = 0; d <= to && i < 366; d = addDays(d, 1), i++) {
+      holidays[d] = name.trim();
+    }
+  }
+  return holidays;
+}
+
+export function businessCalendar(config: Pick<AppConfig, "businessHolidays" | "flowSchedule">): BusinessCalendar {
+  return {
+    customHolidays: parseHolidayEntries(config.businessHolidays),
+    workingWeekdays: config.flowSchedule.activeWeekdays
+  };
+}
+
+/** Holiday name (custom first, then JP public holidays), null on ordinary days incl. non-working weekdays */
+export function holidayName(calendar: BusinessCalendar, date: string): string | null {
+  return calendar.customHolidays[date] ?? japaneseHolidays(Number(date.slice(0, 4))).get(date) ?? null;
+}
+
+/** Why `date` is not a working day ("元日" / "土曜日" for a day outside the working week …), null on working days */
+export function nonWorkingReason(calendar: BusinessCalendar, date: string): string | null {
+  const holiday = holidayName(calendar, date);
+  if (holiday) return holiday;
+  const dow = dayOfWeek(date);
+  return calendar.workingWeekdays.includes(dow) ? null : WEEKDAY_LABELS[dow];
+}
+
+export function isWorkingDay(calendar: BusinessCalendar, date: string): boolean {
+  return nonWorkingReason(calendar, date) == null;
+}
+
+/** Working days in [from, to] (both inclusive), 0 when from > to */
+export function countWorkingDays(calendar: BusinessCalendar, from: string, to: string): number {
+  let count = 0;
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    if (isWorkingDay(calendar, d)) count++;
+  }
+  return count;
+}
+
+/** The n-th working day on or after `from` (n >= 1); gives up after 10 years of holidays */
+export function nthWorkingDay(calendar: BusinessCalendar, from: string, n: number): string {
+  let d = from;
+  let seen = 0;
+  for (let i = 0; i < 3660; i++) {
+    if (isWorkingDay(calendar, d) && ++seen >= n) return d;
+    d = addDays(d, 1);
+  }
+  return d;
+}
+
+/** Holidays (JP + custom, non-working weekdays excluded) in [from, to] */
+export function listHolidays(
+  calendar: BusinessCalendar,
+  from: string,
+  to: string
+): Array<{ date: string; name: string }> {
+  const days: Array<{ date: string; name: string }> = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    const name = holidayName(calendar, d);
+    if (name) days.push({ date: d, name });
+  }
+  return days;
+}
+
+/** Team working day, not in the member's days off, and not a 0-hour weekday in the capacity DB */
+export function isMemberWorkingDay(
+  calendar: BusinessCalendar,
+  member: MemberAvailability | null | undefined,
+  date: string
+): boolean {
+  if (!isWorkingDay(calendar, date)) return false;
+  if (!member) return true;
+  if (member.daysOff.includes(date)) return false;
+  return member.dailyHours[WEEKDAY_LABELS[dayOfWeek(date)]] !== 0;
+}
@@ -0,0 +1,126 @@
+import { keyedJsonState, type StateStore } from "./storage";
+import type { CarryOverProposal } from "./schema";
+import type { SprintRef } from "./sprintRetro";
+
+// ── Sprint carry-over ───────────────────────────────────────────────────────
+// Unfinished tasks of an ended sprint → next sprint or backlog, decided by the PM
+// via approve / cancel buttons on the proposal message.
+
+export interface CarryOverTask {
+  id: string;
+  name: string;
+  status: string | null;
+  sp: number | null;
+  assignees: string[];
+}
+
+export interface CarryOverItem extends CarryOverTask {
+  decision: "next_sprint" | "backlog";
+  reason: string;
+}
+
+/** Pending proposal, keyed by the proposal message (channel + ts) */
+export interface PendingCarryOver {
+  fromSprint: SprintRef;
+  toSprint: SprintRef;
+  items: CarryOverItem[];
+  requestedAt: string;
+  scope: string | null;   // channel ID, null = global config
+}
+
+export interface CarryOverRecord {
+  sprintId: string;
+  proposedAt: string;
+  channel: string | null;
+  ts: string | null;
+  tasks: number;
+}
+
+const pendingCarryOvers = keyedJsonState<PendingCarryOver, [channel: string, ts: string]>(
+  (channel, ts) => `pending-carry-over:${channel}:${ts}`,
+  14 * 24 * 3600
+);
+const carryOverRecords = keyedJsonState<CarryOverRecord, [sprintId: string, channelId?: string]>(
+  (sprintId, channelId) => `carry-over:${channelId ?? "global"}:${sprintId}`,
+  180 * 24 * 3600
+);
+
+/** Next sprint = earliest sprint starting after the ended one */
+export function findNextSprint<T extends SprintRef>(sprints: T[], ended: SprintRef): T | null {
+  const upcoming = sprints
+    .filter((s) => s.id !== ended.id && s.start_date > ended.end_date)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  return upcoming[0] ?? null;
+}
+
+export const savePendingCarryOver = (kv: StateStore, channel: string, ts: string, pending: PendingCarryOver) =>
+  pendingCarryOvers.put(kv, pending, channel, ts);
+export const getPendingCarryOver = pendingCarryOvers.get;
+export const deletePendingCarryOver = pendingCarryOvers.delete;
+
+export const getCarryOverRecord = carryOverRecords.get;
+export const saveCarryOverRecord = (kv: StateStore, record: CarryOverRecord, channelId?: string) =>
+  carryOverRecords.put(kv, record, record.sprintId, channelId);
+
+/** Merge LLM decisions into the task list (tasks the LLM skipped default to next sprint) */
+export function applyCarryOverDecisions(
+  tasks: CarryOverTask[],
+  proposal: CarryOverProposal
+): CarryOverItem[] {
+  const byId = new Map(proposal.decisions.map((d) => [d.task_id, d]));
+  return tasks.map((t) => {
+    const d = byId.get(t.id);
+    return {
+      ...t,
+      decision: d?.decision ?? "next_sprint",
+      reason: d?.reason ?? "判定なし（既定で次スプリントへ）"
+    };
+  });
+}
+
+function sumSp(items: CarryOverItem[]): number {
+  return items.reduce((s, t) => s + (t.sp ?? 0), 0);
+}
+
+export function buildCarryOverText(
+  pending: PendingCarryOver,
+  summary: string,
+  pmUserId?: string
+): string {
+  const toNext = pending.items.filter((i) => i.decision === "next_sprint");
+  const toBacklog = pending.items.filter((i) => i.decision === "backlog");
+  const line = (i: CarryOverItem) =>
+    `• ${i.name}（${i.status ?? "未設定"}・${i.sp ?? "-"} SP・${i.assignees.join(", ") || "未割当"}）— ${i.reason}`;
+
+  return [
+    `${pmUserId ? `<@${pmUserId}> ` : ""}📦 *${pending.fromSprint.name} の未完了タスクの持ち越し提案*`,
+    summary,
+    "",
+    `*→ ${pending.toSprint.name} へ移動: ${toNext.length} 件 (${sumSp(toNext)} SP)*`,
+    ...toNext.map(line),
+    "",
+    `*→ バックログへ戻す: ${toBacklog.length} 件 (${sumSp(toBacklog)} SP)*`,
+    ...toBacklog.map(line),
+    "",
+    "承認すると Notion のスプリントを一括で更新します。"
+  ].join("\n");
+}
+
+export function buildCarryOverResultText(
+  pending: PendingCarryOver,
+  moved: CarryOverItem[],
+  failed: Array<{ item: CarryOverItem; error: string }>,
+  dryRun: boolean
+): string {
+  const toNext = moved.filter((i) => i.decision === "next_sprint");
+  const toBacklog = moved.filter((i) => i.decision === "backlog");
+  const lines = [
+    `${dryRun ? "（DRY_RUN）" : ""}✅ 持ち越しを反映しました`,
+    `・${pending.toSprint.name} へ移動: ${toNext.length} 件 (${sumSp(toNext)} SP)`,
+    `・バックログへ戻し: ${toBacklog.length} 件 (${sumSp(toBacklog)} SP)`
+  ];
+  if (failed.length > 0) {
+    lines.push(`⚠️ 失敗: ${failed.length} 件`, ...failed.map((f) => `・${f.item.name}: ${f.error}`));
+  }
+  return lines.join("\n");
+}
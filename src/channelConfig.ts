@@ -1,4 +1,9 @@
 import { extractNotionIdFromUrl, type AppConfig, type Bindings, getConfig } from "./config";
+import { getStore, type StateStore } from "./storage";
+import type { ScheduleSheetLayout } from "./sheetLayout";
+import { normalizeFlowSchedule, type FlowSchedule } from "./flowSchedule";
+import type { LlmProviderName } from "./llmProvider";
+import { normalizePromptPersona, type PromptPersona } from "./promptRegistry";
 
 export interface ChannelConfig {
   taskDbUrl: string;
@@ -10,6 +15,14 @@ export interface ChannelConfig {
   projectName?: string;
   googleSheetsId?: string;
   googleSheetsRange?: string;
+  googleSheetsLayout?: ScheduleSheetLayout;
+  githubRepos?: string[]; // "owner/repo"
+  holidays?: string[]; // 独自の休業日（BUSINESS_HOLIDAYS と同じ書式）
+  flowSchedule?: FlowSchedule; // 未設定なら FLOW_SCHEDULE / デフォルト
+  llmProvider?: LlmProviderName; // 未設定なら LLM_PROVIDER
+  llmModel?: string; // プロバイダのモデル名（Azure はデプロイ名）
+  llmMonthlyBudgetUsd?: number; // 月間の LLM 予算（USD、0 = 無制限）。未設定なら LLM_MONTHLY_BUDGET_USD
+  promptPersona?: Partial<PromptPersona>; // 未設定の項目は PROMPT_PERSONA / デフォルト
   registeredAt: string;
   registeredBy: string;
 }
@@ -18,7 +31,7 @@ const CHANNEL_CONFIG_KEY = (channelId: string) => `channel-config:${channelId}`;
 const CHANNEL_LIST_KEY = "channel-config-list";
 
 export async function getChannelConfig(
-  kv: KVNamespace,
+  kv: StateStore,
   channelId: string
 ): Promise<ChannelConfig | null> {
   const raw = await kv.get(CHANNEL_CONFIG_KEY(channelId));
@@ -27,38 +40,26 @@ export async function getChannelConfig(
 }
 
 export async function saveChannelConfig(
-  kv: KVNamespace,
+  kv: StateStore,
   channelId: string,
   config: ChannelConfig
 ): Promise<void> {
   await kv.put(CHANNEL_CONFIG_KEY(channelId), JSON.stringify(config));
-  const listRaw = await kv.get(CHANNEL_LIST_KEY);
-  const list: string[] = listRaw ? JSON.parse(listRaw) : [];
-  if (!list.includes(channelId)) {
-    list.push(channelId);
-    await kv.put(CHANNEL_LIST_KEY, JSON.stringify(list));
-  }
+  await kv.appendToList(CHANNEL_LIST_KEY, channelId, { unique: true });
 }
 
 export async function deleteChannelConfig(
-  kv: KVNamespace,
+  kv: StateStore,
   channelId: string
 ): Promise<void> {
   await kv.delete(CHANNEL_CONFIG_KEY(channelId));
-  const listRaw = await kv.get(CHANNEL_LIST_KEY);
-  if (listRaw) {
-    const list: string[] = JSON.parse(listRaw);
-    const filtered = list.filter((id) => id !== channelId);
-    await kv.put(CHANNEL_LIST_KEY, JSON.stringify(filtered));
-  }
+  await kv.removeFromList(CHANNEL_LIST_KEY, channelId);
 }
 
 export async function listAllChannelConfigs(
-  kv: KVNamespace
+  kv: StateStore
 ): Promise<Array<{ channelId: string; config: ChannelConfig }>> {
-  const listRaw = await kv.get(CHANNEL_LIST_KEY);
-  if (!listRaw) return [];
-  const list: string[] = JSON.parse(listRaw);
+  const list = await kv.getList<string>(CHANNEL_LIST_KEY);
   const results: Array<{ channelId: string; config: ChannelConfig }> = [];
   for (const channelId of list) {
     const config = await getChannelConfig(kv, channelId);
@@ -80,7 +81,7 @@ export async function resolveConfig(
   channelId: string
 ): Promise<AppConfig> {
   const base = getConfig(env);
-  const channelCfg = await getChannelConfig(env.NOTIFY_CACHE, channelId);
+  const channelCfg = await getChannelConfig(getStore(env), channelId);
   if (!channelCfg) return base;
 
   return {
@@ -97,5 +98,17 @@ export async function resolveConfig(
     memberSlackMap: invertMap(channelCfg.memberMap),
     googleSheetsId: channelCfg.googleSheetsId ?? base.googleSheetsId,
     googleSheetsRange: channelCfg.googleSheetsRange ?? base.googleSheetsRange,
+    // A channel with its own sheet doesn't inherit the global layout
+    googleSheetsLayout: channelCfg.googleSheetsLayout ??
+      (channelCfg.googleSheetsId ? undefined : base.googleSheetsLayout),
+    githubRepos: channelCfg.githubRepos ?? base.githubRepos,
+    businessHolidays: [...base.businessHolidays, ...(channelCfg.holidays ?? [])],
+    llmProvider: channelCfg.llmProvider ?? base.llmProvider,
+    llmModel: channelCfg.llmProvider ? channelCfg.llmModel : base.llmModel,
+    llmMonthlyBudgetUsd: channelCfg.llmMonthlyBudgetUsd != null
+      ? channelCfg.llmMonthlyBudgetUsd || undefined
+      : base.llmMonthlyBudgetUsd,
+    promptPersona: (channelCfg.promptPersona && normalizePromptPersona(channelCfg.promptPersona, base.promptPersona)) ?? base.promptPersona,
+    flowSchedule: (channelCfg.flowSchedule && normalizeFlowSchedule(channelCfg.flowSchedule)) ?? base.flowSchedule,
   };
 }
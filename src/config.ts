@@ -1,6 +1,26 @@
+import { normalizeSheetLayout, type ScheduleSheetLayout } from "./sheetLayout";
+import { DEFAULT_FLOW_SCHEDULE, normalizeFlowSchedule, type FlowSchedule } from "./flowSchedule";
+import { parseLlmProvider, type LlmProviderName } from "./llmProvider";
+import { DEFAULT_PROMPT_PERSONA, normalizePromptPersona, type PromptPersona } from "./promptRegistry";
+import type { LlmUsageContext } from "./llmUsage";
+import { RUN_HISTORY_DEFAULT_RETENTION_DAYS } from "./workflow";
+import { SNAPSHOT_DEFAULT_RETENTION_DAYS } from "./snapshotStore";
+
 export interface Bindings {
-  OPENAI_API_KEY: string;
+  OPENAI_API_KEY?: string;
   OPENAI_MODEL?: string;
+  LLM_PROVIDER?: string;
+  ANTHROPIC_API_KEY?: string;
+  ANTHROPIC_MODEL?: string;
+  AZURE_OPENAI_ENDPOINT?: string;
+  AZURE_OPENAI_API_KEY?: string;
+  AZURE_OPENAI_DEPLOYMENT?: string;
+  AZURE_OPENAI_API_VERSION?: string;
+  LLM_FIXTURES?: string;
+  LLM_MONTHLY_BUDGET_USD?: string;
+  LLM_PRICING?: string;
+  PROMPT_PERSONA?: string;
+  MENTION_EVAL_CAPTURE?: string;
   NOTION_OAUTH_ACCESS_TOKEN?: string;
   NOTION_DATABASE_ID?: string;
   NOTION_DATE_PROPERTY?: string;
@@ -24,19 +44,67 @@ export interface Bindings {
   MEMBER_SLACK_MAP?: string;
   MEMBER_WHITELIST?: string;
   GITHUB_TOKEN?: string;
+  GITHUB_REPOS?: string;
   GOOGLE_SHEETS_ID?: string;
   GOOGLE_SHEETS_API_KEY?: string;
   GOOGLE_SHEETS_RANGE?: string;
+  GOOGLE_SHEETS_LAYOUT?: string;
+  GOOGLE_SERVICE_ACCOUNT_EMAIL?: string;
+  GOOGLE_SERVICE_ACCOUNT_KEY?: string;
+  GOOGLE_SHEETS_WRITEBACK?: string;
+  GOOGLE_SHEETS_LOG_SHEET?: string;
+  GOOGLE_SHEETS_ACTUAL_SHEET?: string;
   REFERENCE_DB_URL?: string;
   PROJECT_DB_ID?: string;
   DRY_RUN?: string;
   REQUIRE_APPROVAL?: string;
+  ADMIN_API_KEYS?: string;
+  RUN_HISTORY_RETENTION_DAYS?: string;
+  SNAPSHOT_RETENTION_DAYS?: string;
+  SPRINT_PLANNING_LEAD_DAYS?: string;
+  SP_SCALE?: string;
+  BUSINESS_HOLIDAYS?: string;
+  FLOW_SCHEDULE?: string;
+  STATE_BACKEND?: string;
   NOTIFY_CACHE: KVNamespace;
+  PMO_DB?: D1Database;
+}
+
+export type AdminScope = "read" | "trigger" | "mutate";
+
+export interface AdminApiKey {
+  id: string;
+  secret: string;
+  scopes: AdminScope[];
+  /** 指定時はこのチャンネルを対象とするリクエストのみ許可 */
+  channels?: string[];
 }
 
 export interface AppConfig {
-  openaiApiKey: string;
+  /** LLM_PROVIDER（チャンネル設定で上書き可） */
+  llmProvider: LlmProviderName;
+  /** チャンネル設定のモデル指定。未指定なら各プロバイダの既定モデル */
+  llmModel?: string;
+  openaiApiKey?: string;
   openaiModel: string;
+  anthropicApiKey?: string;
+  anthropicModel: string;
+  azureOpenaiEndpoint?: string;
+  azureOpenaiApiKey?: string;
+  azureOpenaiDeployment?: string;
+  azureOpenaiApiVersion: string;
+  /** fixture プロバイダの応答（JSON） */
+  llmFixtures?: string;
+  /** 月間の LLM 推定コスト上限（USD、未設定 / 0 = 無制限）。超過時は任意の LLM 呼び出しを省略 */
+  llmMonthlyBudgetUsd?: number;
+  /** モデル名の前方一致 → [入力, 出力] USD / 1M tokens（組み込みの単価表を上書き） */
+  llmPricing?: Record<string, [number, number]>;
+  /** フロー実行ごとの LLM コンテキスト（使用量の記録先・使ったプロンプトのバージョン）。withLlmUsage で付与 */
+  llmUsage?: LlmUsageContext;
+  /** プロンプトのキャラクター名・口調・言語・追加ルール（チャンネル設定で上書き可） */
+  promptPersona: PromptPersona;
+  /** メンションの入力と LLM 応答を評価用サンプルとして保存するか（mentionEval） */
+  mentionEvalCapture: boolean;
   notionToken: string;
   notionDatabaseId?: string;
   notionDateProperty: string;
@@ -59,18 +127,44 @@ export interface AppConfig {
   memberDbId?: string;
   memberSlackMap: Record<string, string>;
   memberWhitelist: string[];
+  githubToken?: string;
+  githubRepos: string[];
   googleSheetsId?: string;
   googleSheetsApiKey?: string;
   googleSheetsRange?: string;
+  /** シートのレイアウト（ヘッダー行・列名・日付形式）。未設定なら自動検出 */
+  googleSheetsLayout?: ScheduleSheetLayout;
+  /** サービスアカウント（設定時は API キーの代わりに OAuth で読み書き） */
+  googleServiceAccountEmail?: string;
+  googleServiceAccountKey?: string;
+  /** 実績SP・ステータスをマスタースケジュールへ書き戻すか */
+  googleSheetsWriteBack: boolean;
+  /** 書き戻しの変更履歴を追記するシート名 */
+  googleSheetsLogSheet: string;
+  /** 週ごとの実績SPを書き出すシート名（計画セルは上書きしない） */
+  googleSheetsActualSheet: string;
   referenceDbId?: string;
   projectDbId?: string;
   dryRun: boolean;
   requireApproval: "never" | "always";
+  adminApiKeys: AdminApiKey[];
   mcpServerUrl: string;
   mcpAuthToken?: string;
   allowedTools: string[];
   maxRetries: number;
   dedupeTtlSeconds: number;
+  /** 次スプリント開始の何日前に計画提案を出すか（0 = 自動提案しない） */
+  sprintPlanningLeadDays: number;
+  /** フロー実行履歴の保存日数 */
+  runHistoryRetentionDays: number;
+  /** スプリント履歴スナップショットの保存日数 */
+  snapshotRetentionDays: number;
+  /** LLM が提案した SP 変更で許可する値（null = 未設定、0 以上なら何でも可） */
+  spScale: number[] | null;
+  /** 独自の休業日（"YYYY-MM-DD [名前]" / "YYYY-MM-DD..YYYY-MM-DD [名前]"）。土日・祝日は組み込み */
+  businessHolidays: string[];
+  /** 朝の確認・リマインド・PM レポート・終業リマインドの時刻と曜日（チャンネル設定で上書き可） */
+  flowSchedule: FlowSchedule;
 }
 
 const DEFAULT_PROPERTIES = ["確定 見積SP", "確定 実績SP", "確定 想定"];
@@ -123,8 +217,102 @@ const parseMemberSlackMap = (value?: string): Record<string, string> => {
   return {};
 };
 
+const parseNonNegativeInt = (value: string | undefined, fallback: number): number => {
+  const n = parseInt(value ?? "", 10);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const n = parseInt(value ?? "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+const parseBudget = (value?: string): number | undefined => {
+  const n = parseFloat(value ?? "");
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const parseLlmPricing = (value?: string): Record<string, [number, number]> | undefined => {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value) as Record<string, unknown>;
+    const pricing: Record<string, [number, number]> = {};
+    for (const [model, price] of Object.entries(parsed)) {
+      if (Array.isArray(price) && price.length === 2 && price.every((p) => typeof p === "number" && p >= 0)) {
+        pricing[model] = [price[0], price[1]];
+      }
+    }
+    return pricing;
+  } catch {
+    console.error("LLM_PRICING is not valid JSON; using the built-in prices");
+    return undefined;
+  }
+};
+
+const parseSpScale = (value?: string): number[] | null => {
+  const scale = parseList(value, [])
+    .map(Number)
+    .filter((n) => Number.isFinite(n) && n >= 0);
+  return scale.length > 0 ? [...new Set(scale)].sort((a, b) => a - b) : null;
+};
+
+const ADMIN_SCOPES: AdminScope[] = ["read", "trigger", "mutate"];
+
+const parseAdminApiKeys = (value?: string): AdminApiKey[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((k) => k && typeof k.id === "string" && typeof k.secret === "string" && k.secret.length > 0)
+      .map((k) => ({
+        id: k.id,
+        secret: k.secret,
+        scopes: (Array.isArray(k.scopes) ? k.scopes : []).filter((s: string) =>
+          ADMIN_SCOPES.includes(s as AdminScope)
+        ),
+        channels: Array.isArray(k.channels) && k.channels.length > 0 ? k.channels.map(String) : undefined
+      }));
+  } catch {
+    console.error("ADMIN_API_KEYS is not valid JSON; admin API disabled");
+    return [];
+  }
+};
+
+const parseSheetLayout = (value?: string): ScheduleSheetLayout | undefined => {
+  if (!value) return undefined;
+  try {
+    const layout = normalizeSheetLayout(JSON.parse(value));
+    if (layout) return layout;
+  } catch { /* fall through */ }
+  console.error("GOOGLE_SHEETS_LAYOUT is not a valid layout; falling back to auto-detection");
+  return undefined;
+};
+
+const parsePromptPersona = (value?: string): PromptPersona => {
+  if (!value) return DEFAULT_PROMPT_PERSONA;
+  try {
+    const persona = normalizePromptPersona(JSON.parse(value));
+    if (persona) return persona;
+  } catch { /* fall through */ }
+  console.error("PROMPT_PERSONA is not a valid persona; falling back to the default");
+  return DEFAULT_PROMPT_PERSONA;
+};
+
+const parseFlowSchedule = (value?: string): FlowSchedule => {
+  if (!value) return DEFAULT_FLOW_SCHEDULE;
+  try {
+    const schedule = normalizeFlowSchedule(JSON.parse(value));
+    if (schedule) return schedule;
+  } catch { /* fall through */ }
+  console.error("FLOW_SCHEDULE is not a valid schedule; falling back to the default");
+  return DEFAULT_FLOW_SCHEDULE;
+};
+
 export function getConfig(env: Bindings): AppConfig {
-  if (!env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is required");
+  const llmProvider = env.LLM_PROVIDER ? parseLlmProvider(env.LLM_PROVIDER) : "openai";
+  if (!llmProvider) throw new Error(`Unknown LLM_PROVIDER: ${env.LLM_PROVIDER}`);
+  if (llmProvider === "openai" && !env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY is required");
   if (!env.NOTION_OAUTH_ACCESS_TOKEN)
     throw new Error("NOTION_OAUTH_ACCESS_TOKEN is required");
 
@@ -134,8 +322,20 @@ export function getConfig(env: Bindings): AppConfig {
   const referenceDbId = extractNotionIdFromUrl(env.REFERENCE_DB_URL);
 
   return {
+    llmProvider,
     openaiApiKey: env.OPENAI_API_KEY,
     openaiModel: env.OPENAI_MODEL || "gpt-4.1-mini",
+    anthropicApiKey: env.ANTHROPIC_API_KEY,
+    anthropicModel: env.ANTHROPIC_MODEL || "claude-sonnet-4-5",
+    azureOpenaiEndpoint: env.AZURE_OPENAI_ENDPOINT,
+    azureOpenaiApiKey: env.AZURE_OPENAI_API_KEY,
+    azureOpenaiDeployment: env.AZURE_OPENAI_DEPLOYMENT,
+    azureOpenaiApiVersion: env.AZURE_OPENAI_API_VERSION || "2025-04-01-preview",
+    llmFixtures: env.LLM_FIXTURES,
+    llmMonthlyBudgetUsd: parseBudget(env.LLM_MONTHLY_BUDGET_USD),
+    llmPricing: parseLlmPricing(env.LLM_PRICING),
+    promptPersona: parsePromptPersona(env.PROMPT_PERSONA),
+    mentionEvalCapture: parseBool(env.MENTION_EVAL_CAPTURE),
     notionToken: env.NOTION_OAUTH_ACCESS_TOKEN,
     notionDatabaseId: env.NOTION_DATABASE_ID || taskDbId || sprintDbId,
     notionDateProperty: env.NOTION_DATE_PROPERTY || "期間",
@@ -159,17 +359,32 @@ export function getConfig(env: Bindings): AppConfig {
     memberDbId,
     memberSlackMap: parseMemberSlackMap(env.MEMBER_SLACK_MAP),
     memberWhitelist: parseList(env.MEMBER_WHITELIST, []),
+    githubToken: env.GITHUB_TOKEN,
+    githubRepos: parseList(env.GITHUB_REPOS, []),
     googleSheetsId: env.GOOGLE_SHEETS_ID,
     googleSheetsApiKey: env.GOOGLE_SHEETS_API_KEY,
     googleSheetsRange: env.GOOGLE_SHEETS_RANGE,
+    googleSheetsLayout: parseSheetLayout(env.GOOGLE_SHEETS_LAYOUT),
+    googleServiceAccountEmail: env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
+    googleServiceAccountKey: env.GOOGLE_SERVICE_ACCOUNT_KEY,
+    googleSheetsWriteBack: parseBool(env.GOOGLE_SHEETS_WRITEBACK),
+    googleSheetsLogSheet: env.GOOGLE_SHEETS_LOG_SHEET || "変更履歴",
+    googleSheetsActualSheet: env.GOOGLE_SHEETS_ACTUAL_SHEET || "実績",
     referenceDbId,
     projectDbId: env.PROJECT_DB_ID,
     dryRun: parseBool(env.DRY_RUN),
     requireApproval: env.REQUIRE_APPROVAL === "always" ? "always" : "never",
+    adminApiKeys: parseAdminApiKeys(env.ADMIN_API_KEYS),
     mcpServerUrl: env.MCP_SERVER_URL || "https://mcp.notion.com/mcp",
     mcpAuthToken: env.MCP_AUTH_TOKEN,
     allowedTools: ["search", "fetch"],
     maxRetries: 3,
-    dedupeTtlSeconds: 7 * 24 * 3600
+    dedupeTtlSeconds: 7 * 24 * 3600,
+    sprintPlanningLeadDays: parseNonNegativeInt(env.SPRINT_PLANNING_LEAD_DAYS, 2),
+    runHistoryRetentionDays: parsePositiveInt(env.RUN_HISTORY_RETENTION_DAYS, RUN_HISTORY_DEFAULT_RETENTION_DAYS),
+    snapshotRetentionDays: parsePositiveInt(env.SNAPSHOT_RETENTION_DAYS, SNAPSHOT_DEFAULT_RETENTION_DAYS),
+    spScale: parseSpScale(env.SP_SCALE),
+    businessHolidays: parseList(env.BUSINESS_HOLIDAYS, []),
+    flowSchedule: parseFlowSchedule(env.FLOW_SCHEDULE)
   };
 }
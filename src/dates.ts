@@ -0,0 +1,10 @@
+// ── Date helpers ────────────────────────────────────────────────────────────
+// Arithmetic on "YYYY-MM-DD" dates, done in UTC so the result never depends on
+// the runtime's time zone.
+
+/** Calendar days from `from` to `to` (negative when `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000
+  );
+}
@@ -1,5 +1,6 @@
 import type { Bindings } from "./config";
 import type { SprintSummary } from "./schema";
+import { getStore } from "./storage";
 
 const encoder = new TextEncoder();
 
@@ -23,10 +24,10 @@ export async function isDuplicateAndRemember(
   hash: string,
   ttlSeconds: number
 ): Promise<boolean> {
-  const existing = await env.NOTIFY_CACHE.get(key);
+  const existing = await getStore(env).get(key);
   if (existing === hash) {
     return true;
   }
-  await env.NOTIFY_CACHE.put(key, hash, { expirationTtl: ttlSeconds });
+  await getStore(env).put(key, hash, { expirationTtl: ttlSeconds });
   return false;
 }
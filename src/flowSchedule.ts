@@ -0,0 +1,143 @@
+// ── Per-channel flow schedule ───────────────────────────────────────────────
+// A single */5 cron (runFlowDispatcher in index.ts) checks each channel's schedule
+// and runs the flows whose time falls in the current 5-minute slot.
+
+export interface FlowSchedule {
+  /** 朝の確認メッセージ（JST "HH:MM"）。振り返り・持ち越し・計画提案も同時刻 */
+  morningTime: string;
+  /** 未返信メンバーへのリマインド間隔（分） */
+  reminderIntervalMinutes: number;
+  /** リマインド回数（0 = リマインドしない） */
+  reminderCount: number;
+  /** PM レポート（JST "HH:MM"） */
+  eveningTime: string;
+  /** 終業リマインド（JST "HH:MM"、"00:00" = 日付が変わった直後） */
+  eodTime: string;
+  /** 稼働曜日（0 = 日 … 6 = 土）。営業日カレンダーの週の形もこれに従う */
+  activeWeekdays: number[];
+}
+
+export type DispatchedFlow = "morning" | "reminder" | "evening" | "pm-reminder" | "eod-reminder";
+
+export const DEFAULT_FLOW_SCHEDULE: FlowSchedule = {
+  morningTime: "09:00",
+  reminderIntervalMinutes: 10,
+  reminderCount: 5,
+  eveningTime: "10:00",
+  eodTime: "00:00",
+  activeWeekdays: [1, 2, 3, 4, 5]
+};
+
+export const DISPATCH_INTERVAL_MINUTES = 5;
+/** PM 未返信リマインドは PM レポートの 1 時間後から毎時、この時刻まで */
+const PM_REMINDER_UNTIL = 19 * 60;
+const WEEKDAY_SHORT = ["日", "月", "火", "水", "木", "金", "土"];
+
+const TIME_RE = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/** "HH:MM" → minutes since midnight, null if malformed */
+export function parseClockTime(value: unknown): number | null {
+  const match = typeof value === "string" ? value.trim().match(TIME_RE) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+const formatClockTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+/** Fill a partial schedule (channel config / FLOW_SCHEDULE) with defaults, null if any field is invalid */
+export function normalizeFlowSchedule(value: unknown): FlowSchedule | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  const time = (key: "morningTime" | "eveningTime" | "eodTime") => {
+    if (v[key] == null) return DEFAULT_FLOW_SCHEDULE[key];
+    const minutes = parseClockTime(v[key]);
+    return minutes == null ? null : formatClockTime(minutes);
+  };
+  const count = (key: "reminderIntervalMinutes" | "reminderCount", min: number, max: number) => {
+    if (v[key] == null) return DEFAULT_FLOW_SCHEDULE[key];
+    const n = Number(v[key]);
+    return Number.isInteger(n) && n >= min && n <= max ? n : null;
+  };
+
+  const morningTime = time("morningTime");
+  const eveningTime = time("eveningTime");
+  const eodTime = time("eodTime");
+  const reminderIntervalMinutes = count("reminderIntervalMinutes", DISPATCH_INTERVAL_MINUTES, 240);
+  const reminderCount = count("reminderCount", 0, 12);
+  const activeWeekdays = v.activeWeekdays == null
+    ? DEFAULT_FLOW_SCHEDULE.activeWeekdays
+    : Array.isArray(v.activeWeekdays) && v.activeWeekdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    ? [...new Set(v.activeWeekdays as number[])].sort()
+    : null;
+  if (!morningTime || !eveningTime || !eodTime || reminderIntervalMinutes == null || reminderCount == null || !activeWeekdays) {
+    return null;
+  }
+  return { morningTime, reminderIntervalMinutes, reminderCount, eveningTime, eodTime, activeWeekdays };
+}
+
+/** JST date / minutes since midnight / weekday of `now` */
+export function jstClock(now: Date = new Date()): { date: string; minutes: number; weekday: number } {
+  const jst = new Date(now.getTime() + 9 * 60 * 60 * 1000);
+  return {
+    date: jst.toISOString().slice(0, 10),
+    minutes: jst.getUTCHours() * 60 + jst.getUTCMinutes(),
+    weekday: jst.getUTCDay()
+  };
+}
+
+/** Minutes elapsed since the latest `expected` clock time (wraps past midnight) */
+export function minutesSince(expected: number, minutes: number): number {
+  return (minutes - expected + 24 * 60) % (24 * 60);
+}
+
+/** Minutes since midnight the flow is scheduled at (reminders: every run) */
+export function scheduledMinutes(schedule: FlowSchedule, flow: DispatchedFlow): number[] {
+  const morning = parseClockTime(schedule.morningTime)!;
+  const evening = parseClockTime(schedule.eveningTime)!;
+  switch (flow) {
+    case "morning":
+      return [morning];
+    case "evening":
+      return [evening];
+    case "eod-reminder":
+      return [parseClockTime(schedule.eodTime)!];
+    case "reminder":
+      return Array.from({ length: schedule.reminderCount }, (_, i) => morning + (i + 1) * schedule.reminderIntervalMinutes)
+        .filter((m) => m < 24 * 60);
+    case "pm-reminder": {
+      const runs: number[] = [];
+      for (let m = Math.ceil((evening + 60) / 60) * 60; m <= PM_REMINDER_UNTIL; m += 60) runs.push(m);
+      return runs;
+    }
+  }
+}
+
+const ALL_FLOWS: DispatchedFlow[] = ["morning", "reminder", "evening", "pm-reminder", "eod-reminder"];
+
+/**
+ * Flows due in the slot starting at `minutes` (the cron may fire a few seconds late,
+ * so a time counts when it falls in [slot, slot + DISPATCH_INTERVAL_MINUTES)).
+ * Weekday gating is left to the caller.
+ */
+export function dueFlows(schedule: FlowSchedule, minutes: number): DispatchedFlow[] {
+  const slot = minutes - (minutes % DISPATCH_INTERVAL_MINUTES);
+  return ALL_FLOWS.filter((flow) =>
+    scheduledMinutes(schedule, flow).some((m) => m >= slot && m < slot + DISPATCH_INTERVAL_MINUTES)
+  );
+}
+
+/** e.g. "月火水木金" (Monday first) */
+export function formatWeekdays(weekdays: number[]): string {
+  return [1, 2, 3, 4, 5, 6, 0]
+    .filter((d) => weekdays.includes(d))
+    .map((d) => WEEKDAY_SHORT[d])
+    .join("") || "なし";
+}
+
+/** e.g. "朝 09:00（リマインド 10分毎×5）/ PMレポート 10:00 / 終業 00:00 / 月火水木金" */
+export function formatFlowSchedule(schedule: FlowSchedule): string {
+  const reminder = schedule.reminderCount > 0
+    ? `リマインド ${schedule.reminderIntervalMinutes}分毎×${schedule.reminderCount}`
+    : "リマインドなし";
+  return `朝 ${schedule.morningTime}（${reminder}）/ PMレポート ${schedule.eveningTime} / 終業 ${schedule.eodTime} / ${formatWeekdays(schedule.activeWeekdays)}`;
+}
@@ -0,0 +1,232 @@
+import type { StateStore } from "./storage";
+import type { SprintTasksSummary } from "./schema";
+import { isCompletedStatus } from "./notionApi";
+import { addDays } from "./sheetsApi";
+import { daysBetween } from "./dates";
+import { listSnapshotSprints, findSnapshotSprint, getSprintSnapshotSeries, type SprintDaySnapshot } from "./snapshotStore";
+import { countWorkingDays, isWorkingDay, nthWorkingDay, type BusinessCalendar } from "./businessCalendar";
+
+// ── Velocity / completion forecast ──────────────────────────────────────────
+// Monte Carlo over per-day completed SP taken from the long-term snapshot history
+// (all sprints of the scope), instead of a single 7-day average.
+
+export interface DailyVelocitySample {
+  date: string;
+  sprintId: string;
+  completedSp: number;
+}
+
+export interface SprintForecast {
+  today: string;
+  sprintEndDate: string;
+  remainingSp: number;
+  sampleDays: number;
+  trials: number;
+  avgDailySp: number;
+  p50Date: string | null;           // null = not finished within the horizon
+  p85Date: string | null;
+  probabilityByEnd: number;         // 0–1, finishing on or before sprintEndDate
+}
+
+const DEFAULT_LOOKBACK_DAYS = 90;
+const MIN_SAMPLE_DAYS = 5;
+const DEFAULT_TRIALS = 2000;
+const HORIZON_DAYS = 180; // working days
+
+/** SP completed between two consecutive daily snapshots (progress_sp delta, task diff as fallback) */
+function completedBetween(prev: SprintDaySnapshot, curr: SprintDaySnapshot): number {
+  if (prev.progressSp != null && curr.progressSp != null) {
+    return Math.max(curr.progressSp - prev.progressSp, 0);
+  }
+  const prevById = new Map(prev.tasks.map((t) => [t.id, t]));
+  let sp = 0;
+  for (const task of curr.tasks) {
+    const before = prevById.get(task.id);
+    if (before && isCompletedStatus(task.status) && !isCompletedStatus(before.status)) {
+      sp += task.sp ?? 0;
+    }
+  }
+  return sp;
+}
+
+/**
+ * Per-working-day completed SP across past and current sprints of a scope (channel ID, null = global).
+ * Only pairs of snapshots exactly one day apart count, so a missed 05:00 run doesn't inflate a day.
+ * A pair covers the work of its earlier day; SP finished on a non-working day is added to the
+ * next working day instead of counting as a day of its own.
+ */
+export async function collectDailyCompletedSp(
+  kv: StateStore,
+  today: string,
+  scope: string | null,
+  calendar: BusinessCalendar,
+  lookbackDays = DEFAULT_LOOKBACK_DAYS
+): Promise<DailyVelocitySample[]> {
+  const since = addDays(today, -lookbackDays);
+  const sprints = (await listSnapshotSprints(kv)).filter(
+    (s) => s.scope === scope && s.endDate >= since && s.startDate <= today
+  );
+
+  const samples: DailyVelocitySample[] = [];
+  for (const sprint of sprints) {
+    const series = (await getSprintSnapshotSeries(kv, sprint.sprintId))
+      .filter((s) => s.date >= since && s.date <= today);
+    let carried = 0;
+    for (let i = 1; i < series.length; i++) {
+      if (daysBetween(series[i - 1].date, series[i].date) !== 1) {
+        carried = 0;
+        continue;
+      }
+      const completedSp = completedBetween(series[i - 1], series[i]);
+      if (!isWorkingDay(calendar, series[i - 1].date)) {
+        carried += completedSp;
+        continue;
+      }
+      samples.push({ date: series[i].date, sprintId: sprint.sprintId, completedSp: completedSp + carried });
+      carried = 0;
+    }
+  }
+  return samples.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Remaining SP of the sprint: plan_sp - progress_sp, else the SP of open tasks */
+export function remainingSpOf(summary: SprintTasksSummary): number {
+  const plan = summary.sprint_metrics?.plan_sp;
+  const progress = summary.sprint_metrics?.progress_sp;
+  if (typeof plan === "number" && typeof progress === "number") {
+    return Math.max(plan - progress, 0);
+  }
+  return summary.assignees.reduce(
+    (sum, a) => sum + a.tasks
+      .filter((t) => !isCompletedStatus(t.status))
+      .reduce((s, t) => s + (t.sp ?? 0), 0),
+    0
+  );
+}
+
+// mulberry32: seeded so the same day's forecast is reproducible across runs
+function seededRandom(seed: string): () => number {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  }
+  let a = h >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Bootstrap forecast: each trial draws daily velocities from the samples until the
+ * remaining SP is burnt, one draw per working day. Today counts as the first working day
+ * (runs at 09:00 JST) unless it is a holiday. Returns null when there are fewer than
+ * MIN_SAMPLE_DAYS samples.
+ */
+export function monteCarloForecast(
+  samples: number[],
+  remainingSp: number,
+  today: string,
+  sprintEndDate: string,
+  calendar: BusinessCalendar,
+  trials = DEFAULT_TRIALS
+): SprintForecast | null {
+  if (samples.length < MIN_SAMPLE_DAYS) return null;
+
+  const avgDailySp = Math.round((samples.reduce((s, v) => s + v, 0) / samples.length) * 100) / 100;
+  const base = {
+    today,
+    sprintEndDate,
+    remainingSp,
+    sampleDays: samples.length,
+    trials,
+    avgDailySp
+  };
+  if (remainingSp <= 0) {
+    return { ...base, p50Date: today, p85Date: today, probabilityByEnd: 1 };
+  }
+
+  const random = seededRandom(`${today}:${remainingSp}`);
+  const daysAvailable = countWorkingDays(calendar, today, sprintEndDate);
+  const finishDays: number[] = [];
+  let onTime = 0;
+  for (let trial = 0; trial < trials; trial++) {
+    let done = 0;
+    let day = 0;
+    while (done < remainingSp && day < HORIZON_DAYS) {
+      done += samples[Math.floor(random() * samples.length)];
+      day++;
+    }
+    const finished = done >= remainingSp ? day : Infinity;
+    if (finished <= daysAvailable) onTime++;
+    finishDays.push(finished);
+  }
+  finishDays.sort((a, b) => a - b);
+
+  const percentileDate = (p: number): string | null => {
+    const days = finishDays[Math.min(Math.ceil(p * trials) - 1, trials - 1)];
+    return Number.isFinite(days) ? nthWorkingDay(calendar, today, days) : null;
+  };
+
+  return {
+    ...base,
+    p50Date: percentileDate(0.5),
+    p85Date: percentileDate(0.85),
+    probabilityByEnd: Math.round((onTime / trials) * 100) / 100
+  };
+}
+
+/**
+ * Sprint forecast from the snapshot history (null = not enough history yet).
+ * The scope follows the current sprint's snapshots, so a mention in any channel sharing
+ * the sprint DB sees the same history as the 05:00 job that recorded it.
+ */
+export async function forecastSprintCompletion(
+  kv: StateStore,
+  summary: SprintTasksSummary,
+  today: string,
+  calendar: BusinessCalendar,
+  channelId?: string
+): Promise<SprintForecast | null> {
+  const current = await findSnapshotSprint(kv, summary.sprint.id, channelId ?? null);
+  const scope = current ? current.scope : channelId ?? null;
+  const samples = await collectDailyCompletedSp(kv, today, scope, calendar);
+  return monteCarloForecast(
+    samples.map((s) => s.completedSp),
+    remainingSpOf(summary),
+    today,
+    summary.sprint.end_date,
+    calendar
+  );
+}
+
+function shortDate(date: string): string {
+  const [, m, d] = date.split("-");
+  return `${Number(m)}/${Number(d)}`;
+}
+
+/** e.g. "68%の確率でスプリント終了日 3/28 までに完了（P50: 3/26 / P85: 3/31）" */
+export function formatForecastText(forecast: SprintForecast): string {
+  const pct = Math.round(forecast.probabilityByEnd * 100);
+  const p50 = forecast.p50Date ? shortDate(forecast.p50Date) : `${HORIZON_DAYS}営業日以内に完了見込みなし`;
+  const p85 = forecast.p85Date ? shortDate(forecast.p85Date) : `${HORIZON_DAYS}営業日以内に完了見込みなし`;
+  return `${pct}%の確率でスプリント終了日 ${shortDate(forecast.sprintEndDate)} までに完了（P50: ${p50} / P85: ${p85}）`;
+}
+
+/** Compact shape for LLM prompts */
+export function forecastContextForLlm(forecast: SprintForecast | null | undefined): Record<string, unknown> | null {
+  if (!forecast) return null;
+  return {
+    remaining_sp: forecast.remainingSp,
+    sprint_end_date: forecast.sprintEndDate,
+    p50_completion_date: forecast.p50Date,
+    p85_completion_date: forecast.p85Date,
+    probability_by_sprint_end: forecast.probabilityByEnd,
+    sample_days: forecast.sampleDays,
+    avg_daily_sp: forecast.avgDailySp,
+    summary_text: formatForecastText(forecast)
+  };
+}
@@ -0,0 +1,389 @@
+import type { AppConfig } from "./config";
+import type { SprintTasksSummary } from "./schema";
+import { withRetry } from "./retry";
+import { isDoingStatus } from "./notionApi";
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export type PrReviewState = "draft" | "review_required" | "changes_requested" | "approved";
+
+export interface GitHubPullRequest {
+  /** "owner/repo" */
+  repo: string;
+  number: number;
+  title: string;
+  url: string;
+  state: "open" | "merged" | "closed";
+  author: string | null;
+  branch: string;
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+  /** Open PR のみ。merged/closed は null */
+  reviewState: PrReviewState | null;
+  /** レビュー待ち開始日時（作成 or 最終コミットの遅い方）。レビュー待ちでなければ null */
+  reviewWaitingSince: string | null;
+  lastCommitAt: string | null;
+}
+
+export interface GitHubCommit {
+  repo: string;
+  sha: string;
+  /** コミットメッセージの1行目 */
+  message: string;
+  author: string | null;
+  date: string;
+}
+
+export interface TaskGitHubLink {
+  taskId: string;
+  taskName: string;
+  assignees: string[];
+  status: string | null;
+  pullRequests: Array<{
+    repo: string;
+    number: number;
+    url: string;
+    state: GitHubPullRequest["state"];
+    reviewState: PrReviewState | null;
+  }>;
+  lastCommitAt: string | null;
+  daysSinceLastCommit: number | null;
+}
+
+export interface GitHubActivity {
+  pullRequests: GitHubPullRequest[];
+  commits: GitHubCommit[];
+  taskLinks: TaskGitHubLink[];
+  /** Notion 上は Doing だが IDLE_COMMIT_DAYS 日以上コミットがないタスク */
+  idleDoingTasks: Array<{
+    id: string;
+    name: string;
+    assignees: string[];
+    daysSinceLastCommit: number;
+  }>;
+  /** REVIEW_WAIT_DAYS 日以上レビュー待ちの PR */
+  reviewWaitingPrs: Array<{
+    repo: string;
+    number: number;
+    title: string;
+    url: string;
+    author: string | null;
+    waitingDays: number;
+    taskName: string | null;
+  }>;
+}
+
+// ── Constants ───────────────────────────────────────────────────────────────
+
+export const IDLE_COMMIT_DAYS = 3;
+export const REVIEW_WAIT_DAYS = 2;
+
+const LOOKBACK_DAYS = 14;
+const MAX_PULLS_PER_REPO = 50;
+/** Open PR ごとに reviews / commits を取りに行くので subrequest 数を抑える */
+const MAX_OPEN_PRS_PER_REPO = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ── Fetch ───────────────────────────────────────────────────────────────────
+
+async function githubRequest<T>(config: AppConfig, path: string): Promise<T> {
+  return withRetry(
+    async () => {
+      const res = await fetch(`https://api.github.com/${path}`, {
+        headers: {
+          Authorization: `Bearer ${config.githubToken}`,
+          Accept: "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+          // GitHub API rejects requests without a User-Agent
+          "User-Agent": "notion-pmo-worker"
+        }
+      });
+      if (!res.ok) {
+        const detail = await res.text();
+        throw new Error(`GitHub API error: ${res.status} ${detail}`);
+      }
+      return (await res.json()) as T;
+    },
+    { label: `GitHub ${path.split("?")[0]}`, maxRetries: config.maxRetries }
+  );
+}
+
+/**
+ * Latest review per reviewer → PR 全体のレビュー状態。
+ * CHANGES_REQUESTED が1人でもいれば changes_requested、APPROVED があれば approved。
+ */
+function deriveReviewState(
+  reviews: Array<{ state: string; user?: { login?: string } | null; submitted_at?: string | null }>,
+  author: string | null,
+  since: string
+): PrReviewState {
+  const latestByReviewer = new Map<string, string>();
+  for (const r of reviews) {
+    const login = r.user?.login;
+    if (!login || login === author) continue;
+    if (r.state === "COMMENTED" || r.state === "PENDING") continue;
+    // Reviews submitted before the latest push are stale for approval purposes,
+    // but a CHANGES_REQUESTED stays in force until dismissed.
+    if (r.state === "APPROVED" && r.submitted_at && r.submitted_at < since) continue;
+    latestByReviewer.set(login, r.state);
+  }
+  const states = [...latestByReviewer.values()];
+  if (states.includes("CHANGES_REQUESTED")) return "changes_requested";
+  if (states.includes("APPROVED")) return "approved";
+  return "review_required";
+}
+
+async function fetchRepoPullRequests(
+  config: AppConfig,
+  repo: string,
+  since: string
+): Promise<GitHubPullRequest[]> {
+  const pulls = await githubRequest<any[]>(
+    config,
+    `repos/${repo}/pulls?state=all&sort=updated&direction=desc&per_page=${MAX_PULLS_PER_REPO}`
+  );
+
+  const recent = pulls.filter((p) => p.state === "open" || p.updated_at >= since);
+  const result: GitHubPullRequest[] = [];
+  let openCount = 0;
+
+  for (const p of recent) {
+    const author: string | null = p.user?.login ?? null;
+    const base: GitHubPullRequest = {
+      repo,
+      number: p.number,
+      title: p.title ?? "",
+      url: p.html_url,
+      state: p.state === "open" ? "open" : p.merged_at ? "merged" : "closed",
+      author,
+      branch: p.head?.ref ?? "",
+      createdAt: p.created_at,
+      updatedAt: p.updated_at,
+      mergedAt: p.merged_at ?? null,
+      reviewState: null,
+      reviewWaitingSince: null,
+      lastCommitAt: null
+    };
+
+    if (base.state !== "open" || openCount >= MAX_OPEN_PRS_PER_REPO) {
+      result.push(base);
+      continue;
+    }
+    openCount++;
+
+    try {
+      const [reviews, commits] = await Promise.all([
+        githubRequest<any[]>(config, `repos/${repo}/pulls/${p.number}/reviews?per_page=100`),
+        githubRequest<any[]>(config, `repos/${repo}/pulls/${p.number}/commits?per_page=100`)
+      ]);
+      const lastCommitAt =
+        commits
+          .map((c) => c.commit?.committer?.date ?? c.commit?.author?.date)
+          .filter((d): d is string => typeof d === "string")
+          .sort()
+          .pop() ?? null;
+      const waitingFrom =
+        lastCommitAt && lastCommitAt > base.createdAt ? lastCommitAt : base.createdAt;
+      const reviewState: PrReviewState = p.draft
+        ? "draft"
+        : deriveReviewState(reviews, author, waitingFrom);
+
+      result.push({
+        ...base,
+        lastCommitAt,
+        reviewState,
+        reviewWaitingSince: reviewState === "review_required" ? waitingFrom : null
+      });
+    } catch (err) {
+      console.warn(`GitHub PR detail skipped (${repo}#${p.number}):`, (err as Error).message);
+      result.push({ ...base, reviewState: p.draft ? "draft" : null });
+    }
+  }
+
+  return result;
+}
+
+async function fetchRepoCommits(
+  config: AppConfig,
+  repo: string,
+  since: string
+): Promise<GitHubCommit[]> {
+  const commits = await githubRequest<any[]>(
+    config,
+    `repos/${repo}/commits?since=${encodeURIComponent(since)}&per_page=100`
+  );
+  return commits.map((c) => ({
+    repo,
+    sha: c.sha,
+    message: String(c.commit?.message ?? "").split("\n")[0],
+    author: c.author?.login ?? c.commit?.author?.name ?? null,
+    date: c.commit?.committer?.date ?? c.commit?.author?.date ?? ""
+  }));
+}
+
+// ── Task linking ────────────────────────────────────────────────────────────
+
+const normalizeForMatch = (value: string): string =>
+  value.toLowerCase().replace(/[\s\-_/:：・【】\[\]()（）]+/g, "");
+
+/** "https://github.com/owner/repo/pull/123" → { repo, number } */
+export function parsePullRequestUrl(
+  url?: string | null
+): { repo: string; number: number } | null {
+  if (!url) return null;
+  const match = url.match(/github\.com\/([^/\s]+\/[^/\s]+)\/pull\/(\d+)/);
+  if (!match) return null;
+  return { repo: match[1].toLowerCase(), number: parseInt(match[2], 10) };
+}
+
+/** "notion-1a2b3c4d" / "notion:1a2b3c4d" (先頭8桁を明示したマーカー) */
+const TASK_MARKER_RE = /(?<![0-9a-z])notion[-:#]([0-9a-f]{8})(?![0-9a-f])/g;
+
+/**
+ * ブランチ名 / PR タイトル / コミットメッセージがタスクを指しているか。
+ * Notion ページ ID 全体（32桁、ハイフン有無どちらも）か `notion-<先頭8桁>` マーカー、
+ * またはタスク名の包含で判定する。素の8桁だけでは別の英数字と誤一致するので見ない。
+ */
+function referencesTask(text: string, task: { id: string; name: string }): boolean {
+  const lower = text.toLowerCase();
+  const compactId = task.id.replace(/-/g, "").toLowerCase();
+  if (lower.replace(/-/g, "").includes(compactId)) return true;
+  for (const match of lower.matchAll(TASK_MARKER_RE)) {
+    if (match[1] === compactId.slice(0, 8)) return true;
+  }
+  const name = normalizeForMatch(task.name);
+  return name.length >= 6 && normalizeForMatch(text).includes(name);
+}
+
+const daysBetween = (fromIso: string, now: Date): number =>
+  Math.floor((now.getTime() - new Date(fromIso).getTime()) / DAY_MS);
+
+export function linkActivityToTasks(
+  summary: SprintTasksSummary,
+  pullRequests: GitHubPullRequest[],
+  commits: GitHubCommit[],
+  now: Date
+): Pick<GitHubActivity, "taskLinks" | "idleDoingTasks" | "reviewWaitingPrs"> {
+  // A task can appear under multiple assignees; collapse by ID
+  const tasks = new Map<
+    string,
+    { id: string; name: string; status: string | null; githubPrUrl: string | null; assignees: string[] }
+  >();
+  for (const a of summary.assignees) {
+    for (const t of a.tasks) {
+      const existing = tasks.get(t.id);
+      if (existing) {
+        existing.assignees.push(a.name);
+        continue;
+      }
+      tasks.set(t.id, {
+        id: t.id,
+        name: t.name,
+        status: t.status ?? null,
+        githubPrUrl: t.githubPrUrl ?? null,
+        assignees: [a.name]
+      });
+    }
+  }
+
+  const taskLinks: TaskGitHubLink[] = [];
+  const prTaskName = new Map<string, string>();
+
+  for (const task of tasks.values()) {
+    const explicit = parsePullRequestUrl(task.githubPrUrl);
+    const linkedPrs = pullRequests.filter((pr) =>
+      explicit
+        ? pr.repo.toLowerCase() === explicit.repo && pr.number === explicit.number
+        : referencesTask(pr.branch, task) || referencesTask(pr.title, task)
+    );
+    const linkedCommits = commits.filter((c) => referencesTask(c.message, task));
+    if (linkedPrs.length === 0 && linkedCommits.length === 0) continue;
+
+    const commitDates = [
+      ...linkedPrs.map((pr) => pr.lastCommitAt ?? (pr.state === "open" ? null : pr.mergedAt ?? pr.updatedAt)),
+      ...linkedCommits.map((c) => c.date)
+    ].filter((d): d is string => !!d);
+    const lastCommitAt = commitDates.sort().pop() ?? null;
+
+    for (const pr of linkedPrs) prTaskName.set(`${pr.repo}#${pr.number}`, task.name);
+
+    taskLinks.push({
+      taskId: task.id,
+      taskName: task.name,
+      assignees: task.assignees,
+      status: task.status,
+      pullRequests: linkedPrs.map((pr) => ({
+        repo: pr.repo,
+        number: pr.number,
+        url: pr.url,
+        state: pr.state,
+        reviewState: pr.reviewState
+      })),
+      lastCommitAt,
+      daysSinceLastCommit: lastCommitAt ? daysBetween(lastCommitAt, now) : null
+    });
+  }
+
+  const idleDoingTasks = taskLinks
+    .filter((l) => {
+      return isDoingStatus(l.status) && l.daysSinceLastCommit != null && l.daysSinceLastCommit >= IDLE_COMMIT_DAYS;
+    })
+    .map((l) => ({
+      id: l.taskId,
+      name: l.taskName,
+      assignees: l.assignees,
+      daysSinceLastCommit: l.daysSinceLastCommit!
+    }));
+
+  const reviewWaitingPrs = pullRequests
+    .filter((pr) => pr.reviewWaitingSince && daysBetween(pr.reviewWaitingSince, now) >= REVIEW_WAIT_DAYS)
+    .map((pr) => ({
+      repo: pr.repo,
+      number: pr.number,
+      title: pr.title,
+      url: pr.url,
+      author: pr.author,
+      waitingDays: daysBetween(pr.reviewWaitingSince!, now),
+      taskName: prTaskName.get(`${pr.repo}#${pr.number}`) ?? null
+    }));
+
+  return { taskLinks, idleDoingTasks, reviewWaitingPrs };
+}
+
+// ── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * 設定されたリポジトリ群から PR・レビュー状態・直近コミットを取得し、
+ * Notion タスクと紐付ける。未設定なら null。リポジトリ単位で失敗してもスキップして続行する。
+ */
+export async function fetchGitHubActivity(
+  config: AppConfig,
+  summary: SprintTasksSummary,
+  now: Date = new Date()
+): Promise<GitHubActivity | null> {
+  if (!config.githubToken || config.githubRepos.length === 0) return null;
+
+  const since = new Date(now.getTime() - LOOKBACK_DAYS * DAY_MS).toISOString();
+  const pullRequests: GitHubPullRequest[] = [];
+  const commits: GitHubCommit[] = [];
+
+  for (const repo of config.githubRepos) {
+    try {
+      const [prs, repoCommits] = await Promise.all([
+        fetchRepoPullRequests(config, repo, since),
+        fetchRepoCommits(config, repo, since)
+      ]);
+      pullRequests.push(...prs);
+      commits.push(...repoCommits);
+    } catch (err) {
+      console.warn(`GitHub fetch skipped for ${repo}:`, (err as Error).message);
+    }
+  }
+
+  return {
+    pullRequests,
+    commits,
+    ...linkActivityToTasks(summary, pullRequests, commits, now)
+  };
+}
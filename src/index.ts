@@ -1,5 +1,42 @@
 import { getConfig, type Bindings, type AppConfig } from "./config";
-import { listAllChannelConfigs, resolveConfig } from "./channelConfig";
+import { getChannelConfig, listAllChannelConfigs, resolveConfig, saveChannelConfig } from "./channelConfig";
+import { ADMIN_ROUTES, authenticateAdminRequest } from "./adminAuth";
+import { withLlmUsage } from "./llmUsage";
+import {
+  builtinPrompt,
+  getEffectivePrompt,
+  isPromptId,
+  listPromptDefinitions,
+  listPromptHistory,
+  normalizePromptPersona,
+  promptVariables,
+  promptVersionLabel,
+  resetPromptTemplate,
+  savePromptTemplate,
+  usedPromptVersions,
+  validatePromptTemplate,
+  type PromptPersona
+} from "./promptRegistry";
+import { parseLlmProvider } from "./llmProvider";
+import {
+  MAX_EVAL_CASES,
+  deleteMentionEvalCase,
+  diffMentionEvalRuns,
+  formatMentionEvalReport,
+  getMentionEvalBaseline,
+  getMentionEvalRun,
+  listMentionEvalCases,
+  listMentionEvalRuns,
+  listMentionEvalSamples,
+  promoteMentionEvalSample,
+  runMentionEval,
+  saveMentionEvalCase,
+  setMentionEvalBaseline,
+  validateMentionEvalCase,
+  type MentionEvalCase,
+  type MentionEvalExpectation
+} from "./mentionEval";
+import { getStore, migrateKvToD1, type StateStore } from "./storage";
 import { buildDedupKey, hashPayload, isDuplicateAndRemember } from "./dedupe";
 import { fetchSprintSummary, fetchFreeText, fetchSprintTasks } from "./notionMcp";
 import {
@@ -19,19 +56,109 @@ import {
   summarizeTasks,
   fetchCurrentSprintTasksSummary,
   fetchSprintCapacity,
+  fetchSprintTaskStates,
+  fetchAllSprints,
+  fetchBacklogTasks,
   isCompletedStatus
 } from "./notionApi";
+import { createChildPage } from "./notionWriter";
+import {
+  saveSprintDaySnapshot,
+  listSnapshotSprints,
+  findSnapshotSprintOn,
+  getSprintStateOn,
+  getSprintSnapshotSeries,
+  getTaskHistory
+} from "./snapshotStore";
+import {
+  collectBurndownSeries,
+  renderBurndownSvg,
+  renderBurndownPng,
+  burndownLegendText
+} from "./burndownChart";
+import { forecastSprintCompletion, formatForecastText } from "./forecast";
+import {
+  businessCalendar,
+  countWorkingDays,
+  isMemberWorkingDay,
+  isWorkingDay,
+  nonWorkingReason,
+  type BusinessCalendar
+} from "./businessCalendar";
+import {
+  dueFlows,
+  jstClock,
+  minutesSince,
+  parseClockTime,
+  type DispatchedFlow,
+  type FlowSchedule
+} from "./flowSchedule";
+import {
+  findEndedSprint,
+  computeSprintRetroMetrics,
+  buildRetroSlackText,
+  buildRetroNotionBlocks,
+  getSprintRetroRecord,
+  saveSprintRetroRecord
+} from "./sprintRetro";
+import {
+  findNextSprint,
+  applyCarryOverDecisions,
+  buildCarryOverText,
+  savePendingCarryOver,
+  getCarryOverRecord,
+  saveCarryOverRecord,
+  type PendingCarryOver
+} from "./carryOver";
+import {
+  findUpcomingSprint,
+  scheduleAllocationsForPeriod,
+  buildSprintPlanItems,
+  buildSprintPlanText,
+  buildSprintPlanBlocks,
+  savePendingSprintPlan,
+  getSprintPlanRecord,
+  saveSprintPlanRecord,
+  type PendingSprintPlan
+} from "./sprintPlanning";
 import { handleSlackEvents } from "./slackEvents";
-import { handleSlackInteractions, buildPmReportButtons, buildEodReminderButtons, buildReminderDeliveryButtons } from "./slackInteractions";
+import { handleSlackCommands } from "./slackCommands";
+import {
+  handleSlackInteractions,
+  buildApprovalButtons,
+  buildPmReportButtons,
+  buildEodReminderButtons,
+  buildReminderDeliveryButtons
+} from "./slackInteractions";
 import { fetchMembers } from "./memberApi";
 import {
   analyzeTasksAndMembers,
   generateAssigneeMessages,
   interpretRepliesAndPropose,
-  matchTasksToSchedule
+  generateSprintRetrospective,
+  proposeCarryOver,
+  proposeSprintPlan
 } from "./llmAnalyzer";
-import { chatPostMessage, conversationsOpen } from "./slackBot";
-import { fetchScheduleData, analyzeScheduleDeviation } from "./sheetsApi";
+import { chatPostMessage, conversationsOpen, filesUploadExternal } from "./slackBot";
+import { fetchScheduleData, analyzeScheduleDeviation, addDays } from "./sheetsApi";
+import { daysBetween } from "./dates";
+import { syncMasterSchedule } from "./sheetsWriter";
+import {
+  resolveTaskScheduleMapping,
+  buildScheduleReviewBlocks,
+  markScheduleReviewPosted,
+  getScheduleTaskLinks,
+  formatScheduleLinks,
+  type ScheduleMappingResult
+} from "./scheduleMapping";
+import { hasServiceAccount } from "./googleAuth";
+import {
+  analyzeScheduleProgress,
+  DEVIATION_STATUS_LABEL,
+  type DeviationEntry,
+  type ScheduleDeviationReport
+} from "./scheduleDeviation";
+import { fetchGitHubActivity } from "./githubApi";
 import {
   saveThreadState,
   savePmThread,
@@ -46,7 +173,14 @@ import {
   getCronHeartbeat,
   getAllCronHeartbeats,
   hasCronAlertBeenSent,
-  markCronAlertSent
+  markCronAlertSent,
+  saveFlowOutcome,
+  getFlowOutcome,
+  listFlowOutcomes,
+  appendRunRecord,
+  listRunRecords,
+  appendAdminAuditLog,
+  listAdminAuditLog
 } from "./workflow";
 
 interface Env extends Bindings {}
@@ -110,10 +244,9 @@ function formatShortDate(dateStr: string): string {
 function formatDeadlineTasksTable(
   summary: SprintTasksSummary,
   today: string,
+  calendar: BusinessCalendar,
   daysThreshold: number = 2
 ): string {
-  const todayDate = new Date(today + "T00:00:00Z");
-
   const groups = new Map<
     string,
     Array<{ name: string; status: string; priority: string; sp: string; due: string }>
@@ -150,10 +283,8 @@ function formatDeadlineTasksTable(
     for (const task of assignee.tasks) {
       if (task.status && isCompletedStatus(task.status)) continue;
       if (!task.due) continue;
-      const dueDate = new Date(task.due + "T00:00:00Z");
-      const daysRemaining = Math.ceil(
-        (dueDate.getTime() - todayDate.getTime()) / 86400000
-      );
+      // Working days left until the due date (today or overdue = 0)
+      const daysRemaining = task.due <= today ? 0 : countWorkingDays(calendar, addDays(today, 1), task.due);
       if (daysRemaining > daysThreshold) continue;
       const group = groups.get(assignee.name) ?? [];
       // Prefix task name with project abbreviation if available
@@ -172,10 +303,10 @@ function formatDeadlineTasksTable(
   }
 
   if (groups.size === 0) {
-    return "【残り期限2日のタスク状況】\n```\n該当タスクなし\n```";
+    return "【残り期限2営業日のタスク状況】\n```\n該当タスクなし\n```";
   }
 
-  const sections: string[] = ["【残り期限2日のタスク状況】"];
+  const sections: string[] = ["【残り期限2営業日のタスク状況】"];
   const headers = ["タスク名", "ステータス", "優先度", "SP", "期限"];
 
   for (const [assigneeName, tasks] of groups) {
@@ -210,6 +341,45 @@ function formatDeadlineTasksTable(
   return sections.join("\n\n");
 }
 
+/** 大項目 rows plus late 小項目 of the deviation engine, as a fixed-width table */
+function formatScheduleDeviationTable(report: ScheduleDeviationReport): string {
+  const fmtSp = (n: number) => String(Math.round(n * 10) / 10);
+  const fmtVar = (n: number) => (n > 0 ? `+${fmtSp(n)}` : fmtSp(n));
+  const toRow = (e: DeviationEntry, label: string): string[] => [
+    label,
+    e.status === "unmapped" ? "-" : fmtSp(e.plannedToDateSp),
+    e.status === "unmapped" ? "-" : fmtSp(e.actualToDateSp),
+    e.status === "unmapped" ? "-" : fmtVar(e.varianceSp),
+    e.plannedEnd ? formatShortDate(e.plannedEnd) : "-",
+    e.projectedEnd ? formatShortDate(e.projectedEnd) : "-",
+    e.slipDays ? `+${e.slipDays}日` : "-",
+    DEVIATION_STATUS_LABEL[e.status]
+  ];
+
+  const rows: string[][] = [];
+  for (const category of report.categories) {
+    rows.push(toRow(category, category.category));
+    for (const item of category.items) {
+      if (item.status === "at_risk" || item.status === "delayed") rows.push(toRow(item, ` └ ${item.item ?? ""}`));
+    }
+  }
+  const headers = ["大項目", "計画累計", "実績", "差異", "予定終了", "予測終了", "遅れ", "状態"];
+  const colWidths = headers.map((h, i) =>
+    Math.max(getDisplayWidth(h), ...rows.map((r) => getDisplayWidth(r[i])))
+  );
+  const { totals } = report;
+  return [
+    "【大項目別スケジュール乖離】",
+    "```",
+    `累計 計画 ${fmtSp(totals.plannedToDateSp)} SP / 実績 ${fmtSp(totals.actualToDateSp)} SP（差異 ${fmtVar(totals.varianceSp)} SP）・最大遅れ ${totals.maxSlipDays}日`,
+    "",
+    headers.map((h, i) => padEndCjk(h, colWidths[i])).join("  "),
+    colWidths.map((w) => "-".repeat(w)).join("  "),
+    ...rows.map((r) => r.map((c, i) => (i === r.length - 1 ? c : padEndCjk(c, colWidths[i]))).join("  ")),
+    "```"
+  ].join("\n");
+}
+
 const jsonResponse = (data: unknown, status = 200): Response =>
   new Response(JSON.stringify(data), {
     status,
@@ -249,7 +419,7 @@ async function buildSprintTasksMeta(
     }))
   );
   const previousSnapshot =
-    ((await env.NOTIFY_CACHE.get(previousKey, "json")) as
+    ((await getStore(env).get(previousKey, "json")) as
       | typeof currentSnapshot
       | null) ?? [];
   const previousById = new Map(
@@ -270,7 +440,7 @@ async function buildSprintTasksMeta(
     }
   }
 
-  await env.NOTIFY_CACHE.put(snapshotKey, JSON.stringify(currentSnapshot), {
+  await getStore(env).put(snapshotKey, JSON.stringify(currentSnapshot), {
     expirationTtl: config.dedupeTtlSeconds
   });
 
@@ -284,13 +454,11 @@ async function buildSprintTasksMeta(
       : null;
   const remainingSp =
     planSp != null && progressSp != null ? planSp - progressSp : null;
-  const endDate = new Date(`${summary.sprint.end_date}T00:00:00Z`);
-  const startDate = new Date(`${summary.sprint.start_date}T00:00:00Z`);
-  const totalDays =
-    Math.ceil((endDate.getTime() - startDate.getTime()) / 86400000) + 1;
-  const elapsedDays =
-    Math.ceil((now.getTime() - startDate.getTime()) / 86400000) + 1;
-  const remainingDays = totalDays > 0 ? Math.max(totalDays - elapsedDays, 1) : 1;
+  // Working days after today until the sprint end
+  const remainingDays = Math.max(
+    countWorkingDays(businessCalendar(config), addDays(todayKey, 1), summary.sprint.end_date),
+    1
+  );
   const requiredSpPerDay =
     typeof summary.sprint_metrics?.required_sp_per_day === "number"
       ? summary.sprint_metrics.required_sp_per_day
@@ -318,7 +486,7 @@ async function runReport(
 ): Promise<Record<string, unknown>> {
   let config: AppConfig | undefined;
   try {
-    config = getConfig(env);
+    config = withLlmUsage(getConfig(env), getStore(env), "report");
     const now = new Date();
     const raw = await fetchSprintSummary(config, now);
     const summary = validateResponse(raw);
@@ -367,7 +535,7 @@ async function runSprintTasksReport(
 ): Promise<Record<string, unknown>> {
   let config: AppConfig | undefined;
   try {
-    config = getConfig(env);
+    config = withLlmUsage(getConfig(env), getStore(env), "report");
     const now = new Date();
     const raw = await fetchSprintTasks(config, now);
     const summary = validateSprintTasks(raw);
@@ -484,45 +652,43 @@ interface TaskSnapshot {
 }
 
 /**
- * Calculate average daily SP consumption over the past 7 days from KV snapshots.
- * Returns the average, or null if insufficient data.
+ * Calculate average daily SP consumption over the past 7 days from the sprint history
+ * snapshots (snapshotStore). Only working days count as days; SP finished on a holiday
+ * still counts. Returns the average, or null if insufficient data.
  */
 export async function calculateAvgDailySpConsumption(
-  kv: KVNamespace,
+  kv: StateStore,
   sprintId: string,
-  today: string
+  today: string,
+  calendar: BusinessCalendar
 ): Promise<{ avgDailySp: number; daysWithData: number } | null> {
-  const todayDate = new Date(today + "T00:00:00Z");
+  const series = await getSprintSnapshotSeries(kv, sprintId);
+  const byDate = new Map(series.map((snapshot) => [snapshot.date, snapshot]));
   let totalCompletedSp = 0;
   let daysWithData = 0;
 
   for (let i = 1; i <= 7; i++) {
-    const d = new Date(todayDate);
-    d.setUTCDate(d.getUTCDate() - i);
-    const dateKey = d.toISOString().slice(0, 10);
+    const dateKey = addDays(today, -i);
+    const prevDateKey = addDays(dateKey, -1);
+    const current = byDate.get(dateKey);
+    const prev = byDate.get(prevDateKey);
 
-    const prevD = new Date(d);
-    prevD.setUTCDate(prevD.getUTCDate() - 1);
-    const prevDateKey = prevD.toISOString().slice(0, 10);
+    if (!current || !prev) continue;
 
-    const currentRaw = await kv.get(`sprint-task-snapshot:${sprintId}:${dateKey}`, "json") as TaskSnapshot[] | null;
-    const prevRaw = await kv.get(`sprint-task-snapshot:${sprintId}:${prevDateKey}`, "json") as TaskSnapshot[] | null;
-
-    if (!currentRaw || !prevRaw) continue;
-
-    const prevById = new Map(prevRaw.map((t) => [t.id, t]));
+    const prevById = new Map(prev.tasks.map((t) => [t.id, t]));
     let dailySp = 0;
 
-    for (const task of currentRaw) {
-      const prev = prevById.get(task.id);
-      if (!prev) continue;
-      if (isCompletedStatus(task.status) && !isCompletedStatus(prev.status)) {
+    for (const task of current.tasks) {
+      const before = prevById.get(task.id);
+      if (!before) continue;
+      if (isCompletedStatus(task.status) && !isCompletedStatus(before.status)) {
         dailySp += task.sp ?? 0;
       }
     }
 
     totalCompletedSp += dailySp;
-    daysWithData++;
+    // The diff against the previous day's snapshot is that day's work
+    if (isWorkingDay(calendar, prevDateKey)) daysWithData++;
   }
 
   if (daysWithData === 0) return null;
@@ -537,17 +703,16 @@ export async function calculateAvgDailySpConsumption(
  *
  * 1. plan_sp があれば: progress_sp = plan_sp - remaining_sp → avgDaily = progress_sp / elapsed_days
  * 2. plan_sp がなくても: remaining_sp / remaining_days で「必要ペース」を返す（判定基準として使える）
+ *
+ * elapsed_days / remaining_days はいずれも営業日数。
  */
 export function calcAvgDailySpFromSprint(
   summary: SprintTasksSummary,
-  today: string
+  today: string,
+  calendar: BusinessCalendar
 ): number | null {
-  const startDate = new Date(summary.sprint.start_date + "T00:00:00Z");
-  const endDate = new Date(summary.sprint.end_date + "T00:00:00Z");
-  const todayDate = new Date(today + "T00:00:00Z");
-
-  const elapsedMs = todayDate.getTime() - startDate.getTime();
-  const elapsedDays = Math.max(Math.ceil(elapsedMs / 86400000), 1);
+  // Working days before today / after today
+  const elapsedDays = Math.max(countWorkingDays(calendar, summary.sprint.start_date, addDays(today, -1)), 1);
 
   // Sum remaining SP from current (non-completed) tasks
   const remainingSp = summary.assignees.reduce(
@@ -569,8 +734,7 @@ export function calcAvgDailySpFromSprint(
   }
 
   // Last resort: use remaining SP / remaining days as baseline pace
-  const remainingMs = endDate.getTime() - todayDate.getTime();
-  const remainingDays = Math.max(Math.ceil(remainingMs / 86400000), 1);
+  const remainingDays = Math.max(countWorkingDays(calendar, addDays(today, 1), summary.sprint.end_date), 1);
   if (remainingSp > 0) {
     return Math.round((remainingSp / remainingDays) * 100) / 100;
   }
@@ -585,7 +749,7 @@ export function calcAvgDailySpFromSprint(
  * Returns a list of stagnant task IDs and names.
  */
 export async function detectStagnantDoingTasks(
-  kv: KVNamespace,
+  kv: StateStore,
   sprintId: string,
   today: string,
   currentTasks: TaskSnapshot[]
@@ -627,11 +791,11 @@ export async function detectStagnantDoingTasks(
 }
 
 /**
- * Compare current task snapshot with 7-day-old KV snapshot.
- * Returns completed tasks and newly added tasks during the period.
+ * Compare current task snapshot with the sprint history snapshot of 7 days ago
+ * (or the latest one before that). Returns completed tasks and newly added tasks during the period.
  */
 export async function calculateWeeklyDiff(
-  kv: KVNamespace,
+  kv: StateStore,
   sprintId: string,
   today: string,
   currentTasks: TaskSnapshot[]
@@ -643,17 +807,9 @@ export async function calculateWeeklyDiff(
   newTasks: Array<{ id: string; name: string; sp: number | null }>;
   totalNewSp: number;
 } | null> {
-  const todayDate = new Date(today + "T00:00:00Z");
-  const weekAgo = new Date(todayDate);
-  weekAgo.setUTCDate(weekAgo.getUTCDate() - 7);
-  const weekAgoKey = weekAgo.toISOString().slice(0, 10);
-
-  const oldSnapshot = await kv.get(
-    `sprint-task-snapshot:${sprintId}:${weekAgoKey}`,
-    "json"
-  ) as TaskSnapshot[] | null;
-
-  if (!oldSnapshot) return null;
+  const weekAgoState = await getSprintStateOn(kv, sprintId, addDays(today, -7));
+  if (!weekAgoState) return null;
+  const oldSnapshot = weekAgoState.tasks;
 
   const oldById = new Map(oldSnapshot.map((t) => [t.id, t]));
   const currentById = new Map(currentTasks.map((t) => [t.id, t]));
@@ -681,7 +837,7 @@ export async function calculateWeeklyDiff(
   const totalNewSp = newTasks.reduce((sum, t) => sum + (t.sp ?? 0), 0);
 
   return {
-    periodStart: weekAgoKey,
+    periodStart: weekAgoState.date,
     periodEnd: today,
     completedTasks,
     totalCompletedSp,
@@ -692,8 +848,8 @@ export async function calculateWeeklyDiff(
 
 // ── PMO AI Agent flows ─────────────────────────────────────────────────────
 
-/** Member notification flow: Steps 1-4 (20:00 JST = 11:00 UTC, night before) */
-async function runMorningFlow(
+/** Member notification flow: Steps 1-4 (flowSchedule.morningTime, default 09:00 JST) */
+export async function runMorningFlow(
   env: Env,
   reason: string,
   targetName?: string | null,
@@ -701,7 +857,7 @@ async function runMorningFlow(
 ): Promise<Record<string, unknown>> {
   let config: AppConfig | undefined;
   try {
-    config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+    config = withLlmUsage(channelId ? await resolveConfig(env, channelId) : getConfig(env), getStore(env), "morning", channelId);
     const targetChannel = channelId ?? config.slackPmoChannelId;
 
     if (!config.slackBotToken) {
@@ -712,10 +868,21 @@ async function runMorningFlow(
     const now = new Date();
     const today = toJstDateString(now);
     const yesterdayKey = toJstDateString(now, -1);
+    // Run history counters (see trackFlow)
+    let llmCalls = 0;
+    const errors: string[] = [];
+
+    // No check-ins on weekends / holidays (manual runs still go through)
+    const calendar = businessCalendar(config);
+    const holiday = nonWorkingReason(calendar, today);
+    if (holiday && reason !== "manual") {
+      console.log(`Morning flow: non-working day (${holiday}), skipping`);
+      return { ok: true, skipped: true, reason: `non-working day: ${holiday}` };
+    }
 
     // Dedup: skip if already run today (prevents double-execution from cron + catch-up race)
     if (reason !== "manual") {
-      const activeThreads = await getActiveThreads(env.NOTIFY_CACHE, today, channelId);
+      const activeThreads = await getActiveThreads(getStore(env), today, channelId);
       if (activeThreads.length > 0) {
         console.log(`Morning flow: already run today (${activeThreads.length} active threads), skipping (reason=${reason})`);
         return { ok: true, skipped: true, reason: "already run today" };
@@ -736,14 +903,14 @@ async function runMorningFlow(
         sp: t.sp ?? null
       }))
     );
-    await env.NOTIFY_CACHE.put(
+    await getStore(env).put(
       `${snapshotScope}${today}`,
       JSON.stringify(currentSnapshot),
       { expirationTtl: config.dedupeTtlSeconds }
     );
 
     const previousSnapshot =
-      ((await env.NOTIFY_CACHE.get(
+      ((await getStore(env).get(
         `${snapshotScope}${yesterdayKey}`,
         "json"
       )) as typeof currentSnapshot | null) ?? [];
@@ -751,34 +918,43 @@ async function runMorningFlow(
     // Google Sheets schedule data (best-effort: skip on error)
     let scheduleData: Awaited<ReturnType<typeof fetchScheduleData>> | null = null;
     try {
-      scheduleData = await fetchScheduleData(config);
+      scheduleData = await fetchScheduleData(config, getStore(env), channelId);
       if (scheduleData.rows.length > 0) {
         const deviation = analyzeScheduleDeviation(scheduleData, today);
         console.log("Schedule analysis:", deviation.summary);
       }
     } catch (err) {
       console.warn("Google Sheets fetch skipped:", (err as Error).message);
+      errors.push(`sheets: ${(err as Error).message}`);
     }
 
     // Calculate average daily SP consumption for 🟢🟡🔴 judgment
     // Priority: 7-day KV history > sprint-level calculation
     const spConsumption = await calculateAvgDailySpConsumption(
-      env.NOTIFY_CACHE,
+      getStore(env),
       summary.sprint.id,
-      today
+      today,
+      calendar
     );
     let avgDailySp: number | null = spConsumption ? spConsumption.avgDailySp : null;
     let avgDailySpSource = spConsumption ? "kv_7day" : null;
 
     if (avgDailySp == null) {
-      avgDailySp = calcAvgDailySpFromSprint(summary, today);
+      avgDailySp = calcAvgDailySpFromSprint(summary, today, calendar);
       if (avgDailySp != null) avgDailySpSource = "sprint_progress";
     }
     console.log("SP consumption rate:", { avgDailySp, source: avgDailySpSource });
 
+    // Monte Carlo completion forecast from the snapshot history (best-effort)
+    const forecast = await forecastSprintCompletion(getStore(env), summary, today, calendar, channelId).catch((err) => {
+      console.warn("Forecast skipped:", (err as Error).message);
+      return null;
+    });
+    if (forecast) console.log("Sprint forecast:", formatForecastText(forecast));
+
     // Step 2-A: Detect stagnant Doing tasks (no change for 2+ days)
     const stagnantTasks = await detectStagnantDoingTasks(
-      env.NOTIFY_CACHE,
+      getStore(env),
       summary.sprint.id,
       today,
       currentSnapshot
@@ -787,22 +963,43 @@ async function runMorningFlow(
       console.log("Stagnant Doing tasks detected:", stagnantTasks);
     }
 
-    // Step 1.5: Match Notion tasks to spreadsheet items (LLM-based)
+    // Step 1.5: Match Notion tasks to spreadsheet items (stored links, LLM only for new / renamed tasks)
     let taskScheduleMapping = null;
     if (scheduleData && scheduleData.rows.length > 0) {
       try {
-        taskScheduleMapping = await matchTasksToSchedule(config, summary, scheduleData);
+        const resolved = await resolveTaskScheduleMapping(getStore(env), config, summary, scheduleData, channelId);
+        if (resolved.rematched > 0) llmCalls++;
+        taskScheduleMapping = resolved.mapping;
         const matched = taskScheduleMapping.mappings.filter((m) => m.confidence !== "none");
-        console.log(`Task-schedule mapping: ${matched.length}/${taskScheduleMapping.mappings.length} tasks matched`);
+        console.log(`Task-schedule mapping: ${matched.length}/${taskScheduleMapping.mappings.length} tasks matched (${resolved.rematched} re-matched)`);
         for (const m of matched) {
           console.log(`  [${m.confidence}] ${m.task_name.slice(0, 40)} → ${m.schedule_category} / ${m.schedule_item}`);
         }
       } catch (err) {
         console.warn("Task-schedule matching skipped:", (err as Error).message);
+        errors.push(`schedule mapping: ${(err as Error).message}`);
       }
     }
 
-    // Step 2: LLM analysis (with schedule data + SP consumption + stagnant tasks + mapping)
+    // GitHub PR / commit activity (best-effort: skip on error)
+    let githubActivity: Awaited<ReturnType<typeof fetchGitHubActivity>> = null;
+    try {
+      githubActivity = await fetchGitHubActivity(config, summary, now);
+      if (githubActivity) {
+        console.log("GitHub activity:", {
+          prs: githubActivity.pullRequests.length,
+          commits: githubActivity.commits.length,
+          idleDoing: githubActivity.idleDoingTasks.length,
+          reviewWaiting: githubActivity.reviewWaitingPrs.length
+        });
+      }
+    } catch (err) {
+      console.warn("GitHub fetch skipped:", (err as Error).message);
+      errors.push(`github: ${(err as Error).message}`);
+    }
+
+    // Step 2: LLM analysis (with schedule data + SP consumption + stagnant tasks + mapping + GitHub)
+    llmCalls++;
     const analysis = await analyzeTasksAndMembers(
       config,
       summary,
@@ -811,13 +1008,16 @@ async function runMorningFlow(
       scheduleData,
       avgDailySp,
       stagnantTasks,
-      taskScheduleMapping
+      taskScheduleMapping,
+      githubActivity,
+      forecast
     );
     console.log("Morning flow: analysis complete", {
       schedule_status: analysis.schedule_status
     });
 
     // Step 3: Generate per-assignee messages
+    llmCalls++;
     const messages = await generateAssigneeMessages(
       config,
       analysis,
@@ -828,10 +1028,11 @@ async function runMorningFlow(
     // Step 4: Send messages via Slack Bot Token
     const channel = targetChannel ?? "";
     let sent = 0;
+    const posted: string[] = [];
 
     if (!channel) {
       console.warn("SLACK_PMO_CHANNEL_ID not set; skipping morning flow");
-      return { ok: true, skipped: true, reason: "no pmo channel" };
+      return { ok: true, skipped: true, reason: "no pmo channel", llmCalls, prompts: usedPromptVersions(config), errors };
     }
 
     // Filter by member whitelist, then by target name if specified
@@ -855,6 +1056,19 @@ async function runMorningFlow(
       console.log(`Morning flow: whitelist active, ${filteredMessages.length}/${messages.length} members`);
     }
 
+    // Members off today (capacity DB: 休暇 / 0h weekday) get no check-in unless targeted by name
+    if (!targetName) {
+      const capacities = await fetchSprintCapacity(config, summary.sprint.id).catch(() => []);
+      const offToday = filteredMessages.filter((m) => {
+        const capacity = capacities.find((c) => c.name === m.assignee_name || m.assignee_name.includes(c.name));
+        return !isMemberWorkingDay(calendar, capacity, today);
+      });
+      if (offToday.length > 0) {
+        console.log(`Morning flow: skipping members off today: ${offToday.map((m) => m.assignee_name).join(", ")}`);
+        filteredMessages = filteredMessages.filter((m) => !offToday.includes(m));
+      }
+    }
+
     for (const msg of filteredMessages) {
       // Match member by exact name or partial match (e.g. "北川" matches "北川楓")
       const member = members.find(
@@ -878,7 +1092,7 @@ async function runMorningFlow(
       // Save thread state so Events API can route replies
       const assigneeTasks =
         summary.assignees.find((a) => a.name === msg.assignee_name)?.tasks ?? [];
-      await saveThreadState(env.NOTIFY_CACHE, result.channel, result.ts, {
+      await saveThreadState(getStore(env), result.channel, result.ts, {
         assigneeName: msg.assignee_name,
         tasks: assigneeTasks.map((t) => ({
           id: t.id,
@@ -891,18 +1105,29 @@ async function runMorningFlow(
         channel: result.channel
       });
 
-      await addActiveThread(env.NOTIFY_CACHE, today, {
+      await addActiveThread(getStore(env), today, {
         channel: result.channel,
         ts: result.ts,
         assigneeName: msg.assignee_name
       }, undefined, channelId);
 
       sent++;
+      posted.push(messageText);
     }
 
     console.log("Morning flow complete", { reason, sent });
-    await saveCronHeartbeat(env.NOTIFY_CACHE, "morning");
-    return { ok: true, reason, sent, dryRun: config.dryRun };
+    await saveCronHeartbeat(getStore(env), "morning", channelId);
+    return {
+      ok: true,
+      reason,
+      sent,
+      dryRun: config.dryRun,
+      llmCalls,
+      prompts: usedPromptVersions(config),
+      slackPosts: sent,
+      errors,
+      output: posted.join("\n\n---\n\n")
+    };
   } catch (error) {
     const err = error as Error;
     console.error("runMorningFlow failed", err);
@@ -910,7 +1135,7 @@ async function runMorningFlow(
   }
 }
 
-/** Reminder flow: 09:00 JST = 00:00 UTC */
+/** Reminder flow: every reminderIntervalMinutes after the morning check-in, reminderCount times */
 async function runReminderFlow(
   env: Env,
   reason: string,
@@ -926,12 +1151,16 @@ async function runReminderFlow(
     }
 
     const today = toJstDateString();
-    const activeThreads = await getActiveThreads(env.NOTIFY_CACHE, today, channelId);
+    const holiday = nonWorkingReason(businessCalendar(config), today);
+    if (holiday && reason !== "manual") {
+      return { ok: true, skipped: true, reason: `non-working day: ${holiday}` };
+    }
+    const activeThreads = await getActiveThreads(getStore(env), today, channelId);
     let reminded = 0;
 
     for (const thread of activeThreads) {
       const replies = await getReplies(
-        env.NOTIFY_CACHE,
+        getStore(env),
         thread.channel,
         thread.ts
       );
@@ -953,8 +1182,8 @@ async function runReminderFlow(
     }
 
     console.log("Reminder flow complete", { reason, reminded });
-    await saveCronHeartbeat(env.NOTIFY_CACHE, "reminder");
-    return { ok: true, reason, reminded };
+    await saveCronHeartbeat(getStore(env), "reminder", channelId);
+    return { ok: true, reason, reminded, slackPosts: reminded };
   } catch (error) {
     const err = error as Error;
     console.error("runReminderFlow failed", err);
@@ -962,15 +1191,15 @@ async function runReminderFlow(
   }
 }
 
-/** PM report flow: Steps 6-7 (10:00 JST = 01:00 UTC) */
-async function runEveningFlow(
+/** PM report flow: Steps 6-7 (flowSchedule.eveningTime, default 10:00 JST) */
+export async function runEveningFlow(
   env: Env,
   reason: string,
   channelId?: string
 ): Promise<Record<string, unknown>> {
   let config: AppConfig | undefined;
   try {
-    config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+    config = withLlmUsage(channelId ? await resolveConfig(env, channelId) : getConfig(env), getStore(env), "evening", channelId);
     const targetChannel = channelId ?? config.slackPmoChannelId;
 
     if (!config.slackBotToken) {
@@ -980,10 +1209,21 @@ async function runEveningFlow(
 
     const now = new Date();
     const today = toJstDateString(now);
+    // Run history counters (see trackFlow)
+    let llmCalls = 0;
+    const errors: string[] = [];
+
+    // No PM report on weekends / holidays (manual runs still go through)
+    const calendar = businessCalendar(config);
+    const holiday = nonWorkingReason(calendar, today);
+    if (holiday && reason !== "manual") {
+      console.log(`Evening flow: non-working day (${holiday}), skipping`);
+      return { ok: true, skipped: true, reason: `non-working day: ${holiday}` };
+    }
 
     // Dedup: skip if PM thread already exists for today (prevents double PM report)
     if (reason !== "manual") {
-      const existingPmThread = await getPmThread(env.NOTIFY_CACHE, today, channelId);
+      const existingPmThread = await getPmThread(getStore(env), today, channelId);
       if (existingPmThread) {
         console.log(`Evening flow: PM thread already exists for today (state=${existingPmThread.state}), skipping (reason=${reason})`);
         return { ok: true, skipped: true, reason: "pm thread already exists" };
@@ -991,13 +1231,13 @@ async function runEveningFlow(
     }
 
     // Collect replies from all active threads
-    const activeThreads = await getActiveThreads(env.NOTIFY_CACHE, today, channelId);
+    const activeThreads = await getActiveThreads(getStore(env), today, channelId);
     console.log(`Evening flow: ${activeThreads.length} active threads for ${today}`);
     const replyMap = new Map<string, Awaited<ReturnType<typeof getReplies>>>();
 
     for (const thread of activeThreads) {
       const replies = await getReplies(
-        env.NOTIFY_CACHE,
+        getStore(env),
         thread.channel,
         thread.ts
       );
@@ -1012,7 +1252,7 @@ async function runEveningFlow(
 
     const eveningSnapshotScope = channelId ? `task-snapshot:${channelId}:` : `task-snapshot:`;
     const previousSnapshot =
-      ((await env.NOTIFY_CACHE.get(
+      ((await getStore(env).get(
         `${eveningSnapshotScope}${today}`,
         "json"
       )) as Array<{
@@ -1043,34 +1283,42 @@ async function runEveningFlow(
     // Google Sheets schedule data (best-effort: skip on error)
     let scheduleData: Awaited<ReturnType<typeof fetchScheduleData>> | null = null;
     try {
-      scheduleData = await fetchScheduleData(config);
+      scheduleData = await fetchScheduleData(config, getStore(env), channelId);
       if (scheduleData.rows.length > 0) {
         const deviation = analyzeScheduleDeviation(scheduleData, today);
         console.log("Schedule analysis:", deviation.summary);
       }
     } catch (err) {
       console.warn("Google Sheets fetch skipped:", (err as Error).message);
+      errors.push(`sheets: ${(err as Error).message}`);
     }
 
     // Calculate average daily SP consumption for 🟢🟡🔴 judgment
     const spConsumption = await calculateAvgDailySpConsumption(
-      env.NOTIFY_CACHE,
+      getStore(env),
       summary.sprint.id,
-      today
+      today,
+      calendar
     );
     let avgDailySp: number | null = spConsumption ? spConsumption.avgDailySp : null;
     if (avgDailySp == null) {
-      avgDailySp = calcAvgDailySpFromSprint(summary, today);
+      avgDailySp = calcAvgDailySpFromSprint(summary, today, calendar);
     }
 
+    // Monte Carlo completion forecast from the snapshot history (best-effort)
+    const forecast = await forecastSprintCompletion(getStore(env), summary, today, calendar, channelId).catch((err) => {
+      console.warn("Forecast skipped:", (err as Error).message);
+      return null;
+    });
+
     // Calculate yesterday's consumed SP from 5AM progress_sp snapshots
     // (前日AM5時→当日AM5時の進捗SPの差)
     const yesterdayKey = toJstDateString(now, -1);
-    const todayProgressSpRaw = await env.NOTIFY_CACHE.get(
+    const todayProgressSpRaw = await getStore(env).get(
       `progress-sp-5am:${summary.sprint.id}:${today}`,
       "json"
     ) as { progress_sp: number | null } | null;
-    const yesterdayProgressSpRaw = await env.NOTIFY_CACHE.get(
+    const yesterdayProgressSpRaw = await getStore(env).get(
       `progress-sp-5am:${summary.sprint.id}:${yesterdayKey}`,
       "json"
     ) as { progress_sp: number | null } | null;
@@ -1081,7 +1329,7 @@ async function runEveningFlow(
       console.log(`Yesterday consumed SP (5AM snapshots): ${yesterdayCompletedSp} (${yesterdayProgressSpRaw.progress_sp} → ${todayProgressSpRaw.progress_sp})`);
     } else {
       // Fallback: task status change method
-      const yesterdaySnapshotRaw = await env.NOTIFY_CACHE.get(
+      const yesterdaySnapshotRaw = await getStore(env).get(
         `sprint-task-snapshot:${summary.sprint.id}:${yesterdayKey}`,
         "json"
       ) as Array<{ id: string; name: string; status: string | null; sp: number | null }> | null;
@@ -1113,25 +1361,69 @@ async function runEveningFlow(
       }))
     );
     const stagnantTasks = await detectStagnantDoingTasks(
-      env.NOTIFY_CACHE,
+      getStore(env),
       summary.sprint.id,
       today,
       eveningSnapshot
     );
 
-    // Match Notion tasks to spreadsheet items (LLM-based)
+    // Match Notion tasks to spreadsheet items (stored links, LLM only for new / renamed tasks)
     let taskScheduleMapping = null;
+    let scheduleReview: ScheduleMappingResult["needsReview"] = [];
     if (scheduleData && scheduleData.rows.length > 0) {
       try {
-        taskScheduleMapping = await matchTasksToSchedule(config, summary, scheduleData);
+        const resolved = await resolveTaskScheduleMapping(getStore(env), config, summary, scheduleData, channelId);
+        if (resolved.rematched > 0) llmCalls++;
+        taskScheduleMapping = resolved.mapping;
+        scheduleReview = resolved.needsReview;
         const matched = taskScheduleMapping.mappings.filter((m) => m.confidence !== "none").length;
-        console.log(`Task-schedule mapping: ${matched}/${taskScheduleMapping.mappings.length} tasks matched`);
+        console.log(`Task-schedule mapping: ${matched}/${taskScheduleMapping.mappings.length} tasks matched (${resolved.rematched} re-matched)`);
       } catch (err) {
         console.warn("Task-schedule matching skipped:", (err as Error).message);
+        errors.push(`schedule mapping: ${(err as Error).message}`);
       }
     }
 
-    // Step 2 (light): re-analyze with today's data (with schedule data + SP consumption + stagnant tasks + mapping)
+    // Plan vs actual per 大項目 / 小項目 from the stored links (best-effort)
+    let scheduleDeviation: ScheduleDeviationReport | null = null;
+    if (scheduleData && scheduleData.rows.length > 0) {
+      try {
+        scheduleDeviation = await analyzeScheduleProgress(getStore(env), scheduleData, summary, today, channelId);
+      } catch (err) {
+        console.warn("Schedule deviation skipped:", (err as Error).message);
+        errors.push(`schedule deviation: ${(err as Error).message}`);
+      }
+    }
+
+    // Write actual SP / status back into the master schedule (best-effort, opt-in)
+    let scheduleSync: Awaited<ReturnType<typeof syncMasterSchedule>> | null = null;
+    if (scheduleData && config.googleSheetsWriteBack && hasServiceAccount(config)) {
+      try {
+        scheduleSync = await syncMasterSchedule(getStore(env), config, {
+          scheduleData,
+          summary,
+          today,
+          now,
+          channelId
+        });
+        console.log("Schedule write-back:", scheduleSync);
+      } catch (err) {
+        console.warn("Schedule write-back skipped:", (err as Error).message);
+        errors.push(`schedule write-back: ${(err as Error).message}`);
+      }
+    }
+
+    // GitHub PR / commit activity (best-effort: skip on error)
+    let githubActivity: Awaited<ReturnType<typeof fetchGitHubActivity>> = null;
+    try {
+      githubActivity = await fetchGitHubActivity(config, summary, now);
+    } catch (err) {
+      console.warn("GitHub fetch skipped:", (err as Error).message);
+      errors.push(`github: ${(err as Error).message}`);
+    }
+
+    // Step 2 (light): re-analyze with today's data (with schedule data + SP consumption + stagnant tasks + mapping + GitHub)
+    llmCalls++;
     const analysis = await analyzeTasksAndMembers(
       config,
       summary,
@@ -1140,10 +1432,13 @@ async function runEveningFlow(
       scheduleData,
       avgDailySp,
       stagnantTasks,
-      taskScheduleMapping
+      taskScheduleMapping,
+      githubActivity,
+      forecast
     );
 
-    // Step 6: Interpret replies and propose allocations (with schedule data)
+    // Step 6: Interpret replies and propose allocations (with schedule data + GitHub)
+    llmCalls++;
     const proposal = await interpretRepliesAndPropose(
       config,
       analysis,
@@ -1153,14 +1448,17 @@ async function runEveningFlow(
       scheduleData,
       summary,
       avgDailySp,
-      yesterdayCompletedSp
+      yesterdayCompletedSp,
+      githubActivity,
+      forecast
     );
     console.log("Evening flow: proposal generated", {
       allocations: proposal.task_allocations.length
     });
 
-    // Build deadline tasks table programmatically and inject into pm_report
-    const deadlineTable = formatDeadlineTasksTable(summary, today);
+    // Build deadline tasks (and schedule deviation) tables programmatically and inject into pm_report
+    const deadlineTable = (scheduleDeviation ? formatScheduleDeviationTable(scheduleDeviation) + "\n\n" : "") +
+      formatDeadlineTasksTable(summary, today, calendar);
     let pmReport = proposal.pm_report;
     const memberCapacityIdx = pmReport.indexOf("【メンバー稼働余力】");
     if (memberCapacityIdx >= 0) {
@@ -1177,7 +1475,7 @@ async function runEveningFlow(
     const channel = targetChannel ?? "";
     if (!channel) {
       console.warn("SLACK_PMO_CHANNEL_ID not set; skipping PM report");
-      return { ok: true, skipped: true, reason: "no pmo channel" };
+      return { ok: true, skipped: true, reason: "no pmo channel", llmCalls, prompts: usedPromptVersions(config), errors };
     }
 
     const pmMention = config.slackPmUserId ? `<@${config.slackPmUserId}> ` : "";
@@ -1185,7 +1483,7 @@ async function runEveningFlow(
 
     if (config.dryRun) {
       console.log("DRY_RUN: PM report not sent", pmReportText.slice(0, 200));
-      return { ok: true, dryRun: true, reason };
+      return { ok: true, dryRun: true, reason, llmCalls, prompts: usedPromptVersions(config), errors, output: pmReportText };
     }
 
     const pmResult = await chatPostMessage(
@@ -1197,16 +1495,73 @@ async function runEveningFlow(
 
     // Save PM thread so Events API can route PM's reply (Step 8)
     console.log(`[PM-SAVED-PENDING] evening flow, scope=${channelId}, channel=${pmResult.channel}, ts=${pmResult.ts}`);
-    await savePmThread(env.NOTIFY_CACHE, today, {
+    await savePmThread(getStore(env), today, {
       channel: pmResult.channel,
       ts: pmResult.ts,
       proposalJson: JSON.stringify(proposal),
       state: "pending"
     }, undefined, channelId);
 
+    // Burndown / burnup chart into the PM report thread (best-effort)
+    let slackPosts = 1;
+    try {
+      const series = await collectBurndownSeries(
+        getStore(env),
+        summary.sprint,
+        summary.sprint_metrics?.plan_sp ?? null,
+        today
+      );
+      if (series.points.some((p) => p.progressSp != null)) {
+        await filesUploadExternal(
+          config.slackBotToken,
+          pmResult.channel,
+          {
+            filename: `burndown-${today}.png`,
+            content: await renderBurndownPng(series),
+            title: `${summary.sprint.name} burndown ${today}`
+          },
+          burndownLegendText(series),
+          pmResult.ts
+        );
+        slackPosts++;
+      }
+    } catch (err) {
+      console.warn("Burndown chart upload skipped:", (err as Error).message);
+      errors.push(`burndown chart: ${(err as Error).message}`);
+    }
+
+    // Low-confidence schedule links for the PM to confirm (best-effort)
+    if (scheduleReview.length > 0) {
+      try {
+        await chatPostMessage(
+          config.slackBotToken,
+          pmResult.channel,
+          `🔗 スケジュール項目との紐付けの確認 (${scheduleReview.length} 件)`,
+          buildScheduleReviewBlocks(scheduleReview, channelId),
+          pmResult.ts
+        );
+        await markScheduleReviewPosted(getStore(env), scheduleReview.map((r) => r.taskId), channelId);
+        slackPosts++;
+      } catch (err) {
+        console.warn("Schedule mapping review skipped:", (err as Error).message);
+        errors.push(`schedule review: ${(err as Error).message}`);
+      }
+    }
+
     console.log("Evening flow complete", { reason, pmThreadTs: pmResult.ts });
-    await saveCronHeartbeat(env.NOTIFY_CACHE, "evening");
-    return { ok: true, reason, pmThreadTs: pmResult.ts };
+    await saveCronHeartbeat(getStore(env), "evening", channelId);
+    return {
+      ok: true,
+      reason,
+      pmThreadTs: pmResult.ts,
+      llmCalls,
+      prompts: usedPromptVersions(config),
+      slackPosts,
+      scheduleSync,
+      scheduleDeviation: scheduleDeviation?.totals ?? null,
+      errors,
+      output: pmReportText
+    };
   } catch (error) {
     const err = error as Error;
     console.error("runEveningFlow failed", err);
@@ -1214,7 +1569,7 @@ async function runEveningFlow(
   }
 }
 
-/** PM reminder: hourly 11:00-19:00 JST = 02:00-10:00 UTC */
+/** PM reminder: hourly from 1h after the PM report until 19:00 JST */
 async function runPmReminderFlow(
   env: Env,
   reason: string,
@@ -1229,7 +1584,7 @@ async function runPmReminderFlow(
     }
 
     const today = toJstDateString();
-    const pmThread = await getPmThread(env.NOTIFY_CACHE, today, channelId);
+    const pmThread = await getPmThread(getStore(env), today, channelId);
 
     if (!pmThread || pmThread.state !== "pending") {
       console.log("PM reminder: no pending PM thread for today");
@@ -1238,7 +1593,7 @@ async function runPmReminderFlow(
 
     // Dedup: skip if reminder was already sent within the last 50 minutes
     const reminderSentKey = `pm-reminder-sent:${channelId ?? "global"}:${today}`;
-    const lastSent = await env.NOTIFY_CACHE.get(reminderSentKey);
+    const lastSent = await getStore(env).get(reminderSentKey);
     if (lastSent && reason !== "manual") {
       console.log("PM reminder: already sent recently, skipping");
       return { ok: true, skipped: true, reason: "already reminded recently" };
@@ -1261,12 +1616,12 @@ async function runPmReminderFlow(
     );
 
     // Mark reminder as sent (TTL 50 min = skip :15 trigger, allow next hour's :00)
-    await env.NOTIFY_CACHE.put(reminderSentKey, new Date().toISOString(), {
+    await getStore(env).put(reminderSentKey, new Date().toISOString(), {
       expirationTtl: 50 * 60
     });
 
     console.log("PM reminder sent", { reason, today });
-    return { ok: true, reason, reminded: true };
+    return { ok: true, reason, reminded: true, slackPosts: 1 };
   } catch (error) {
     const err = error as Error;
     console.error("runPmReminderFlow failed", err);
@@ -1291,11 +1646,12 @@ async function notifyError(_env: Env, config: AppConfig, error: Error) {
 /** Save sprint progress_sp snapshot at 5AM JST for daily consumption calculation */
 async function runProgressSpSnapshot(
   env: Env,
-  reason: string
+  reason: string,
+  channelId?: string
 ): Promise<Record<string, unknown>> {
   let config: AppConfig | undefined;
   try {
-    config = getConfig(env);
+    config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
     const now = new Date();
     const today = toJstDateString(now);
     const summary = await fetchCurrentSprintTasksSummary(config, now);
@@ -1303,14 +1659,46 @@ async function runProgressSpSnapshot(
     const progressSp = summary.sprint_metrics?.progress_sp ?? null;
     const snapshotKey = `progress-sp-5am:${summary.sprint.id}:${today}`;
 
-    await env.NOTIFY_CACHE.put(snapshotKey, JSON.stringify({
+    await getStore(env).put(snapshotKey, JSON.stringify({
       progress_sp: progressSp,
       timestamp: now.toISOString()
     }), { expirationTtl: config.dedupeTtlSeconds });
 
-    console.log(`Progress SP snapshot saved: ${snapshotKey} = ${progressSp}`);
-    await saveCronHeartbeat(env.NOTIFY_CACHE, "snapshot");
-    return { ok: true, reason, progressSp, date: today };
+    console.log(`Progress SP snapshot saved: ${snapshotKey} = ${progressSp} (scope=${channelId ?? "global"})`);
+
+    // Long-term per-task history (completed tasks included) for time-travel queries
+    const taskStates = await fetchSprintTaskStates(config, summary.sprint.id);
+    await saveSprintDaySnapshot(
+      getStore(env),
+      {
+        sprintId: summary.sprint.id,
+        name: summary.sprint.name,
+        startDate: summary.sprint.start_date,
+        endDate: summary.sprint.end_date,
+        scope: channelId ?? null
+      },
+      {
+        sprintId: summary.sprint.id,
+        date: today,
+        capturedAt: now.toISOString(),
+        planSp: summary.sprint_metrics?.plan_sp ?? null,
+        progressSp,
+        tasks: taskStates
+      },
+      config.snapshotRetentionDays
+    );
+    console.log(`Sprint history snapshot saved: ${summary.sprint.id} ${today} (${taskStates.length} tasks)`);
+
+    await saveCronHeartbeat(getStore(env), "snapshot", channelId);
+    return {
+      ok: true,
+      reason,
+      channelId,
+      sprintId: summary.sprint.id,
+      progressSp,
+      date: today,
+      tasks: taskStates.length
+    };
   } catch (error) {
     const err = error as Error;
     console.error("runProgressSpSnapshot failed", err);
@@ -1318,7 +1706,428 @@ async function runProgressSpSnapshot(
   }
 }
 
-// ── End-of-Day Reminder Flow (midnight JST) ──────────────────────────────
+// ── Sprint Retrospective Flow (09:00 JST, day after sprint end) ─────────
+
+/**
+ * Detect the sprint that just ended (fetchAllSprints), compute planned vs completed SP,
+ * carry-over, member throughput, stagnation and schedule deviation, let the LLM write
+ * a KPT retrospective, post it to the channel and save it as a page under the sprint.
+ * Runs once per sprint per channel (sprint-retro:{scope}:{sprintId}); ?sprint= forces a rerun.
+ */
+export async function runSprintRetroFlow(
+  env: Env,
+  reason: string,
+  channelId?: string,
+  sprintIdOverride?: string
+): Promise<Record<string, unknown>> {
+  let config: AppConfig | undefined;
+  try {
+    config = withLlmUsage(channelId ? await resolveConfig(env, channelId) : getConfig(env), getStore(env), "sprint-retro", channelId);
+    const targetChannel = channelId ?? config.slackPmoChannelId;
+
+    if (!config.slackBotToken || !targetChannel) {
+      return { ok: true, skipped: true, reason: "no bot token or channel" };
+    }
+
+    const today = toJstDateString();
+    const sprints = await fetchAllSprints(config);
+    const sprint = sprintIdOverride
+      ? sprints.find((s) => s.id === sprintIdOverride) ?? null
+      : findEndedSprint(sprints, today);
+    if (!sprint) {
+      return sprintIdOverride
+        ? { ok: false, error: `sprint ${sprintIdOverride} not found` }
+        : { ok: true, skipped: true, reason: "no sprint ended recently" };
+    }
+
+    if (!sprintIdOverride && (await getSprintRetroRecord(getStore(env), sprint.id, channelId))) {
+      return { ok: true, skipped: true, reason: `retro already posted for ${sprint.name}` };
+    }
+
+    const errors: string[] = [];
+    const finalTasks = await fetchSprintTaskStates(config, sprint.id);
+
+    let scheduleData: Awaited<ReturnType<typeof fetchScheduleData>> | null = null;
+    try {
+      scheduleData = await fetchScheduleData(config, getStore(env), channelId);
+    } catch (err) {
+      console.warn("Google Sheets fetch skipped:", (err as Error).message);
+      errors.push(`sheets: ${(err as Error).message}`);
+    }
+
+    const metrics = await computeSprintRetroMetrics(getStore(env), sprint, finalTasks, scheduleData);
+    console.log(`Sprint retro metrics: ${sprint.name} planned=${metrics.plannedSp} completed=${metrics.completedSp} carry-over=${metrics.carryOver.length}`);
+
+    const retro = await generateSprintRetrospective(config, metrics);
+
+    if (config.dryRun) {
+      const preview = buildRetroSlackText(metrics, retro, null);
+      console.log("DRY_RUN: sprint retro not posted", preview.slice(0, 200));
+      return { ok: true, dryRun: true, reason, sprintId: sprint.id, llmCalls: 1, prompts: usedPromptVersions(config), errors, output: preview };
+    }
+
+    // Notion page under the sprint (best-effort: still post to Slack on failure)
+    let notionUrl: string | null = null;
+    let notionWrites = 0;
+    try {
+      const page = await createChildPage(
+        config.notionToken,
+        sprint.id,
+        `${sprint.name} 振り返り`,
+        buildRetroNotionBlocks(metrics, retro)
+      );
+      notionUrl = page.url || null;
+      notionWrites++;
+    } catch (err) {
+      console.warn("Sprint retro Notion page skipped:", (err as Error).message);
+      errors.push(`notion: ${(err as Error).message}`);
+    }
+
+    const text = buildRetroSlackText(metrics, retro, notionUrl);
+    const posted = await chatPostMessage(config.slackBotToken, targetChannel, text);
+    await saveSprintRetroRecord(getStore(env), {
+      sprintId: sprint.id,
+      postedAt: new Date().toISOString(),
+      channel: posted.channel,
+      ts: posted.ts,
+      notionUrl
+    }, channelId);
+
+    return {
+      ok: true,
+      reason,
+      sprintId: sprint.id,
+      sprintName: sprint.name,
+      plannedSp: metrics.plannedSp,
+      completedSp: metrics.completedSp,
+      carryOver: metrics.carryOver.length,
+      notionUrl,
+      llmCalls: 1,
+      prompts: usedPromptVersions(config),
+      slackPosts: 1,
+      notionWrites,
+      errors,
+      output: text
+    };
+  } catch (error) {
+    const err = error as Error;
+    console.error("runSprintRetroFlow failed", err);
+    return { ok: false, error: err.message };
+  }
+}
+
+// ── Sprint Carry-over Flow (09:00 JST, day after sprint end) ────────────
+
+/**
+ * Propose next-sprint vs backlog for each unfinished task of the ended sprint
+ * (LLM, using next-sprint capacity) and ask the PM to approve with buttons.
+ * The sprint relation is updated in slackInteractions on approval.
+ */
+export async function runCarryOverFlow(
+  env: Env,
+  reason: string,
+  channelId?: string,
+  sprintIdOverride?: string
+): Promise<Record<string, unknown>> {
+  let config: AppConfig | undefined;
+  try {
+    config = withLlmUsage(channelId ? await resolveConfig(env, channelId) : getConfig(env), getStore(env), "carry-over", channelId);
+    const targetChannel = channelId ?? config.slackPmoChannelId;
+
+    if (!config.slackBotToken || !targetChannel) {
+      return { ok: true, skipped: true, reason: "no bot token or channel" };
+    }
+
+    const today = toJstDateString();
+    const sprints = await fetchAllSprints(config);
+    const ended = sprintIdOverride
+      ? sprints.find((s) => s.id === sprintIdOverride) ?? null
+      : findEndedSprint(sprints, today);
+    if (!ended) {
+      return sprintIdOverride
+        ? { ok: false, error: `sprint ${sprintIdOverride} not found` }
+        : { ok: true, skipped: true, reason: "no sprint ended recently" };
+    }
+    if (!sprintIdOverride && (await getCarryOverRecord(getStore(env), ended.id, channelId))) {
+      return { ok: true, skipped: true, reason: `carry-over already proposed for ${ended.name}` };
+    }
+
+    const next = findNextSprint(sprints, ended);
+    if (!next) {
+      return { ok: true, skipped: true, reason: `no sprint after ${ended.name}` };
+    }
+
+    const endedTasks = await fetchSprintTaskStates(config, ended.id);
+    const unfinished = endedTasks
+      .filter((t) => !isCompletedStatus(t.status))
+      .map((t) => ({ id: t.id, name: t.name, status: t.status, sp: t.sp, assignees: t.assignees }));
+    if (unfinished.length === 0) {
+      if (config.dryRun) {
+        return { ok: true, dryRun: true, reason: `no unfinished tasks in ${ended.name}` };
+      }
+      await saveCarryOverRecord(getStore(env), {
+        sprintId: ended.id,
+        proposedAt: new Date().toISOString(),
+        channel: null,
+        ts: null,
+        tasks: 0
+      }, channelId);
+      return { ok: true, skipped: true, reason: `no unfinished tasks in ${ended.name}` };
+    }
+
+    // Capacity context: next sprint hours, SP already planned there, velocity of the ended sprint
+    const capacities = await fetchSprintCapacity(config, next.id);
+    const nextTasks = await fetchSprintTaskStates(config, next.id);
+    const plannedSpByMember: Record<string, number> = {};
+    for (const t of nextTasks) {
+      for (const name of t.assignees) plannedSpByMember[name] = (plannedSpByMember[name] ?? 0) + (t.sp ?? 0);
+    }
+    const completedSpByMember: Record<string, number> = {};
+    for (const t of endedTasks.filter((t) => isCompletedStatus(t.status))) {
+      for (const name of t.assignees) completedSpByMember[name] = (completedSpByMember[name] ?? 0) + (t.sp ?? 0);
+    }
+
+    const proposal = await proposeCarryOver(config, {
+      fromSprint: ended,
+      toSprint: next,
+      tasks: unfinished,
+      capacities: capacities.map((c) => ({ name: c.name, totalHours: c.totalHours })),
+      plannedSpByMember,
+      completedSpByMember
+    });
+
+    const pending: PendingCarryOver = {
+      fromSprint: { id: ended.id, name: ended.name, start_date: ended.start_date, end_date: ended.end_date },
+      toSprint: { id: next.id, name: next.name, start_date: next.start_date, end_date: next.end_date },
+      items: applyCarryOverDecisions(unfinished, proposal),
+      requestedAt: new Date().toISOString(),
+      scope: channelId ?? null
+    };
+    const text = buildCarryOverText(pending, proposal.summary, config.slackPmUserId);
+
+    if (config.dryRun) {
+      console.log("DRY_RUN: carry-over proposal not posted", text.slice(0, 200));
+      return { ok: true, dryRun: true, reason, fromSprint: ended.name, toSprint: next.name, tasks: pending.items.length, llmCalls: 1, prompts: usedPromptVersions(config), output: text };
+    }
+
+    const posted = await chatPostMessage(
+      config.slackBotToken,
+      targetChannel,
+      text,
+      buildApprovalButtons("carry_over")
+    );
+    await savePendingCarryOver(getStore(env), posted.channel, posted.ts, pending);
+    await saveCarryOverRecord(getStore(env), {
+      sprintId: ended.id,
+      proposedAt: pending.requestedAt,
+      channel: posted.channel,
+      ts: posted.ts,
+      tasks: pending.items.length
+    }, channelId);
+
+    return {
+      ok: true,
+      reason,
+      fromSprint: ended.name,
+      toSprint: next.name,
+      tasks: pending.items.length,
+      nextSprintTasks: pending.items.filter((i) => i.decision === "next_sprint").length,
+      llmCalls: 1,
+      prompts: usedPromptVersions(config),
+      slackPosts: 1,
+      output: text
+    };
+  } catch (error) {
+    const err = error as Error;
+    console.error("runCarryOverFlow failed", err);
+    return { ok: false, error: err.message };
+  }
+}
+
+// ── Sprint Planning Flow (09:00 JST, N days before the next sprint) ─────
+
+/**
+ * Propose a sprint backlog + assignees for the upcoming sprint from the backlog,
+ * member capacity, recent velocity and the master schedule's weekly allocations.
+ * The PM unticks line items and confirms in Slack (slackInteractions writes to Notion).
+ * cron: runs when the next sprint starts within SPRINT_PLANNING_LEAD_DAYS, once per sprint.
+ */
+export async function runSprintPlanningFlow(
+  env: Env,
+  reason: string,
+  channelId?: string
+): Promise<Record<string, unknown>> {
+  let config: AppConfig | undefined;
+  try {
+    config = withLlmUsage(channelId ? await resolveConfig(env, channelId) : getConfig(env), getStore(env), "sprint-plan", channelId);
+    const targetChannel = channelId ?? config.slackPmoChannelId;
+
+    if (!config.slackBotToken || !targetChannel) {
+      return { ok: true, skipped: true, reason: "no bot token or channel" };
+    }
+
+    const now = new Date();
+    const today = toJstDateString(now);
+    const sprint = findUpcomingSprint(await fetchAllSprints(config), today);
+    if (!sprint) {
+      return { ok: true, skipped: true, reason: "no upcoming sprint" };
+    }
+
+    if (reason !== "manual") {
+      const leadDays = config.sprintPlanningLeadDays;
+      if (leadDays === 0 || daysBetween(today, sprint.start_date) > leadDays) {
+        return { ok: true, skipped: true, reason: `${sprint.name} starts ${sprint.start_date}` };
+      }
+      if (await getSprintPlanRecord(getStore(env), sprint.id, channelId)) {
+        return { ok: true, skipped: true, reason: `plan already proposed for ${sprint.name}` };
+      }
+    }
+
+    const errors: string[] = [];
+    const backlog = await fetchBacklogTasks(config);
+    if (backlog.length === 0) {
+      return { ok: true, skipped: true, reason: "backlog is empty" };
+    }
+
+    const members = await fetchMembers(config);
+    const capacities = await fetchSprintCapacity(config, sprint.id);
+    const committed = await fetchSprintTaskStates(config, sprint.id);
+    const committedSp = committed.reduce((s, t) => s + (t.sp ?? 0), 0);
+
+    // Velocity from the running sprint (5AM snapshots, else sprint-level progress)
+    let avgDailySp: number | null = null;
+    try {
+      const current = await fetchCurrentSprintTasksSummary(config, now);
+      avgDailySp =
+        (await calculateAvgDailySpConsumption(getStore(env), current.sprint.id, today, businessCalendar(config)))?.avgDailySp ??
+        calcAvgDailySpFromSprint(current, today, businessCalendar(config));
+    } catch (err) {
+      console.warn("Velocity lookup skipped:", (err as Error).message);
+      errors.push(`velocity: ${(err as Error).message}`);
+    }
+    const sprintDays = daysBetween(sprint.start_date, sprint.end_date) + 1;
+    const spBudget = avgDailySp != null ? Math.round(avgDailySp * sprintDays) : null;
+
+    let scheduleData: Awaited<ReturnType<typeof fetchScheduleData>> | null = null;
+    try {
+      scheduleData = await fetchScheduleData(config, getStore(env), channelId);
+    } catch (err) {
+      console.warn("Google Sheets fetch skipped:", (err as Error).message);
+      errors.push(`sheets: ${(err as Error).message}`);
+    }
+
+    const proposal = await proposeSprintPlan(config, {
+      sprint,
+      backlog,
+      members,
+      capacities: capacities.map((c) => ({ name: c.name, totalHours: c.totalHours })),
+      committed: committed.map((t) => ({ name: t.name, sp: t.sp, assignees: t.assignees })),
+      spBudget,
+      avgDailySp,
+      scheduleItems: scheduleAllocationsForPeriod(scheduleData, sprint.start_date, sprint.end_date)
+    });
+
+    const pending: PendingSprintPlan = {
+      sprint: { id: sprint.id, name: sprint.name, start_date: sprint.start_date, end_date: sprint.end_date },
+      items: buildSprintPlanItems(backlog, proposal),
+      requestedAt: now.toISOString(),
+      scope: channelId ?? null
+    };
+    if (pending.items.length === 0) {
+      return { ok: true, skipped: true, reason: "LLM proposed no backlog items", llmCalls: 1, prompts: usedPromptVersions(config), errors };
+    }
+    const text = buildSprintPlanText(pending, proposal.summary, { spBudget, committedSp }, config.slackPmUserId);
+
+    if (config.dryRun) {
+      console.log("DRY_RUN: sprint plan not posted", text.slice(0, 200));
+      return { ok: true, dryRun: true, reason, llmCalls: 1, prompts: usedPromptVersions(config), errors, output: text };
+    }
+
+    const posted = await chatPostMessage(
+      config.slackBotToken,
+      targetChannel,
+      text,
+      buildSprintPlanBlocks(text, pending)
+    );
+    await savePendingSprintPlan(getStore(env), posted.channel, posted.ts, pending);
+    await saveSprintPlanRecord(getStore(env), {
+      sprintId: sprint.id,
+      proposedAt: pending.requestedAt,
+      channel: posted.channel,
+      ts: posted.ts,
+      items: pending.items.length
+    }, channelId);
+
+    return {
+      ok: true,
+      reason,
+      sprint: sprint.name,
+      items: pending.items.length,
+      spBudget,
+      committedSp,
+      llmCalls: 1,
+      prompts: usedPromptVersions(config),
+      slackPosts: 1,
+      errors,
+      output: text
+    };
+  } catch (error) {
+    const err = error as Error;
+    console.error("runSprintPlanningFlow failed", err);
+    return { ok: false, error: err.message };
+  }
+}
+
+// ── Master schedule write-back (manual) ──────────────────────────────────
+
+async function runScheduleSyncFlow(
+  env: Env,
+  reason: string,
+  channelId?: string
+): Promise<Record<string, unknown>> {
+  let config: AppConfig | undefined;
+  try {
+    config = withLlmUsage(channelId ? await resolveConfig(env, channelId) : getConfig(env), getStore(env), "schedule-sync", channelId);
+    if (!hasServiceAccount(config) || !config.googleSheetsId) {
+      return { ok: true, skipped: true, reason: "no service account or sheet" };
+    }
+
+    const now = new Date();
+    const today = toJstDateString(now);
+    const errors: string[] = [];
+    let llmCalls = 0;
+    const [summary, scheduleData] = await Promise.all([
+      fetchCurrentSprintTasksSummary(config, now),
+      fetchScheduleData(config, getStore(env), channelId)
+    ]);
+    if (scheduleData.rows.length === 0) {
+      return { ok: true, skipped: true, reason: "schedule sheet has no rows" };
+    }
+
+    try {
+      const resolved = await resolveTaskScheduleMapping(getStore(env), config, summary, scheduleData, channelId);
+      if (resolved.rematched > 0) llmCalls++;
+    } catch (err) {
+      // Fall back to the stored links
+      errors.push(`schedule mapping: ${(err as Error).message}`);
+    }
+
+    const result = await syncMasterSchedule(getStore(env), config, {
+      scheduleData,
+      summary,
+      today,
+      now,
+      channelId
+    });
+    return { ok: true, reason, llmCalls, prompts: usedPromptVersions(config), errors, ...result };
+  } catch (error) {
+    const err = error as Error;
+    console.error("runScheduleSyncFlow failed", err);
+    return { ok: false, error: err.message };
+  }
+}
+
+// ── End-of-Day Reminder Flow (flowSchedule.eodTime, default midnight JST) ──
 
 async function runEodReminderFlow(
   env: Env,
@@ -1333,15 +2142,15 @@ async function runEodReminderFlow(
       return { ok: true, skipped: true, reason: "no bot token" };
     }
 
-    // EOD runs at JST midnight — toJstDateString() already returns the new day,
+    // EOD runs at JST midnight by default — toJstDateString() already returns the new day,
     // but morning threads were saved under the previous day's date.
     // Try today first (in case manually triggered during the day), then fall back to yesterday.
     const today = toJstDateString();
     const yesterday = toJstDateString(new Date(), -1);
-    let activeThreads = await getActiveThreads(env.NOTIFY_CACHE, today, channelId);
+    let activeThreads = await getActiveThreads(getStore(env), today, channelId);
     let usedDate = today;
     if (activeThreads.length === 0) {
-      activeThreads = await getActiveThreads(env.NOTIFY_CACHE, yesterday, channelId);
+      activeThreads = await getActiveThreads(getStore(env), yesterday, channelId);
       usedDate = yesterday;
     }
 
@@ -1369,7 +2178,7 @@ async function runEodReminderFlow(
     }
 
     console.log("EOD reminder flow complete", { reason, reminded });
-    return { ok: true, reason, reminded };
+    return { ok: true, reason, reminded, slackPosts: reminded };
   } catch (error) {
     const err = error as Error;
     console.error("runEodReminderFlow failed", err);
@@ -1381,14 +2190,18 @@ async function runEodReminderFlow(
 
 async function runPhoneReminderFlow(
   env: Env,
-  trigger: "cron" | "manual"
-): Promise<{ ok: boolean; message: string }> {
+  trigger: "cron" | "manual",
+  channelId?: string
+): Promise<{ ok: boolean; message: string; slackPosts?: number }> {
   const config = getConfig(env);
   if (!config.slackBotToken) {
     return { ok: false, message: "SLACK_BOT_TOKEN not configured" };
   }
 
-  const reminders = await listAllPhoneReminders(env.NOTIFY_CACHE);
+  // Reminders are keyed by the channel the ☎️ was added in; scope to one channel when given
+  const reminders = (await listAllPhoneReminders(getStore(env))).filter(
+    (r) => !channelId || r.channel === channelId
+  );
   if (reminders.length === 0) {
     console.log(`runPhoneReminderFlow(${trigger}): no active reminders`);
     return { ok: true, message: "No active phone reminders" };
@@ -1396,6 +2209,7 @@ async function runPhoneReminderFlow(
 
   const now = new Date();
   let sentCount = 0;
+  const configByChannel = new Map<string, AppConfig>();
 
   for (const reminder of reminders) {
     // Only fire reminders that have a scheduled time, are pending, and the time has passed
@@ -1404,17 +2218,24 @@ async function runPhoneReminderFlow(
     if (now.getTime() < remindAt.getTime()) continue;
 
     try {
+      let channelConfig = configByChannel.get(reminder.channel);
+      if (!channelConfig) {
+        channelConfig = await resolveConfig(env, reminder.channel);
+        configByChannel.set(reminder.channel, channelConfig);
+      }
+      if (!channelConfig.slackBotToken) continue;
+
       const dmText =
         `☎️ *メッセージリマインド*\n` +
         `<${reminder.threadLink}|メッセージを見る>\n\n` +
         (reminder.messageContent ? `───────────────\n${reminder.messageContent}\n───────────────\n\n` : "") +
         `_再度リマインドしたい場合は時間を選択してください。_`;
 
-      const dmChannelId = reminder.dmChannel || await conversationsOpen(config.slackBotToken, reminder.userId);
+      const dmChannelId = reminder.dmChannel || await conversationsOpen(channelConfig.slackBotToken, reminder.userId);
       if (!dmChannelId) continue;
 
       await chatPostMessage(
-        config.slackBotToken,
+        channelConfig.slackBotToken,
         dmChannelId,
         dmText,
         [buildReminderDeliveryButtons(reminder.userId, reminder.channel, reminder.threadTs)]
@@ -1422,7 +2243,7 @@ async function runPhoneReminderFlow(
 
       // Mark as fired (won't fire again until rescheduled)
       await savePhoneReminder(
-        env.NOTIFY_CACHE,
+        getStore(env),
         reminder.userId,
         reminder.channel,
         reminder.threadTs,
@@ -1435,68 +2256,88 @@ async function runPhoneReminderFlow(
     }
   }
 
-  const msg = `Sent ${sentCount} phone reminders out of ${reminders.length} active (trigger=${trigger})`;
+  const msg = `Sent ${sentCount} phone reminders out of ${reminders.length} active (trigger=${trigger}, scope=${channelId ?? "all"})`;
   console.log(`runPhoneReminderFlow: ${msg}`);
-  return { ok: true, message: msg };
+  return { ok: true, message: msg, slackPosts: sentCount };
 }
 
 // ── Cron Health Check (watchdog) ────────────────────────────────────────────
 
 interface CronMonitorRule {
   name: string;
-  checkStartJst: number;  // JST hour to start checking
-  checkEndJst: number;    // JST hour to stop checking
-  expectedJst: string;    // Display string for alert
-  manualEndpoint: string; // Manual trigger path
+  expectedJst: (schedule: FlowSchedule) => string; // "HH:MM" the flow should have run at
+  workingDaysOnly: boolean; // morning / evening skip non-working days on purpose
+  manualEndpoint: string;   // Manual trigger path
 }
 
 const CRON_MONITOR_RULES: CronMonitorRule[] = [
-  { name: "morning",  checkStartJst: 9,  checkEndJst: 10, expectedJst: "09:00", manualEndpoint: "/pmo/morning" },
-  { name: "evening",  checkStartJst: 10, checkEndJst: 11, expectedJst: "10:00", manualEndpoint: "/pmo/evening" },
-  { name: "snapshot", checkStartJst: 5,  checkEndJst: 6,  expectedJst: "05:00", manualEndpoint: "/pmo/progress-snapshot" },
+  { name: "morning",  expectedJst: (s) => s.morningTime, workingDaysOnly: true,  manualEndpoint: "/pmo/morning" },
+  { name: "evening",  expectedJst: (s) => s.eveningTime, workingDaysOnly: true,  manualEndpoint: "/pmo/evening" },
+  { name: "snapshot", expectedJst: () => "05:00",        workingDaysOnly: false, manualEndpoint: "/pmo/progress-snapshot" },
 ];
 
 async function runCronHealthCheck(env: Env): Promise<void> {
-  const config = getConfig(env);
-  if (!config.slackBotToken || !config.slackPmUserId) return;
-
   const now = new Date();
-  const jstHour = (now.getUTCHours() + 9) % 24;
-  const jstMinute = now.getUTCMinutes();
+  const { minutes } = jstClock(now);
   const today = toJstDateString(now);
 
-  for (const rule of CRON_MONITOR_RULES) {
-    // Only check within the 30-min window after expected time
-    // e.g. morning (09:00): check at 09:30-09:45 (jstHour=9, minute>=30)
-    const inCheckWindow =
-      (jstHour === rule.checkStartJst && jstMinute >= 30) ||
-      (jstHour === rule.checkEndJst && jstMinute === 0);
-    if (!inCheckWindow) continue;
+  // Check each channel's heartbeats against its own schedule and alert that channel's PM
+  for (const channelId of await listFlowTargets(env)) {
+    try {
+      const config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+      if (!config.slackBotToken || !config.slackPmUserId) continue;
+
+      const calendar = businessCalendar(config);
+      // Only check within the 30-min window after expected time, on every dispatcher tick
+      // e.g. morning (09:00): check at 09:30-10:00; 23:45 is checked at 00:15-00:45 for the previous day
+      const dueRules = CRON_MONITOR_RULES.flatMap((rule) => {
+        const elapsed = minutesSince(parseClockTime(rule.expectedJst(config.flowSchedule))!, minutes);
+        if (elapsed < 30 || elapsed > 60) return [];
+        const runDate = elapsed > minutes ? addDays(today, -1) : today;
+        return rule.workingDaysOnly && !isWorkingDay(calendar, runDate) ? [] : [{ rule, runDate }];
+      });
 
-    // Already alerted today?
-    if (await hasCronAlertBeenSent(env.NOTIFY_CACHE, rule.name, today)) continue;
+      for (const { rule, runDate } of dueRules) {
+        // Already alerted for that day?
+        if (await hasCronAlertBeenSent(getStore(env), rule.name, runDate, channelId)) continue;
 
-    // Check heartbeat
-    const heartbeat = await getCronHeartbeat(env.NOTIFY_CACHE, rule.name);
-    if (heartbeat) {
-      const heartbeatDate = toJstDateString(new Date(heartbeat));
-      if (heartbeatDate === today) continue; // Already ran today
-    }
-
-    // Alert: cron didn't fire today
-    const dmChannelId = await conversationsOpen(config.slackBotToken, config.slackPmUserId);
-    if (!dmChannelId) continue;
+        // Check heartbeat
+        const heartbeat = await getCronHeartbeat(getStore(env), rule.name, channelId);
+        if (heartbeat) {
+          const heartbeatDate = toJstDateString(new Date(heartbeat));
+          if (heartbeatDate === runDate) continue; // Already ran that day
+        }
 
-    await chatPostMessage(
-      config.slackBotToken,
-      dmChannelId,
-      `⚠️ *cron 未実行アラート*\n` +
-      `\`${rule.name}\` が本日 ${rule.expectedJst} JST に実行されていません。\n` +
-      `手動実行: \`curl https://notion-sprint-worker.kaede-pmo.workers.dev${rule.manualEndpoint}\``
-    );
+        // Ran but skipped on purpose (e.g. PM thread already exists) → not an outage
+        const outcome = await getFlowOutcome(getStore(env), runDate, rule.name, channelId);
+        if (outcome?.status === "skipped") continue;
+
+        // Alert: cron didn't fire today, or fired and failed
+        const dmChannelId = await conversationsOpen(config.slackBotToken, config.slackPmUserId);
+        if (!dmChannelId) continue;
+
+        const target = channelId ?? config.slackPmoChannelId;
+        const where = target ? ` <#${target}> で` : "";
+        const channelQuery = channelId ? `?channel=${channelId}` : "";
+        const day = runDate === today ? "本日" : `${runDate} の`;
+        const headline = outcome?.status === "error"
+          ? `⚠️ *cron 失敗アラート*\n` +
+            `\`${rule.name}\` が${day}${where}エラーで失敗しました: ${outcome.detail ?? "unknown error"}\n`
+          : `⚠️ *cron 未実行アラート*\n` +
+            `\`${rule.name}\` が${day} ${rule.expectedJst(config.flowSchedule)} JST に${where}実行されていません。\n`;
+        await chatPostMessage(
+          config.slackBotToken,
+          dmChannelId,
+          headline +
+          `手動実行: \`curl -H "Authorization: Bearer $ADMIN_KEY" "https://notion-sprint-worker.kaede-pmo.workers.dev${rule.manualEndpoint}${channelQuery}"\``
+        );
 
-    await markCronAlertSent(env.NOTIFY_CACHE, rule.name, today);
-    console.log(`Cron health alert sent: ${rule.name} missing for ${today}`);
+        await markCronAlertSent(getStore(env), rule.name, runDate, channelId);
+        console.log(`Cron health alert sent: ${rule.name} ${outcome?.status ?? "missing"} for ${runDate} (scope=${channelId ?? "global"})`);
+      }
+    } catch (err) {
+      console.error(`Cron health check failed for channel ${channelId ?? "global"}:`, err);
+    }
   }
 }
 
@@ -1507,10 +2348,8 @@ async function runMissedCronCatchup(env: Env): Promise<void> {
   try {
     const now = new Date();
     const today = toJstDateString(now);
-    const jstHour = (now.getUTCHours() + 9) % 24;
-    const jstMinute = now.getUTCMinutes();
-    // Combined JST time for range checks (e.g. 9.5 = 09:30)
-    const jstTime = jstHour + jstMinute / 60;
+    // JST minutes since midnight for range checks (e.g. 570 = 09:30)
+    const { minutes } = jstClock(now);
 
     const isFromToday = (hb: string | null): boolean => {
       if (!hb) return false;
@@ -1520,47 +2359,93 @@ async function runMissedCronCatchup(env: Env): Promise<void> {
     // Prevent double catch-up per day per flow
     const tryCatchup = async (name: string): Promise<boolean> => {
       const key = `cron-catchup:${name}:${today}`;
-      if (await env.NOTIFY_CACHE.get(key)) return false;
-      await env.NOTIFY_CACHE.put(key, new Date().toISOString(), { expirationTtl: 86400 });
+      if (await getStore(env).get(key)) return false;
+      await getStore(env).put(key, new Date().toISOString(), { expirationTtl: 86400 });
       return true;
     };
 
+    const targets = await listFlowTargets(env);
+    const scopeLabel = (ch?: string) => ch ?? "global";
+
+    // Morning / evening follow each channel's schedule; non-working days have nothing to catch up
+    const schedules = new Map<string | undefined, FlowSchedule>();
+    for (const ch of targets) {
+      try {
+        const config = ch ? await resolveConfig(env, ch) : getConfig(env);
+        if (isWorkingDay(businessCalendar(config), today)) schedules.set(ch, config.flowSchedule);
+      } catch (err) {
+        console.error(`Catch-up: failed to resolve config for ${scopeLabel(ch)}:`, err);
+      }
+    }
+    // [scheduled + 30min, scheduled + hours), cut at midnight: the flows run for the
+    // current JST date, so a catch-up after midnight would run the wrong day
+    const inCatchupWindow = (time: string, hours: number) => {
+      const expected = parseClockTime(time)!;
+      return minutes >= expected + 30 && minutes < expected + hours * 60;
+    };
+
     // Snapshot (expected 05:00 JST, catch up 05:30–09:00)
     // 30min buffer avoids racing with the normal 05:00 cron
-    if (jstTime >= 5.5 && jstHour < 9) {
-      const hb = await getCronHeartbeat(env.NOTIFY_CACHE, "snapshot");
-      if (!isFromToday(hb) && await tryCatchup("snapshot")) {
-        console.log("Catch-up: snapshot missed, running now");
-        await runProgressSpSnapshot(env, "catchup");
+    if (minutes >= 5 * 60 + 30 && minutes < 9 * 60) {
+      const missed: Array<string | undefined> = [];
+      for (const ch of targets) {
+        const hb = await getCronHeartbeat(getStore(env), "snapshot", ch);
+        if (!isFromToday(hb) && await tryCatchup(`snapshot:${scopeLabel(ch)}`)) missed.push(ch);
+      }
+      if (missed.length > 0) {
+        console.log(`Catch-up: snapshot missed for ${missed.map(scopeLabel).join(", ")}, running now`);
+        for (const ch of missed) {
+          await trackFlow(env, "snapshot", "catchup", ch, () => runProgressSpSnapshot(env, "catchup", ch));
+        }
         return; // one catch-up per cycle
       }
     }
 
-    // Morning (expected 09:00 JST, catch up 09:30–13:00)
-    // 30min buffer avoids racing with the normal 09:00 cron
-    if (jstTime >= 9.5 && jstHour < 13) {
-      const hb = await getCronHeartbeat(env.NOTIFY_CACHE, "morning");
-      if (!isFromToday(hb) && await tryCatchup("morning")) {
-        console.log("Catch-up: morning flow missed, running now");
-        await runForAllChannels(env, (ch) => runMorningFlow(env, "catchup", null, ch));
+    // Morning (expected at morningTime, catch up from +30min for 4 hours)
+    // 30min buffer avoids racing with the normal dispatch
+    {
+      const missed: Array<string | undefined> = [];
+      for (const [ch, schedule] of schedules) {
+        if (!inCatchupWindow(schedule.morningTime, 4)) continue;
+        const hb = await getCronHeartbeat(getStore(env), "morning", ch);
+        if (!isFromToday(hb) && await tryCatchup(`morning:${scopeLabel(ch)}`)) missed.push(ch);
+      }
+      if (missed.length > 0) {
+        console.log(`Catch-up: morning flow missed for ${missed.map(scopeLabel).join(", ")}, running now`);
+        for (const ch of missed) {
+          try {
+            await trackFlow(env, "morning", "catchup", ch, () => runMorningFlow(env, "catchup", null, ch));
+          } catch (err) {
+            console.error(`Catch-up morning failed for ${scopeLabel(ch)}:`, err);
+          }
+        }
         return;
       }
     }
 
-    // Evening (expected 10:00 JST, catch up 10:30–16:00)
+    // Evening (expected at eveningTime, catch up from +30min for 6 hours)
     // 30min buffer + dependency: morning must have run today + at least 30 min ago
-    if (jstTime >= 10.5 && jstHour < 16) {
-      const morningHb = await getCronHeartbeat(env.NOTIFY_CACHE, "morning");
-      const eveningHb = await getCronHeartbeat(env.NOTIFY_CACHE, "evening");
-      if (isFromToday(morningHb) && !isFromToday(eveningHb)) {
+    {
+      const missed: Array<string | undefined> = [];
+      for (const [ch, schedule] of schedules) {
+        if (!inCatchupWindow(schedule.eveningTime, 6)) continue;
+        const morningHb = await getCronHeartbeat(getStore(env), "morning", ch);
+        const eveningHb = await getCronHeartbeat(getStore(env), "evening", ch);
+        if (!isFromToday(morningHb) || isFromToday(eveningHb)) continue;
         const morningTime = new Date(morningHb!);
-        if (now.getTime() - morningTime.getTime() >= 30 * 60 * 1000) {
-          if (await tryCatchup("evening")) {
-            console.log("Catch-up: evening flow missed, running now");
-            await runForAllChannels(env, (ch) => runEveningFlow(env, "catchup", ch));
-            return;
+        if (now.getTime() - morningTime.getTime() < 30 * 60 * 1000) continue;
+        if (await tryCatchup(`evening:${scopeLabel(ch)}`)) missed.push(ch);
+      }
+      if (missed.length > 0) {
+        console.log(`Catch-up: evening flow missed for ${missed.map(scopeLabel).join(", ")}, running now`);
+        for (const ch of missed) {
+          try {
+            await trackFlow(env, "evening", "catchup", ch, () => runEveningFlow(env, "catchup", ch));
+          } catch (err) {
+            console.error(`Catch-up evening failed for ${scopeLabel(ch)}:`, err);
           }
         }
+        return;
       }
     }
   } catch (err) {
@@ -1570,13 +2455,86 @@ async function runMissedCronCatchup(env: Env): Promise<void> {
 
 // ── HTTP handler ───────────────────────────────────────────────────────────
 
+/** Is this channel a valid target for admin endpoints (registered or the global PMO channel)? */
+async function isKnownChannel(env: Env, channelId: string): Promise<boolean> {
+  if (await getChannelConfig(getStore(env), channelId)) return true;
+  return getConfig(env).slackPmoChannelId === channelId;
+}
+
+/** Heartbeats and flow outcomes of `date`; "degraded" when any flow errored */
+async function collectHealth(env: Env, date: string) {
+  const heartbeats = await getAllCronHeartbeats(getStore(env));
+  const outcomes = await listFlowOutcomes(getStore(env), date);
+  const channels: Record<string, { crons: Record<string, string | null>; outcomes: Record<string, unknown> }> = {};
+  let failed = Object.values(outcomes).some((o) => o.status === "error");
+  for (const { channelId: ch } of await listAllChannelConfigs(getStore(env))) {
+    const channelOutcomes = await listFlowOutcomes(getStore(env), date, ch);
+    failed ||= Object.values(channelOutcomes).some((o) => o.status === "error");
+    channels[ch] = {
+      crons: await getAllCronHeartbeats(getStore(env), ch),
+      outcomes: channelOutcomes
+    };
+  }
+  return { status: failed ? "degraded" : "ok", crons: heartbeats, outcomes, channels };
+}
+
 async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
+  const url = new URL(request.url);
+  const adminRoute = ADMIN_ROUTES[url.pathname];
+  if (!adminRoute) return routeHttp(request, env, ctx);
+
+  // Admin endpoints: authenticate → validate channel → dispatch → audit log
+  const startedAt = Date.now();
+  const channelId = url.searchParams.get("channel") ?? undefined;
+  const auth = await authenticateAdminRequest(request, getConfig(env), adminRoute, channelId);
+
+  let response: Response;
+  if (!auth.ok) {
+    response = jsonResponse({ ok: false, message: auth.message }, auth.status);
+  } else if (channelId && !adminRoute.channelScoped) {
+    response = jsonResponse({ ok: false, message: "channel targeting is not supported on this endpoint" }, 400);
+  } else if (channelId && !(await isKnownChannel(env, channelId))) {
+    response = jsonResponse({ ok: false, message: `unknown channel: ${channelId}` }, 404);
+  } else {
+    response = await routeHttp(request, env, ctx);
+  }
+
+  const audit = appendAdminAuditLog(getStore(env), {
+    at: new Date(startedAt).toISOString(),
+    keyId: auth.ok ? auth.key.id : auth.keyId ?? null,
+    authMethod: auth.ok ? auth.method : null,
+    method: request.method,
+    path: url.pathname,
+    query: url.search,
+    channel: channelId ?? null,
+    status: response.status,
+    durationMs: Date.now() - startedAt,
+    ip: request.headers.get("cf-connecting-ip"),
+    ...(auth.ok ? {} : { error: auth.message })
+  }).catch((err) => console.error("admin audit log failed:", err));
+  if (ctx) ctx.waitUntil(audit);
+  else await audit;
+
+  return response;
+}
+
+async function routeHttp(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
   const url = new URL(request.url);
   const path = url.pathname;
+  // Admin target channel (already validated in handleHttp)
+  const channelId = url.searchParams.get("channel") ?? undefined;
 
+  // Public: overall status only (the breakdown carries channel IDs and raw error messages)
   if (path === "/health") {
-    const heartbeats = await getAllCronHeartbeats(env.NOTIFY_CACHE);
-    return jsonResponse({ status: "ok", crons: heartbeats });
+    const date = url.searchParams.get("date") ?? toJstDateString();
+    const { status } = await collectHealth(env, date);
+    return jsonResponse({ status, date });
+  }
+
+  // Admin: cron heartbeats and flow outcomes, global and per channel
+  if (path === "/pmo/health") {
+    const date = url.searchParams.get("date") ?? toJstDateString();
+    return jsonResponse({ ...(await collectHealth(env, date)), date });
   }
 
   // Admin: send PM report to a specific user's DM (for testing)
@@ -1585,11 +2543,11 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
     if (!targetUserId) {
       return jsonResponse({ ok: false, message: "?user=U... required" });
     }
-    const cfg = getConfig(env);
+    const cfg = channelId ? await resolveConfig(env, channelId) : getConfig(env);
     if (!cfg.slackBotToken) return jsonResponse({ ok: false, message: "no bot token" });
 
     const today = toJstDateString();
-    const pmThread = await getPmThread(env.NOTIFY_CACHE, today);
+    const pmThread = await getPmThread(getStore(env), today, channelId);
     if (!pmThread) {
       return jsonResponse({ ok: false, message: "no pm thread for today. Run /pmo/evening first" });
     }
@@ -1606,12 +2564,12 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
     );
 
     // Save PM thread with the DM's ts so the OK button works
-    await savePmThread(env.NOTIFY_CACHE, today, {
+    await savePmThread(getStore(env), today, {
       channel: dmChannelId,
       ts: pmResult.ts,
       proposalJson: pmThread.proposalJson,
       state: "pending"
-    });
+    }, undefined, channelId);
 
     return jsonResponse({ ok: true, dmChannel: dmChannelId, ts: pmResult.ts });
   }
@@ -1619,28 +2577,32 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
   // Admin: mark today's PM thread as processed (stop reminders)
   if (path === "/pmo/pm-dismiss") {
     const today = toJstDateString();
-    const pmThread = await getPmThread(env.NOTIFY_CACHE, today);
+    const pmThread = await getPmThread(getStore(env), today, channelId);
     if (!pmThread) {
       return jsonResponse({ ok: false, message: "no pm thread for today" });
     }
-    console.log(`[PM-PROCESSED-BY] /pmo/pm-dismiss endpoint`);
-    await savePmThread(env.NOTIFY_CACHE, today, { ...pmThread, state: "processed" });
+    console.log(`[PM-PROCESSED-BY] /pmo/pm-dismiss endpoint, scope=${channelId}`);
+    await savePmThread(getStore(env), today, { ...pmThread, state: "processed" }, undefined, channelId);
     return jsonResponse({ ok: true, message: "pm thread marked as processed" });
   }
 
   // Debug: inspect today's PM thread state
   if (path === "/pmo/pm-debug") {
     const today = toJstDateString();
-    const globalPm = await getPmThread(env.NOTIFY_CACHE, today);
-    const channels = await listAllChannelConfigs(env.NOTIFY_CACHE);
+    const channels = await listAllChannelConfigs(getStore(env));
     const channelPms: Record<string, unknown> = {};
-    for (const { channelId } of channels) {
-      const pm = await getPmThread(env.NOTIFY_CACHE, today, channelId);
-      if (pm) channelPms[channelId] = pm;
+    for (const { channelId: ch } of channels) {
+      if (channelId && ch !== channelId) continue;
+      const pm = await getPmThread(getStore(env), today, ch);
+      if (pm) channelPms[ch] = pm;
     }
+    // Channel-restricted keys see only their own channel's thread
+    if (channelId) return jsonResponse({ today, channelPms });
+
+    const globalPm = await getPmThread(getStore(env), today);
     const globalConfig = getConfig(env);
     const pmoChannelPm = globalConfig.slackPmoChannelId
-      ? await getPmThread(env.NOTIFY_CACHE, today, globalConfig.slackPmoChannelId)
+      ? await getPmThread(getStore(env), today, globalConfig.slackPmoChannelId)
       : null;
     return jsonResponse({
       today,
@@ -1668,6 +2630,11 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
     return handleSlackInteractions(request, env, ctx);
   }
 
+  // Slack slash commands (/pmo status, /pmo tasks, ...)
+  if (path === "/slack/commands" && request.method === "POST") {
+    return handleSlackCommands(request, env, ctx);
+  }
+
   if (path === "/run-now") {
     const config = getConfig(env);
     if (
@@ -1701,40 +2668,400 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
   // PMO AI Agent flow triggers (manual)
   if (path === "/pmo/morning") {
     const target = url.searchParams.get("target");
-    const result = await runMorningFlow(env, "manual", target);
+    const result = await trackFlow(env, "morning", "manual", channelId, () => runMorningFlow(env, "manual", target, channelId));
     return jsonResponse(result, result.ok ? 200 : 500);
   }
 
   if (path === "/pmo/reminder") {
-    const result = await runReminderFlow(env, "manual");
+    const result = await trackFlow(env, "reminder", "manual", channelId, () => runReminderFlow(env, "manual", channelId));
     return jsonResponse(result, result.ok ? 200 : 500);
   }
 
   if (path === "/pmo/evening") {
-    const result = await runEveningFlow(env, "manual");
+    const result = await trackFlow(env, "evening", "manual", channelId, () => runEveningFlow(env, "manual", channelId));
     return jsonResponse(result, result.ok ? 200 : 500);
   }
 
   if (path === "/pmo/pm-reminder") {
-    const result = await runPmReminderFlow(env, "manual");
+    const result = await trackFlow(env, "pm-reminder", "manual", channelId, () => runPmReminderFlow(env, "manual", channelId));
     return jsonResponse(result, result.ok ? 200 : 500);
   }
 
   if (path === "/pmo/phone-reminder") {
-    const result = await runPhoneReminderFlow(env, "manual");
+    const result = await trackFlow(env, "phone-reminder", "manual", channelId, () => runPhoneReminderFlow(env, "manual", channelId));
     return jsonResponse(result, result.ok ? 200 : 500);
   }
 
   if (path === "/pmo/eod-reminder") {
-    const result = await runEodReminderFlow(env, "manual");
+    const result = await trackFlow(env, "eod-reminder", "manual", channelId, () => runEodReminderFlow(env, "manual", channelId));
     return jsonResponse(result, result.ok ? 200 : 500);
   }
 
   if (path === "/pmo/progress-snapshot") {
-    const result = await runProgressSpSnapshot(env, "manual");
+    const result = await trackFlow(env, "snapshot", "manual", channelId, () => runProgressSpSnapshot(env, "manual", channelId));
+    return jsonResponse(result, result.ok ? 200 : 500);
+  }
+
+  if (path === "/pmo/sprint-retro") {
+    const sprintId = url.searchParams.get("sprint") ?? undefined;
+    const result = await trackFlow(env, "sprint-retro", "manual", channelId, () => runSprintRetroFlow(env, "manual", channelId, sprintId));
+    return jsonResponse(result, result.ok ? 200 : 500);
+  }
+
+  if (path === "/pmo/carry-over") {
+    const sprintId = url.searchParams.get("sprint") ?? undefined;
+    const result = await trackFlow(env, "carry-over", "manual", channelId, () => runCarryOverFlow(env, "manual", channelId, sprintId));
+    return jsonResponse(result, result.ok ? 200 : 500);
+  }
+
+  if (path === "/pmo/sprint-plan") {
+    const result = await trackFlow(env, "sprint-plan", "manual", channelId, () => runSprintPlanningFlow(env, "manual", channelId));
+    return jsonResponse(result, result.ok ? 200 : 500);
+  }
+
+  if (path === "/pmo/schedule-sync") {
+    const result = await trackFlow(env, "schedule-sync", "manual", channelId, () => runScheduleSyncFlow(env, "manual", channelId));
     return jsonResponse(result, result.ok ? 200 : 500);
   }
 
+  // Admin: run history for a JST date (default: today), optionally filtered by ?channel= / ?flow=
+  if (path === "/pmo/runs") {
+    const date = url.searchParams.get("date") ?? toJstDateString();
+    const flow = url.searchParams.get("flow") ?? undefined;
+    const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "200", 10) || 200, 1000);
+    const runs = await listRunRecords(getStore(env), date, { channel: channelId, flow, limit });
+    return jsonResponse({ ok: true, date, count: runs.length, runs });
+  }
+
+  // Admin: prompt templates — effective version of each, or one prompt's text and history with ?id=
+  if (path === "/pmo/prompts") {
+    const kv = getStore(env);
+    const scope = channelId ?? "global";
+    const persona = (channelId ? await resolveConfig(env, channelId) : getConfig(env)).promptPersona;
+    const id = url.searchParams.get("id");
+    if (id) {
+      if (!isPromptId(id)) return jsonResponse({ ok: false, error: `unknown prompt: ${id}` }, 404);
+      const [prompt, history] = await Promise.all([
+        getEffectivePrompt(kv, channelId ?? null, id),
+        listPromptHistory(kv, scope, id)
+      ]);
+      return jsonResponse({ ok: true, scope, persona, variables: promptVariables(id), prompt, builtin: builtinPrompt(id), history });
+    }
+    const prompts = await Promise.all(listPromptDefinitions().map(async (def) => {
+      const prompt = await getEffectivePrompt(kv, channelId ?? null, def.id);
+      return { ...def, version: promptVersionLabel(prompt), source: prompt.scope, updatedAt: prompt.updatedAt, note: prompt.note };
+    }));
+    return jsonResponse({ ok: true, scope, persona, prompts });
+  }
+
+  // Admin: save a prompt version ({id, template, note?}), roll back ({id, rollback: <version>}),
+  // drop the override ({id, reset: true}) or set the channel persona ({persona: {...} | null})
+  if (path === "/pmo/prompts/update" && request.method === "POST") {
+    let body: Record<string, unknown>;
+    try {
+      body = (await request.json()) as Record<string, unknown>;
+    } catch {
+      return jsonResponse({ ok: false, error: "invalid JSON body" }, 400);
+    }
+    const kv = getStore(env);
+    const scope = channelId ?? "global";
+
+    if ("persona" in body) {
+      if (!channelId) {
+        return jsonResponse({ ok: false, error: "persona is set per channel (?channel=); use PROMPT_PERSONA for the default" }, 400);
+      }
+      const channelCfg = await getChannelConfig(kv, channelId);
+      if (!channelCfg) return jsonResponse({ ok: false, error: `channel is not set up: ${channelId}` }, 404);
+      if (body.persona === null) {
+        const { promptPersona: _persona, ...rest } = channelCfg;
+        await saveChannelConfig(kv, channelId, rest);
+      } else {
+        if (!normalizePromptPersona(body.persona)) {
+          return jsonResponse({ ok: false, error: "persona must be {name?, tone?, language?: string, extraRules?: string[]}" }, 400);
+        }
+        const persona = Object.fromEntries(
+          Object.entries(body.persona as Record<string, unknown>)
+            .filter(([key]) => ["name", "tone", "language", "extraRules"].includes(key))
+        ) as Partial<PromptPersona>;
+        await saveChannelConfig(kv, channelId, { ...channelCfg, promptPersona: persona });
+      }
+      return jsonResponse({ ok: true, persona: (await resolveConfig(env, channelId)).promptPersona });
+    }
+
+    const id = body.id;
+    if (!isPromptId(id)) return jsonResponse({ ok: false, error: `unknown prompt: ${String(id)}` }, 400);
+    if (body.reset === true) {
+      await resetPromptTemplate(kv, scope, id);
+      const prompt = await getEffectivePrompt(kv, channelId ?? null, id);
+      return jsonResponse({ ok: true, version: promptVersionLabel(prompt) });
+    }
+
+    let template: string;
+    let note = typeof body.note === "string" ? body.note : undefined;
+    if (typeof body.rollback === "number") {
+      const entry = (await listPromptHistory(kv, scope, id)).find((h) => h.version === body.rollback);
+      if (!entry) return jsonResponse({ ok: false, error: `no saved version ${body.rollback} of ${id} (${scope})` }, 404);
+      template = entry.template;
+      note ??= `rollback to v${entry.version}`;
+    } else if (typeof body.template === "string") {
+      template = body.template;
+    } else {
+      return jsonResponse({ ok: false, error: "template, rollback (version) or reset: true is required" }, 400);
+    }
+    const invalid = validatePromptTemplate(id, template);
+    if (invalid) return jsonResponse({ ok: false, error: invalid }, 400);
+
+    const saved = await savePromptTemplate(kv, scope, id, template, note);
+    return jsonResponse({ ok: true, version: promptVersionLabel(saved), prompt: saved });
+  }
+
+  // Admin: mention eval cases and recent runs, one run's report with ?run=, captured samples with ?samples=1
+  if (path === "/pmo/eval/mention") {
+    const kv = getStore(env);
+    const runId = url.searchParams.get("run");
+    if (runId) {
+      const run = await getMentionEvalRun(kv, runId);
+      if (!run) return jsonResponse({ ok: false, error: `unknown run: ${runId}` }, 404);
+      const baseline = await getMentionEvalBaseline(kv);
+      const diff = baseline && baseline.id !== run.id ? diffMentionEvalRuns(baseline, run) : null;
+      return jsonResponse({ ok: true, run, diff, report: formatMentionEvalReport(run, diff) });
+    }
+    if (url.searchParams.get("samples") === "1") {
+      return jsonResponse({ ok: true, samples: await listMentionEvalSamples(kv) });
+    }
+    const [cases, runs, baseline] = await Promise.all([
+      listMentionEvalCases(kv),
+      listMentionEvalRuns(kv),
+      getMentionEvalBaseline(kv)
+    ]);
+    return jsonResponse({
+      ok: true,
+      baseline: baseline?.id ?? null,
+      cases: cases.map((c) => ({ id: c.id, description: c.description, intent: c.expected.intent, recorded: !!c.recorded })),
+      runs
+    });
+  }
+
+  // Admin: add / replace cases ({cases: [...]}), delete them ({delete: [ids]})
+  // or promote a captured sample ({promote: sampleId, id?, description?, expected?})
+  if (path === "/pmo/eval/mention/cases" && request.method === "POST") {
+    let body: Record<string, unknown>;
+    try {
+      body = (await request.json()) as Record<string, unknown>;
+    } catch {
+      return jsonResponse({ ok: false, error: "invalid JSON body" }, 400);
+    }
+    const kv = getStore(env);
+
+    if (typeof body.promote === "string") {
+      const promoted = await promoteMentionEvalSample(kv, body.promote, {
+        id: typeof body.id === "string" ? body.id : undefined,
+        description: typeof body.description === "string" ? body.description : undefined,
+        expected: body.expected as MentionEvalExpectation | undefined
+      });
+      if (!promoted) return jsonResponse({ ok: false, error: `unknown sample: ${body.promote}` }, 404);
+      const invalid = validateMentionEvalCase(promoted);
+      if (invalid) return jsonResponse({ ok: false, error: invalid }, 400);
+      await saveMentionEvalCase(kv, promoted);
+      return jsonResponse({ ok: true, case: promoted });
+    }
+
+    if (Array.isArray(body.delete)) {
+      const ids = body.delete.filter((id): id is string => typeof id === "string");
+      for (const id of ids) await deleteMentionEvalCase(kv, id);
+      return jsonResponse({ ok: true, deleted: ids });
+    }
+
+    if (!Array.isArray(body.cases)) {
+      return jsonResponse({ ok: false, error: "cases, delete or promote is required" }, 400);
+    }
+    for (const c of body.cases) {
+      const invalid = validateMentionEvalCase(c);
+      if (invalid) return jsonResponse({ ok: false, error: invalid }, 400);
+    }
+    const cases = body.cases as MentionEvalCase[];
+    for (const c of cases) await saveMentionEvalCase(kv, c);
+    return jsonResponse({ ok: true, saved: cases.map((c) => c.id) });
+  }
+
+  // Admin: score the golden set ({mode?: "live"|"recorded", provider?, model?, template?, cases?: [ids], setBaseline?})
+  // with the channel's config and diff it against the baseline run
+  if (path === "/pmo/eval/mention/run" && request.method === "POST") {
+    let body: Record<string, unknown>;
+    try {
+      body = (await request.json()) as Record<string, unknown>;
+    } catch {
+      return jsonResponse({ ok: false, error: "invalid JSON body" }, 400);
+    }
+    const mode = body.mode === "recorded" ? "recorded" : "live";
+    let config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+    if (body.provider != null) {
+      const llmProvider = parseLlmProvider(String(body.provider));
+      if (!llmProvider) return jsonResponse({ ok: false, error: `unknown provider: ${String(body.provider)}` }, 400);
+      config = { ...config, llmProvider, llmModel: undefined };
+    }
+    if (typeof body.model === "string") config = { ...config, llmModel: body.model };
+    let template: string | undefined;
+    if (typeof body.template === "string") {
+      const invalid = validatePromptTemplate("mention", body.template);
+      if (invalid) return jsonResponse({ ok: false, error: invalid }, 400);
+      template = body.template;
+    }
+
+    const kv = getStore(env);
+    let cases = await listMentionEvalCases(kv);
+    if (Array.isArray(body.cases)) {
+      const ids = new Set(body.cases);
+      cases = cases.filter((c) => ids.has(c.id));
+    }
+    if (cases.length === 0) return jsonResponse({ ok: false, error: "no eval cases" }, 400);
+    if (cases.length > MAX_EVAL_CASES) {
+      return jsonResponse({ ok: false, error: `too many cases (${cases.length} > ${MAX_EVAL_CASES}); pass cases: [ids]` }, 400);
+    }
+
+    let run;
+    try {
+      run = await runMentionEval(config, kv, cases, { mode, template, channelId });
+    } catch (err) {
+      return jsonResponse({ ok: false, error: (err as Error).message }, 400);
+    }
+    const baseline = await getMentionEvalBaseline(kv);
+    const diff = baseline ? diffMentionEvalRuns(baseline, run) : null;
+    if (body.setBaseline === true) await setMentionEvalBaseline(kv, run.id);
+    return jsonResponse({ ok: true, run, diff, report: formatMentionEvalReport(run, diff) });
+  }
+
+  // Admin: copy KV state into D1 one page at a time (call again with ?cursor= until done=true)
+  if (path === "/pmo/migrate-state") {
+    if (!env.PMO_DB) {
+      return jsonResponse({ ok: false, error: "PMO_DB (D1) binding is not configured" }, 400);
+    }
+    const cursor = url.searchParams.get("cursor") ?? undefined;
+    const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "200", 10) || 200, 500);
+    try {
+      const result = await migrateKvToD1(env.NOTIFY_CACHE, env.PMO_DB, cursor, limit);
+      return jsonResponse({ ok: true, ...result });
+    } catch (err) {
+      return jsonResponse({ ok: false, error: (err as Error).message }, 500);
+    }
+  }
+
+  // Admin: historical snapshots — sprints with history / sprint state on a date / task history
+  if (path === "/pmo/snapshots") {
+    const sprints = await listSnapshotSprints(getStore(env), channelId);
+    return jsonResponse({ ok: true, count: sprints.length, sprints });
+  }
+
+  if (path === "/pmo/snapshots/sprint") {
+    const date = url.searchParams.get("date") ?? toJstDateString();
+    const sprintId =
+      url.searchParams.get("sprint") ??
+      (await findSnapshotSprintOn(getStore(env), date, channelId))?.sprintId;
+    if (!sprintId) {
+      return jsonResponse({ ok: false, error: `no sprint snapshot covers ${date} (pass ?sprint=)` }, 404);
+    }
+    const snapshot = await getSprintStateOn(getStore(env), sprintId, date);
+    if (!snapshot) {
+      return jsonResponse({ ok: false, error: `no snapshot for sprint ${sprintId} on or before ${date}` }, 404);
+    }
+    return jsonResponse({ ok: true, requestedDate: date, snapshot });
+  }
+
+  if (path === "/pmo/snapshots/task") {
+    const taskId = url.searchParams.get("task");
+    if (!taskId) return jsonResponse({ ok: false, error: "task is required" }, 400);
+    const history = await getTaskHistory(getStore(env), taskId);
+    return jsonResponse({ ok: true, ...history });
+  }
+
+  // Admin: burndown / burnup chart image (?sprint= default: sprint covering today, ?format=svg|png)
+  if (path === "/pmo/burndown") {
+    const today = toJstDateString();
+    const format = url.searchParams.get("format") === "png" ? "png" : "svg";
+    const sprintParam = url.searchParams.get("sprint");
+    const meta = sprintParam
+      ? (await listSnapshotSprints(getStore(env), channelId)).find((s) => s.sprintId === sprintParam)
+      : await findSnapshotSprintOn(getStore(env), today, channelId);
+
+    let sprint: { id: string; name: string; start_date: string; end_date: string };
+    let planSp: number | null = null;
+    if (meta) {
+      sprint = { id: meta.sprintId, name: meta.name, start_date: meta.startDate, end_date: meta.endDate };
+    } else if (!sprintParam) {
+      // No history yet: fall back to the current Notion sprint (5AM progress keys only)
+      const config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+      try {
+        const summary = await fetchCurrentSprintTasksSummary(config, new Date());
+        sprint = summary.sprint;
+        planSp = summary.sprint_metrics?.plan_sp ?? null;
+      } catch (err) {
+        return jsonResponse({ ok: false, error: (err as Error).message }, 500);
+      }
+    } else {
+      return jsonResponse({ ok: false, error: `no snapshot history for sprint ${sprintParam}` }, 404);
+    }
+
+    const series = await collectBurndownSeries(getStore(env), sprint, planSp, today);
+    const headers = { "Cache-Control": "private, max-age=300" };
+    if (format === "png") {
+      return new Response(await renderBurndownPng(series), {
+        headers: { ...headers, "Content-Type": "image/png" }
+      });
+    }
+    return new Response(renderBurndownSvg(series), {
+      headers: { ...headers, "Content-Type": "image/svg+xml; charset=utf-8" }
+    });
+  }
+
+  // Admin: Monte Carlo completion forecast for the current sprint
+  if (path === "/pmo/forecast") {
+    const config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+    const today = toJstDateString();
+    try {
+      const summary = await fetchCurrentSprintTasksSummary(config, new Date());
+      const forecast = await forecastSprintCompletion(getStore(env), summary, today, businessCalendar(config), channelId);
+      if (!forecast) {
+        return jsonResponse({ ok: false, error: "not enough snapshot history for a forecast" }, 404);
+      }
+      return jsonResponse({
+        ok: true,
+        sprint: summary.sprint,
+        forecast,
+        text: formatForecastText(forecast)
+      });
+    } catch (err) {
+      return jsonResponse({ ok: false, error: (err as Error).message }, 500);
+    }
+  }
+
+  // Admin: stored task → master-schedule links (open tasks of the current sprint only)
+  if (path === "/pmo/schedule-mapping") {
+    const config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+    try {
+      const summary = await fetchCurrentSprintTasksSummary(config, new Date());
+      const openTaskIds = new Set(summary.assignees.flatMap((a) => a.tasks.map((t) => t.id)));
+      const links = await getScheduleTaskLinks(getStore(env), channelId);
+      const current = Object.fromEntries(Object.entries(links).filter(([id]) => openTaskIds.has(id)));
+      return jsonResponse({
+        ok: true,
+        sprint: summary.sprint,
+        count: Object.keys(current).length,
+        links: current,
+        text: formatScheduleLinks(links, openTaskIds)
+      });
+    } catch (err) {
+      return jsonResponse({ ok: false, error: (err as Error).message }, 500);
+    }
+  }
+
+  // Admin: audit log of admin API calls for a JST date (default: today)
+  if (path === "/pmo/audit") {
+    const date = url.searchParams.get("date") ?? toJstDateString();
+    const limit = Math.min(parseInt(url.searchParams.get("limit") ?? "200", 10) || 200, 1000);
+    const entries = await listAdminAuditLog(getStore(env), date, limit);
+    return jsonResponse({ ok: true, date, count: entries.length, entries });
+  }
+
   if (path === "/query" && request.method === "POST") {
     let body: Record<string, unknown>;
     try {
@@ -1745,7 +3072,7 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
     if (!body?.prompt || typeof body.prompt !== "string") {
       return jsonResponse({ ok: false, error: "prompt is required" }, 400);
     }
-    const config = getConfig(env);
+    const config = withLlmUsage(channelId ? await resolveConfig(env, channelId) : getConfig(env), getStore(env), "admin-query", channelId);
     try {
       const text = await fetchFreeText(config, body.prompt, new Date());
       return jsonResponse({ ok: true, text });
@@ -1758,7 +3085,7 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
   }
 
   if (path === "/notion-tasks" && request.method === "GET") {
-    const config = getConfig(env);
+    const config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
     const start = url.searchParams.get("start");
     const end = url.searchParams.get("end");
     try {
@@ -1802,7 +3129,7 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
   }
 
   if (path === "/notion-tasks/notify") {
-    const config = getConfig(env);
+    const config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
     const start = url.searchParams.get("start");
     const end = url.searchParams.get("end");
     try {
@@ -1864,32 +3191,168 @@ async function handleHttp(request: Request, env: Env, ctx?: ExecutionContext): P
   return jsonResponse({ message: "not found" }, 404);
 }
 
-async function runForAllChannels(
+/**
+ * Channels that per-channel flows run for: every registered channel, plus
+ * `undefined` (global config) when SLACK_PMO_CHANNEL_ID isn't already registered.
+ */
+async function listFlowTargets(env: Env): Promise<Array<string | undefined>> {
+  const channels = await listAllChannelConfigs(getStore(env));
+  const targets: Array<string | undefined> = channels.map((c) => c.channelId);
+  // Also run with global config if PMO channel is set (backward compat)
+  try {
+    const globalConfig = getConfig(env);
+    if (globalConfig.slackPmoChannelId && !targets.includes(globalConfig.slackPmoChannelId)) {
+      targets.push(undefined);
+    }
+  } catch {
+    // Global config may be incomplete (no DB URLs) - that's fine
+  }
+  return targets;
+}
+
+/**
+ * Run a flow and record its outcome (ok/skipped/error, counts, duration) under
+ * today's date for the given channel scope, plus a run history entry.
+ * Flows report llmCalls / slackPosts / notionWrites / errors / output / prompts in their result.
+ * Thrown errors are recorded and rethrown.
+ */
+async function trackFlow(
   env: Env,
-  fn: (channelId?: string) => Promise<unknown>
+  name: string,
+  trigger: string,
+  channelId: string | undefined,
+  fn: () => Promise<Record<string, unknown>>
+): Promise<Record<string, unknown>> {
+  const startedAt = new Date();
+  const today = toJstDateString(startedAt);
+  let result: Record<string, unknown>;
+  let thrown: unknown;
+  try {
+    result = await fn();
+  } catch (err) {
+    thrown = err;
+    result = { ok: false, error: (err as Error).message };
+  }
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+  const counts: Record<string, number> = {};
+  for (const [k, v] of Object.entries(result)) {
+    if (typeof v === "number") counts[k] = v;
+  }
+  const status = result.ok === false ? "error" : result.skipped ? "skipped" : "ok";
+  const detail = status === "error"
+    ? result.error ?? result.message
+    : status === "skipped" ? result.reason : undefined;
+  try {
+    await saveFlowOutcome(getStore(env), today, {
+      name,
+      scope: channelId ?? null,
+      status,
+      trigger,
+      startedAt: startedAt.toISOString(),
+      durationMs,
+      counts,
+      detail: detail != null ? String(detail) : undefined
+    });
+  } catch (err) {
+    console.error(`Failed to record outcome for ${name} (${channelId ?? "global"}):`, err);
+  }
+
+  try {
+    const errors = Array.isArray(result.errors) ? result.errors.map(String) : [];
+    if (status === "error" && detail != null) errors.unshift(String(detail));
+    await appendRunRecord(
+      getStore(env),
+      {
+        flow: name,
+        trigger,
+        channel: channelId ?? null,
+        status,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs,
+        llmCalls: counts.llmCalls ?? 0,
+        slackPosts: counts.slackPosts ?? 0,
+        notionWrites: counts.notionWrites ?? 0,
+        errors,
+        counts,
+        output: typeof result.output === "string" && result.output ? result.output : undefined,
+        prompts: Array.isArray(result.prompts) && result.prompts.length > 0 ? result.prompts.map(String) : undefined
+      },
+      getConfig(env).runHistoryRetentionDays
+    );
+  } catch (err) {
+    console.error(`Failed to record run history for ${name} (${channelId ?? "global"}):`, err);
+  }
+
+  if (thrown) throw thrown;
+  return result;
+}
+
+async function runForChannels(
+  env: Env,
+  name: string,
+  channels: Array<string | undefined>,
+  fn: (channelId?: string) => Promise<Record<string, unknown>>
 ): Promise<void> {
-  // Run for all registered channels
-  const channels = await listAllChannelConfigs(env.NOTIFY_CACHE);
-  for (const { channelId } of channels) {
+  for (const channelId of channels) {
     try {
-      await fn(channelId);
+      await trackFlow(env, name, "cron", channelId, () => fn(channelId));
     } catch (err) {
-      console.error(`Cron failed for channel ${channelId}:`, err);
+      console.error(`Cron failed for channel ${channelId ?? "global"}:`, err);
     }
   }
-  // Also run with global config if PMO channel is set (backward compat)
-  try {
-    const globalConfig = getConfig(env);
-    if (globalConfig.slackPmoChannelId) {
-      // Only run global if it's not already covered by a registered channel
-      const registeredIds = channels.map((c) => c.channelId);
-      if (!registeredIds.includes(globalConfig.slackPmoChannelId)) {
-        await fn(undefined);
+}
+
+async function runForAllChannels(
+  env: Env,
+  name: string,
+  fn: (channelId?: string) => Promise<Record<string, unknown>>
+): Promise<void> {
+  await runForChannels(env, name, await listFlowTargets(env), fn);
+}
+
+/**
+ * Every 5 minutes: run the flows whose time in each channel's flow schedule falls in
+ * this slot. Channels due for the same flow run sequentially, different flows in parallel.
+ * Channels on a non-working day (outside activeWeekdays or a holiday) run nothing.
+ */
+async function runFlowDispatcher(env: Env, now: Date): Promise<void> {
+  const { date, minutes } = jstClock(now);
+  const due = new Map<DispatchedFlow, Array<string | undefined>>();
+  for (const channelId of await listFlowTargets(env)) {
+    try {
+      const config = channelId ? await resolveConfig(env, channelId) : getConfig(env);
+      if (!isWorkingDay(businessCalendar(config), date)) continue;
+      for (const flow of dueFlows(config.flowSchedule, minutes)) {
+        due.set(flow, [...(due.get(flow) ?? []), channelId]);
       }
+    } catch (err) {
+      console.error(`Flow dispatch failed for channel ${channelId ?? "global"}:`, err);
     }
-  } catch {
-    // Global config may be incomplete (no DB URLs) - that's fine
   }
+
+  const runs: Array<Promise<void>> = [];
+  const run = (name: string, flow: DispatchedFlow, fn: (channelId?: string) => Promise<Record<string, unknown>>) => {
+    const channels = due.get(flow);
+    if (channels) runs.push(runForChannels(env, name, channels, fn));
+  };
+  // Member notification
+  run("morning", "morning", (ch) => runMorningFlow(env, "cron", null, ch));
+  // Sprint retrospective (no-op unless a sprint ended and hasn't been reviewed yet)
+  run("sprint-retro", "morning", (ch) => runSprintRetroFlow(env, "cron", ch));
+  // Carry-over proposal for unfinished tasks of the ended sprint (PM approves via buttons)
+  run("carry-over", "morning", (ch) => runCarryOverFlow(env, "cron", ch));
+  // Sprint planning proposal SPRINT_PLANNING_LEAD_DAYS before the next sprint starts
+  run("sprint-plan", "morning", (ch) => runSprintPlanningFlow(env, "cron", ch));
+  // Member reminder
+  run("reminder", "reminder", (ch) => runReminderFlow(env, "cron", ch));
+  // PM report (Steps 6-7)
+  run("evening", "evening", (ch) => runEveningFlow(env, "cron", ch));
+  run("pm-reminder", "pm-reminder", (ch) => runPmReminderFlow(env, "cron", ch));
+  run("eod-reminder", "eod-reminder", (ch) => runEodReminderFlow(env, "cron", ch));
+  await Promise.all(runs);
 }
 
 export default {
@@ -1900,34 +3363,25 @@ export default {
     // Branch by cron expression
     if (event.cron === "0 20 * * *") {
       // 05:00 JST — Save progress SP snapshot
-      ctx.waitUntil(runProgressSpSnapshot(env, "cron"));
-    } else if (event.cron === "0 0 * * *") {
-      // 09:00 JST — Member notification
-      ctx.waitUntil(runForAllChannels(env, (ch) => runMorningFlow(env, "cron", null, ch)));
-    } else if (event.cron === "10,20,30,40,50 0 * * *") {
-      // 09:10-09:50 JST — Member reminder (every 10 min)
-      ctx.waitUntil(runForAllChannels(env, (ch) => runReminderFlow(env, "cron", ch)));
-    } else if (event.cron === "0 1 * * *") {
-      // 10:00 JST — PM report (Steps 6-7)
-      ctx.waitUntil(runForAllChannels(env, (ch) => runEveningFlow(env, "cron", ch)));
-    } else if (event.cron === "0,15 * * * *") {
-      // Every hour at :00 and :15 — combined trigger
-      // Watchdog heartbeat
-      ctx.waitUntil(saveCronHeartbeat(env.NOTIFY_CACHE, "watchdog"));
-      // Cron health check
+      ctx.waitUntil(runForAllChannels(env, "snapshot", (ch) => runProgressSpSnapshot(env, "cron", ch)));
+    } else if (event.cron === "*/5 * * * *") {
+      // Every 5 min — morning / reminder / PM report / PM reminder / EOD per channel schedule
+      const now = new Date(event.scheduledTime);
+      ctx.waitUntil(runFlowDispatcher(env, now));
+      // Cron health check (alerts are deduped per day, so every tick is fine)
       ctx.waitUntil(runCronHealthCheck(env));
-      // ☎️ Phone reminder: always (24h)
-      ctx.waitUntil(runPhoneReminderFlow(env, "cron"));
-      // PM reminder & EOD: time-gated by JST hour
-      const jstHour = (new Date().getUTCHours() + 9) % 24;
-      if (jstHour >= 11 && jstHour <= 19) {
-        ctx.waitUntil(runForAllChannels(env, (ch) => runPmReminderFlow(env, "cron", ch)));
-      }
-      if (jstHour === 0) {
-        ctx.waitUntil(runForAllChannels(env, (ch) => runEodReminderFlow(env, "cron", ch)));
-      }
       // Catch-up: re-trigger missed cron flows when crons resume after outage
       ctx.waitUntil(runMissedCronCatchup(env));
+      const minute = now.getUTCMinutes();
+      if (minute === 0 || minute === 15) {
+        // Every hour at :00 and :15 — housekeeping
+        // Watchdog heartbeat
+        ctx.waitUntil(saveCronHeartbeat(getStore(env), "watchdog"));
+        // D1: drop expired rows (KV expires keys itself)
+        ctx.waitUntil(getStore(env).purgeExpired().catch((err) => console.error("State purge failed:", err)));
+        // ☎️ Phone reminder: always (24h)
+        ctx.waitUntil(trackFlow(env, "phone-reminder", "cron", undefined, () => runPhoneReminderFlow(env, "cron")));
+      }
     } else {
       // Fallback: legacy reports
       ctx.waitUntil(runReport(env, "cron"));
@@ -10,6 +10,9 @@ import {
   type NotionUpdateActions,
   type MentionIntent,
   type TaskScheduleMapping,
+  type SprintRetrospective,
+  type CarryOverProposal,
+  type SprintPlanProposal,
   taskAnalysisSchema,
   assigneeMessagesSchema,
   allocationProposalSchema,
@@ -17,16 +20,30 @@ import {
   mentionIntentSchema,
   taskScheduleMappingSchema,
   replyEvaluationSchema,
+  sprintRetrospectiveSchema,
+  carryOverProposalSchema,
+  sprintPlanProposalSchema,
   taskAnalysisJsonSchema,
   assigneeMessagesJsonSchema,
   allocationProposalJsonSchema,
   notionUpdateActionsJsonSchema,
   mentionIntentJsonSchema,
   taskScheduleMappingJsonSchema,
-  replyEvaluationJsonSchema
+  replyEvaluationJsonSchema,
+  sprintRetrospectiveJsonSchema,
+  carryOverProposalJsonSchema,
+  sprintPlanProposalJsonSchema
 } from "./schema";
 import type { StoredReply, ActiveThread } from "./workflow";
 import { addDays, type ScheduleData, type ScheduleRow } from "./sheetsApi";
+import { IDLE_COMMIT_DAYS, REVIEW_WAIT_DAYS, type GitHubActivity } from "./githubApi";
+import type { SprintRetroMetrics, SprintRef } from "./sprintRetro";
+import type { CarryOverTask } from "./carryOver";
+import type { BacklogCandidate } from "./sprintPlanning";
+import { forecastContextForLlm, type SprintForecast } from "./forecast";
+import { completeJson, completeText, type LlmJsonSchema } from "./llmProvider";
+import { isLlmBudgetExceeded } from "./llmUsage";
+import { renderPrompt } from "./promptRegistry";
 
 // ── Schedule data helpers for LLM context ───────────────────────────────────
 
@@ -118,20 +135,7 @@ export async function matchTasksToSchedule(
     sp: r.totalSp
   }));
 
-  const systemPrompt = `あなたはPMOアシスタントです。Notionのスプリントタスク一覧とGoogle スプレッドシートのスケジュール（大項目・小項目）が与えられます。
-各タスクの名前・内容から、最も関連するスプシの大項目と小項目を推測してマッチングしてください。
-
-■ マッチングルール:
-- タスク名のキーワード、プレフィックス（【MS】【M】【LF】等）、内容の類似性から判断する
-- confidence:
-  - "high": タスク名がスプシの小項目とほぼ一致、または明確に同じ作業内容
-  - "medium": キーワードや領域が一致しており高い確率で同じ
-  - "low": 推測レベル（完全には確信できない）
-  - "none": マッチするスプシ項目がない（社内タスク、組織系など）
-- マッチしない場合は schedule_category と schedule_item を null にする
-- 1つのタスクは最も近い1つのスプシ項目にマッチさせる
-
-日本語で処理してください。`;
+  const systemPrompt = await renderPrompt(config, "schedule-matching");
 
   const userPrompt = JSON.stringify({
     notion_tasks: allTasks,
@@ -148,62 +152,50 @@ export async function matchTasksToSchedule(
   return taskScheduleMappingSchema.parse(raw);
 }
 
-// ── OpenAI Chat Completions (structured output) ────────────────────────────
+// ── Structured output via the configured LLM provider ──────────────────────
 
 async function callChatCompletion(
   config: AppConfig,
   systemPrompt: string,
   userPrompt: string,
-  jsonSchema: { name: string; strict: boolean; schema: unknown }
+  jsonSchema: LlmJsonSchema
 ): Promise<unknown> {
-  const body = {
-    model: config.openaiModel,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt }
-    ],
-    response_format: {
-      type: "json_schema",
-      json_schema: jsonSchema
-    },
-    temperature: 0.1
-  };
+  return completeJson(config, { system: systemPrompt, user: userPrompt, jsonSchema, temperature: 0.1 });
+}
 
-  let attempt = 0;
-  let waitMs = 500;
-
-  while (true) {
-    attempt++;
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${config.openaiApiKey}`,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
-    });
+// ── GitHub activity helpers for LLM context ─────────────────────────────────
+
+function githubContextForLlm(activity: GitHubActivity | null | undefined): object | null {
+  if (!activity || activity.pullRequests.length + activity.commits.length === 0) return null;
 
-    if (res.ok) {
-      const data = (await res.json()) as {
-        choices?: Array<{ message?: { content?: string } }>;
-      };
-      const content = data.choices?.[0]?.message?.content ?? "";
-      try {
-        return JSON.parse(content);
-      } catch {
-        throw new Error(`LLM returned invalid JSON: ${content.slice(0, 200)}`);
-      }
-    }
-
-    if (attempt >= config.maxRetries) {
-      const detail = await res.text();
-      throw new Error(
-        `OpenAI chat completions failed after ${attempt} attempts: ${res.status} ${detail}`
-      );
-    }
-    await new Promise((r) => setTimeout(r, waitMs));
-    waitMs *= 2;
+  const commitsByAuthor: Record<string, number> = {};
+  for (const c of activity.commits) {
+    const author = c.author ?? "unknown";
+    commitsByAuthor[author] = (commitsByAuthor[author] ?? 0) + 1;
   }
+
+  return {
+    idle_doing_tasks: activity.idleDoingTasks,
+    review_waiting_prs: activity.reviewWaitingPrs,
+    open_prs: activity.pullRequests
+      .filter((pr) => pr.state === "open")
+      .map((pr) => ({
+        pr: `${pr.repo}#${pr.number}`,
+        title: pr.title,
+        author: pr.author,
+        review_state: pr.reviewState
+      })),
+    merged_prs: activity.pullRequests
+      .filter((pr) => pr.state === "merged")
+      .map((pr) => ({ pr: `${pr.repo}#${pr.number}`, title: pr.title, merged_at: pr.mergedAt })),
+    task_links: activity.taskLinks.map((l) => ({
+      task_id: l.taskId,
+      task_name: l.taskName,
+      prs: l.pullRequests.map((pr) => `${pr.repo}#${pr.number} (${pr.state}${pr.reviewState ? `/${pr.reviewState}` : ""})`),
+      days_since_last_commit: l.daysSinceLastCommit
+    })),
+    commits_by_author_14d: commitsByAuthor
+  };
 }
 
 // ── Step 2: Analyze tasks and members ─────────────────────────────────────
@@ -221,7 +213,9 @@ export async function analyzeTasksAndMembers(
   scheduleData?: ScheduleData | null,
   avgDailySp?: number | null,
   stagnantTasks?: Array<{ id: string; name: string; staleDays: number }>,
-  taskScheduleMapping?: TaskScheduleMapping | null
+  taskScheduleMapping?: TaskScheduleMapping | null,
+  githubActivity?: GitHubActivity | null,
+  forecast?: SprintForecast | null
 ): Promise<TaskAnalysis> {
   const today = toJstDateString();
 
@@ -233,23 +227,31 @@ export async function analyzeTasksAndMembers(
 この基準に基づき、各タスク・大項目のスケジュール判定を行ってください。`
     : "";
 
+  const forecastContext = forecastContextForLlm(forecast);
+  const forecastNote = forecastContext
+    ? `\n■ 完了予測: sprint_forecast に過去スプリントの日次消化SPによるモンテカルロ予測（P50/P85完了予測日・スプリント終了日までの完了確率）が提供されています。overall_summaryの【スプリント消化状況】に summary_text の確率表現をそのまま記載し、schedule_statusの判定では平均ペースより完了確率を優先してください（目安: 80%以上=オンスケ、50〜80%=注意、50%未満=危険）。`
+    : "";
+
   const stagnationNote = stagnantTasks && stagnantTasks.length > 0
     ? `\n■ 停滞検出: 以下のDoingタスクは2日以上ステータスが変わっていません。ブロッカーや遅延リスクとしてoverall_summaryと該当担当者のnotesに必ず言及してください。`
     : "";
 
   const hasMappings = taskScheduleMapping && taskScheduleMapping.mappings.length > 0;
   const hasSchedule = scheduleData && scheduleData.rows.length > 0;
+  const githubContext = githubContextForLlm(githubActivity);
+  const githubNote = githubContext
+    ? `\n■ GitHub: github_activity に PR・レビュー状態・コミット履歴が提供されています。idle_doing_tasks（NotionではDoingだが${IDLE_COMMIT_DAYS}日以上コミットがないタスク）と review_waiting_prs（${REVIEW_WAIT_DAYS}日以上レビュー待ちのPR）はリスク項目としてoverall_summaryと該当担当者のnotesに必ず言及してください。`
+    : "";
 
-  const systemPrompt = `あなたはPMOアシスタントです。スプリントのタスク状況とメンバーの稼働状況を分析し、
-全体サマリー、担当者別状況、スケジュール判定を返してください。
-overall_summaryはSlackで読みやすい形式にしてください:
-- セクション見出しは【】で囲む。例: 【スプリント消化状況】【リスク項目】
-- 大項目名やタスク名は *太字* にする（Slack記法: *テキスト*）
-- 箇条書きは ・ を使用（ハイフン - ではなく中黒 ・）
-- SP表示は当該スプリントのplan_sp/progress_spを使うこと（マスタースケジュールの全体計画SPではない）
-${hasSchedule ? `\nまた、Google スプレッドシートのマスタースケジュール（大項目別の計画SP・週次配分）のデータも提供されています。` : ""}${hasMappings ? `\nNotionタスクとスプシ項目のマッチング結果（task_schedule_mapping）も提供されています。
-このマッチングを使って、大項目ごとにNotionのタスク進捗とスプシの計画SPを比較し、オンスケ/遅延判定をoverall_summaryに含めてください。` : ""}${judgmentCriteria}${stagnationNote}
-日本語で回答してください。`;
+  const systemPrompt = await renderPrompt(config, "task-analysis", {
+    schedule_note: hasSchedule ? `\nまた、Google スプレッドシートのマスタースケジュール（大項目別の計画SP・週次配分）のデータも提供されています。` : "",
+    mapping_note: hasMappings ? `\nNotionタスクとスプシ項目のマッチング結果（task_schedule_mapping）も提供されています。
+このマッチングを使って、大項目ごとにNotionのタスク進捗とスプシの計画SPを比較し、オンスケ/遅延判定をoverall_summaryに含めてください。` : "",
+    judgment_criteria: judgmentCriteria,
+    forecast_note: forecastNote,
+    stagnation_note: stagnationNote,
+    github_note: githubNote
+  });
 
   const scheduleContext = scheduleData
     ? scheduleContextForLlm(scheduleData, today)
@@ -277,11 +279,13 @@ ${hasSchedule ? `\nまた、Google スプレッドシートのマスタースケ
       })
       .filter(Boolean),
     ...(avgDailySp != null ? { avg_daily_sp_7d: avgDailySp } : {}),
+    ...(forecastContext ? { sprint_forecast: forecastContext } : {}),
     ...(stagnantTasks && stagnantTasks.length > 0
       ? { stagnant_doing_tasks: stagnantTasks }
       : {}),
     ...(scheduleContext ? { master_schedule: scheduleContext } : {}),
-    ...(hasMappings ? { task_schedule_mapping: taskScheduleMapping.mappings.filter((m) => m.confidence !== "none") } : {})
+    ...(hasMappings ? { task_schedule_mapping: taskScheduleMapping.mappings.filter((m) => m.confidence !== "none") } : {}),
+    ...(githubContext ? { github_activity: githubContext } : {})
   });
 
   const raw = await callChatCompletion(
@@ -302,39 +306,7 @@ export async function generateAssigneeMessages(
   summary: SprintTasksSummary,
   members: Member[]
 ): Promise<AssigneeMessages["messages"]> {
-  const systemPrompt = `あなたは「土方十四郎」というPMOアシスタントBotです。フレンドリーで頼れる存在として、各担当者に朝の確認メッセージを生成してください。
-
-■ メッセージ生成ルール:
-1. 冒頭に「おはようございます、○○さん！」の後に状況の一言サマリーを付ける。必ず「今週期限のタスク」について言及すること
-   - 今週期限あり＋期限超過あり → 「今週期限のタスクと期限超過のタスクがあります：」
-   - 今週期限あり＋期限超過なし → 「今週期限のタスクは以下です：」
-   - 今週期限なし＋期限超過あり → 「今週期限のタスクはありませんが、期限超過のタスクがあります：」
-   - 今週期限なし＋期限超過なし＋進行中あり → 「今週期限のタスクはありませんが、進行中のタスクがあります：」
-   - 未完了タスクなし → メッセージ生成不要
-2. 【期限超過】セクション: 期限 < today のタスクを全件リスト。曖昧な表現は禁止。該当タスクがなければこのセクション自体を省略する
-3. 【今週期限】セクション: 期限が week_start〜week_end のタスクを全件リスト。該当タスクがなければこのセクション自体を省略する
-4. 【進行中・その他】セクション: 上記いずれにも該当しない未完了タスク（期限が来週以降、または期限未設定のDoing/Ready等）を表示する。該当タスクがなければ省略
-5. タスクは各セクションに1回だけ表示する。同じタスクを複数セクションに重複させない。期限超過タスクは【期限超過】にのみ記載し、他セクションには含めない
-6. 最後に「今日の作業見込みを教えてください」と依頼する
-
-■ 重要なフォーマットルール:
-- 各タスク行にはコメントを付けない。タスク名・期限・ステータスのみ記載する
-- コメント（「⏰ 期限過ぎてるけど大丈夫？状況教えて！」「進捗どんな感じ？」等）はセクションの全タスクを列挙した直後に1回だけ添える
-- 例:
-  【期限超過】
-  ・タスクA（期限: 2/10、ステータス: Doing）
-  ・タスクB（期限: 2/12、ステータス: Doing）
-  ⏰ 期限過ぎてるけど大丈夫？状況教えて！
-
-■ トーン:
-- フレンドリーかつ簡潔
-- 担当者が返信しやすいよう具体的なタスク名・期限・ステータスを明記する
-- プレッシャーをかけすぎず、チームの味方というスタンスで
-
-■ 注意:
-- 完了タスクしかない担当者（未完了タスクが0件）にはメッセージを生成しない
-- 未完了タスクが1件でもある担当者には必ずメッセージを生成する（今週期限がなくても、期限超過がなくても、進行中タスクがあれば生成する）
-- 日本語で書くこと`;
+  const systemPrompt = await renderPrompt(config, "assignee-messages");
 
   const now = new Date();
   const jst = new Date(now.getTime() + 9 * 60 * 60 * 1000);
@@ -390,16 +362,19 @@ export async function interpretRepliesAndPropose(
   scheduleData?: ScheduleData | null,
   summary?: SprintTasksSummary | null,
   avgDailySp?: number | null,
-  yesterdayCompletedSp?: number
+  yesterdayCompletedSp?: number,
+  githubActivity?: GitHubActivity | null,
+  forecast?: SprintForecast | null
 ): Promise<AllocationProposal> {
   const today = toJstDateString();
   const scheduleContext = scheduleData
     ? scheduleContextForLlm(scheduleData, today)
     : null;
+  const githubContext = githubContextForLlm(githubActivity);
+  const forecastContext = forecastContextForLlm(forecast);
 
-  const systemPrompt = `あなたはPMOアシスタントです。各担当者からのSlack返信を解釈し、
-稼働状況を把握した上でPM向けの日次レポートを作成してください。
-${scheduleContext ? `\nGoogle スプレッドシートのマスタースケジュールデータも提供されています。
+  const systemPrompt = await renderPrompt(config, "pm-report", {
+    schedule_sections: scheduleContext ? `\nGoogle スプレッドシートのマスタースケジュールデータも提供されています。
 pm_reportには以下のセクションを順番に含めてください:
 
 1. 【スケジュール分析】— 以下の形式で固定フォーマット:
@@ -410,7 +385,8 @@ pm_reportには以下のセクションを順番に含めてください:
   - 残り日数: {remaining_days} 日
   - 昨日消化SP: {yesterday_completed_sp} SP
   - 必要日次消化SP: {required_sp_per_day} SP/日
-  - 過去7日平均消化SP: {avg_daily_sp} SP/日
+  - 過去7日平均消化SP: {avg_daily_sp} SP/日${forecastContext ? `
+  - 完了予測: {sprint_forecast.summary_text}` : ""}
 
 2. 【メンバー稼働余力】— 各メンバーについて以下を1人1ブロックで表示:
   - 名前
@@ -418,18 +394,15 @@ pm_reportには以下のセクションを順番に含めてください:
   - 過去7日の平均SP消化速度（SP/日）
   - 現ペースで持ちタスクが全て完了する予測日
   - 予測完了日がスプリント終了日より前なら「余力あり」、後なら「タスク過多」と明記する
-  - ※「スプリント終了日までの遊休日数」は表示しないこと` : ""}
-日本語で回答してください。
-
-■ pm_report フォーマットルール（Slack向け）:
-- セクション見出しは【】で囲んでそのまま表示する（例: 【スケジュール分析】）。見出しにバッククォートやアスタリスクは付けない
-- 各セクションの中身（箇条書き部分）は \`\`\` で囲んでコードブロックとして表示する。見出しはコードブロックの外に置く
-- * (アスタリスク) は一切使用しない
-- 箇条書きは ・ を使用する（ - は使用しない）
-- セクション間は空行で区切る
-- 全体を簡潔かつ一覧性高くする（PMが30秒で把握できるように）
-- SP表示は当該スプリントのplan_sp/progress_spを使うこと（マスタースケジュールの全体計画SP600ではなく、スプリント単位のSPで表示する）
-- 指定されたセクション（【スケジュール分析】【メンバー稼働余力】）以外のセクションは追加しないこと。【推奨対応】【アクションアイテム】【所感】等の追加セクションは不要`;
+  - ※「スプリント終了日までの遊休日数」は表示しないこと` : "",
+    github_section: githubContext ? `
+GitHub の PR・コミット状況（github_activity）も提供されています。pm_reportの最後に【開発アクティビティ】セクションを追加し、以下を記載してください（該当なしなら「該当なし」）:
+  - NotionではDoingだが${IDLE_COMMIT_DAYS}日以上コミットがないタスク（idle_doing_tasks: タスク名・担当者・最終コミットからの日数）
+  - ${REVIEW_WAIT_DAYS}日以上レビュー待ちのPR（review_waiting_prs: repo#番号・タイトル・作成者・待ち日数）` : "",
+    forecast_line: forecastContext && !scheduleContext ? `
+pm_reportの冒頭に sprint_forecast.summary_text（完了確率とP50/P85完了予測日）を1行で記載してください。` : "",
+    report_sections: `【スケジュール分析】【メンバー稼働余力】${githubContext ? "【開発アクティビティ】" : ""}`
+  });
 
   const repliesForPrompt = activeThreads.map((t) => ({
     assignee: t.assigneeName,
@@ -465,6 +438,7 @@ pm_reportには以下のセクションを順番に含めてください:
       end_date: summary.sprint.end_date
     } : null,
     avg_daily_sp_team: avgDailySp,
+    ...(forecastContext ? { sprint_forecast: forecastContext } : {}),
     yesterday_completed_sp: yesterdayCompletedSp ?? 0,
     members: members.map((m) => ({
       name: m.name,
@@ -474,7 +448,8 @@ pm_reportには以下のセクションを順番に含めてください:
     member_task_details: memberTaskDetails,
     replies: repliesForPrompt,
     note: "返信がない担当者はunavailableとして扱い、その旨をpm_reportに記載してください",
-    ...(scheduleContext ? { master_schedule: scheduleContext } : {})
+    ...(scheduleContext ? { master_schedule: scheduleContext } : {}),
+    ...(githubContext ? { github_activity: githubContext } : {})
   });
 
   const raw = await callChatCompletion(
@@ -494,15 +469,7 @@ export async function interpretPmReply(
   proposal: AllocationProposal,
   pmReply: string
 ): Promise<NotionUpdateActions> {
-  const systemPrompt = `あなたはPMOアシスタントです。PMの返信を解釈し、
-提案されたタスク割り振りへの承認・修正指示をNotionの更新アクションに変換してください。
-
-■ page_id の設定ルール（厳守）:
-- page_id には task_allocations 内の task_id フィールド（UUID形式: 例 "abc123-def456-..."）を使用すること
-- task_name（日本語のタスク名）を page_id に使用してはいけない
-- UUIDはハイフン区切りの英数字文字列である（例: "1a2b3c4d-5e6f-7890-abcd-ef1234567890"）
-
-日本語で回答してください。`;
+  const systemPrompt = await renderPrompt(config, "pm-reply");
 
   // Restructure task_allocations to make the UUID field unmistakable
   const taskAllocationsForLlm = proposal.task_allocations.map((t) => ({
@@ -545,195 +512,12 @@ export async function interpretMention(
   pendingUpdateActions?: Array<{ action: string; page_id: string; task_name: string; new_value: string }> | null,
   threadContext?: Array<{ text: string; user: string }>,
   channelContext?: Array<{ text: string; user: string }>,
-  referenceItems?: ReferenceItem[]
+  referenceItems?: ReferenceItem[],
+  /** When the mention was made (eval replays recorded mentions at their original time) */
+  now: Date = new Date()
 ): Promise<MentionIntent> {
-  const systemPrompt = `あなたは「土方十四郎」というPMOアシスタントBotです。フレンドリーで少しユーモアがあり、チームの頼れる存在です。
-ユーザーからの@メンションを解釈し、以下のいずれかを判断してください。
-
-**query（情報照会）**: タスク状況の確認・質問への回答
-- response_textに日本語で回答を生成（タスク一覧、進捗、担当者情報など）
-- actionsは空配列 []、new_tasksは空配列 []
-- 「今週」はuser_promptのweek_startからweek_endまでの期間を指す（必ずこの値を使うこと）
-- 以下の情報がコンテキストとして提供されています。質問に関連するデータを使って回答してください:
-  - sprint_metrics: スプリント消化率（計画SP、進捗SP、残りSP、必要SP/日）
-  - avg_daily_sp: 過去7日の平均日次消化SP（🟢🟡🔴判定に使用）
-  - members: メンバーの残り稼働時間(remainingHours)・合計稼働時間(totalHours)・1SPあたり必要時間(hoursPerSp)・現在のタスク数/SP・必要工数(requiredHours)・稼働率%(utilization) で空き状況を判断。remainingHoursやtotalHoursがnullの場合はキャパシティ情報が未設定。その場合でも「登録してください」等とは言わず、利用可能なデータのみで回答する
-  - schedule_deviation: スケジュール進捗（オンスケ/遅延/リスク件数・該当項目）
-  - weekly_diff: 週次比較（7日間の完了タスク・新規タスク・SP合計）
-  - stagnant_tasks: 2日以上ステータス変更のないDoingタスク
-  - available_sprints: 利用可能なスプリント一覧（スプリント移動に使用）
-  - reference_db: 参照用Notionデータベースの全項目（読み取り専用）。タスク作成時のdescription充実化や関連タスクの発見に活用する。⚠️ このDBへの書き込み・更新は絶対に行わない
-- スケジュール判定: avg_daily_spがある場合、残りSP÷残り日数とavg_daily_spを比較して「オンスケ」「注意」「危険」で判定
-- シミュレーション: 「○○さんが休んだら？」→ そのメンバーのタスクSPを他メンバーに再配分した場合の影響を推定
-- 「自分」「私」「俺」等の一人称は、request_user（発言者）を指す。request_user.nameの担当タスクで回答すること
-
-**update（更新指示）**: Notionのタスク更新リクエスト
-- response_textには簡潔な確認メッセージのみ生成（例: 「SPを5に変更します」）。確認UIはシステムが自動生成するため、対象タスクの詳細や承認指示は不要
-- actionsに実行するNotion更新アクションを配列で返す。変更対象の項目のみ含める（変更しない項目のアクションは不要）
-- page_idはタスクリストに含まれるIDを必ず使用する（存在しないIDは使わない）
-- ユーザーの指示が曖昧で複数タスクに該当しうる場合は、候補を列挙してどのタスクか確認する（intent="query"、actionsは空）
-- new_tasksは空配列 []
-
-**update_sprint（スプリント移動）**: タスクを別スプリントに移動、またはバックログに戻す
-- action = "update_sprint"
-- new_valueにはavailable_sprintsのIDを使用する。バックログ戻しの場合はnew_value = ""（空文字）
-- intent = "update"（updateとして扱う）
-
-**update_project（プロジェクト変更）**: タスクのプロジェクトリレーションを変更
-- action = "update_project"
-- new_valueにはプロジェクト名（日本語）を使用する（例: "三井住友海上"）
-- intent = "update"（updateとして扱う）
-
-**append_description（説明文追記）**: 既存タスクのページ本文にテキストを追記する
-- action = "append_description"
-- new_valueには追記するテキスト内容をそのままセットする（ユーザーの指定テキストをそのまま使う）
-- page_idは対象タスクのIDを使用する
-- 「概要を追加」「説明文を追記」「以下の内容を追加して」等のリクエストに使用する
-- intent = "update"（updateとして扱う）
-
-**create_task（タスク追加）**: 新しいタスクをNotionに追加するリクエスト
-- 必須項目: task_name（タスク名）、assignee（担当者名）、due（期限 YYYY-MM-DD）、sp（SP）
-- オプション項目: project（プロジェクト名）- ユーザーが指定した場合のみセット。未指定ならnull（チャンネルのデフォルトプロジェクトが使われる）。「プロジェクトはなし」「プロジェクトなしで」等と明示的にプロジェクトを外す指示があった場合は空文字""をセット
-- オプション項目: description（概要）- システムが自動生成した概要。ユーザーが修正を依頼した場合のみ変更する
-- オプション項目: sprint（スプリント名）- available_sprintsに含まれるスプリント名を指定する。ユーザーが「スプリントに入れて」「現スプリントに追加」等と指定した場合にセットする。未指定またはユーザーが「スプリントはまだ設定しないで」等と指示した場合はnull。⚠️「バックログ」はステータスの値であってスプリント名ではない — sprintに"バックログ"を入れないこと。デフォルトはnull
-- 複数タスクの同時作成に対応: スレッド内容から複数のタスクが識別できる場合、new_tasksに複数のタスクを含める
-- ⚠️ タスク情報の出典ルール（厳守）:
-  - task_nameはuser_message、thread_context、channel_context、current_tasksのいずれかに根拠があること
-  - thread_contextにTODO項目や作業内容がある場合、それをタスクとして起票する（スレッド内の情報を最優先で活用する）
-  - どこにも存在しないタスク名を捏造してはならない
-- 全ての必須項目が揃っている場合:
-  - intent = "create_task"
-  - response_textに確認メッセージを生成（全タスクの詳細を一覧表示 + 「✅ 承認ボタンを押してください」）
-  - response_textに📝概要は含めない（システム側で別途表示する）
-  - new_tasksに作成するタスク情報を配列でセット、各タスクのstatusはユーザーが指定しない限り "Backlog"
-  - descriptionは新規作成時はnull（システムが後から自動生成する）。thread_contextがある場合はスレッド内容からタスクの目的・背景・やるべきことだけを抽出して200字以内の概要をセット（「起票して」「担当を変更」「SPを○に」等のBot操作指示や、担当者名・期限・SP等のメタ情報は概要に含めない）
-- 必須項目が不足している場合:
-  - intent = "create_task"
-  - response_textに不足項目を質問するメッセージを生成（「タスク名と期限は分かりましたが、担当者とSPを教えてください！」）
-  - new_tasksは空配列 []（情報が揃うまで作成しない）
-- actionsは空配列 []
-
-**unknown（雑談・その他）**: タスクに関係ない会話や挨拶
-- フレンドリーに返答する（例: 「やほ！」→「やほ！何かお手伝いできることある？😄」）
-- PMOアシスタントとしての個性を出しつつ自然に会話する
-- actionsは空配列 []、new_tasksは空配列 []
-
-■ 保留中のタスク作成の修正:
-- pending_create_tasksが提供されている場合、ユーザーは確認待ちのタスク作成に対する修正を依頼している可能性が高い
-- プロジェクト変更、担当者変更、期限変更、SP変更、ステータス変更、スプリント変更など、修正内容を特定できたら:
-  - intent="create_task"で、pending_create_tasksをベースに変更点を反映したnew_tasksを返す
-  - response_textに修正後のタスク詳細と「✅ 承認ボタンを押してください」を含める（📝概要はresponse_textに含めない）
-  - actionsは空配列 []
-- 概要（description）の修正:
-  - 「概要を○○にして」「概要修正: ○○」→ 該当タスクのdescriptionに修正後のテキストをセット
-  - 「概要なし」「概要を削除」「スキップ」→ descriptionをnullにセット
-  - 概要に言及していない修正の場合 → pending_create_tasksのdescriptionをそのまま引き継ぐ
-- ステータス（status）の修正:
-  - 「ステータスはreadyで」「readyにして」→ statusを"Ready"にセット
-  - 「doingにして」→ statusを"Doing"にセット
-  - その他の有効なステータス値: "Backlog", "Ready", "Doing", "Review", "Done"
-  - ステータスに言及していない修正の場合 → pending_create_tasksのstatusをそのまま引き継ぐ
-- プロジェクト（project）の修正:
-  - 「プロジェクトはなし」「プロジェクト外して」「プロジェクトなしで」→ projectを""（空文字）にセット
-  - 「プロジェクトは○○」「プロジェクトを○○にして」→ projectに○○の部分だけをセット（「タスク作成」「変更」等の操作名を含めない。例: 「プロジェクトを明安にして」→ project="明安"）
-  - プロジェクトに言及していない修正の場合 → pending_create_tasksのprojectをそのまま引き継ぐ
-- スプリント（sprint）の修正:
-  - 「スプリントに入れて」「現スプリントに追加」→ available_sprintsから該当スプリント名をsprintにセット
-  - 「スプリントはS10で」「s10でお願い」→ available_sprintsから名前が一致するスプリントを探し、そのスプリント名をsprintにセット（ユーザーの指定した名前を正確に使うこと。「S10」と「S1」は別物）
-  - 「スプリントはまだ設定しないで」「スプリント外して」→ sprintをnullにセット（⚠️「バックログ」はステータスの値でありスプリント名ではない — sprintに"バックログ"を入れないこと）
-  - スプリントに言及していない修正の場合 → pending_create_tasksのsprintをそのまま引き継ぐ
-- 概要のヒアリング（pending_create_tasksのdescriptionがnullの場合）:
-  - ユーザーがタスクの背景・目的・詳細を説明するテキストを返信した場合:
-    → その内容を200字以内で簡潔にまとめてdescriptionにセット
-    → intent="create_task"で、pending_create_tasksをベースにdescriptionを追加したnew_tasksを返す
-    → response_textに確認メッセージ + 「✅ 承認ボタンを押してください」を含める
-- 重要: pending_create_tasksがある場合、intent="update"やupdateアクション（update_assignee, update_due等）に変換しないこと。必ずintent="create_task"で返すこと。タスクはまだNotionに存在しないため、既存タスクの更新はできない
-- 重要: projectやsprintの値にはユーザーが指定した名前のみをセットすること。「タスク作成」「変更」「更新」等の操作を説明する語句を混入させないこと
-
-■ 保留中の更新アクションの修正:
-- pending_update_actionsが提供されている場合、確認待ちの更新アクションが存在する
-- ⚠️ 重要: pending_update_actionsはまだNotionに適用されていない提案である。current_tasksの値が現在の実際の状態
-- ユーザーが「担当を○○に変更」等と言った場合: current_tasksの現在の値から○○への変更としてactionsを作る（pending_update_actionsのnew_valueを現在値として扱わない）
-- ユーザーが追加の変更を依頼した場合: pending_update_actionsを破棄し、ユーザーの新しい指示に基づいてactionsを作り直す
-- ユーザーがキャンセルを依頼した場合: intent="unknown"でキャンセル確認メッセージを返す
-- intent="update"で、修正後の全アクションをactionsに含める（確認UIはシステムが自動生成する）
-
-■ スレッドからのタスク自動起票:
-- thread_contextが提供されている場合、ユーザーはスレッド内の会話をもとにタスクを作成したいと考えている
-- ⚠️ 最重要ルール: タスク情報はスレッド内の実際の内容に基づくこと
-  - task_nameは必ずthread_context内に存在するTODO項目・作業内容・機能名・議題などから抽出すること
-  - thread_contextやuser_message、channel_context、current_tasksのどこにも言及されていないタスク名を作り出してはならない（捏造禁止）
-  - 例: スレッドに「休暇簿ツール」「陸DXプロジェクト」「防衛プロジェクト」が書かれている場合、これらをタスクとして起票する。「PMObot修正」のようなスレッドに存在しない名前を作り出すのはNG
-- タスク起票の手順:
-  1. まずthread_contextを精読し、TODO項目・作業依頼・機能要望・議論されているテーマを全て洗い出す
-  2. conversation_historyやthread_context内で既にボットがタスク作成確認を送信済みの項目は除外する
-  3. 残った項目についてchannel_context（チャンネル全体の他スレッド）とcurrent_tasks（Notionの既存タスク）を確認し、関連する情報を収集する
-  4. 収集した情報をもとに、各タスクのdescriptionを充実させる
-  5. スレッドに具体的なタスク内容が一つも見つからない場合のみ、intent="create_task" + new_tasks=[] で質問する
-- タスクの粒度: 過度に細分化しない。1つの機能・1つのテーマに関する作業は1タスクにまとめる
-  - 例: 「差分の表示を赤枠にして、追加/削除のマーキング追加して、ページ追加時のアラートもつけて」
-    → これは全て「差分表示」に関する作業なので「差分表示の改善（赤枠・マーキング・アラート対応）」の1タスクにまとめる
-  - 明確に別テーマ・別担当の作業が含まれる場合のみ複数タスクに分ける
-  - 例: 「仕様書作成と画面のUI修正」→ 別テーマなので2タスクに分ける
-- 起票対象の判定（厳守）: 起票するのは自チームメンバー（membersに含まれる人）が実施する作業のみ
-  - membersに含まれない人物（クライアント、外部ベンダー、他部署など）が主語・実行者のタスクは絶対に起票しない
-  - 判定方法: タスクの実行者がmembersのname一覧に存在するか確認する。存在しなければ起票対象外
-  - 例（起票しない）: 「先方に仕様確認を依頼」「クライアントが検証する」「○○社の回答待ち」「顧客へヒアリング」
-  - 例（起票する）: 「仕様書を作成する」「画面のUI修正」「テストコードを書く」（自チームの作業）
-  - 迷う場合: 起票しない。自チームが明確に手を動かす作業のみ起票する
-- 担当者（assignee）の決定ルール（厳守）:
-  - スレッド内で @ユーザー名 が明示されている場合、その人物が担当者。「○○さんが確認する」「○○さんにメールもらう」等の文脈上の言及は担当者指定ではない
-  - 例: 「@Takeda Ryohei @Tomoya Kotetsu」→ 担当者は Takeda と Kotetsu
-  - 例: 「押田さんが確認してメールもらう」→ 押田さんは先方の人。担当者ではない。これは単なる補足情報
-  - assigneeには必ずmembersに存在する名前のみをセットすること。membersにいない人は担当者にできない
-- 各タスクの項目設定（assignee以外は自動で具体的に埋める）:
-  - task_name: スレッド内の具体的な記述から抽出する（捏造禁止）
-  - due: 議論内容に期限の言及があればそれを使用。なければスプリント終了日を使う
-  - sp: タスクの複雑さ・規模から推測（1〜5程度）。分解した場合は各タスクごとに適切なSPを設定
-  - description: スレッドの議論内容 + channel_contextやcurrent_tasksから見つけた関連情報を組み合わせて、背景・目的・やるべきことを200字以内で具体的に要約する
-  - project: ユーザーが「プロジェクトはなし」「プロジェクトなし」と明示した場合→ ""（空文字）。プロジェクト名を指定した場合→ その名前のみセット。言及がなければchannel_contextやcurrent_tasksから関連プロジェクトを推測してセット。それでも不明ならnull
-  - sprint: ユーザーが「スプリントはS10で」等と明示した場合→ available_sprintsから該当するスプリント名をセット。「スプリントはなし」「バックログで」→ null。スプリントに言及していない場合→ null（勝手に推測しない）
-  - assignee（担当者）: PMに確認を取る。以下の手順に従う:
-    1. スレッド内で「○○さんお願い」「@○○」等の明示的な指名がある場合 → その人をassigneeにセットし、通常通り確認メッセージを送る
-    2. 明示的な指名がない場合 → channel_context（チャンネル全体の発言）とcurrent_tasks（Notionの既存タスク）を分析し、そのタスクのテーマに最も知見がありそうなメンバーを候補として提案する。ただしassigneeは確定せず、PMに確認を取る
-       - intent="create_task"、new_tasks=[]（まだ確定しない）
-       - response_textにtask_name、due、sp、projectなど担当者以外の項目を全て表示した上で、「担当者は○○さん（理由: △△の知見あり）を提案しますが、誰にしますか？」と質問する
-       - 知見の判断基準: 同じトピックについてチャンネルで発言している、同じプロジェクト/機能の既存タスクを担当している、関連する技術領域で活動している等
-       - 候補が複数いる場合は理由付きで列挙し、PMに選んでもらう
-    3. PMが担当者を回答したら → conversation_historyの文脈から全項目が揃うので、new_tasksに完成したタスクをセットして確認メッセージを送る
-- ユーザーが明示的に指定した項目（「担当は○○」「SPは3で」など）があれば、推測より優先する
-- 関連情報の収集（タスク内容の充実化に必ず活用すること）:
-  - channel_context（チャンネル内の他スレッドのメッセージ）から、タスクと同じトピックに関連する議論・決定事項・補足情報を探す
-  - current_tasks（Notionの既存タスク）に同じプロジェクト・機能に関連するタスクがあれば、descriptionで言及する（例: 「関連タスク: ○○」）
-  - reference_db（参照用Notionデータベース）に関連する項目があれば、descriptionに背景情報として含める。⚠️ reference_dbはあくまで参照専用。ここへの起票・更新は絶対にしない
-  - これらの関連情報はdescriptionに反映し、タスクの背景をより豊かにする
-
-■ 会話の継続:
-- conversation_historyが提供されている場合、直前のやりとりの文脈を踏まえて回答すること
-- 「その中で」「それの」「さっきの」等の指示語は、直前の会話内容を参照して解釈する
-- 例: 前回「古鉄さんのタスク状況」→ 今回「その中で着手中は？」→ 古鉄さんのタスクのうちDoing/進行中のものを回答
-
-■ フォーマットルール（Slack向け）:
-- セクション見出しは【】で囲む。例: 【タスク一覧】【消化率】【メンバー稼働状況】
-- 大項目名やタスク名は *太字* にする（Slack記法: *テキスト*）
-- 重要な数値は *太字* にする
-- 箇条書きは ・ を使用（ハイフン - ではなく中黒 ・）
-- 全体を簡潔に保つ
-
-■ 関連URLの抽出（relevant_urls）:
-- intent が "create_task" の場合、thread_context および channel_context 内のメッセージに含まれるURLを分析する
-- タスクの内容に関連するURLのみを relevant_urls に含める（設計書、仕様書、参考資料、関連ページなど）
-- 関連性の判断基準: タスクの背景・目的・実装に直接関わるURLを優先する
-- Bot操作指示のみのメッセージに含まれるURL、Slack内部リンク（slack.com）、明らかに無関係なURLは除外する
-- create_task 以外の intent では空配列 [] を返す
-
-タスクリストに存在しないタスクへの更新指示の場合は、その旨をresponse_textに記載しintentをunknownにしてください。
-担当者変更の場合のnew_valueは担当者名（日本語）を使用してください。
-プロジェクト変更の場合のnew_valueはプロジェクト名（日本語）を使用してください。
-日付はYYYY-MM-DD形式で返してください。
-日本語で回答してください。`;
+  const systemPrompt = await renderPrompt(config, "mention");
 
-  const now = new Date();
   const jst = new Date(now.getTime() + 9 * 60 * 60 * 1000);
   const today = toJstDateString(now);
 
@@ -769,6 +553,7 @@ export async function interpretMention(
     })),
     sprint_metrics: context.sprintMetrics,
     avg_daily_sp: context.avgDailySp,
+    forecast: forecastContextForLlm(context.forecast),
     members: context.members,
     schedule_deviation: context.scheduleDeviation,
     weekly_diff: context.weeklyDiff,
@@ -799,19 +584,10 @@ export async function evaluateAssigneeReply(
   assigneeName: string,
   tasks: Array<{ name: string; status: string | null; sp: number | null }>
 ): Promise<boolean> {
-  const systemPrompt = `あなたはPMOアシスタントです。担当者からの返信が「今日の作業見込み」として具体的かどうかを判定してください。
-
-■ OK（is_valid: true）の基準:
-- 具体的なタスク名や作業内容に言及している
-- 「〇〇を進めます」「〇〇は完了見込み」「今日は〇〇に着手」等の具体的な予定がある
-- 困っていること・ブロッカーの報告も有効な返信とみなす
-
-■ NG（is_valid: false）の基準:
-- 「了解」「OK」「はい」だけで具体性がない
-- 何をするか・どう進めるかの情報が一切ない
-- 無関係な内容
+  // Over the LLM budget: accept the reply as-is (same as the fail-open on errors)
+  if (await isLlmBudgetExceeded(config)) return true;
 
-短い返信でも、何をやるかが読み取れればOKとする。`;
+  const systemPrompt = await renderPrompt(config, "reply-evaluation");
 
   const userPrompt = JSON.stringify({
     assignee: assigneeName,
@@ -837,17 +613,9 @@ export async function generateTaskDescription(
   taskName: string,
   relatedMessages: Array<{ text: string; user: string; ts: string }>
 ): Promise<string | null> {
-  if (relatedMessages.length === 0) return null;
+  if (relatedMessages.length === 0 || await isLlmBudgetExceeded(config)) return null;
 
-  const systemPrompt = `あなたはPMOアシスタントです。Slackチャンネル内のメッセージ一覧から、指定されたタスクに関連する情報を見つけ出し、タスクの概要を作成してください。
-
-ルール:
-・まずメッセージ一覧の中からタスクの内容・背景・目的に関連する情報だけを抽出する
-・「起票して」「担当を変更して」「SPを○にして」等のBot操作指示は概要に含めない
-・担当者名、期限、SP等のメタ情報は概要に含めない（それらは別途管理される）
-・タスクが実際に何をするのか（目的・背景・やるべきこと）だけを200字以内で概要にまとめる
-・タスク内容に関する具体的な情報が一つも見つからない場合は「null」とだけ返す
-・日本語で記述する`;
+  const systemPrompt = await renderPrompt(config, "task-description");
 
   const userPrompt = `タスク名: ${taskName}
 
@@ -856,44 +624,133 @@ ${relatedMessages.map((m) => `[${m.user}] ${m.text}`).join("\n")}
 
 上記メッセージの中からタスクに関連する情報を探し、概要を作成してください。関連するものが一つもない場合のみ「null」と返してください。`;
 
-  const body = {
-    model: config.openaiModel,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt }
-    ],
-    temperature: 0.2,
-    max_tokens: 500
-  };
-
-  let attempt = 0;
-  let waitMs = 500;
-
-  while (true) {
-    attempt++;
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${config.openaiApiKey}`,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(body)
+  try {
+    const content = await completeText(config, {
+      system: systemPrompt,
+      user: userPrompt,
+      temperature: 0.2,
+      maxTokens: 500
     });
+    if (!content || content.toLowerCase() === "null") return null;
+    return content;
+  } catch (err) {
+    console.warn("generateTaskDescription failed:", (err as Error).message);
+    return null; // Don't block task creation on description failure
+  }
+}
+
+// ── Sprint retrospective ───────────────────────────────────────────────────
 
-    if (res.ok) {
-      const data = (await res.json()) as {
-        choices?: Array<{ message?: { content?: string } }>;
-      };
-      const content = (data.choices?.[0]?.message?.content ?? "").trim();
-      if (!content || content.toLowerCase() === "null") return null;
-      return content;
-    }
-
-    if (attempt >= config.maxRetries) {
-      console.warn(`generateTaskDescription failed after ${attempt} attempts`);
-      return null; // Don't block task creation on description failure
-    }
-    await new Promise((r) => setTimeout(r, waitMs));
-    waitMs *= 2;
+export async function generateSprintRetrospective(
+  config: AppConfig,
+  metrics: SprintRetroMetrics
+): Promise<SprintRetrospective> {
+  const systemPrompt = await renderPrompt(config, "sprint-retro");
+
+  const userPrompt = JSON.stringify({
+    sprint: metrics.sprint,
+    planned_sp: metrics.plannedSp,
+    initial_plan_sp: metrics.initialPlanSp,
+    completed_sp: metrics.completedSp,
+    completion_rate: metrics.completionRate,
+    completed_tasks: metrics.completedTasks,
+    total_tasks: metrics.totalTasks,
+    added_tasks: metrics.addedTasks,
+    carry_over: metrics.carryOver.map((t) => ({ name: t.name, status: t.status, sp: t.sp, assignees: t.assignees })),
+    carry_over_sp: metrics.carryOverSp,
+    member_throughput: metrics.members,
+    stagnant_tasks: metrics.stagnant.map((t) => ({ name: t.name, doing_days: t.doingDays, completed: t.completed })),
+    schedule_deviation: metrics.scheduleDeviation,
+    history_days: metrics.historyDays
+  });
+
+  const raw = await callChatCompletion(
+    config,
+    systemPrompt,
+    userPrompt,
+    sprintRetrospectiveJsonSchema
+  );
+
+  return sprintRetrospectiveSchema.parse(raw);
+}
+
+// ── Sprint carry-over proposal ─────────────────────────────────────────────
+
+export async function proposeCarryOver(
+  config: AppConfig,
+  input: {
+    fromSprint: SprintRef;
+    toSprint: SprintRef;
+    tasks: CarryOverTask[];
+    /** Next sprint capacity per member (hours) */
+    capacities: Array<{ name: string; totalHours: number }>;
+    /** SP already planned in the next sprint per member */
+    plannedSpByMember: Record<string, number>;
+    /** SP each member completed in the ended sprint (velocity reference) */
+    completedSpByMember: Record<string, number>;
   }
+): Promise<CarryOverProposal> {
+  const systemPrompt = await renderPrompt(config, "carry-over");
+
+  const userPrompt = JSON.stringify({
+    ended_sprint: input.fromSprint,
+    next_sprint: input.toSprint,
+    unfinished_tasks: input.tasks,
+    next_sprint_capacity_hours: input.capacities,
+    next_sprint_planned_sp_by_member: input.plannedSpByMember,
+    ended_sprint_completed_sp_by_member: input.completedSpByMember
+  });
+
+  const raw = await callChatCompletion(
+    config,
+    systemPrompt,
+    userPrompt,
+    carryOverProposalJsonSchema
+  );
+
+  return carryOverProposalSchema.parse(raw);
+}
+
+// ── Sprint planning proposal ───────────────────────────────────────────────
+
+export async function proposeSprintPlan(
+  config: AppConfig,
+  input: {
+    sprint: SprintRef;
+    backlog: BacklogCandidate[];
+    members: Member[];
+    /** Member capacity for the sprint (hours) */
+    capacities: Array<{ name: string; totalHours: number }>;
+    /** Tasks already linked to the sprint */
+    committed: Array<{ name: string; sp: number | null; assignees: string[] }>;
+    /** Velocity-based SP the team can take in this sprint (null = unknown) */
+    spBudget: number | null;
+    avgDailySp: number | null;
+    /** Master-schedule SP allocated to the sprint period */
+    scheduleItems: Array<{ category: string; item: string; sp: number; plannedEnd: string | null }>;
+  }
+): Promise<SprintPlanProposal> {
+  const today = toJstDateString();
+  const systemPrompt = await renderPrompt(config, "sprint-plan");
+
+  const userPrompt = JSON.stringify({
+    today,
+    sprint: input.sprint,
+    sp_budget: input.spBudget,
+    avg_daily_sp: input.avgDailySp,
+    members: input.members.map((m) => ({ name: m.name, sp_rate: m.spRate, notes: m.notes })),
+    capacity_hours: input.capacities,
+    committed: input.committed,
+    schedule_items: input.scheduleItems,
+    backlog: input.backlog
+  });
+
+  const raw = await callChatCompletion(
+    config,
+    systemPrompt,
+    userPrompt,
+    sprintPlanProposalJsonSchema
+  );
+
+  return sprintPlanProposalSchema.parse(raw);
 }
@@ -0,0 +1,435 @@
+import type { AppConfig } from "./config";
+import { hashPayload } from "./dedupe";
+import { withRetry } from "./retry";
+import { recordLlmUsage } from "./llmUsage";
+
+// ── LLM provider layer ──────────────────────────────────────────────────────
+// All LLM calls go through completeText / completeJson. The provider is chosen by
+// LLM_PROVIDER (global) or `/pmo llm` (per channel); "fixture" replays the canned
+// responses in LLM_FIXTURES instead of calling an external API.
+
+export type LlmProviderName = "openai" | "anthropic" | "azure-openai" | "fixture";
+
+export const LLM_PROVIDERS: LlmProviderName[] = ["openai", "anthropic", "azure-openai", "fixture"];
+
+/** Structured output schema (OpenAI json_schema shape; used as the tool input schema on Anthropic) */
+export interface LlmJsonSchema {
+  name: string;
+  strict?: boolean;
+  description?: string;
+  schema: unknown;
+}
+
+/** Remote MCP server the model may call (Notion MCP) */
+export interface LlmMcpServer {
+  url: string;
+  label: string;
+  allowedTools: string[];
+  headers?: Record<string, string>;
+}
+
+export interface LlmRequest {
+  system: string;
+  user: string;
+  jsonSchema?: LlmJsonSchema;
+  temperature?: number;
+  maxTokens?: number;
+  mcpServer?: LlmMcpServer;
+}
+
+export interface LlmResponse {
+  text: string;
+  provider: LlmProviderName;
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+const DEFAULT_MAX_TOKENS = 4096;
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MCP_BETA = "mcp-client-2025-04-04";
+
+export function parseLlmProvider(value?: string | null): LlmProviderName | null {
+  const name = value?.trim().toLowerCase().replace(/^azure$/, "azure-openai");
+  return LLM_PROVIDERS.includes(name as LlmProviderName) ? (name as LlmProviderName) : null;
+}
+
+export function getLlmProvider(config: AppConfig): LlmProvider {
+  switch (config.llmProvider) {
+    case "anthropic":
+      return anthropicProvider(config);
+    case "azure-openai":
+      return azureOpenAiProvider(config);
+    case "fixture":
+      return fixtureProvider(config);
+    default:
+      return openAiProvider(config);
+  }
+}
+
+/** Plain-text completion (or the raw JSON text when `jsonSchema` is set) */
+export async function completeText(config: AppConfig, request: LlmRequest): Promise<string> {
+  const response = await getLlmProvider(config).complete(request);
+  // Accounting must never fail the call itself
+  await recordLlmUsage(config, response).catch((err) =>
+    console.error("Failed to record LLM usage:", (err as Error).message)
+  );
+  return response.text;
+}
+
+/** Structured completion: the response parsed as JSON (callers validate with zod) */
+export async function completeJson(
+  config: AppConfig,
+  request: LlmRequest & { jsonSchema: LlmJsonSchema }
+): Promise<unknown> {
+  const text = await completeText(config, request);
+  try {
+    return JSON.parse(stripCodeFence(text));
+  } catch {
+    throw new Error(`LLM returned invalid JSON: ${text.slice(0, 200)}`);
+  }
+}
+
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text.trim();
+}
+
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  maxRetries: number
+): Promise<any> {
+  return withRetry(
+    async () => {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) {
+        const detail = await res.text();
+        throw new Error(`${label} API error: ${res.status} ${detail}`);
+      }
+      return res.json();
+    },
+    { label, maxRetries }
+  );
+}
+
+// ── OpenAI / Azure OpenAI ───────────────────────────────────────────────────
+// Chat Completions for plain requests; the Responses API when an MCP server is attached
+// (hosted MCP tools are only available there).
+
+interface OpenAiEndpoints {
+  label: string;
+  chatUrl: string;
+  responsesUrl: string;
+  headers: Record<string, string>;
+}
+
+function openAiCompatible(
+  name: LlmProviderName,
+  model: string,
+  endpoints: OpenAiEndpoints,
+  maxRetries: number
+): LlmProvider {
+  return {
+    name,
+    model,
+    async complete(request) {
+      const { text, usage } = request.mcpServer
+        ? await openAiResponses(model, endpoints, request, maxRetries)
+        : await openAiChat(model, endpoints, request, maxRetries);
+      return { text, provider: name, model, usage };
+    }
+  };
+}
+
+async function openAiChat(
+  model: string,
+  endpoints: OpenAiEndpoints,
+  request: LlmRequest,
+  maxRetries: number
+): Promise<{ text: string; usage?: LlmResponse["usage"] }> {
+  const body: Record<string, unknown> = {
+    model,
+    messages: [
+      { role: "system", content: request.system },
+      { role: "user", content: request.user }
+    ],
+    temperature: request.temperature ?? 0.1
+  };
+  if (request.jsonSchema) {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: { name: request.jsonSchema.name, strict: request.jsonSchema.strict ?? true, schema: request.jsonSchema.schema }
+    };
+  }
+  if (request.maxTokens) body.max_tokens = request.maxTokens;
+
+  const data = (await postJson(endpoints.chatUrl, endpoints.headers, body, endpoints.label, maxRetries)) as {
+    choices?: Array<{ message?: { content?: string | null } }>;
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+  };
+  return {
+    text: (data.choices?.[0]?.message?.content ?? "").trim(),
+    usage: data.usage
+      ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+      : undefined
+  };
+}
+
+type ResponseContentPart = { type?: string; text?: string; json?: unknown };
+type ResponseOutputItem = { type?: string; role?: string; content?: ResponseContentPart[] };
+
+async function openAiResponses(
+  model: string,
+  endpoints: OpenAiEndpoints,
+  request: LlmRequest,
+  maxRetries: number
+): Promise<{ text: string; usage?: LlmResponse["usage"] }> {
+  const mcp = request.mcpServer!;
+  const tool: Record<string, unknown> = {
+    type: "mcp",
+    server_url: mcp.url,
+    server_label: mcp.label,
+    require_approval: "never",
+    allowed_tools: mcp.allowedTools
+  };
+  if (mcp.headers) tool.headers = mcp.headers;
+
+  const body: Record<string, unknown> = {
+    model,
+    input: [
+      { role: "system", content: request.system },
+      { role: "user", content: request.user }
+    ],
+    tools: [tool],
+    temperature: request.temperature ?? 0.1,
+    max_output_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS
+  };
+  if (request.jsonSchema) {
+    const format: Record<string, unknown> = {
+      type: "json_schema",
+      name: request.jsonSchema.name,
+      strict: request.jsonSchema.strict ?? true,
+      schema: request.jsonSchema.schema
+    };
+    if (request.jsonSchema.description) format.description = request.jsonSchema.description;
+    body.text = { format };
+  }
+
+  const data = (await postJson(endpoints.responsesUrl, endpoints.headers, body, endpoints.label, maxRetries)) as {
+    output?: ResponseOutputItem[];
+    output_text?: string;
+    usage?: { input_tokens?: number; output_tokens?: number };
+  };
+  const usage = data.usage
+    ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+    : undefined;
+  if (typeof data.output_text === "string" && data.output_text.trim()) {
+    return { text: data.output_text.trim(), usage };
+  }
+  const chunks: string[] = [];
+  for (const item of data.output ?? []) {
+    for (const part of item.content ?? []) {
+      if (typeof part?.text === "string" && part.text.trim()) chunks.push(part.text);
+      else if (part?.json != null) chunks.push(JSON.stringify(part.json));
+    }
+  }
+  const text = chunks.join("").trim();
+  if (!text) {
+    console.error("LLM raw response (for debugging)", data);
+    throw new Error("LLM response text is empty; no textual content returned from outputs");
+  }
+  return { text, usage };
+}
+
+function openAiProvider(config: AppConfig): LlmProvider {
+  if (!config.openaiApiKey) throw new Error("OPENAI_API_KEY is required for the openai LLM provider");
+  return openAiCompatible(
+    "openai",
+    config.llmModel ?? config.openaiModel,
+    {
+      label: "OpenAI",
+      chatUrl: "https://api.openai.com/v1/chat/completions",
+      responsesUrl: "https://api.openai.com/v1/responses",
+      headers: { Authorization: `Bearer ${config.openaiApiKey}` }
+    },
+    config.maxRetries
+  );
+}
+
+function azureOpenAiProvider(config: AppConfig): LlmProvider {
+  const { azureOpenaiEndpoint: endpoint, azureOpenaiApiKey: apiKey, azureOpenaiApiVersion: apiVersion } = config;
+  // Azure addresses models by deployment name
+  const deployment = config.llmModel ?? config.azureOpenaiDeployment;
+  if (!endpoint || !apiKey || !deployment) {
+    throw new Error(
+      "AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and AZURE_OPENAI_DEPLOYMENT are required for the azure-openai LLM provider"
+    );
+  }
+  const base = endpoint.replace(/\/+$/, "");
+  return openAiCompatible(
+    "azure-openai",
+    deployment,
+    {
+      label: "Azure OpenAI",
+      chatUrl: `${base}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+      responsesUrl: `${base}/openai/responses?api-version=${apiVersion}`,
+      headers: { "api-key": apiKey }
+    },
+    config.maxRetries
+  );
+}
+
+// ── Anthropic ───────────────────────────────────────────────────────────────
+// Structured output = a single forced tool whose input schema is the JSON schema.
+// MCP servers go through the MCP connector (beta); forcing the output tool would keep
+// the model from calling them, so with MCP the choice is left to the model and a forced
+// follow-up call turns a plain-text answer into the structured result.
+
+type AnthropicContentBlock = { type: string; text?: string; name?: string; input?: unknown };
+
+function anthropicProvider(config: AppConfig): LlmProvider {
+  if (!config.anthropicApiKey) throw new Error("ANTHROPIC_API_KEY is required for the anthropic LLM provider");
+  const apiKey = config.anthropicApiKey;
+  const model = config.llmModel ?? config.anthropicModel;
+  return {
+    name: "anthropic",
+    model,
+    async complete(request) {
+      const headers: Record<string, string> = {
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_VERSION
+      };
+      const outputTool = request.jsonSchema?.name;
+      const body: Record<string, unknown> = {
+        model,
+        system: request.mcpServer && outputTool
+          ? `${request.system}\n\nLook up what you need with the ${request.mcpServer.label} tools, then finish by calling the ${outputTool} tool with the result.`
+          : request.system,
+        messages: [{ role: "user", content: request.user }],
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? 0.1
+      };
+      if (request.jsonSchema) {
+        body.tools = [
+          {
+            name: request.jsonSchema.name,
+            description: request.jsonSchema.description ?? "Return the result in this structure.",
+            input_schema: request.jsonSchema.schema
+          }
+        ];
+        body.tool_choice = request.mcpServer ? { type: "auto" } : { type: "tool", name: request.jsonSchema.name };
+      }
+      if (request.mcpServer) {
+        headers["anthropic-beta"] = ANTHROPIC_MCP_BETA;
+        const auth = request.mcpServer.headers?.Authorization;
+        body.mcp_servers = [
+          {
+            type: "url",
+            url: request.mcpServer.url,
+            name: request.mcpServer.label,
+            ...(auth ? { authorization_token: auth.replace(/^Bearer\s+/i, "") } : {}),
+            tool_configuration: { enabled: true, allowed_tools: request.mcpServer.allowedTools }
+          }
+        ];
+      }
+
+      const send = async (payload: Record<string, unknown>, payloadHeaders: Record<string, string>) =>
+        (await postJson(
+          "https://api.anthropic.com/v1/messages",
+          payloadHeaders,
+          payload,
+          "Anthropic",
+          config.maxRetries
+        )) as { content?: AnthropicContentBlock[]; usage?: { input_tokens?: number; output_tokens?: number } };
+      const textOf = (blocks: AnthropicContentBlock[]) =>
+        blocks
+          .filter((b) => b.type === "text" && typeof b.text === "string")
+          .map((b) => b.text)
+          .join("")
+          .trim();
+
+      const data = await send(body, headers);
+      let content = data.content ?? [];
+      const usage = data.usage
+        ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+        : undefined;
+      const findOutput = () => content.find((b) => b.type === "tool_use" && b.name === outputTool);
+
+      // MCP run that ended in text: force the output tool on what the model found
+      if (outputTool && request.mcpServer && !findOutput()) {
+        const answer = textOf(content);
+        const followUp = await send(
+          {
+            ...body,
+            system: request.system,
+            mcp_servers: undefined,
+            tool_choice: { type: "tool", name: outputTool },
+            messages: [
+              { role: "user", content: request.user },
+              ...(answer ? [{ role: "assistant", content: answer }] : []),
+              { role: "user", content: `Return the result with the ${outputTool} tool.` }
+            ]
+          },
+          { "x-api-key": apiKey, "anthropic-version": ANTHROPIC_VERSION }
+        );
+        content = followUp.content ?? [];
+        if (usage && followUp.usage) {
+          usage.inputTokens += followUp.usage.input_tokens ?? 0;
+          usage.outputTokens += followUp.usage.output_tokens ?? 0;
+        }
+      }
+      const toolUse = outputTool ? findOutput() : undefined;
+      if (toolUse) return { text: JSON.stringify(toolUse.input), provider: "anthropic", model, usage };
+      return { text: textOf(content), provider: "anthropic", model, usage };
+    }
+  };
+}
+
+// ── Fixture replay ──────────────────────────────────────────────────────────
+// Fixtures map "<schema name>:<request hash>" or "<schema name>" ("text" for plain
+// requests) to the response (string, or an object returned as JSON). The hash is the
+// first 16 hex chars of SHA-256 over "system\nuser", printed when a fixture is missing.
+
+async function llmFixtureKey(request: LlmRequest): Promise<string> {
+  const hash = (await hashPayload(`${request.system}\n${request.user}`)).slice(0, 16);
+  return `${request.jsonSchema?.name ?? "text"}:${hash}`;
+}
+
+function fixtureProvider(config: AppConfig): LlmProvider {
+  let replay: Record<string, unknown>;
+  try {
+    replay = config.llmFixtures ? (JSON.parse(config.llmFixtures) as Record<string, unknown>) : {};
+  } catch {
+    throw new Error("LLM_FIXTURES is not valid JSON");
+  }
+  return {
+    name: "fixture",
+    model: "fixture",
+    async complete(request) {
+      const key = await llmFixtureKey(request);
+      const name = request.jsonSchema?.name ?? "text";
+      const response = key in replay ? replay[key] : replay[name];
+      if (response === undefined) {
+        throw new Error(`No LLM fixture for ${key} (add "${key}" or "${name}" to the fixtures)`);
+      }
+      return {
+        text: typeof response === "string" ? response : JSON.stringify(response),
+        provider: "fixture",
+        model: "fixture",
+        usage: { inputTokens: 0, outputTokens: 0 }
+      };
+    }
+  };
+}
@@ -0,0 +1,155 @@
+import type { AppConfig } from "./config";
+import type { StateStore } from "./storage";
+import type { LlmResponse } from "./llmProvider";
+import { toJstDateString } from "./workflow";
+
+// ── LLM usage accounting ────────────────────────────────────────────────────
+// Token usage of every LLM response is summed per scope (channel ID, "global") / day / flow,
+// with an estimated cost from the model's list price. A monthly budget per channel
+// makes optional calls (schedule matching, task descriptions, reply checks) skip.
+// Totals are StateStore counters, so concurrent flows never lose each other's calls.
+
+/** Attached to a flow's config by withLlmUsage; calls made without it are not recorded */
+export interface LlmUsageContext {
+  kv: StateStore;
+  scope: string | null;
+  flow: string;
+  /** Prompt id → version label rendered in this run (see promptRegistry) */
+  prompts: Record<string, string>;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Calls whose model has no known price (cost counted as 0) */
+  unpricedCalls: number;
+}
+
+const LLM_USAGE_DAY_KEY = (date: string, scope: string | null) => `llm-usage:${date}:${scope ?? "global"}`;
+const LLM_USAGE_MONTH_KEY = (month: string, scope: string | null) => `llm-usage-month:${month}:${scope ?? "global"}`;
+const LLM_USAGE_TTL = 400 * 24 * 3600; // 400 days (keeps last year's months for comparison)
+
+/** USD per 1M tokens [input, output]; the longest prefix of the model name wins. Override with LLM_PRICING */
+const DEFAULT_LLM_PRICING: Record<string, [number, number]> = {
+  "gpt-4.1": [2, 8],
+  "gpt-4.1-mini": [0.4, 1.6],
+  "gpt-4.1-nano": [0.1, 0.4],
+  "gpt-4o": [2.5, 10],
+  "gpt-4o-mini": [0.15, 0.6],
+  "claude-sonnet-4": [3, 15],
+  "claude-haiku-4": [1, 5],
+  "claude-opus-4": [15, 75],
+  "claude-opus-4-5": [5, 25],
+  fixture: [0, 0]
+};
+
+const emptyTotals = (): LlmUsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0 });
+
+const TOTAL_FIELDS: Array<keyof LlmUsageTotals> = ["calls", "inputTokens", "outputTokens", "costUsd", "unpricedCalls"];
+
+/** Counter fields of one flow in the day counter ("<flow>.<field>") */
+const flowField = (flow: string, field: keyof LlmUsageTotals) => `${flow}.${field}`;
+
+function totalsFromCounters(counters: Record<string, number>, field: (name: keyof LlmUsageTotals) => string): LlmUsageTotals {
+  const totals = emptyTotals();
+  for (const name of TOTAL_FIELDS) totals[name] = counters[field(name)] ?? 0;
+  totals.costUsd = Math.round(totals.costUsd * 1e6) / 1e6;
+  return totals;
+}
+
+export function withLlmUsage(
+  config: AppConfig,
+  kv: StateStore,
+  flow: string,
+  channelId?: string | null
+): AppConfig {
+  return { ...config, llmUsage: { kv, scope: channelId ?? null, flow, prompts: {} } };
+}
+
+export function modelPrice(config: Pick<AppConfig, "llmPricing">, model: string): [number, number] | null {
+  const pricing = { ...DEFAULT_LLM_PRICING, ...config.llmPricing };
+  const key = Object.keys(pricing)
+    .filter((k) => model.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? pricing[key] : null;
+}
+
+export function addLlmUsage(totals: LlmUsageTotals | undefined, usage: LlmUsageTotals): LlmUsageTotals {
+  const t = totals ?? emptyTotals();
+  return {
+    calls: t.calls + usage.calls,
+    inputTokens: t.inputTokens + usage.inputTokens,
+    outputTokens: t.outputTokens + usage.outputTokens,
+    costUsd: Math.round((t.costUsd + usage.costUsd) * 1e6) / 1e6,
+    unpricedCalls: t.unpricedCalls + usage.unpricedCalls
+  };
+}
+
+/** Record one response under today's (JST) day and month for the config's usage context */
+export async function recordLlmUsage(config: AppConfig, response: LlmResponse): Promise<void> {
+  const ctx = config.llmUsage;
+  if (!ctx) return;
+  const inputTokens = response.usage?.inputTokens ?? 0;
+  const outputTokens = response.usage?.outputTokens ?? 0;
+  const price = modelPrice(config, response.model);
+  const usage: LlmUsageTotals = {
+    calls: 1,
+    inputTokens,
+    outputTokens,
+    costUsd: price ? (inputTokens * price[0] + outputTokens * price[1]) / 1e6 : 0,
+    unpricedCalls: price ? 0 : 1
+  };
+
+  const today = toJstDateString();
+  const dayKey = LLM_USAGE_DAY_KEY(today, ctx.scope);
+  const monthKey = LLM_USAGE_MONTH_KEY(today.slice(0, 7), ctx.scope);
+  const dayDeltas = Object.fromEntries(TOTAL_FIELDS.map((name) => [flowField(ctx.flow, name), usage[name]]));
+  await Promise.all([
+    ctx.kv.incrementCounters(dayKey, dayDeltas, { expirationTtl: LLM_USAGE_TTL }),
+    ctx.kv.incrementCounters(monthKey, { ...usage }, { expirationTtl: LLM_USAGE_TTL })
+  ]);
+}
+
+/** Per-flow usage of one day */
+export async function getDailyLlmUsage(
+  kv: StateStore,
+  date: string,
+  scope: string | null
+): Promise<Record<string, LlmUsageTotals>> {
+  const counters = await kv.getCounters(LLM_USAGE_DAY_KEY(date, scope));
+  const flows = new Set(Object.keys(counters).map((field) => field.slice(0, field.lastIndexOf("."))));
+  return Object.fromEntries(
+    [...flows].map((flow) => [flow, totalsFromCounters(counters, (name) => flowField(flow, name))])
+  );
+}
+
+/** Month total ("YYYY-MM") */
+export async function getMonthlyLlmUsage(
+  kv: StateStore,
+  month: string,
+  scope: string | null
+): Promise<LlmUsageTotals> {
+  return totalsFromCounters(await kv.getCounters(LLM_USAGE_MONTH_KEY(month, scope)), (name) => name);
+}
+
+/**
+ * True when the scope's estimated cost this month has reached its budget.
+ * Optional LLM calls check this and skip; essential ones (check-in messages,
+ * PM report, mentions) keep running.
+ */
+export async function isLlmBudgetExceeded(config: AppConfig): Promise<boolean> {
+  const ctx = config.llmUsage;
+  if (!ctx || !config.llmMonthlyBudgetUsd) return false;
+  const month = await getMonthlyLlmUsage(ctx.kv, toJstDateString().slice(0, 7), ctx.scope);
+  if (month.costUsd < config.llmMonthlyBudgetUsd) return false;
+  console.warn(
+    `LLM budget exceeded for ${ctx.scope ?? "global"} ($${month.costUsd.toFixed(2)} / $${config.llmMonthlyBudgetUsd}); skipping optional call in ${ctx.flow}`
+  );
+  return true;
+}
+
+export function formatUsd(value: number): string {
+  return `$${value < 100 ? value.toFixed(2) : value.toFixed(0)}`;
+}
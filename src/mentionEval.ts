@@ -0,0 +1,435 @@
+import type { AppConfig } from "./config";
+import type { StateStore } from "./storage";
+import type { MentionContext, MentionIntent, SprintTasksSummary } from "./schema";
+import type { ReferenceItem } from "./notionApi";
+import type { MentionMessage } from "./workflow";
+import { interpretMention } from "./llmAnalyzer";
+import { getLlmProvider } from "./llmProvider";
+import { withLlmUsage } from "./llmUsage";
+import { withPromptDraft } from "./promptRegistry";
+
+// ── Mention intent evaluation ───────────────────────────────────────────────
+// A golden set of recorded @mentions (the inputs of interpretMention) with the
+// expected intent / Notion actions. A run sends every case through a provider —
+// or replays the responses recorded with the cases — scores it and diffs it
+// against the baseline run, so a prompt or model change can be checked before
+// it is saved or deployed.
+
+type PendingCreateTasks = NonNullable<Parameters<typeof interpretMention>[6]>;
+type PendingUpdateActions = NonNullable<Parameters<typeof interpretMention>[7]>;
+type MentionAction = MentionIntent["actions"][number];
+type MentionNewTask = MentionIntent["new_tasks"][number];
+
+export interface MentionEvalInput {
+  userText: string;
+  summary: SprintTasksSummary;
+  context: MentionContext;
+  requestUserName?: string;
+  conversationHistory?: MentionMessage[];
+  pendingCreateTasks?: PendingCreateTasks;
+  pendingUpdateActions?: PendingUpdateActions;
+  threadContext?: Array<{ text: string; user: string }>;
+  channelContext?: Array<{ text: string; user: string }>;
+  referenceItems?: ReferenceItem[];
+  /** When the mention was made (ISO); "today" and relative dates are resolved from it */
+  at: string;
+}
+
+export interface MentionEvalExpectation {
+  intent: MentionIntent["intent"];
+  /** Exactly these actions (only the given fields are compared); omitted = not checked */
+  actions?: Array<Partial<MentionAction>>;
+  /** Exactly these new tasks (task_name matches when contained in the actual name); omitted = not checked */
+  newTasks?: Array<Partial<MentionNewTask>>;
+  /** Phrases response_text must contain */
+  responseIncludes?: string[];
+}
+
+export interface MentionEvalCase {
+  id: string;
+  description?: string;
+  input: MentionEvalInput;
+  expected: MentionEvalExpectation;
+  /** LLM response recorded with the case, replayed in "recorded" mode */
+  recorded?: MentionIntent;
+}
+
+/** "live" calls the provider, "recorded" replays each case's recorded response */
+export type MentionEvalMode = "live" | "recorded";
+
+export interface MentionEvalCheck {
+  name: string;
+  pass: boolean;
+  detail?: string;
+}
+
+export interface MentionEvalResult {
+  caseId: string;
+  pass: boolean;
+  /** Share of passed checks (0–1) */
+  score: number;
+  intent: MentionIntent["intent"] | null;
+  checks: MentionEvalCheck[];
+  error?: string;
+  durationMs: number;
+}
+
+export interface MentionEvalRun {
+  id: string;
+  startedAt: string;
+  mode: MentionEvalMode;
+  channel: string | null;
+  provider: string;
+  model: string;
+  /** Mention prompt version label (e.g. "mention@v3(C123)", "mention@draft") */
+  prompt: string;
+  passed: number;
+  total: number;
+  /** Mean case score */
+  score: number;
+  results: MentionEvalResult[];
+}
+
+export interface MentionEvalDiff {
+  baselineId: string;
+  /** Passed in the baseline, failing now */
+  regressed: string[];
+  /** Failed in the baseline, passing now */
+  fixed: string[];
+  intentChanged: Array<{ caseId: string; from: string | null; to: string | null }>;
+  /** Cases the baseline did not run */
+  added: string[];
+}
+
+/** A live mention captured with MENTION_EVAL_CAPTURE, to be promoted into a case */
+export interface MentionEvalSample {
+  id: string;
+  channel: string;
+  input: MentionEvalInput;
+  output: MentionIntent;
+}
+
+const EVAL_CASE_KEY = (id: string) => `mention-eval-case:${id}`;
+const EVAL_RUN_KEY = (id: string) => `mention-eval-run:${id}`;
+const EVAL_RUN_LIST_KEY = "mention-eval-runs";
+const EVAL_BASELINE_KEY = "mention-eval-baseline";
+const EVAL_SAMPLE_PREFIX = "mention-eval-sample:";
+const EVAL_SAMPLE_KEY = (date: string, id: string) => `${EVAL_SAMPLE_PREFIX}${date}:${id}`;
+const EVAL_RUN_TTL = 90 * 24 * 3600; // 90 days
+const EVAL_SAMPLE_TTL = 14 * 24 * 3600; // 14 days
+const EVAL_RUN_LIST_MAX = 50;
+/** Cases per run (live runs are sequential LLM calls within one request) */
+export const MAX_EVAL_CASES = 50;
+
+const CASE_ID_RE = /^[\w.-]{1,64}$/;
+const INTENTS: Array<MentionIntent["intent"]> = ["query", "update", "create_task", "unknown"];
+
+// ── Cases ───────────────────────────────────────────────────────────────────
+
+async function listByPrefix<T>(kv: StateStore, prefix: string): Promise<Array<{ key: string; value: T }>> {
+  const items: Array<{ key: string; value: T }> = [];
+  let cursor: string | undefined;
+  do {
+    const list = await kv.list({ prefix, cursor });
+    for (const key of list.keys) {
+      const raw = await kv.get(key.name);
+      if (raw) items.push({ key: key.name, value: JSON.parse(raw) as T });
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+  return items;
+}
+
+export async function listMentionEvalCases(kv: StateStore): Promise<MentionEvalCase[]> {
+  const items = await listByPrefix<MentionEvalCase>(kv, EVAL_CASE_KEY(""));
+  return items.map((i) => i.value).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Why `value` is not a usable case, null if it is */
+export function validateMentionEvalCase(value: unknown): string | null {
+  if (!value || typeof value !== "object") return "case must be an object";
+  const c = value as Partial<MentionEvalCase>;
+  if (typeof c.id !== "string" || !CASE_ID_RE.test(c.id)) return "id must be 1-64 chars of [A-Za-z0-9_.-]";
+  const input = c.input;
+  if (!input || typeof input !== "object") return `${c.id}: input is required`;
+  if (typeof input.userText !== "string" || !input.userText.trim()) return `${c.id}: input.userText is required`;
+  if (!input.summary || !Array.isArray(input.summary.assignees)) return `${c.id}: input.summary must be a SprintTasksSummary`;
+  if (!input.context || typeof input.context !== "object") return `${c.id}: input.context is required`;
+  if (typeof input.at !== "string" || Number.isNaN(Date.parse(input.at))) return `${c.id}: input.at must be an ISO timestamp`;
+  if (!c.expected || !INTENTS.includes(c.expected.intent)) return `${c.id}: expected.intent must be one of ${INTENTS.join(", ")}`;
+  for (const key of ["actions", "newTasks", "responseIncludes"] as const) {
+    if (c.expected[key] != null && !Array.isArray(c.expected[key])) return `${c.id}: expected.${key} must be an array`;
+  }
+  return null;
+}
+
+export async function saveMentionEvalCase(kv: StateStore, evalCase: MentionEvalCase): Promise<void> {
+  await kv.put(EVAL_CASE_KEY(evalCase.id), JSON.stringify(evalCase));
+}
+
+export async function deleteMentionEvalCase(kv: StateStore, id: string): Promise<void> {
+  await kv.delete(EVAL_CASE_KEY(id));
+}
+
+// ── Samples ─────────────────────────────────────────────────────────────────
+
+/** Store a live mention (input + raw LLM response) for later promotion to a case */
+export async function captureMentionEvalSample(
+  kv: StateStore,
+  channel: string,
+  input: MentionEvalInput,
+  output: MentionIntent
+): Promise<void> {
+  const id = `${channel}-${Date.parse(input.at)}`;
+  const sample: MentionEvalSample = { id, channel, input, output };
+  await kv.put(EVAL_SAMPLE_KEY(input.at.slice(0, 10), id), JSON.stringify(sample), {
+    expirationTtl: EVAL_SAMPLE_TTL
+  });
+}
+
+/** Captured samples, newest first */
+export async function listMentionEvalSamples(kv: StateStore): Promise<MentionEvalSample[]> {
+  const items = await listByPrefix<MentionEvalSample>(kv, EVAL_SAMPLE_PREFIX);
+  return items.map((i) => i.value).sort((a, b) => b.input.at.localeCompare(a.input.at));
+}
+
+/**
+ * Turn a captured sample into a case. Without `expected`, the recorded response
+ * becomes the expectation (review it before relying on the case).
+ */
+export async function promoteMentionEvalSample(
+  kv: StateStore,
+  sampleId: string,
+  overrides: { id?: string; description?: string; expected?: MentionEvalExpectation } = {}
+): Promise<MentionEvalCase | null> {
+  const sample = (await listMentionEvalSamples(kv)).find((s) => s.id === sampleId);
+  if (!sample) return null;
+  const { output } = sample;
+  return {
+    id: overrides.id ?? sample.id,
+    description: overrides.description,
+    input: sample.input,
+    expected: overrides.expected ?? {
+      intent: output.intent,
+      actions: output.actions.map(({ action, page_id, new_value }) => ({ action, page_id, new_value })),
+      newTasks: output.new_tasks.map(({ task_name, assignee, due, sp }) => ({ task_name, assignee, due, sp }))
+    },
+    recorded: output
+  };
+}
+
+// ── Scoring ─────────────────────────────────────────────────────────────────
+
+const norm = (value: unknown) => String(value).trim().toLowerCase();
+
+function matchesPartial(expected: Record<string, unknown>, actual: Record<string, unknown>, containsKey?: string): boolean {
+  return Object.entries(expected).every(([key, value]) =>
+    key === containsKey ? norm(actual[key]).includes(norm(value)) : norm(actual[key]) === norm(value)
+  );
+}
+
+const describe = (item: Record<string, unknown>) =>
+  Object.entries(item).map(([k, v]) => `${k}=${v}`).join(" ");
+
+/** Pair expected items 1:1 with actual ones; extra actual items fail the check too */
+function checkItems(
+  name: string,
+  expected: Array<Record<string, unknown>>,
+  actual: Array<Record<string, unknown>>,
+  containsKey?: string
+): MentionEvalCheck {
+  const unused = [...actual];
+  const missing: string[] = [];
+  for (const item of expected) {
+    const index = unused.findIndex((a) => matchesPartial(item, a, containsKey));
+    if (index >= 0) unused.splice(index, 1);
+    else missing.push(describe(item));
+  }
+  const problems = [
+    ...missing.map((m) => `missing ${m}`),
+    ...unused.map((u) => `unexpected ${describe(u)}`)
+  ];
+  return problems.length ? { name, pass: false, detail: problems.join("; ") } : { name, pass: true };
+}
+
+export function scoreMentionCase(expected: MentionEvalExpectation, actual: MentionIntent): MentionEvalCheck[] {
+  const checks: MentionEvalCheck[] = [
+    actual.intent === expected.intent
+      ? { name: "intent", pass: true }
+      : { name: "intent", pass: false, detail: `expected ${expected.intent}, got ${actual.intent}` }
+  ];
+  if (expected.actions) {
+    checks.push(checkItems("actions", expected.actions, actual.actions.map(({ action, page_id, task_name, new_value }) => ({ action, page_id, task_name, new_value }))));
+  }
+  if (expected.newTasks) {
+    checks.push(checkItems("new_tasks", expected.newTasks, actual.new_tasks.map(({ task_name, assignee, due, sp, status, project }) => ({ task_name, assignee, due, sp, status, project })), "task_name"));
+  }
+  if (expected.responseIncludes?.length) {
+    const missing = expected.responseIncludes.filter((phrase) => !actual.response_text.includes(phrase));
+    checks.push(missing.length
+      ? { name: "response", pass: false, detail: `missing ${missing.map((m) => `"${m}"`).join(", ")}` }
+      : { name: "response", pass: true });
+  }
+  return checks;
+}
+
+// ── Runs ────────────────────────────────────────────────────────────────────
+
+async function runCase(config: AppConfig, evalCase: MentionEvalCase, mode: MentionEvalMode): Promise<MentionEvalResult> {
+  const started = Date.now();
+  const failed = (error: string): MentionEvalResult => ({
+    caseId: evalCase.id,
+    pass: false,
+    score: 0,
+    intent: null,
+    checks: [],
+    error,
+    durationMs: Date.now() - started
+  });
+  if (mode === "recorded" && !evalCase.recorded) return failed("no recorded response");
+
+  // Same LLM context object: prompt drafts and usage carry over into the fixture config
+  const caseConfig: AppConfig = mode === "recorded"
+    ? { ...config, llmProvider: "fixture", llmFixtures: JSON.stringify({ MentionIntent: evalCase.recorded }) }
+    : config;
+  const { input } = evalCase;
+  try {
+    const actual = await interpretMention(
+      caseConfig,
+      input.userText,
+      input.summary,
+      input.context,
+      input.requestUserName,
+      input.conversationHistory,
+      input.pendingCreateTasks,
+      input.pendingUpdateActions,
+      input.threadContext,
+      input.channelContext,
+      input.referenceItems,
+      new Date(input.at)
+    );
+    const checks = scoreMentionCase(evalCase.expected, actual);
+    const passed = checks.filter((c) => c.pass).length;
+    return {
+      caseId: evalCase.id,
+      pass: passed === checks.length,
+      score: Math.round((passed / checks.length) * 1000) / 1000,
+      intent: actual.intent,
+      checks,
+      durationMs: Date.now() - started
+    };
+  } catch (err) {
+    return failed((err as Error).message);
+  }
+}
+
+/**
+ * Score `cases` (at most MAX_EVAL_CASES) with the config's provider / model, or
+ * their recorded responses. `template` evaluates an unsaved mention prompt.
+ * The run is kept for 90 days and listed in the recent runs.
+ */
+export async function runMentionEval(
+  config: AppConfig,
+  kv: StateStore,
+  cases: MentionEvalCase[],
+  options: { mode: MentionEvalMode; template?: string; channelId?: string | null }
+): Promise<MentionEvalRun> {
+  let evalConfig = withLlmUsage(config, kv, "eval", options.channelId);
+  if (options.template != null) evalConfig = withPromptDraft(evalConfig, "mention", options.template);
+  // Fails fast on a misconfigured provider (missing API key …) instead of once per case
+  const provider = options.mode === "recorded"
+    ? { name: "fixture", model: "fixture" }
+    : getLlmProvider(evalConfig);
+
+  const startedAt = new Date().toISOString();
+  const results: MentionEvalResult[] = [];
+  for (const evalCase of cases.slice(0, MAX_EVAL_CASES)) {
+    results.push(await runCase(evalConfig, evalCase, options.mode));
+  }
+
+  const passed = results.filter((r) => r.pass).length;
+  const run: MentionEvalRun = {
+    id: `${startedAt.replace(/[-:.]/g, "").slice(0, 15)}-${crypto.randomUUID().slice(0, 6)}`,
+    startedAt,
+    mode: options.mode,
+    channel: options.channelId ?? null,
+    provider: provider.name,
+    model: provider.model,
+    prompt: evalConfig.llmUsage?.prompts.mention ?? "mention",
+    passed,
+    total: results.length,
+    score: results.length
+      ? Math.round((results.reduce((sum, r) => sum + r.score, 0) / results.length) * 1000) / 1000
+      : 0,
+    results
+  };
+  await kv.put(EVAL_RUN_KEY(run.id), JSON.stringify(run), { expirationTtl: EVAL_RUN_TTL });
+  await kv.appendToList(EVAL_RUN_LIST_KEY, run.id, { maxItems: EVAL_RUN_LIST_MAX });
+  return run;
+}
+
+export async function getMentionEvalRun(kv: StateStore, id: string): Promise<MentionEvalRun | null> {
+  const raw = await kv.get(EVAL_RUN_KEY(id));
+  return raw ? (JSON.parse(raw) as MentionEvalRun) : null;
+}
+
+/** Recent runs without per-case results, newest first */
+export async function listMentionEvalRuns(kv: StateStore): Promise<Array<Omit<MentionEvalRun, "results">>> {
+  const ids = await kv.getList<string>(EVAL_RUN_LIST_KEY);
+  const runs = await Promise.all(ids.slice().reverse().map((id) => getMentionEvalRun(kv, id)));
+  return runs
+    .filter((r): r is MentionEvalRun => r != null)
+    .map(({ results: _results, ...summary }) => summary);
+}
+
+export async function getMentionEvalBaseline(kv: StateStore): Promise<MentionEvalRun | null> {
+  const id = await kv.get(EVAL_BASELINE_KEY);
+  return id ? getMentionEvalRun(kv, id) : null;
+}
+
+export async function setMentionEvalBaseline(kv: StateStore, runId: string): Promise<void> {
+  await kv.put(EVAL_BASELINE_KEY, runId);
+}
+
+export function diffMentionEvalRuns(baseline: MentionEvalRun, run: MentionEvalRun): MentionEvalDiff {
+  const before = new Map(baseline.results.map((r) => [r.caseId, r]));
+  const diff: MentionEvalDiff = { baselineId: baseline.id, regressed: [], fixed: [], intentChanged: [], added: [] };
+  for (const result of run.results) {
+    const prev = before.get(result.caseId);
+    if (!prev) {
+      diff.added.push(result.caseId);
+      continue;
+    }
+    if (prev.pass && !result.pass) diff.regressed.push(result.caseId);
+    if (!prev.pass && result.pass) diff.fixed.push(result.caseId);
+    if (prev.intent !== result.intent) {
+      diff.intentChanged.push({ caseId: result.caseId, from: prev.intent, to: result.intent });
+    }
+  }
+  return diff;
+}
+
+export function formatMentionEvalReport(run: MentionEvalRun, diff?: MentionEvalDiff | null): string {
+  const lines = [
+    `*🧪 メンション評価* ${run.id}（${run.mode} / ${run.provider} ${run.model} / ${run.prompt}）`,
+    `合格 ${run.passed}/${run.total}（スコア ${run.score.toFixed(2)}）`
+  ];
+  if (diff) {
+    lines.push(
+      `ベースライン ${diff.baselineId} 比: 悪化 ${diff.regressed.length} / 改善 ${diff.fixed.length} / 意図変化 ${diff.intentChanged.length}`
+    );
+    if (diff.regressed.length) lines.push(`❌ 悪化: ${diff.regressed.join(", ")}`);
+    if (diff.fixed.length) lines.push(`✅ 改善: ${diff.fixed.join(", ")}`);
+    for (const c of diff.intentChanged) lines.push(`🔀 ${c.caseId}: ${c.from ?? "-"} → ${c.to ?? "-"}`);
+    if (diff.added.length) lines.push(`🆕 新規: ${diff.added.join(", ")}`);
+  }
+  const failures = run.results.filter((r) => !r.pass);
+  if (failures.length) {
+    lines.push("", "*不合格*");
+    for (const r of failures) {
+      const detail = r.error ?? r.checks.filter((c) => !c.pass).map((c) => `${c.name}: ${c.detail}`).join(" / ");
+      lines.push(`• ${r.caseId} — ${detail}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -2,6 +2,7 @@ import { extractNotionIdFromUrl, type AppConfig } from "./config";
 import type { SprintTasksSummary } from "./schema";
 import { withRetry } from "./retry";
 import { toJstDateString } from "./workflow";
+import { businessCalendar, holidayName, parseHolidayEntries, WEEKDAY_LABELS } from "./businessCalendar";
 
 const NOTION_VERSION = "2022-06-28";
 
@@ -105,6 +106,11 @@ const COMPLETED_STATUSES = [
 
 const ACTIVE_STATUSES = ["Active", "進行中", "In Progress", "実行中"];
 
+const DOING_STATUSES = ["doing", "進行中", "in progress", "実行中"];
+
+/** Names the status property goes by, in lookup order */
+export const STATUS_PROPERTY_NAMES = ["ステータス", "Status", "状態"];
+
 const normalizeDateString = (value?: string | null): string | undefined => {
   if (!value) return undefined;
   return value.slice(0, 10);
@@ -176,6 +182,12 @@ export const isCompletedStatus = (status?: string | null): boolean => {
   );
 };
 
+/** Task is being worked on (Doing / 進行中 / In Progress) */
+export const isDoingStatus = (status?: string | null): boolean => {
+  if (!status) return false;
+  return DOING_STATUSES.some((s) => status.toLowerCase().includes(s));
+};
+
 const isActiveStatus = (status?: string | null): boolean => {
   if (!status) return false;
   return ACTIVE_STATUSES.some((s) =>
@@ -315,6 +327,7 @@ interface TaskRow {
   subItem: string | null;
   company: string | null;
   url?: string | null;
+  githubPrUrl: string | null;
   assignees: string[];
   projectIds: string[];
 }
@@ -326,7 +339,7 @@ const extractSprintInfo = (
   const props = page?.properties ?? {};
   const name = getTitleFromProperties(props, ["名前", "Name"]);
   const statusProp =
-    getPropertyByName(props, ["ステータス", "Status", "状態"]) ||
+    getPropertyByName(props, STATUS_PROPERTY_NAMES) ||
     findPropertiesByType(props, "status")[0]?.value ||
     findPropertiesByType(props, "select")[0]?.value;
   const status = getStatusName(statusProp) ?? "-";
@@ -407,6 +420,74 @@ export async function fetchPageTitles(
   return result;
 }
 
+/**
+ * Parent database of each page (action guard). null = page not found (404 / invalid ID);
+ * pages whose lookup failed for another reason are left out of the map.
+ */
+export async function fetchPageParents(
+  config: AppConfig,
+  pageIds: string[]
+): Promise<Map<string, { databaseId: string | null; archived: boolean } | null>> {
+  const result = new Map<string, { databaseId: string | null; archived: boolean } | null>();
+  const unique = [...new Set(pageIds)];
+
+  await Promise.all(
+    unique.map(async (pageId) => {
+      try {
+        const res = await withRetry(
+          async () => {
+            const r = await fetch(`https://api.notion.com/v1/pages/${pageId}`, {
+              headers: {
+                Authorization: `Bearer ${config.notionToken}`,
+                "Notion-Version": NOTION_VERSION
+              }
+            });
+            if (!r.ok) throw new Error(`${r.status}`);
+            return r.json();
+          },
+          { label: `fetchPage ${pageId}` }
+        );
+        const page = res as { parent?: { type?: string; database_id?: string }; archived?: boolean; in_trash?: boolean };
+        result.set(pageId, {
+          databaseId: page.parent?.type === "database_id" ? page.parent.database_id ?? null : null,
+          archived: !!(page.archived || page.in_trash)
+        });
+      } catch (err) {
+        const message = (err as Error).message;
+        if (/\b(400|404)\b/.test(message)) result.set(pageId, null);
+        else console.warn(`Failed to fetch page ${pageId}: ${message}`);
+      }
+    })
+  );
+
+  return result;
+}
+
+/** Option names of a status / select property of a database (empty if the property is missing) */
+/** Options of a select / status property; with several names, the first one the database has */
+export async function fetchPropertyOptions(
+  config: AppConfig,
+  databaseId: string,
+  property: string | string[]
+): Promise<string[]> {
+  const data = await withRetry(
+    async () => {
+      const r = await fetch(`https://api.notion.com/v1/databases/${databaseId}`, {
+        headers: {
+          Authorization: `Bearer ${config.notionToken}`,
+          "Notion-Version": NOTION_VERSION
+        }
+      });
+      if (!r.ok) throw new Error(`Notion API error: ${r.status} ${await r.text()}`);
+      return r.json();
+    },
+    { label: `fetchDatabase ${databaseId}` }
+  );
+  const prop = getPropertyByName((data as any)?.properties ?? {}, Array.isArray(property) ? property : [property]);
+  const options = prop?.[prop?.type]?.options;
+  return Array.isArray(options) ? options.map((o: any) => String(o.name)) : [];
+}
+
 /** Generate abbreviated project name (e.g. "Mavericks" → "M", "LiftForce" → "LF") */
 function abbreviateProjectName(name: string): string {
   // If already short (<=3 chars), use as-is
@@ -433,12 +514,12 @@ function abbreviateProjectName(name: string): string {
   return name.slice(0, 1);
 }
 
-const extractTaskRow = (page: any): TaskRow | null => {
+const extractTaskRow = (page: any, includeCompleted = false): TaskRow | null => {
   const props = page?.properties ?? {};
   const name = getTitleFromProperties(props, ["名前", "Name"]);
   const url = typeof page?.url === "string" ? page.url : null;
   const statusProp =
-    getPropertyByName(props, ["ステータス", "Status", "状態"]) ||
+    getPropertyByName(props, STATUS_PROPERTY_NAMES) ||
     (findPropertiesByType(props, "status").length === 1
       ? findPropertiesByType(props, "status")[0].value
       : undefined);
@@ -454,7 +535,7 @@ const extractTaskRow = (page: any): TaskRow | null => {
       : undefined);
 
   const status = getStatusName(statusProp) ?? null;
-  if (isCompletedStatus(status)) return null;
+  if (!includeCompleted && isCompletedStatus(status)) return null;
 
   const priority = getStatusName(priorityProp) ?? null;
   const sp =
@@ -480,6 +561,12 @@ const extractTaskRow = (page: any): TaskRow | null => {
   const startDateValue = getDateValue(startDateProp);
   const startDate = normalizeDateString(startDateValue?.start) ?? null;
 
+  const githubPrProp = getPropertyByName(props, ["GitHub PR", "PR", "Pull Request"]);
+  const githubPrUrl =
+    githubPrProp?.type === "url" && typeof githubPrProp.url === "string"
+      ? githubPrProp.url
+      : null;
+
   // Extract per-task project relation IDs
   const projectProp = getPropertyByName(props, ["プロジェクト", "Project"]);
   const taskProjectIds: string[] = [];
@@ -501,6 +588,7 @@ const extractTaskRow = (page: any): TaskRow | null => {
     subItem,
     company,
     url,
+    githubPrUrl,
     assignees,
     projectIds: taskProjectIds
   };
@@ -556,6 +644,7 @@ const groupTasksByAssignee = (
         subItem: task.subItem ?? null,
         company: task.company ?? null,
         url: task.url ?? null,
+        githubPrUrl: task.githubPrUrl ?? null,
         projectName: null as string | null
       }))
     };
@@ -695,17 +784,117 @@ export async function fetchCurrentSprintTasksSummary(
   };
 }
 
+/** Every task in a sprint, completed ones included (for daily history snapshots) */
+export async function fetchSprintTaskStates(
+  config: AppConfig,
+  sprintId: string
+): Promise<
+  Array<{ id: string; name: string; status: string | null; sp: number | null; assignees: string[]; due: string | null }>
+> {
+  const taskDbId = await resolveDatabaseId(config, {
+    url: config.taskDbUrl,
+    name: config.taskDbName,
+    label: "TASK_DB"
+  });
+  const taskPages = await queryDatabase(
+    config,
+    taskDbId,
+    {
+      filter: {
+        property: config.taskSprintRelationProperty,
+        relation: { contains: sprintId }
+      }
+    },
+    10
+  );
+
+  return taskPages
+    .map((page) => extractTaskRow(page, true))
+    .filter((task): task is TaskRow => task != null)
+    .map((task) => ({
+      id: task.id,
+      name: task.name,
+      status: task.status ?? null,
+      sp: task.sp ?? null,
+      assignees: task.assignees,
+      due: task.due ?? null
+    }));
+}
+
+/** Open tasks not linked to any sprint (the backlog), for sprint planning */
+export async function fetchBacklogTasks(
+  config: AppConfig
+): Promise<
+  Array<{
+    id: string;
+    name: string;
+    status: string | null;
+    priority: string | null;
+    sp: number | null;
+    assignees: string[];
+    due: string | null;
+    category: string | null;
+    subItem: string | null;
+  }>
+> {
+  const taskDbId = await resolveDatabaseId(config, {
+    url: config.taskDbUrl,
+    name: config.taskDbName,
+    label: "TASK_DB"
+  });
+  const taskPages = await queryDatabase(
+    config,
+    taskDbId,
+    {
+      filter: {
+        property: config.taskSprintRelationProperty,
+        relation: { is_empty: true }
+      }
+    },
+    10
+  );
+
+  return taskPages
+    .map((page) => extractTaskRow(page))
+    .filter((task): task is TaskRow => task != null)
+    .map((task) => ({
+      id: task.id,
+      name: task.name,
+      status: task.status ?? null,
+      priority: task.priority ?? null,
+      sp: task.sp ?? null,
+      assignees: task.assignees,
+      due: task.due ?? null,
+      category: task.category ?? null,
+      subItem: task.subItem ?? null
+    }));
+}
+
 interface MemberCapacity {
   name: string;
   totalHours: number;
   remainingHours: number;
   dailyHours: Record<string, number>;
+  /** 休暇日（YYYY-MM-DD） */
+  daysOff: string[];
 }
 
 // 曜日カラム名 → JS Date.getDay() の値
-const DAY_COLUMN_MAP: Record<string, number> = {
-  "日曜日": 0, "月曜日": 1, "火曜日": 2, "水曜日": 3,
-  "木曜日": 4, "金曜日": 5, "土曜日": 6
+const DAY_COLUMN_MAP: Record<string, number> = Object.fromEntries(
+  WEEKDAY_LABELS.map((label, dow) => [label, dow])
+);
+
+// 休暇: 日付プロパティ（期間可）、またはテキスト / マルチセレクトで "YYYY-MM-DD" / "YYYY-MM-DD..YYYY-MM-DD" を列挙
+const getDaysOff = (prop: any): string[] => {
+  const date = getDateValue(prop);
+  const entries = date?.start
+    ? [`${normalizeDateString(date.start)}..${normalizeDateString(date.end) ?? normalizeDateString(date.start)}`]
+    : prop?.type === "rich_text"
+    ? titleFromRichText(prop.rich_text).split(/[,、\s]+/)
+    : prop?.type === "multi_select" && Array.isArray(prop.multi_select)
+    ? prop.multi_select.map((o: any) => String(o?.name ?? ""))
+    : [];
+  return Object.keys(parseHolidayEntries(entries.filter((e: string) => e.length > 0))).sort();
 };
 
 // スプリントの曜日順（火曜始まり）
@@ -797,6 +986,9 @@ export async function fetchSprintCapacity(
   const remainingDays = todayIndex >= 0
     ? SPRINT_DAY_ORDER.slice(todayIndex)
     : SPRINT_DAY_ORDER; // 見つからなければ全日
+  // 曜日別の時間に土日の扱いは含まれるので、残り日のうち祝日・独自休業日・個人の休暇だけ除く
+  const calendar = businessCalendar(config);
+  const remainingDates = new Map(remainingDays.map((dow, i) => [dow, toJstDateString(new Date(), i)]));
 
   const capacities: MemberCapacity[] = [];
   for (const page of dbResults) {
@@ -808,6 +1000,7 @@ export async function fetchSprintCapacity(
 
     // 曜日別の稼働時間を取得
     const dailyHours: Record<string, number> = {};
+    const daysOff = getDaysOff(getPropertyByName(props, ["休暇", "休み", "不在", "Days Off", "Time Off"]));
     let totalHours = 0;
     let remainingHours = 0;
 
@@ -816,7 +1009,8 @@ export async function fetchSprintCapacity(
       if (val != null) {
         dailyHours[colName] = val;
         totalHours += val;
-        if (remainingDays.includes(dow)) {
+        const date = remainingDates.get(dow);
+        if (date && !holidayName(calendar, date) && !daysOff.includes(date)) {
           remainingHours += val;
         }
       }
@@ -831,7 +1025,7 @@ export async function fetchSprintCapacity(
 
     if (totalHours === 0 && remainingHours === 0) continue;
 
-    capacities.push({ name, totalHours, remainingHours, dailyHours });
+    capacities.push({ name, totalHours, remainingHours, dailyHours, daysOff });
   }
 
   console.log(`Capacity data: today=${Object.entries(DAY_COLUMN_MAP).find(([,v]) => v === todayDow)?.[0]}, remaining days=${remainingDays.length}`,
@@ -1,16 +1,6 @@
 import type { AppConfig } from "./config";
 import { openAiJsonSchema, sprintTasksJsonSchema } from "./schema";
-
-type ResponseContentPart = { type?: string; text?: string; json?: unknown };
-type ResponseOutputItem = {
-  type?: string; // e.g. "message"
-  role?: string; // e.g. "assistant"
-  content?: ResponseContentPart[];
-};
-interface OpenAIResponse {
-  output?: ResponseOutputItem[];
-  output_text?: string;
-}
+import { completeText, type LlmJsonSchema, type LlmMcpServer } from "./llmProvider";
 
 const SYSTEM_PROMPT = `
 You are a retrieval agent that reads a Notion Sprint DB via the Notion MCP hosted server.
@@ -35,26 +25,29 @@ Extract the requested properties; if a property is missing, return a sensible fa
 Output must strictly follow the provided JSON schema. Do not add extra fields.
 Minimize tool calls and stay within rate limits.`;
 
-function normalizeTextFormat(schemaLike: any) {
+function toLlmJsonSchema(schemaLike: any): LlmJsonSchema {
   const js = schemaLike?.json_schema ?? schemaLike;
-  const name = js?.name ?? "sprint_summary";
-  const schema = js?.schema ?? js;
-  const strict = js?.strict ?? true;
   const description = js?.description;
+  return {
+    name: js?.name ?? "sprint_summary",
+    strict: js?.strict ?? true,
+    schema: js?.schema ?? js,
+    ...(typeof description === "string" && description.length > 0 ? { description } : {})
+  };
+}
 
-  const format: Record<string, unknown> = {
-    type: "json_schema",
-    name,
-    strict,
-    schema
+/** Notion MCP server (search / fetch only) for the LLM provider */
+function notionMcpServer(config: AppConfig): LlmMcpServer {
+  const server: LlmMcpServer = {
+    url: config.mcpServerUrl,
+    label: "notion",
+    allowedTools: config.allowedTools
   };
-  if (typeof description === "string" && description.length > 0) {
-    format.description = description;
-  }
-  return format;
+  applyMcpAuth(server, config);
+  return server;
 }
 
-function applyMcpAuth(toolDef: Record<string, unknown>, config: AppConfig) {
+function applyMcpAuth(server: LlmMcpServer, config: AppConfig) {
   const raw =
     (config as any).mcpAuthorization ??
     (config as any).mcpHeaders ??
@@ -69,7 +62,7 @@ function applyMcpAuth(toolDef: Record<string, unknown>, config: AppConfig) {
     const s = raw.trim();
     if (!s) return;
     // Always send via Authorization header; add Bearer prefix if missing.
-    toolDef.headers = {
+    server.headers = {
       Authorization: /^Bearer\s+/i.test(s) ? s : `Bearer ${s}`
     };
     return;
@@ -77,7 +70,7 @@ function applyMcpAuth(toolDef: Record<string, unknown>, config: AppConfig) {
 
   if (typeof raw === "object" && raw !== null) {
     const headersObj = (raw as any).headers ?? raw;
-    toolDef.headers = normalizeHeaders(headersObj);
+    server.headers = normalizeHeaders(headersObj);
     return;
   }
 
@@ -108,15 +101,6 @@ export async function fetchFreeText(
   prompt: string,
   now: Date
 ): Promise<string> {
-  const toolDef: Record<string, unknown> = {
-    type: "mcp",
-    server_url: config.mcpServerUrl,
-    server_label: "notion",
-    require_approval: "never",
-    allowed_tools: config.allowedTools
-  };
-  applyMcpAuth(toolDef, config);
-
   const system = [
     "You are an information retriever using Notion MCP tools (search, fetch).",
     "Never use write/update tools.",
@@ -142,42 +126,21 @@ export async function fetchFreeText(
     today: now.toISOString().slice(0, 10)
   };
 
-  const body = {
-    model: config.openaiModel,
-    input: [
-      { role: "system", content: system },
-      {
-        role: "user",
-        content: `Use Notion MCP to answer:\n${prompt}\nContext: ${JSON.stringify(
-          userContent
-        )}`
-      }
-    ],
-    tools: [toolDef],
+  return completeText(config, {
+    system,
+    user: `Use Notion MCP to answer:\n${prompt}\nContext: ${JSON.stringify(
+      userContent
+    )}`,
+    mcpServer: notionMcpServer(config),
     temperature: 0.1,
-    max_output_tokens: 800
-  };
-
-  const res = await callOpenAi(config, body);
-  const parsed = (await res.json()) as OpenAIResponse;
-  return extractTextLoose(parsed);
+    maxTokens: 800
+  });
 }
 
 export async function fetchSprintSummary(
   config: AppConfig,
   now: Date
 ): Promise<unknown> {
-  const toolDef: Record<string, unknown> = {
-    type: "mcp",
-    server_url: config.mcpServerUrl,
-    server_label: "notion",
-    require_approval: "never",
-    allowed_tools: config.allowedTools
-  };
-
-  // If Notion MCP requires auth, apply it (authorization string or headers object).
-  applyMcpAuth(toolDef, config);
-
   const userContent = {
     sprintDbUrl: config.sprintDbUrl,
     sprintDbName: config.sprintDbName,
@@ -187,61 +150,30 @@ export async function fetchSprintSummary(
     today: now.toISOString().slice(0, 10)
   };
 
-  const body = {
-    model: config.openaiModel,
-    input: [
-      {
-        role: "system",
-        content: `${SYSTEM_PROMPT}\nAllowed tools: ${config.allowedTools.join(
-          ", "
-        )}.\nAllowed DB URLs (whitelist): ${
-          config.allowedDbUrls.length > 0
-            ? config.allowedDbUrls.join(", ")
-            : "none"
-        }.\nIf allowAllProperties is true, return all properties; otherwise, restrict to notifyProperties.`
-      },
-      {
-        role: "user",
-        content: `Fetch the current sprint from Notion and return only the requested properties. Input: ${JSON.stringify(
-          userContent
-        )}`
-      }
-    ],
-    tools: [toolDef],
-    // Structured outputs: text.format requires name + schema
-    text: {
-      format: normalizeTextFormat(openAiJsonSchema)
-    },
+  const text = await completeText(config, {
+    system: `${SYSTEM_PROMPT}\nAllowed tools: ${config.allowedTools.join(
+      ", "
+    )}.\nAllowed DB URLs (whitelist): ${
+      config.allowedDbUrls.length > 0
+        ? config.allowedDbUrls.join(", ")
+        : "none"
+    }.\nIf allowAllProperties is true, return all properties; otherwise, restrict to notifyProperties.`,
+    user: `Fetch the current sprint from Notion and return only the requested properties. Input: ${JSON.stringify(
+      userContent
+    )}`,
+    mcpServer: notionMcpServer(config),
+    jsonSchema: toLlmJsonSchema(openAiJsonSchema),
     temperature: 0.1,
-    max_output_tokens: 800
-  };
-
-  const res = await callOpenAi(config, body);
-  const parsed = (await res.json()) as OpenAIResponse;
+    maxTokens: 800
+  });
 
-  try {
-    const text = extractJsonText(parsed);
-    return JSON.parse(text);
-  } catch (err) {
-    console.error("LLM raw response (for debugging)", parsed);
-    throw new Error(`Failed to parse LLM JSON: ${(err as Error).message}`);
-  }
+  return parseLlmJson(text);
 }
 
 export async function fetchSprintTasks(
   config: AppConfig,
   now: Date
 ): Promise<unknown> {
-  const toolDef: Record<string, unknown> = {
-    type: "mcp",
-    server_url: config.mcpServerUrl,
-    server_label: "notion",
-    require_approval: "never",
-    allowed_tools: config.allowedTools
-  };
-
-  applyMcpAuth(toolDef, config);
-
   const userContent = {
     sprintDbUrl: config.sprintDbUrl,
     sprintDbName: config.sprintDbName,
@@ -253,136 +185,36 @@ export async function fetchSprintTasks(
     today: now.toISOString().slice(0, 10)
   };
 
-  const body = {
-    model: config.openaiModel,
-    input: [
-      {
-        role: "system",
-        content: `${TASKS_SYSTEM_PROMPT}\nAllowed tools: ${config.allowedTools.join(
-          ", "
-        )}.\nAllowed DB URLs (whitelist): ${
-          config.allowedDbUrls.length > 0
-            ? config.allowedDbUrls.join(", ")
-            : "none"
-        }.\nIf allowAllProperties is true, return all properties; otherwise, restrict to notifyProperties.`
-      },
-      {
-        role: "user",
-        content: `Find the current sprint and list tasks grouped by assignee for that sprint.
+  const text = await completeText(config, {
+    system: `${TASKS_SYSTEM_PROMPT}\nAllowed tools: ${config.allowedTools.join(
+      ", "
+    )}.\nAllowed DB URLs (whitelist): ${
+      config.allowedDbUrls.length > 0
+        ? config.allowedDbUrls.join(", ")
+        : "none"
+    }.\nIf allowAllProperties is true, return all properties; otherwise, restrict to notifyProperties.`,
+    user: `Find the current sprint and list tasks grouped by assignee for that sprint.
 Use the task properties: 名前, 担当者, ステータス, 優先度, SP, 期限.
 Output each task as { name, status, priority, sp, due }.
 Include each task id as { id } for change tracking.
 From the sprint DB, also return sprint_metrics using properties: 計画SP, 進捗SP, 必要SP/日 (fallbacks allowed).
 Input: ${JSON.stringify(
-          userContent
-        )}`
-      }
-    ],
-    tools: [toolDef],
-    text: {
-      format: normalizeTextFormat(sprintTasksJsonSchema)
-    },
+      userContent
+    )}`,
+    mcpServer: notionMcpServer(config),
+    jsonSchema: toLlmJsonSchema(sprintTasksJsonSchema),
     temperature: 0.1,
-    max_output_tokens: 1200
-  };
+    maxTokens: 1200
+  });
 
-  const res = await callOpenAi(config, body);
-  const parsed = (await res.json()) as OpenAIResponse;
+  return parseLlmJson(text);
+}
 
+function parseLlmJson(text: string): unknown {
   try {
-    const text = extractJsonText(parsed);
     return JSON.parse(text);
   } catch (err) {
-    console.error("LLM raw response (for debugging)", parsed);
+    console.error("LLM raw response (for debugging)", text);
     throw new Error(`Failed to parse LLM JSON: ${(err as Error).message}`);
   }
 }
-
-async function callOpenAi(
-  config: AppConfig,
-  body: Record<string, unknown>
-): Promise<Response> {
-  const init: RequestInit = {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${config.openaiApiKey}`,
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(body)
-  };
-
-  let attempt = 0;
-  let waitMs = 500;
-
-  while (true) {
-    attempt += 1;
-    const res = await fetch("https://api.openai.com/v1/responses", init);
-    if (res.ok) return res;
-    if (attempt >= config.maxRetries) {
-      const detail = await res.text();
-      throw new Error(
-        `OpenAI failed after ${attempt} attempts: ${res.status} ${detail}`
-      );
-    }
-    await new Promise((r) => setTimeout(r, waitMs));
-    waitMs *= 2;
-  }
-}
-
-function extractJsonText(payload: OpenAIResponse): string {
-  if (typeof payload.output_text === "string" && payload.output_text.trim()) {
-    return payload.output_text.trim();
-  }
-
-  const outputs = payload.output;
-  if (!Array.isArray(outputs) || outputs.length === 0) {
-    throw new Error("LLM response did not contain output items");
-  }
-
-  const chunks: string[] = [];
-
-  for (const item of outputs) {
-    const content = item.content;
-    if (!Array.isArray(content)) continue;
-    for (const part of content) {
-      if (typeof part?.text === "string" && part.text.trim()) {
-        chunks.push(part.text);
-      } else if (part?.json != null) {
-        chunks.push(JSON.stringify(part.json));
-      }
-    }
-  }
-
-  const text = chunks.join("").trim();
-  if (text) return text;
-
-  throw new Error(
-    "LLM response text is empty; no textual content returned from outputs"
-  );
-}
-
-function extractTextLoose(payload: OpenAIResponse): string {
-  if (typeof payload.output_text === "string" && payload.output_text.trim()) {
-    return payload.output_text.trim();
-  }
-  const outputs = payload.output;
-  if (Array.isArray(outputs)) {
-    const chunks: string[] = [];
-    for (const item of outputs) {
-      const content = item.content;
-      if (!Array.isArray(content)) continue;
-      for (const part of content) {
-        if (typeof part?.text === "string" && part.text.trim()) {
-          chunks.push(part.text);
-        } else if (part?.json != null) {
-          chunks.push(JSON.stringify(part.json));
-        }
-      }
-    }
-    const text = chunks.join("").trim();
-    if (text) return text;
-  }
-  throw new Error(
-    "LLM response text is empty; no textual content returned from outputs"
-  );
-}
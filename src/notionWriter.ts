@@ -247,6 +247,40 @@ export async function createTaskPage(
   );
 }
 
+/** Create a sub-page (title + body blocks) under an existing page, e.g. a sprint page */
+export async function createChildPage(
+  token: string,
+  parentPageId: string,
+  title: string,
+  children: unknown[]
+): Promise<{ id: string; url: string }> {
+  return await withRetry(
+    async () => {
+      const res = await fetch("https://api.notion.com/v1/pages", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Notion-Version": NOTION_VERSION,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          parent: { page_id: parentPageId },
+          properties: { title: { title: [{ type: "text", text: { content: title } }] } },
+          children
+        })
+      });
+      if (!res.ok) {
+        const detail = await res.text();
+        throw new Error(`Notion create error [${parentPageId}]: ${res.status} ${detail}`);
+      }
+      const data = (await res.json()) as { id?: string; url?: string };
+      console.log(`Notion child page created: id=${data.id}, url=${data.url}`);
+      return { id: data.id ?? "", url: data.url ?? "" };
+    },
+    { label: "Notion createChildPage" }
+  );
+}
+
 export async function appendPageContent(
   token: string,
   pageId: string,
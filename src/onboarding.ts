@@ -1,4 +1,5 @@
-import { extractNotionIdFromUrl, type Bindings } from "./config";
+import { extractNotionIdFromUrl, getConfig, type Bindings } from "./config";
+import { getStore } from "./storage";
 import {
   chatPostMessage,
   viewsOpen,
@@ -11,6 +12,16 @@ import {
   saveChannelConfig,
   type ChannelConfig,
 } from "./channelConfig";
+import { inspectScheduleSheet } from "./sheetsApi";
+import { formatSheetLayoutReport, type ScheduleSheetLayout } from "./sheetLayout";
+import {
+  DEFAULT_FLOW_SCHEDULE,
+  DISPATCH_INTERVAL_MINUTES,
+  formatFlowSchedule,
+  normalizeFlowSchedule,
+  parseClockTime,
+  type FlowSchedule,
+} from "./flowSchedule";
 
 const NOTION_VERSION = "2022-06-28";
 const PENDING_TTL = 3600; // 1 hour
@@ -38,9 +49,33 @@ interface PendingConfig {
   referenceDbUrl?: string;
   projectName?: string;
   googleSheetsId?: string;
+  googleSheetsLayout?: ScheduleSheetLayout;
+  flowSchedule?: FlowSchedule;
   registeredBy: string;
 }
 
+type ModalStateValues = Record<
+  string,
+  Record<
+    string,
+    {
+      value?: string | null;
+      selected_time?: string | null;
+      selected_options?: Array<{ value: string }> | null;
+    }
+  >
+>;
+
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: "月" },
+  { value: 2, label: "火" },
+  { value: 3, label: "水" },
+  { value: 4, label: "木" },
+  { value: 5, label: "金" },
+  { value: 6, label: "土" },
+  { value: 0, label: "日" },
+];
+
 // ---------------------------------------------------------------------------
 // 1. handleBotJoinedChannel
 // ---------------------------------------------------------------------------
@@ -56,12 +91,12 @@ export async function handleBotJoinedChannel(
   if (event.user !== botUserId) return;
 
   // Check if channel is already configured
-  const existing = await getChannelConfig(env.NOTIFY_CACHE, event.channel);
+  const existing = await getChannelConfig(getStore(env), event.channel);
   if (existing) {
     await chatPostMessage(
       token,
       event.channel,
-      "このチャンネルは既にセットアップ済みです。再設定したい場合は `/pmo-setup` を実行してください。"
+      "このチャンネルは既にセットアップ済みです。再設定したい場合は `/pmo settings` を実行してください。"
     );
     return;
   }
@@ -93,12 +128,38 @@ export async function handleBotJoinedChannel(
 // ---------------------------------------------------------------------------
 export function buildSetupModal(
   channelId: string,
-  existingConfig?: ChannelConfig
+  existingConfig?: ChannelConfig,
+  defaultSchedule: FlowSchedule = DEFAULT_FLOW_SCHEDULE
 ): Record<string, unknown> {
   const prefill = (url?: string) =>
     url ? { type: "plain_text", text: url } : undefined;
   const prefillPlain = (val?: string) =>
     val ? { type: "plain_text", text: val } : undefined;
+  const schedule = existingConfig?.flowSchedule ?? defaultSchedule;
+  const weekdayOption = (o: { value: number; label: string }) => ({
+    text: { type: "plain_text", text: o.label },
+    value: String(o.value),
+  });
+  const timeInput = (blockId: string, label: string, time: string, hint?: string) => ({
+    type: "input",
+    block_id: blockId,
+    label: { type: "plain_text", text: label },
+    ...(hint ? { hint: { type: "plain_text", text: hint } } : {}),
+    element: { type: "timepicker", action_id: "value", initial_time: time },
+  });
+  const numberInput = (blockId: string, label: string, value: number, min: number, max: number) => ({
+    type: "input",
+    block_id: blockId,
+    label: { type: "plain_text", text: label },
+    element: {
+      type: "number_input",
+      action_id: "value",
+      is_decimal_allowed: false,
+      initial_value: String(value),
+      min_value: String(min),
+      max_value: String(max),
+    },
+  });
 
   return {
     type: "modal",
@@ -192,10 +253,83 @@ export function buildSetupModal(
             : {}),
         },
       },
+      { type: "divider" },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: "*実行スケジュール（JST・5分単位）*" },
+      },
+      timeInput("morning_time", "朝の確認", schedule.morningTime, "振り返り・持ち越し・計画提案も同じ時刻に実行します"),
+      numberInput("reminder_interval", "リマインド間隔（分）", schedule.reminderIntervalMinutes, DISPATCH_INTERVAL_MINUTES, 240),
+      numberInput("reminder_count", "リマインド回数（0 = しない）", schedule.reminderCount, 0, 12),
+      timeInput("evening_time", "PMレポート", schedule.eveningTime),
+      timeInput("eod_time", "終業リマインド", schedule.eodTime),
+      {
+        type: "input",
+        block_id: "active_weekdays",
+        label: { type: "plain_text", text: "稼働曜日" },
+        hint: { type: "plain_text", text: "稼働曜日以外と祝日はフローを実行せず、営業日にも数えません" },
+        element: {
+          type: "checkboxes",
+          action_id: "value",
+          options: WEEKDAY_OPTIONS.map(weekdayOption),
+          ...(schedule.activeWeekdays.length > 0
+            ? {
+                initial_options: WEEKDAY_OPTIONS.filter((o) =>
+                  schedule.activeWeekdays.includes(o.value)
+                ).map(weekdayOption),
+              }
+            : {}),
+        },
+      },
     ],
   };
 }
 
+/** Read the schedule inputs of the setup modal; validation errors go into `errors` by block_id */
+function parseScheduleInput(
+  vals: ModalStateValues,
+  errors: Record<string, string>
+): FlowSchedule | null {
+  const time = (blockId: string) => {
+    const value = vals[blockId]?.value?.selected_time ?? "";
+    const minutes = parseClockTime(value);
+    if (minutes == null || minutes % DISPATCH_INTERVAL_MINUTES !== 0) {
+      errors[blockId] = `${DISPATCH_INTERVAL_MINUTES}分単位の時刻を指定してください`;
+    }
+    return minutes;
+  };
+  const morning = time("morning_time");
+  const evening = time("evening_time");
+  time("eod_time");
+  if (morning != null && evening != null && evening <= morning && !errors.evening_time) {
+    errors.evening_time = "PMレポートは朝の確認より後の時刻にしてください";
+  }
+  const interval = Number(vals.reminder_interval?.value?.value);
+  if (!Number.isInteger(interval) || interval % DISPATCH_INTERVAL_MINUTES !== 0) {
+    errors.reminder_interval = `${DISPATCH_INTERVAL_MINUTES}分単位で指定してください`;
+  }
+  const activeWeekdays = (vals.active_weekdays?.value?.selected_options ?? []).map((o) => Number(o.value));
+  if (activeWeekdays.length === 0) {
+    errors.active_weekdays = "稼働曜日を 1 つ以上選択してください";
+  }
+
+  const schedule = normalizeFlowSchedule({
+    morningTime: vals.morning_time?.value?.selected_time,
+    reminderIntervalMinutes: interval,
+    reminderCount: Number(vals.reminder_count?.value?.value),
+    eveningTime: vals.evening_time?.value?.selected_time,
+    eodTime: vals.eod_time?.value?.selected_time,
+    activeWeekdays,
+  });
+  if (!schedule && !errors.reminder_interval) {
+    errors.reminder_count = "0〜12 の整数を指定してください";
+  }
+  return schedule;
+}
+
+const sameSchedule = (a: FlowSchedule, b: FlowSchedule) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
 // ---------------------------------------------------------------------------
 // 3. openSetupModal
 // ---------------------------------------------------------------------------
@@ -205,8 +339,8 @@ export async function openSetupModal(
   channelId: string
 ): Promise<void> {
   const token = env.SLACK_BOT_TOKEN!;
-  const existing = await getChannelConfig(env.NOTIFY_CACHE, channelId);
-  const view = buildSetupModal(channelId, existing ?? undefined);
+  const existing = await getChannelConfig(getStore(env), channelId);
+  const view = buildSetupModal(channelId, existing ?? undefined, getConfig(env).flowSchedule);
   await viewsOpen(token, triggerId, view);
 }
 
@@ -308,7 +442,7 @@ export async function handleSetupModalSubmit(
   payload: {
     view: {
       state: {
-        values: Record<string, Record<string, { value?: string | null }>>;
+        values: ModalStateValues;
       };
       private_metadata: string;
     };
@@ -331,6 +465,7 @@ export async function handleSetupModalSubmit(
 
   // Validate required DBs
   const errors: Record<string, string> = {};
+  const flowSchedule = parseScheduleInput(vals, errors);
 
   const [taskResult, sprintResult, memberResult] = await Promise.all([
     validateNotionDb(notionToken, taskDbUrl),
@@ -353,6 +488,8 @@ export async function handleSetupModalSubmit(
   }
 
   // Save pending config to KV
+  // Keep following FLOW_SCHEDULE unless the channel picked its own times
+  const defaultSchedule = getConfig(env).flowSchedule;
   const pending: PendingConfig = {
     taskDbUrl,
     sprintDbUrl,
@@ -360,19 +497,68 @@ export async function handleSetupModalSubmit(
     referenceDbUrl: referenceDbUrl || undefined,
     projectName: projectName || undefined,
     googleSheetsId: googleSheetsId || undefined,
+    flowSchedule: flowSchedule && !sameSchedule(flowSchedule, defaultSchedule) ? flowSchedule : undefined,
     registeredBy: payload.user.id,
   };
-  await env.NOTIFY_CACHE.put(pendingKey(channelId), JSON.stringify(pending), {
+  await getStore(env).put(pendingKey(channelId), JSON.stringify(pending), {
     expirationTtl: PENDING_TTL,
   });
 
   // Member matching runs in background (don't block modal response)
   const memberDbId = memberResult.ok ? (memberResult as { ok: true; id: string }).id : "";
   runMemberMatchingInBackground(env, token, notionToken, channelId, memberDbId);
+  if (pending.googleSheetsId) {
+    runSheetInspectionInBackground(env, token, channelId, pending.googleSheetsId);
+  }
 
   return { ok: true };
 }
 
+// ---------------------------------------------------------------------------
+// 4c. Background schedule-sheet layout detection (non-blocking)
+// ---------------------------------------------------------------------------
+function runSheetInspectionInBackground(
+  env: Bindings,
+  token: string,
+  channelId: string,
+  googleSheetsId: string
+): void {
+  (async () => {
+    try {
+      const report = await inspectScheduleSheet(
+        { ...getConfig(env), googleSheetsId, googleSheetsLayout: undefined },
+        { detect: true }
+      );
+      // Keep the detected layout with the pending config so it's saved on confirmation
+      if (report.ok && report.layout) {
+        const kv = getStore(env);
+        const raw = await kv.get(pendingKey(channelId));
+        if (raw) {
+          const pending = JSON.parse(raw) as PendingConfig;
+          await kv.put(
+            pendingKey(channelId),
+            JSON.stringify({ ...pending, googleSheetsLayout: report.layout }),
+            { expirationTtl: PENDING_TTL }
+          );
+        }
+      }
+      await chatPostMessage(
+        token,
+        channelId,
+        formatSheetLayoutReport(report) +
+          (report.ok ? "" : "\n\nシートを修正後、`/pmo sheet detect` で再検出できます。")
+      );
+    } catch (err) {
+      console.error(`Onboarding sheet inspection failed for ${channelId}:`, err);
+      await chatPostMessage(
+        token,
+        channelId,
+        `⚠️ マスタースケジュールを読み取れませんでした: ${(err as Error).message}`
+      ).catch(() => {});
+    }
+  })();
+}
+
 // ---------------------------------------------------------------------------
 // 4b. Background member matching (non-blocking)
 // ---------------------------------------------------------------------------
@@ -398,7 +584,7 @@ function runMemberMatchingInBackground(
         botUserId
       );
 
-      await env.NOTIFY_CACHE.put(matchKey(channelId), JSON.stringify(matchResult), {
+      await getStore(env).put(matchKey(channelId), JSON.stringify(matchResult), {
         expirationTtl: MATCH_TTL,
       });
 
@@ -615,7 +801,7 @@ export async function handleMemberConfirmation(
   pmUserId: string
 ): Promise<void> {
   const token = env.SLACK_BOT_TOKEN!;
-  const kv = env.NOTIFY_CACHE;
+  const kv = getStore(env);
 
   // Read pending config and match result
   const [pendingRaw, matchRaw] = await Promise.all([
@@ -641,7 +827,8 @@ export async function handleMemberConfirmation(
     memberMap[m.slackUserId] = m.notionName;
   }
 
-  // Build and save final ChannelConfig
+  // Build and save final ChannelConfig (settings edited outside the modal are kept)
+  const existing = await getChannelConfig(kv, channelId);
   const config: ChannelConfig = {
     taskDbUrl: pending.taskDbUrl,
     sprintDbUrl: pending.sprintDbUrl,
@@ -651,6 +838,10 @@ export async function handleMemberConfirmation(
     memberMap,
     projectName: pending.projectName,
     googleSheetsId: pending.googleSheetsId,
+    googleSheetsLayout: pending.googleSheetsLayout,
+    githubRepos: existing?.githubRepos,
+    holidays: existing?.holidays,
+    flowSchedule: pending.flowSchedule,
     registeredAt: new Date().toISOString(),
     registeredBy: pending.registeredBy,
   };
@@ -667,6 +858,6 @@ export async function handleMemberConfirmation(
   await chatPostMessage(
     token,
     channelId,
-    `セットアップが完了しました！\n• PM: <@${pmUserId}>\n• メンバーマッチ: ${matchResult.matched.length}名\n• プロジェクト: ${pending.projectName ?? "(未設定)"}\n\nこのチャンネルで PMO Bot をご利用いただけます。`
+    `セットアップが完了しました！\n• PM: <@${pmUserId}>\n• メンバーマッチ: ${matchResult.matched.length}名\n• プロジェクト: ${pending.projectName ?? "(未設定)"}\n• スケジュール: ${formatFlowSchedule(pending.flowSchedule ?? getConfig(env).flowSchedule)}\n\nこのチャンネルで PMO Bot をご利用いただけます。`
   );
 }
@@ -0,0 +1,269 @@
+import type { StateStore } from "./storage";
+import type { SprintTasksSummary } from "./schema";
+import { addDays, type ScheduleData, type ScheduleRow } from "./sheetsApi";
+import { daysBetween } from "./dates";
+import {
+  findSnapshotSprint,
+  listCompletedTasks,
+  earliestSnapshotDate,
+  type CompletedTaskEntry
+} from "./snapshotStore";
+import { getScheduleTaskLinks, type ScheduleTaskLink } from "./scheduleMapping";
+
+// ── Schedule deviation (plan vs actual) ─────────────────────────────────────
+// Planned weekly SP of each 小項目 vs the SP of its linked Notion tasks completed so far.
+// Slip is the "earned schedule" gap: how many days ago the plan expected the SP done today.
+
+export type DeviationStatus = "done" | "on_track" | "at_risk" | "delayed" | "not_started" | "unmapped";
+
+export interface DeviationEntry {
+  category: string;
+  /** null = 大項目 aggregate */
+  item: string | null;
+  plannedSp: number;
+  /** Planned SP due by today (current week pro-rated) */
+  plannedToDateSp: number;
+  /** Planned SP before the history window (assumed done as planned) + completed SP since */
+  actualToDateSp: number;
+  /** actual - planned (negative = behind) */
+  varianceSp: number;
+  /** Last day of the last planned week */
+  plannedEnd: string | null;
+  projectedEnd: string | null;
+  /** Days behind plan (0 = on or ahead of plan), null when not measurable */
+  slipDays: number | null;
+  status: DeviationStatus;
+  linkedTasks: number;
+}
+
+export interface CategoryDeviation extends DeviationEntry {
+  items: DeviationEntry[];
+}
+
+export interface ScheduleDeviationReport {
+  today: string;
+  /** First snapshot day: completions before it are unknown */
+  historySince: string;
+  categories: CategoryDeviation[];
+  totals: { plannedToDateSp: number; actualToDateSp: number; varianceSp: number; maxSlipDays: number };
+}
+
+/** Slip up to this many days is "at risk", beyond it "delayed" */
+const AT_RISK_SLIP_DAYS = 7;
+const EPS = 1e-6;
+
+const rowKey = (category: string, item: string) => `${category}\u0000${item}`;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const periodEnd = (a: ScheduleRow["allocations"][number]) => addDays(a.weekStart, (a.days ?? 7) - 1);
+
+/** Cumulative planned SP through `date` (inclusive); a period's SP accrues evenly over its days */
+function plannedThrough(allocations: ScheduleRow["allocations"], date: string): number {
+  let sp = 0;
+  for (const a of allocations) {
+    const days = daysBetween(a.weekStart, date) + 1;
+    if (days <= 0) continue;
+    sp += a.sp * Math.min(days / (a.days ?? 7), 1);
+  }
+  return sp;
+}
+
+/** First day the plan reaches `sp` (earned schedule), null if it never does */
+function plannedDateFor(allocations: ScheduleRow["allocations"], sp: number): string | null {
+  const sorted = [...allocations].filter((a) => a.sp > 0).sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+  if (sorted.length === 0) return null;
+  const last = sorted.map(periodEnd).sort().pop()!;
+  for (let d = addDays(sorted[0].weekStart, -1); d <= last; d = addDays(d, 1)) {
+    if (plannedThrough(sorted, d) >= sp - EPS) return d;
+  }
+  return null;
+}
+
+function statusForSlip(slipDays: number): DeviationStatus {
+  return slipDays === 0 ? "on_track" : slipDays <= AT_RISK_SLIP_DAYS ? "at_risk" : "delayed";
+}
+
+/** `actual` null = no linked tasks (not measurable) */
+function evaluate(
+  category: string,
+  item: string | null,
+  allocations: ScheduleRow["allocations"],
+  actual: number | null,
+  doneOn: string | null,
+  linkedTasks: number,
+  today: string
+): DeviationEntry {
+  const plannedSp = allocations.reduce((s, a) => s + a.sp, 0);
+  const plannedEnd = allocations.filter((a) => a.sp > 0).map(periodEnd).sort().pop() ?? null;
+  const plannedToDateSp = plannedThrough(allocations, today);
+  const base = { category, item, plannedSp: round1(plannedSp), plannedToDateSp: round1(plannedToDateSp), plannedEnd, linkedTasks };
+
+  if (actual == null) {
+    return { ...base, actualToDateSp: 0, varianceSp: 0, projectedEnd: null, slipDays: null, status: "unmapped" };
+  }
+  const entry = { ...base, actualToDateSp: round1(actual), varianceSp: round1(actual - plannedToDateSp) };
+
+  if (doneOn) {
+    const slipDays = plannedEnd ? Math.max(daysBetween(plannedEnd, doneOn), 0) : 0;
+    return { ...entry, projectedEnd: doneOn, slipDays, status: "done" };
+  }
+  if (plannedToDateSp < EPS && actual < EPS) {
+    return { ...entry, projectedEnd: plannedEnd, slipDays: 0, status: "not_started" };
+  }
+
+  // Behind: the plan reached today's actual SP on `earned`, the rest is assumed to follow the plan
+  const earned = actual >= plannedToDateSp - EPS ? today : plannedDateFor(allocations, actual) ?? today;
+  const slipDays = Math.max(daysBetween(earned, today), 0);
+  const shifted = plannedEnd ? addDays(plannedEnd, slipDays) : null;
+  const projectedEnd = shifted && shifted < today ? today : shifted;
+  return { ...entry, projectedEnd, slipDays, status: statusForSlip(slipDays) };
+}
+
+/**
+ * Plan-vs-actual per 大項目 / 小項目 (pure). Planned SP before `historySince` counts as
+ * done as planned. Rows without linked tasks are "unmapped" and left out of the
+ * category aggregates, since their progress can't be measured.
+ */
+export function computeScheduleDeviation(
+  data: ScheduleData,
+  links: Record<string, ScheduleTaskLink>,
+  completed: CompletedTaskEntry[],
+  openTaskIds: Set<string>,
+  today: string,
+  historySince: string
+): ScheduleDeviationReport {
+  const tasksByRow = new Map<string, string[]>();
+  for (const [taskId, link] of Object.entries(links)) {
+    if (link.category == null || !link.item) continue;
+    const key = rowKey(link.category, link.item);
+    tasksByRow.set(key, [...(tasksByRow.get(key) ?? []), taskId]);
+  }
+  const completedById = new Map(completed.map((c) => [c.taskId, c]));
+  const beforeHistory = addDays(historySince, -1);
+
+  // `measured` = allocations of rows with linked tasks (the aggregate curve)
+  const byCategory = new Map<string, {
+    items: DeviationEntry[];
+    all: ScheduleRow["allocations"];
+    measured: ScheduleRow["allocations"];
+  }>();
+  for (const row of data.rows) {
+    const category = row.category || "その他";
+    const taskIds = tasksByRow.get(rowKey(row.category, row.item)) ?? [];
+    const finished = taskIds.map((id) => completedById.get(id)).filter((c): c is CompletedTaskEntry => !!c);
+    const open = taskIds.some((id) => openTaskIds.has(id));
+    const doneOn = !open && finished.length > 0 ? finished.map((c) => c.completedOn).sort().pop()! : null;
+    const plannedSp = row.allocations.reduce((s, a) => s + a.sp, 0);
+    const actual = taskIds.length === 0
+      ? null
+      : doneOn
+        ? plannedSp
+        : Math.min(plannedThrough(row.allocations, beforeHistory) + finished.reduce((s, c) => s + (c.sp ?? 0), 0), plannedSp);
+
+    const group = byCategory.get(category) ?? { items: [], all: [], measured: [] };
+    group.items.push(evaluate(category, row.item, row.allocations, actual, doneOn, taskIds.length, today));
+    group.all.push(...row.allocations);
+    if (actual != null) group.measured.push(...row.allocations);
+    byCategory.set(category, group);
+  }
+
+  const categories: CategoryDeviation[] = [...byCategory.entries()].map(([category, g]) => {
+    const measured = g.items.filter((i) => i.status !== "unmapped");
+    const allDone = measured.length === g.items.length && measured.every((i) => i.status === "done");
+    const aggregate = evaluate(
+      category,
+      null,
+      measured.length > 0 ? g.measured : g.all,
+      measured.length > 0 ? measured.reduce((s, i) => s + i.actualToDateSp, 0) : null,
+      allDone ? measured.map((i) => i.projectedEnd!).sort().pop()! : null,
+      measured.reduce((s, i) => s + i.linkedTasks, 0),
+      today
+    );
+    const plannedEnds = g.items.map((i) => i.plannedEnd).filter((d): d is string => !!d).sort();
+    const entry = { ...aggregate, plannedEnd: plannedEnds.pop() ?? aggregate.plannedEnd, items: g.items };
+    if (aggregate.slipDays == null || aggregate.status === "done") return entry;
+
+    // A 大項目 is as late as its latest open 小項目, and ends with its last one
+    const slipDays = Math.max(aggregate.slipDays, ...measured.filter((i) => i.status !== "done").map((i) => i.slipDays ?? 0));
+    const projectedEnds = g.items.map((i) => i.projectedEnd ?? i.plannedEnd).filter((d): d is string => !!d);
+    return {
+      ...entry,
+      slipDays,
+      projectedEnd: projectedEnds.length > 0 ? projectedEnds.sort().pop()! : aggregate.projectedEnd,
+      status: aggregate.status === "not_started" && slipDays === 0 ? aggregate.status : statusForSlip(slipDays)
+    };
+  });
+
+  const measured = categories.filter((c) => c.status !== "unmapped");
+  const plannedToDateSp = round1(measured.reduce((s, c) => s + c.plannedToDateSp, 0));
+  const actualToDateSp = round1(measured.reduce((s, c) => s + c.actualToDateSp, 0));
+  return {
+    today,
+    historySince,
+    categories,
+    totals: {
+      plannedToDateSp,
+      actualToDateSp,
+      varianceSp: round1(actualToDateSp - plannedToDateSp),
+      maxSlipDays: Math.max(0, ...measured.map((c) => c.slipDays ?? 0))
+    }
+  };
+}
+
+/**
+ * Deviation report from the stored links and the snapshot history (null = no history
+ * or no links yet). Scope follows the current sprint's snapshots like the forecast.
+ */
+export async function analyzeScheduleProgress(
+  kv: StateStore,
+  scheduleData: ScheduleData,
+  summary: SprintTasksSummary,
+  today: string,
+  channelId?: string
+): Promise<ScheduleDeviationReport | null> {
+  if (scheduleData.rows.length === 0) return null;
+  const current = await findSnapshotSprint(kv, summary.sprint.id, channelId ?? null);
+  const scope = current ? current.scope : channelId ?? null;
+
+  const links = await getScheduleTaskLinks(kv, scope ?? undefined);
+  if (Object.keys(links).length === 0) return null;
+  const historySince = await earliestSnapshotDate(kv, scope);
+  if (!historySince) return null;
+
+  const completed = await listCompletedTasks(kv, historySince, today, scope);
+  const openTaskIds = new Set(summary.assignees.flatMap((a) => a.tasks.map((t) => t.id)));
+  return computeScheduleDeviation(scheduleData, links, completed, openTaskIds, today, historySince);
+}
+
+export const DEVIATION_STATUS_LABEL: Record<DeviationStatus, string> = {
+  done: "完了",
+  on_track: "順調",
+  at_risk: "リスク",
+  delayed: "遅延",
+  not_started: "未着手",
+  unmapped: "未紐付け"
+};
+
+/** Compact shape for LLM prompts / MentionContext (category rows + late 小項目 only) */
+export function deviationContextForLlm(
+  report: ScheduleDeviationReport | null | undefined
+): Array<Record<string, unknown>> | null {
+  if (!report) return null;
+  const shape = (e: DeviationEntry) => ({
+    planned_to_date_sp: e.plannedToDateSp,
+    actual_to_date_sp: e.actualToDateSp,
+    variance_sp: e.varianceSp,
+    planned_end: e.plannedEnd,
+    projected_end: e.projectedEnd,
+    slip_days: e.slipDays,
+    status: DEVIATION_STATUS_LABEL[e.status]
+  });
+  return report.categories.map((c) => ({
+    category: c.category,
+    ...shape(c),
+    late_items: c.items
+      .filter((i) => i.status === "at_risk" || i.status === "delayed")
+      .map((i) => ({ item: i.item, ...shape(i) }))
+  }));
+}
@@ -0,0 +1,306 @@
+import type { AppConfig } from "./config";
+import type { StateStore } from "./storage";
+import { withRetry } from "./retry";
+import { getChannelConfig } from "./channelConfig";
+import { detectSheetLayout, validateSheetLayout, type SheetLayoutReport } from "./sheetLayout";
+
+// ── Uploaded master schedule (CSV / Excel) ──────────────────────────────────
+// For projects that don't keep the schedule in Google Sheets: the file is parsed into the
+// same cell grid the Sheets API returns and stored per channel, so fetchScheduleData()
+// feeds it through the same layout detection / ScheduleRow parsing.
+
+export interface UploadedSchedule {
+  raw: string[][];
+  fileName: string;
+  /** "slack" = file shared in the channel, otherwise the URL it was fetched from */
+  source: string;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export type ScheduleFileKind = "csv" | "xlsx";
+
+const UPLOADED_SCHEDULE_KEY = (scope: string) => `schedule-upload:${scope}`;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// ── State ───────────────────────────────────────────────────────────────────
+
+/**
+ * Scope of a Slack channel: its own ID when it has a channel config, else the global
+ * config (same split as the flows, which run with channelId = undefined for global).
+ */
+export async function scheduleScopeForChannel(kv: StateStore, channelId: string): Promise<string | undefined> {
+  return (await getChannelConfig(kv, channelId)) ? channelId : undefined;
+}
+
+export async function getUploadedSchedule(kv: StateStore, channelId?: string): Promise<UploadedSchedule | null> {
+  return (await kv.get(UPLOADED_SCHEDULE_KEY(channelId ?? "global"), "json")) as UploadedSchedule | null;
+}
+
+async function saveUploadedSchedule(kv: StateStore, upload: UploadedSchedule, channelId?: string): Promise<void> {
+  await kv.put(UPLOADED_SCHEDULE_KEY(channelId ?? "global"), JSON.stringify(upload));
+}
+
+export async function deleteUploadedSchedule(kv: StateStore, channelId?: string): Promise<void> {
+  await kv.delete(UPLOADED_SCHEDULE_KEY(channelId ?? "global"));
+}
+
+// ── CSV ─────────────────────────────────────────────────────────────────────
+
+/** RFC 4180 (quoted fields, "" escapes, CRLF / LF); a leading BOM is dropped */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** UTF-8, falling back to Shift_JIS (CSV saved by Japanese Excel) */
+function decodeCsv(data: Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    try {
+      return new TextDecoder("shift_jis").decode(data);
+    } catch {
+      throw new Error("CSV の文字コードを判別できませんでした（UTF-8 で保存し直してください）");
+    }
+  }
+}
+
+// ── XLSX (zip of XML parts; first worksheet only) ───────────────────────────
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Entries of a zip archive by name (central directory; stored / deflate only) */
+async function unzip(data: Uint8Array, wanted: (name: string) => boolean): Promise<Map<string, string>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Excel ファイルを読み取れませんでした（zip 形式ではありません）");
+
+  const entries = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const files = new Map<string, string>();
+  const decoder = new TextDecoder();
+  for (let n = 0; n < entries; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLen = view.getUint16(offset + 28, true);
+    const extraLen = view.getUint16(offset + 30, true);
+    const commentLen = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLen));
+    offset += 46 + nameLen + extraLen + commentLen;
+    if (!wanted(name)) continue;
+
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const body = data.subarray(start, start + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`Excel ファイルの圧縮形式に対応していません (${method})`);
+    files.set(name, decoder.decode(method === 8 ? await inflateRaw(body) : body));
+  }
+  return files;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Text of an <si> / <is> element: all runs, without phonetic (furigana) runs */
+function richText(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "").matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+    .map((m) => decodeXml(m[1]))
+    .join("");
+}
+
+const attr = (tag: string, name: string): string | null =>
+  tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1] ?? null;
+
+// Built-in number formats that are dates (incl. the ja-JP ones)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 22, 27, 28, 29, 30, 31, 34, 35, 36, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+/** Style indexes (cellXfs) whose number format is a date */
+function dateStyles(stylesXml: string | undefined): Set<number> {
+  const result = new Set<number>();
+  if (!stylesXml) return result;
+  const customDate = new Set<number>();
+  for (const m of stylesXml.matchAll(/<numFmt\b[^>]*\/?>/g)) {
+    const id = parseInt(attr(m[0], "numFmtId") ?? "", 10);
+    // strip quoted literals / [colors] before looking for date tokens
+    const code = decodeXml(attr(m[0], "formatCode") ?? "").replace(/"[^"]*"|\[[^\]]*\]/g, "").toLowerCase();
+    if (/[yd]/.test(code)) customDate.add(id);
+  }
+  const xfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? "";
+  [...xfs.matchAll(/<xf\b[^>]*\/?>/g)].forEach((m, i) => {
+    const id = parseInt(attr(m[0], "numFmtId") ?? "0", 10);
+    if (BUILTIN_DATE_FORMATS.has(id) || customDate.has(id)) result.add(i);
+  });
+  return result;
+}
+
+/** Excel serial (1900 date system) → YYYY-MM-DD */
+function serialToDate(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86400000).toISOString().slice(0, 10);
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/)?.[0] ?? "A";
+  let idx = 0;
+  for (const ch of letters) idx = idx * 26 + (ch.charCodeAt(0) - 64);
+  return idx - 1;
+}
+
+export async function parseXlsx(data: Uint8Array): Promise<string[][]> {
+  const parts = await unzip(data, (name) =>
+    name === "xl/workbook.xml" || name === "xl/_rels/workbook.xml.rels" ||
+    name === "xl/sharedStrings.xml" || name === "xl/styles.xml" || name.startsWith("xl/worksheets/sheet")
+  );
+
+  // First sheet in workbook order → its part via the relationship
+  const firstSheet = (parts.get("xl/workbook.xml") ?? "").match(/<sheet\b[^>]*\/?>/)?.[0] ?? "";
+  const relId = attr(firstSheet, "r:id");
+  const rel = [...(parts.get("xl/_rels/workbook.xml.rels") ?? "").matchAll(/<Relationship\b[^>]*\/?>/g)]
+    .map((m) => m[0])
+    .find((r) => attr(r, "Id") === relId);
+  const target = rel ? attr(rel, "Target")!.replace(/^\/?(xl\/)?/, "xl/") : "xl/worksheets/sheet1.xml";
+  const sheetXml = parts.get(target);
+  if (!sheetXml) throw new Error("Excel ファイルにワークシートが見つかりません");
+
+  const shared = [...(parts.get("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => richText(m[1]));
+  const dates = dateStyles(parts.get("xl/styles.xml"));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowIdx = parseInt(attr(rowMatch[1], "r") ?? String(rows.length + 1), 10) - 1;
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const type = attr(attrs, "t");
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let text = "";
+      if (type === "s" && value != null) text = shared[parseInt(value, 10)] ?? "";
+      else if (type === "inlineStr") text = richText(body);
+      else if (type === "b") text = value === "1" ? "TRUE" : "FALSE";
+      else if (value != null) {
+        const num = Number(value);
+        text = type == null && dates.has(parseInt(attr(attrs, "s") ?? "-1", 10)) && !isNaN(num)
+          ? serialToDate(num)
+          : decodeXml(value);
+      }
+      const col = columnIndex(attr(attrs, "r") ?? "");
+      while (row.length < col) row.push("");
+      row[col] = text;
+    }
+    while (rows.length < rowIdx) rows.push([]);
+    rows[rowIdx] = row;
+  }
+  return rows;
+}
+
+// ── Import ──────────────────────────────────────────────────────────────────
+
+/** csv / xlsx from the file name, falling back to the zip signature */
+export function scheduleFileKind(fileName: string, data?: Uint8Array): ScheduleFileKind | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".csv")) return "csv";
+  if (lower.endsWith(".xlsx")) return "xlsx";
+  if (data && data[0] === 0x50 && data[1] === 0x4b) return "xlsx";
+  return null;
+}
+
+/** Download a schedule file from a URL (e.g. a Google Sheets CSV export or a file server) */
+export async function fetchScheduleFile(url: string): Promise<{ fileName: string; data: Uint8Array }> {
+  const data = await withRetry(
+    async () => {
+      const res = await fetch(url, { redirect: "follow" });
+      if (!res.ok) throw new Error(`Schedule file download error: ${res.status} ${url}`);
+      return new Uint8Array(await res.arrayBuffer());
+    },
+    { label: "Schedule file" }
+  );
+  const path = new URL(url).pathname;
+  const fileName = decodeURIComponent(path.split("/").pop() || "schedule");
+  // Google Sheets export URLs end in /export?format=csv
+  return { fileName: /format=csv/.test(url) && !fileName.endsWith(".csv") ? `${fileName}.csv` : fileName, data };
+}
+
+/**
+ * Parse an uploaded file, validate it with the configured (or detected) layout and store it
+ * for the channel scope when it can be read. The report is returned either way.
+ */
+export async function importScheduleFile(
+  kv: StateStore,
+  config: AppConfig,
+  params: { fileName: string; data: Uint8Array; source: string; uploadedBy: string; channelId?: string }
+): Promise<SheetLayoutReport> {
+  const { fileName, data, source, uploadedBy, channelId } = params;
+  if (data.byteLength > MAX_FILE_BYTES) {
+    throw new Error(`ファイルが大きすぎます（上限 ${MAX_FILE_BYTES / 1024 / 1024}MB）`);
+  }
+  const kind = scheduleFileKind(fileName, data);
+  if (!kind) throw new Error(`対応していない形式です: ${fileName}（.csv / .xlsx のみ）`);
+
+  const raw = kind === "csv" ? parseCsv(decodeCsv(data)) : await parseXlsx(data);
+  const layout = config.googleSheetsLayout ?? detectSheetLayout(raw);
+  const report = validateSheetLayout(raw, layout, !config.googleSheetsLayout);
+  if (report.ok) {
+    await saveUploadedSchedule(kv, {
+      raw,
+      fileName,
+      source,
+      uploadedBy,
+      uploadedAt: new Date().toISOString()
+    }, channelId);
+  }
+  return report;
+}
@@ -0,0 +1,383 @@
+import type { AppConfig } from "./config";
+import type { StateStore } from "./storage";
+import type { SprintTasksSummary, TaskScheduleMapping } from "./schema";
+import type { ScheduleData } from "./sheetsApi";
+import { matchTasksToSchedule } from "./llmAnalyzer";
+import { isLlmBudgetExceeded } from "./llmUsage";
+
+// ── Task → master schedule mapping ──────────────────────────────────────────
+// Stored per task and reused across runs; only new / renamed tasks (or links to rows
+// that left the sheet) go to the LLM. A human can override a link from Slack, and the
+// Notion 大項目 / 小項目 properties win over both when they name an existing row.
+
+export type ScheduleLinkSource = "llm" | "manual" | "notion";
+export type ScheduleLinkConfidence = "high" | "medium" | "low" | "none";
+
+export interface ScheduleTaskLink {
+  taskName: string;
+  /** null = no matching schedule item */
+  category: string | null;
+  item: string | null;
+  confidence: ScheduleLinkConfidence;
+  source: ScheduleLinkSource;
+  updatedAt: string;
+  confirmedBy?: string;
+  /** Low-confidence review already posted to Slack */
+  reviewPostedAt?: string;
+}
+
+export interface ScheduleMappingResult {
+  mapping: TaskScheduleMapping;
+  /** Tasks sent to the LLM this run (0 = no LLM call) */
+  rematched: number;
+  /** Unconfirmed low-confidence LLM links not yet posted for review */
+  needsReview: Array<{ taskId: string; link: ScheduleTaskLink }>;
+}
+
+export interface ScheduleItemOption {
+  key: string;
+  category: string;
+  item: string;
+}
+
+const SCHEDULE_TASK_LINKS_KEY = (scope: string) => `schedule-task-links:${scope}`;
+const SCHEDULE_ITEMS_KEY = (scope: string) => `schedule-items:${scope}`;
+const SCHEDULE_TASK_LINKS_TTL = 180 * 24 * 3600;
+const SCHEDULE_ITEMS_TTL = 14 * 24 * 3600;
+
+// ── State ───────────────────────────────────────────────────────────────────
+
+export async function getScheduleTaskLinks(
+  kv: StateStore,
+  channelId?: string
+): Promise<Record<string, ScheduleTaskLink>> {
+  return ((await kv.get(SCHEDULE_TASK_LINKS_KEY(channelId ?? "global"), "json")) ??
+    {}) as Record<string, ScheduleTaskLink>;
+}
+
+export async function saveScheduleTaskLinks(
+  kv: StateStore,
+  links: Record<string, ScheduleTaskLink>,
+  channelId?: string
+): Promise<void> {
+  await kv.put(SCHEDULE_TASK_LINKS_KEY(channelId ?? "global"), JSON.stringify(links), {
+    expirationTtl: SCHEDULE_TASK_LINKS_TTL
+  });
+}
+
+/** Human override from Slack (category / item null = "no matching item") */
+export async function setManualScheduleLink(
+  kv: StateStore,
+  taskId: string,
+  link: { taskName: string; category: string | null; item: string | null },
+  userId: string,
+  channelId?: string
+): Promise<ScheduleTaskLink> {
+  const links = await getScheduleTaskLinks(kv, channelId);
+  const saved: ScheduleTaskLink = {
+    ...link,
+    confidence: link.item ? "high" : "none",
+    source: "manual",
+    updatedAt: new Date().toISOString(),
+    confirmedBy: userId,
+    reviewPostedAt: links[taskId]?.reviewPostedAt
+  };
+  links[taskId] = saved;
+  await saveScheduleTaskLinks(kv, links, channelId);
+  return saved;
+}
+
+export async function markScheduleReviewPosted(
+  kv: StateStore,
+  taskIds: string[],
+  channelId?: string
+): Promise<void> {
+  if (taskIds.length === 0) return;
+  const links = await getScheduleTaskLinks(kv, channelId);
+  const now = new Date().toISOString();
+  for (const id of taskIds) {
+    if (links[id]) links[id].reviewPostedAt = now;
+  }
+  await saveScheduleTaskLinks(kv, links, channelId);
+}
+
+// Short stable key per row: option values in Slack are limited to 150 chars
+function itemKey(category: string, item: string): string {
+  let h = 2166136261;
+  const s = `${category}\u0000${item}`;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return (h >>> 0).toString(36);
+}
+
+/** Latest schedule rows, cached for the edit modal (opened within Slack's 3s trigger window) */
+export async function getScheduleItemOptions(kv: StateStore, channelId?: string): Promise<ScheduleItemOption[]> {
+  return ((await kv.get(SCHEDULE_ITEMS_KEY(channelId ?? "global"), "json")) ?? []) as ScheduleItemOption[];
+}
+
+async function saveScheduleItemOptions(
+  kv: StateStore,
+  scheduleData: ScheduleData,
+  channelId?: string
+): Promise<void> {
+  const seen = new Set<string>();
+  const options: ScheduleItemOption[] = [];
+  for (const row of scheduleData.rows) {
+    if (!row.item) continue;
+    const key = itemKey(row.category, row.item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    options.push({ key, category: row.category, item: row.item });
+  }
+  await kv.put(SCHEDULE_ITEMS_KEY(channelId ?? "global"), JSON.stringify(options), {
+    expirationTtl: SCHEDULE_ITEMS_TTL
+  });
+}
+
+// ── Resolve ─────────────────────────────────────────────────────────────────
+
+function toMapping(
+  summary: SprintTasksSummary,
+  links: Record<string, ScheduleTaskLink>
+): TaskScheduleMapping {
+  return {
+    mappings: summary.assignees.flatMap((a) => a.tasks).flatMap((t) => {
+      const link = links[t.id];
+      if (!link) return [];
+      return [{
+        task_id: t.id,
+        task_name: t.name,
+        schedule_category: link.category,
+        schedule_item: link.item,
+        confidence: link.confidence
+      }];
+    })
+  };
+}
+
+/**
+ * Mapping for the open tasks of the sprint: stored links are reused, Notion properties
+ * override, and only tasks without a usable link are matched by the LLM.
+ */
+export async function resolveTaskScheduleMapping(
+  kv: StateStore,
+  config: AppConfig,
+  summary: SprintTasksSummary,
+  scheduleData: ScheduleData,
+  channelId?: string
+): Promise<ScheduleMappingResult> {
+  const links = await getScheduleTaskLinks(kv, channelId);
+  const rows = new Set(scheduleData.rows.map((r) => itemKey(r.category, r.item)));
+  const rowByItem = new Map(scheduleData.rows.map((r) => [r.item, r]));
+  const now = new Date().toISOString();
+
+  const toMatch = new Set<string>();
+  for (const task of summary.assignees.flatMap((a) => a.tasks)) {
+    const link = links[task.id];
+
+    // Notion 大項目 / 小項目 naming an existing row
+    const notionRow = task.subItem ? rowByItem.get(task.subItem) : undefined;
+    if (notionRow && (!task.category || task.category === notionRow.category)) {
+      if (link?.source !== "notion" || link.item !== notionRow.item || link.category !== notionRow.category) {
+        links[task.id] = {
+          taskName: task.name,
+          category: notionRow.category,
+          item: notionRow.item,
+          confidence: "high",
+          source: "notion",
+          updatedAt: now
+        };
+      }
+      continue;
+    }
+
+    if (link?.source === "manual") continue;
+    const stale =
+      !link ||
+      link.source === "notion" ||                 // property was cleared
+      link.taskName !== task.name ||
+      (link.item != null && !rows.has(itemKey(link.category ?? "", link.item)));
+    if (stale) toMatch.add(task.id);
+  }
+
+  // Over the monthly LLM budget: keep the existing links until next month
+  if (toMatch.size > 0 && await isLlmBudgetExceeded(config)) toMatch.clear();
+
+  if (toMatch.size > 0) {
+    const subset: SprintTasksSummary = {
+      ...summary,
+      assignees: summary.assignees
+        .map((a) => ({ ...a, tasks: a.tasks.filter((t) => toMatch.has(t.id)) }))
+        .filter((a) => a.tasks.length > 0)
+    };
+    const matched = await matchTasksToSchedule(config, subset, scheduleData);
+    const names = new Map(subset.assignees.flatMap((a) => a.tasks).map((t) => [t.id, t.name]));
+    for (const m of matched.mappings) {
+      const taskName = names.get(m.task_id);
+      if (!taskName) continue;   // hallucinated ID
+      const hasItem = m.confidence !== "none" && !!m.schedule_item;
+      links[m.task_id] = {
+        taskName,
+        category: hasItem ? m.schedule_category : null,
+        item: hasItem ? m.schedule_item : null,
+        confidence: hasItem ? m.confidence : "none",
+        source: "llm",
+        updatedAt: now
+      };
+    }
+  }
+
+  await saveScheduleTaskLinks(kv, links, channelId);
+  await saveScheduleItemOptions(kv, scheduleData, channelId);
+
+  const openIds = new Set(summary.assignees.flatMap((a) => a.tasks.map((t) => t.id)));
+  const needsReview = Object.entries(links)
+    .filter(([id, l]) => openIds.has(id) && l.source === "llm" && l.confidence === "low" && !l.reviewPostedAt)
+    .map(([taskId, link]) => ({ taskId, link }));
+
+  return { mapping: toMapping(summary, links), rematched: toMatch.size, needsReview };
+}
+
+// ── Slack review ────────────────────────────────────────────────────────────
+
+const MAX_REVIEW_ITEMS = 20;
+// Slack select limits: 100 option groups × 100 options each
+const MAX_OPTION_GROUPS = 100;
+const MAX_GROUP_OPTIONS = 100;
+
+function linkLabel(link: ScheduleTaskLink): string {
+  return link.item ? `${link.category ?? "-"} / ${link.item}` : "該当なし";
+}
+
+// plain_text in select options is limited to 75 chars
+function truncate(text: string, max = 75): string {
+  return text.length > max ? text.slice(0, max - 1) + "…" : text;
+}
+
+export function buildScheduleReviewBlocks(
+  items: Array<{ taskId: string; link: ScheduleTaskLink }>,
+  channelId?: string
+): unknown[] {
+  const blocks: unknown[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `🔗 *スケジュール項目との紐付けの確認* (${items.length} 件)\n確信度の低い紐付けです。「このまま」で確定、「変更」で項目を選び直せます。`
+      }
+    }
+  ];
+  for (const { taskId, link } of items.slice(0, MAX_REVIEW_ITEMS)) {
+    const value = JSON.stringify({ taskId, scope: channelId ?? null });
+    blocks.push(
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*${link.taskName}*\n→ ${linkLabel(link)}（確信度: ${link.confidence}）` }
+      },
+      {
+        type: "actions",
+        block_id: `schedule_map_${taskId}`,
+        elements: [
+          { type: "button", text: { type: "plain_text", text: "✅ このまま", emoji: true }, action_id: "schedule_map_accept", value },
+          { type: "button", text: { type: "plain_text", text: "✏️ 変更", emoji: true }, action_id: "schedule_map_edit", value }
+        ]
+      }
+    );
+  }
+  if (items.length > MAX_REVIEW_ITEMS) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `ほか ${items.length - MAX_REVIEW_ITEMS} 件は \`/pmo mapping\` で確認できます` }]
+    });
+  }
+  return blocks;
+}
+
+type SelectOption = { text: { type: "plain_text"; text: string }; value: string };
+
+/** One option group per 大項目 (split every 100 小項目), "該当なし" first */
+function scheduleOptionGroups(options: ScheduleItemOption[]): Array<{ label: { type: "plain_text"; text: string }; options: SelectOption[] }> {
+  const byCategory = new Map<string, ScheduleItemOption[]>();
+  for (const o of options) byCategory.set(o.category, [...(byCategory.get(o.category) ?? []), o]);
+
+  const groups = [
+    {
+      label: { type: "plain_text" as const, text: "紐付けなし" },
+      options: [{ text: { type: "plain_text" as const, text: "該当なし（紐付けない）" }, value: "none" }]
+    }
+  ];
+  for (const [category, items] of byCategory) {
+    for (let i = 0; i < items.length; i += MAX_GROUP_OPTIONS) {
+      const part = i > 0 ? ` (${i / MAX_GROUP_OPTIONS + 1})` : "";
+      groups.push({
+        label: { type: "plain_text", text: truncate(`${category || "（大項目なし）"}${part}`) },
+        options: items.slice(i, i + MAX_GROUP_OPTIONS).map((o) => ({
+          text: { type: "plain_text", text: truncate(o.item) },
+          value: o.key
+        }))
+      });
+    }
+  }
+  if (groups.length > MAX_OPTION_GROUPS) {
+    console.warn(`Schedule mapping modal: ${groups.length} option groups, showing the first ${MAX_OPTION_GROUPS}`);
+  }
+  return groups.slice(0, MAX_OPTION_GROUPS);
+}
+
+export function buildScheduleMappingModal(
+  taskId: string,
+  link: ScheduleTaskLink,
+  options: ScheduleItemOption[],
+  metadata: { scope: string | null; channel: string; ts: string; threadTs: string }
+): unknown {
+  const groups = scheduleOptionGroups(options);
+  const currentKey = link.item && link.category != null ? itemKey(link.category, link.item) : undefined;
+  const current = currentKey
+    ? groups.flatMap((g) => g.options).find((o) => o.value === currentKey)
+    : undefined;
+
+  return {
+    type: "modal",
+    callback_id: "schedule_map_modal",
+    private_metadata: JSON.stringify({ taskId, ...metadata }),
+    title: { type: "plain_text", text: "スケジュール項目" },
+    submit: { type: "plain_text", text: "保存" },
+    close: { type: "plain_text", text: "キャンセル" },
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text: `*${link.taskName}*` } },
+      {
+        type: "input",
+        block_id: "schedule_item",
+        label: { type: "plain_text", text: "大項目 / 小項目" },
+        element: {
+          type: "static_select",
+          action_id: "value",
+          option_groups: groups,
+          ...(current ? { initial_option: current } : {})
+        }
+      }
+    ]
+  };
+}
+
+export function scheduleLinkConfirmedText(link: ScheduleTaskLink, userId: string): string {
+  return `✅ *${link.taskName}* → ${linkLabel(link)}（<@${userId}> が確定）`;
+}
+
+/** Plain-text list for `/pmo mapping` */
+export function formatScheduleLinks(
+  links: Record<string, ScheduleTaskLink>,
+  openTaskIds: Set<string>
+): string {
+  const entries = Object.entries(links)
+    .filter(([id]) => openTaskIds.has(id))
+    .map(([, link]) => link);
+  if (entries.length === 0) return "スケジュール項目との紐付けはまだありません。";
+  const count = (src: ScheduleLinkSource) => entries.filter((l) => l.source === src).length;
+  const low = entries.filter((l) => l.source === "llm" && (l.confidence === "low" || l.confidence === "none"));
+  return [
+    `🔗 スケジュール紐付け: ${entries.length} 件（LLM ${count("llm")} / 手動 ${count("manual")} / Notion ${count("notion")}）`,
+    ...(low.length > 0
+      ? ["", `*要確認 (${low.length} 件)*`, ...low.map((l) => `• ${l.taskName} → ${linkLabel(l)}（${l.confidence}）`)]
+      : [])
+  ].join("\n");
+}
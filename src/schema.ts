@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { SprintForecast } from "./forecast";
 
 const sprintSchema = z.object({
   id: z.string().min(1),
@@ -81,6 +82,7 @@ export const sprintTasksSchema = z.object({
           subItem: z.string().optional().nullable(),
           company: z.string().optional().nullable(),
           url: z.string().url().optional().nullable(),
+          githubPrUrl: z.string().optional().nullable(),
           projectName: z.string().optional().nullable()
         })
       )
@@ -133,6 +135,7 @@ export const sprintTasksJsonSchema = {
                   subItem: { type: ["string", "null"] },
                   company: { type: ["string", "null"] },
                   url: { type: ["string", "null"] },
+                  githubPrUrl: { type: ["string", "null"] },
                   projectName: { type: ["string", "null"] }
                 },
                 required: ["id", "name", "status", "priority", "sp", "due"]
@@ -165,6 +168,7 @@ export interface MentionContext {
     required_sp_per_day: number | null;
   };
   avgDailySp: number | null;
+  forecast: SprintForecast | null;
   members: Array<{
     name: string;
     remainingHours: number | null;
@@ -181,6 +185,8 @@ export interface MentionContext {
     atRisk: number;
     delayedItems: Array<{ category: string; item: string; plannedEnd: string }>;
     atRiskItems: Array<{ category: string; item: string; plannedEnd: string }>;
+    /** Plan-vs-actual per 大項目 with slip (null until links + snapshot history exist) */
+    progress: Array<Record<string, unknown>> | null;
   } | null;
   weeklyDiff: {
     periodStart: string;
@@ -548,3 +554,115 @@ export const replyEvaluationJsonSchema = {
     required: ["is_valid"]
   }
 };
+
+// ── Sprint retrospective schema ─────────────────────────────────────────
+
+export const sprintRetrospectiveSchema = z.object({
+  summary: z.string(),
+  keep: z.array(z.string()),
+  problem: z.array(z.string()),
+  try: z.array(z.string())
+});
+export type SprintRetrospective = z.infer<typeof sprintRetrospectiveSchema>;
+
+export const sprintRetrospectiveJsonSchema = {
+  name: "SprintRetrospective",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      summary: { type: "string" },
+      keep: { type: "array", items: { type: "string" } },
+      problem: { type: "array", items: { type: "string" } },
+      try: { type: "array", items: { type: "string" } }
+    },
+    required: ["summary", "keep", "problem", "try"]
+  }
+};
+
+// ── Carry-over proposal schema ──────────────────────────────────────────
+
+export const carryOverProposalSchema = z.object({
+  decisions: z.array(
+    z.object({
+      task_id: z.string(),
+      task_name: z.string(),
+      decision: z.enum(["next_sprint", "backlog"]),
+      reason: z.string()
+    })
+  ),
+  summary: z.string()
+});
+export type CarryOverProposal = z.infer<typeof carryOverProposalSchema>;
+
+export const carryOverProposalJsonSchema = {
+  name: "CarryOverProposal",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      decisions: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            task_id: { type: "string" },
+            task_name: { type: "string" },
+            decision: { type: "string", enum: ["next_sprint", "backlog"] },
+            reason: { type: "string" }
+          },
+          required: ["task_id", "task_name", "decision", "reason"]
+        }
+      },
+      summary: { type: "string" }
+    },
+    required: ["decisions", "summary"]
+  }
+};
+
+// ── Sprint planning proposal schema ─────────────────────────────────────
+
+export const sprintPlanProposalSchema = z.object({
+  items: z.array(
+    z.object({
+      task_id: z.string(),
+      task_name: z.string(),
+      assignee: z.string().nullable(),
+      sp: z.number().nullable(),
+      reason: z.string()
+    })
+  ),
+  summary: z.string()
+});
+export type SprintPlanProposal = z.infer<typeof sprintPlanProposalSchema>;
+
+export const sprintPlanProposalJsonSchema = {
+  name: "SprintPlanProposal",
+  strict: true,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            task_id: { type: "string" },
+            task_name: { type: "string" },
+            assignee: { type: ["string", "null"] },
+            sp: { type: ["number", "null"] },
+            reason: { type: "string" }
+          },
+          required: ["task_id", "task_name", "assignee", "sp", "reason"]
+        }
+      },
+      summary: { type: "string" }
+    },
+    required: ["items", "summary"]
+  }
+};
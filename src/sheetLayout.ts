@@ -0,0 +1,394 @@
+import type { ScheduleData, ScheduleRow } from "./sheetsApi";
+import { daysBetween } from "./dates";
+
+// ── Schedule sheet layout ───────────────────────────────────────────────────
+// Describes where the header, columns and date labels of a master-schedule sheet are.
+// Set per channel (or GOOGLE_SHEETS_LAYOUT), otherwise detected from the sheet itself.
+
+export type ScheduleColumn = "category" | "item" | "description" | "company" | "sp" | "status";
+/** "jp_month_day" = "1月" row + "7日" row, "iso" = 2026-03-02, "slash" = 3/2 or 2026/3/2 */
+export type ScheduleDateFormat = "jp_month_day" | "iso" | "slash";
+export type ScheduleGranularity = "week" | "day";
+
+export interface ScheduleSheetLayout {
+  /** Row with the column names and the date labels (0-based) */
+  headerRow: number;
+  /** jp_month_day only: row with the "1月" labels (default: headerRow - 1) */
+  monthRow?: number;
+  /** First data row (default: headerRow + 1) */
+  dataStartRow?: number;
+  /** Header text per column (case-insensitive exact match); unset columns are found by synonyms */
+  columns?: Partial<Record<ScheduleColumn, string>>;
+  dateFormat: ScheduleDateFormat;
+  granularity: ScheduleGranularity;
+  /** Year for labels without one ("7日", "3/2"); default: year in A1, else the current year */
+  year?: number;
+}
+
+export interface SheetLayoutReport {
+  ok: boolean;
+  /** true = layout was auto-detected (not configured) */
+  detected: boolean;
+  layout: ScheduleSheetLayout | null;
+  columns: Partial<Record<ScheduleColumn, string>>;
+  rowCount: number;
+  totalSp: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  dateColumns: number;
+  errors: string[];
+  warnings: string[];
+}
+
+const DATE_FORMATS: ScheduleDateFormat[] = ["jp_month_day", "iso", "slash"];
+const DETECT_SCAN_ROWS = 10;
+const MIN_DATE_COLUMNS = 2;
+
+const DATE_PATTERNS: Record<ScheduleDateFormat, RegExp> = {
+  jp_month_day: /^(\d{1,2})日$/,
+  iso: /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+  slash: /^(?:(\d{4})\/)?(\d{1,2})\/(\d{1,2})$/
+};
+
+// Exact names first, then partial matches (same order as the original 大項目/小項目 sheet)
+const COLUMN_SYNONYMS: Record<ScheduleColumn, { exact: string[]; partial: string[] }> = {
+  category: { exact: ["大項目", "カテゴリ", "category", "epic"], partial: ["大項目", "category"] },
+  item: { exact: ["小項目", "タスク", "item", "task"], partial: ["項目", "item", "task"] },
+  description: { exact: ["内容", "説明", "description"], partial: ["内容", "詳細", "description"] },
+  company: { exact: ["実施社", "担当", "owner", "assignee"], partial: ["実施社", "担当", "owner", "assignee"] },
+  sp: { exact: ["sp", "story points", "ポイント"], partial: ["sp", "story point", "ポイント"] },
+  status: { exact: ["ステータス", "status", "状態"], partial: ["ステータス", "status", "状態"] }
+};
+
+const COLUMN_LABELS: Record<ScheduleColumn, string> = {
+  category: "大項目",
+  item: "小項目",
+  description: "内容",
+  company: "実施社",
+  sp: "SP",
+  status: "ステータス"
+};
+
+const cell = (row: string[] | undefined, idx: number): string =>
+  idx >= 0 && row && idx < row.length ? (row[idx] ?? "").trim() : "";
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+/** Layout from JSON (env / channel config); null if it isn't a usable layout */
+export function normalizeSheetLayout(value: unknown): ScheduleSheetLayout | null {
+  if (!value || typeof value !== "object") return null;
+  const v = value as Record<string, unknown>;
+  const int = (x: unknown) => (typeof x === "number" && Number.isInteger(x) && x >= 0 ? x : undefined);
+  const headerRow = int(v.headerRow);
+  if (headerRow == null || !DATE_FORMATS.includes(v.dateFormat as ScheduleDateFormat)) return null;
+
+  const columns: Partial<Record<ScheduleColumn, string>> = {};
+  if (v.columns && typeof v.columns === "object") {
+    for (const key of Object.keys(COLUMN_SYNONYMS) as ScheduleColumn[]) {
+      const name = (v.columns as Record<string, unknown>)[key];
+      if (typeof name === "string" && name.trim()) columns[key] = name.trim();
+    }
+  }
+  return {
+    headerRow,
+    monthRow: int(v.monthRow),
+    dataStartRow: int(v.dataStartRow),
+    columns,
+    dateFormat: v.dateFormat as ScheduleDateFormat,
+    granularity: v.granularity === "day" ? "day" : "week",
+    year: int(v.year)
+  };
+}
+
+// ── Dates ───────────────────────────────────────────────────────────────────
+
+function baseYear(raw: string[][], layout: ScheduleSheetLayout): number {
+  if (layout.year) return layout.year;
+  const match = cell(raw[0], 0).match(/^(\d{4})/);
+  return match ? parseInt(match[1], 10) : new Date().getFullYear();
+}
+
+/**
+ * YYYY-MM-DD per column from `startIdx` ("" = not a date column). Labels without a year
+ * roll over to the next year whenever the month goes backwards (Dec → Jan).
+ */
+function columnDates(raw: string[][], layout: ScheduleSheetLayout, startIdx: number): string[] {
+  const header = raw[layout.headerRow] ?? [];
+  const monthRow = raw[layout.monthRow ?? layout.headerRow - 1] ?? [];
+  let year = baseYear(raw, layout);
+  let month = 0;
+  let prevMonth = 0;
+  const dates: string[] = [];
+
+  for (let i = startIdx; i < header.length; i++) {
+    const label = cell(header, i);
+    let y: number | null = null;
+    let m = 0;
+    let d = 0;
+
+    if (layout.dateFormat === "jp_month_day") {
+      const monthMatch = cell(monthRow, i).match(/^(\d{1,2})月$/);
+      if (monthMatch) month = parseInt(monthMatch[1], 10);
+      const dayMatch = label.match(DATE_PATTERNS.jp_month_day);
+      if (dayMatch && month > 0) {
+        m = month;
+        d = parseInt(dayMatch[1], 10);
+      }
+    } else if (layout.dateFormat === "iso") {
+      const match = label.match(DATE_PATTERNS.iso);
+      if (match) [y, m, d] = [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)];
+    } else {
+      const match = label.match(DATE_PATTERNS.slash);
+      if (match) {
+        y = match[1] ? parseInt(match[1], 10) : null;
+        [m, d] = [parseInt(match[2], 10), parseInt(match[3], 10)];
+      }
+    }
+
+    if (m < 1 || m > 12 || d < 1 || d > 31) {
+      dates.push("");
+      continue;
+    }
+    if (y == null) {
+      if (prevMonth > 0 && m < prevMonth) year++;
+      y = year;
+    } else {
+      year = y;
+    }
+    prevMonth = m;
+    dates.push(`${y}-${pad2(m)}-${pad2(d)}`);
+  }
+  return dates;
+}
+
+/** Index of the first date label in the header row, -1 if none */
+function firstDateIndex(header: string[], format: ScheduleDateFormat): number {
+  return header.findIndex((h) => DATE_PATTERNS[format].test((h ?? "").trim()));
+}
+
+// ── Detection ───────────────────────────────────────────────────────────────
+
+/**
+ * Header row = the row (within the first rows) with the most date labels of one format.
+ * Granularity comes from the median gap between consecutive date columns.
+ */
+export function detectSheetLayout(raw: string[][]): ScheduleSheetLayout | null {
+  let best: { headerRow: number; dateFormat: ScheduleDateFormat; count: number } | null = null;
+  for (let r = 0; r < Math.min(raw.length, DETECT_SCAN_ROWS); r++) {
+    for (const format of DATE_FORMATS) {
+      const count = (raw[r] ?? []).filter((h) => DATE_PATTERNS[format].test((h ?? "").trim())).length;
+      if (count >= MIN_DATE_COLUMNS && (!best || count > best.count)) {
+        best = { headerRow: r, dateFormat: format, count };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const layout: ScheduleSheetLayout = {
+    headerRow: best.headerRow,
+    dateFormat: best.dateFormat,
+    granularity: "week"
+  };
+  if (best.dateFormat === "jp_month_day") layout.monthRow = Math.max(best.headerRow - 1, 0);
+
+  const dates = columnDates(raw, layout, firstDateIndex(raw[best.headerRow], best.dateFormat)).filter(Boolean);
+  const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d)).filter((g) => g > 0).sort((a, b) => a - b);
+  if (gaps.length > 0 && gaps[Math.floor(gaps.length / 2)] <= 2) layout.granularity = "day";
+  return layout;
+}
+
+/** Column index per field (-1 = missing); date columns are never matched */
+function resolveColumns(
+  header: string[],
+  layout: ScheduleSheetLayout,
+  dataStartIdx: number,
+  weekDates: string[]
+): Record<ScheduleColumn, number> {
+  const lower = (s: string) => (s ?? "").toLowerCase().trim();
+  const taken = new Set(weekDates.flatMap((d, i) => (d ? [dataStartIdx + i] : [])));
+  const result = {} as Record<ScheduleColumn, number>;
+  // category first so that the partial "項目" of item can't grab the 大項目 column
+  for (const key of ["category", "item", "description", "company", "sp", "status"] as ScheduleColumn[]) {
+    const configured = layout.columns?.[key];
+    const find = (match: (h: string) => boolean) =>
+      header.findIndex((h, i) => !taken.has(i) && match(lower(h)));
+    let idx: number;
+    if (configured) {
+      idx = find((h) => h === lower(configured));
+    } else {
+      const { exact, partial } = COLUMN_SYNONYMS[key];
+      idx = find((h) => exact.includes(h));
+      if (idx < 0) idx = find((h) => partial.some((p) => h.includes(p)));
+    }
+    if (idx >= 0) taken.add(idx);
+    result[key] = idx;
+  }
+  return result;
+}
+
+// ── Parse ───────────────────────────────────────────────────────────────────
+
+/** Structured rows for a layout (rows without 大項目 inherit the one above) */
+export function parseScheduleSheet(raw: string[][], layout: ScheduleSheetLayout): ScheduleData {
+  const header = raw[layout.headerRow] ?? [];
+  const dataStartIdx = firstDateIndex(header, layout.dateFormat);
+  if (dataStartIdx < 0) {
+    console.warn("Google Sheets: no date columns found in header row");
+    return { rows: [], weekDates: [], raw };
+  }
+
+  const weekDates = columnDates(raw, layout, dataStartIdx);
+  const cols = resolveColumns(header, layout, dataStartIdx, weekDates);
+  const periodDays = layout.granularity === "day" ? 1 : 7;
+
+  const rows: ScheduleRow[] = [];
+  let lastCategory = "";
+  for (let r = layout.dataStartRow ?? layout.headerRow + 1; r < raw.length; r++) {
+    const row = raw[r];
+    const cat = cell(row, cols.category);
+    const item = cell(row, cols.item);
+    if (!cat && !item) continue; // skip empty / legend rows
+    if (cat) lastCategory = cat;
+
+    const spStr = cell(row, cols.sp);
+    const totalSp = spStr ? parseFloat(spStr) : null;
+
+    const allocations: ScheduleRow["allocations"] = [];
+    weekDates.forEach((date, c) => {
+      if (!date) return;
+      const val = cell(row, dataStartIdx + c);
+      const num = val ? parseFloat(val) : NaN;
+      if (!isNaN(num) && num > 0) allocations.push({ weekStart: date, sp: num, days: periodDays });
+    });
+
+    rows.push({
+      category: lastCategory,
+      item,
+      description: cell(row, cols.description),
+      company: cell(row, cols.company),
+      totalSp: totalSp != null && !isNaN(totalSp) ? totalSp : null,
+      allocations,
+      plannedStart: allocations.length > 0 ? allocations[0].weekStart : null,
+      plannedEnd: allocations.length > 0 ? allocations[allocations.length - 1].weekStart : null,
+      rowIndex: r
+    });
+  }
+
+  return {
+    rows,
+    weekDates,
+    raw,
+    layout: { dataStartIdx, statusIdx: cols.status, granularity: layout.granularity }
+  };
+}
+
+// ── Validation ──────────────────────────────────────────────────────────────
+
+/** Checks a parse result for the mistakes a wrong layout typically produces */
+export function validateSheetLayout(
+  raw: string[][],
+  layout: ScheduleSheetLayout | null,
+  detected: boolean
+): SheetLayoutReport {
+  const report: SheetLayoutReport = {
+    ok: false,
+    detected,
+    layout,
+    columns: {},
+    rowCount: 0,
+    totalSp: 0,
+    firstDate: null,
+    lastDate: null,
+    dateColumns: 0,
+    errors: [],
+    warnings: []
+  };
+  if (raw.length === 0) {
+    report.errors.push("シートが空か、読み取れませんでした（ID・範囲・共有設定を確認してください）");
+    return report;
+  }
+  if (!layout) {
+    report.errors.push(`先頭${DETECT_SCAN_ROWS}行に日付ヘッダー（「7日」「2026-03-02」「3/2」形式）が見つかりません`);
+    return report;
+  }
+
+  const header = raw[layout.headerRow] ?? [];
+  const data = parseScheduleSheet(raw, layout);
+  if (!data.layout) {
+    report.errors.push(`ヘッダー行（${layout.headerRow + 1}行目）に日付列がありません`);
+    return report;
+  }
+
+  const cols = resolveColumns(header, layout, data.layout.dataStartIdx, data.weekDates);
+  for (const key of Object.keys(cols) as ScheduleColumn[]) {
+    if (cols[key] >= 0) report.columns[key] = cell(header, cols[key]);
+  }
+  const dates = data.weekDates.filter(Boolean);
+  report.dateColumns = dates.length;
+  report.firstDate = dates[0] ?? null;
+  report.lastDate = dates[dates.length - 1] ?? null;
+  report.rowCount = data.rows.length;
+  report.totalSp = data.rows.reduce((s, r) => s + (r.totalSp ?? 0), 0);
+
+  if (cols.item < 0) report.errors.push("小項目の列が見つかりません（columns.item で列名を指定してください）");
+  if (report.rowCount === 0) report.errors.push("データ行がありません");
+  if (cols.category < 0) report.warnings.push("大項目の列がありません（全行を「その他」として扱います）");
+  if (cols.sp < 0) report.warnings.push("SP の列がありません（合計SPは週列の合計になりません）");
+  if (cols.status < 0) report.warnings.push("ステータス列がないため、書き戻し時のステータス更新は行いません");
+
+  const expectedGap = layout.granularity === "day" ? 1 : 7;
+  const irregular = dates.slice(1).filter((d, i) => daysBetween(dates[i], d) <= 0 ||
+    (layout.granularity === "week" && daysBetween(dates[i], d) !== expectedGap)).length;
+  if (irregular > 0) {
+    report.warnings.push(`日付列の間隔が${expectedGap}日でない箇所が ${irregular} か所あります（年・月の指定を確認してください）`);
+  }
+
+  const mismatched = data.rows.filter((r) => {
+    if (r.totalSp == null || r.allocations.length === 0) return false;
+    const allocated = r.allocations.reduce((s, a) => s + a.sp, 0);
+    return Math.abs(allocated - r.totalSp) > 0.01;
+  });
+  if (mismatched.length > 0) {
+    const examples = mismatched.slice(0, 3).map((r) => r.item || r.category).join("、");
+    report.warnings.push(`SP と週列の合計が一致しない行が ${mismatched.length} 件あります（例: ${examples}）`);
+  }
+  const unplanned = data.rows.filter((r) => r.allocations.length === 0).length;
+  if (unplanned > 0) report.warnings.push(`日付列に SP の入っていない行が ${unplanned} 件あります`);
+
+  report.ok = report.errors.length === 0;
+  return report;
+}
+
+const FORMAT_LABELS: Record<ScheduleDateFormat, string> = {
+  jp_month_day: "月行＋「7日」形式",
+  iso: "YYYY-MM-DD",
+  slash: "M/D"
+};
+
+/** Slack text for onboarding / `/pmo sheet` */
+export function formatSheetLayoutReport(report: SheetLayoutReport): string {
+  const lines = [
+    report.ok
+      ? "📋 *マスタースケジュールの読み取り結果* ✅"
+      : "📋 *マスタースケジュールの読み取り結果* ⚠️ 読み取れませんでした"
+  ];
+  if (report.layout) {
+    const { layout } = report;
+    lines.push(
+      `• レイアウト: ${report.detected ? "自動検出" : "設定値"} / ヘッダー ${layout.headerRow + 1}行目 / ` +
+        `日付 ${FORMAT_LABELS[layout.dateFormat]} / ${layout.granularity === "day" ? "日次" : "週次"}`
+    );
+  }
+  if (report.dateColumns > 0) {
+    lines.push(`• 期間: ${report.firstDate} 〜 ${report.lastDate}（${report.dateColumns} 列）`);
+  }
+  if (report.rowCount > 0) {
+    lines.push(`• 項目: ${report.rowCount} 行 / 合計 ${Math.round(report.totalSp * 10) / 10} SP`);
+  }
+  const columns = (Object.keys(COLUMN_LABELS) as ScheduleColumn[])
+    .map((key) => `${COLUMN_LABELS[key]}=${report.columns[key] ? `「${report.columns[key]}」` : "なし"}`);
+  if (report.layout) lines.push(`• 列: ${columns.join(" / ")}`);
+  for (const error of report.errors) lines.push(`❌ ${error}`);
+  for (const warning of report.warnings) lines.push(`⚠️ ${warning}`);
+  return lines.join("\n");
+}
@@ -1,13 +1,25 @@
 import type { AppConfig } from "./config";
+import type { StateStore } from "./storage";
 import { withRetry } from "./retry";
+import { getGoogleAccessToken, hasServiceAccount } from "./googleAuth";
+import {
+  detectSheetLayout,
+  parseScheduleSheet,
+  validateSheetLayout,
+  type ScheduleGranularity,
+  type SheetLayoutReport
+} from "./sheetLayout";
+import { getUploadedSchedule } from "./scheduleImport";
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
 interface WeekAllocation {
-  /** Week start date (YYYY-MM-DD) */
+  /** Start date of the column's period (YYYY-MM-DD; a week, or a day on daily sheets) */
   weekStart: string;
-  /** SP allocated to this week */
+  /** SP allocated to this period */
   sp: number;
+  /** Period length in days (7 = weekly column, 1 = daily column) */
+  days?: number;
 }
 
 export interface ScheduleRow {
@@ -21,12 +33,24 @@ export interface ScheduleRow {
   plannedStart: string | null;
   /** Last week with SP allocation (YYYY-MM-DD) */
   plannedEnd: string | null;
+  /** Row index in `raw` (write-back target) */
+  rowIndex?: number;
 }
 
 export interface ScheduleData {
   rows: ScheduleRow[];
   weekDates: string[];
   raw: string[][];
+  /** "upload" = CSV / Excel imported for the channel (read-only, no write-back) */
+  source?: "sheets" | "upload";
+  /** Column positions in `raw` (write-back target) */
+  layout?: {
+    /** First week column (weekDates[i] ↔ column dataStartIdx + i) */
+    dataStartIdx: number;
+    /** "ステータス" column, -1 if the sheet has none */
+    statusIdx: number;
+    granularity?: ScheduleGranularity;
+  };
 }
 
 // ── Fetch ───────────────────────────────────────────────────────────────────
@@ -35,17 +59,23 @@ async function fetchSheetValues(
   config: AppConfig,
   range?: string
 ): Promise<string[][]> {
-  if (!config.googleSheetsId || !config.googleSheetsApiKey) {
-    console.warn("Google Sheets not configured (GOOGLE_SHEETS_ID or GOOGLE_SHEETS_API_KEY missing)");
+  const useServiceAccount = hasServiceAccount(config);
+  if (!config.googleSheetsId || (!config.googleSheetsApiKey && !useServiceAccount)) {
+    console.warn("Google Sheets not configured (GOOGLE_SHEETS_ID or GOOGLE_SHEETS_API_KEY / service account missing)");
     return [];
   }
 
+  // Service account if configured (private sheets), API key otherwise
   const sheetRange = range || config.googleSheetsRange || "Sheet1";
-  const url = `https://sheets.googleapis.com/v4/spreadsheets/${config.googleSheetsId}/values/${encodeURIComponent(sheetRange)}?key=${config.googleSheetsApiKey}`;
+  const base = `https://sheets.googleapis.com/v4/spreadsheets/${config.googleSheetsId}/values/${encodeURIComponent(sheetRange)}`;
+  const url = useServiceAccount ? base : `${base}?key=${config.googleSheetsApiKey}`;
+  const headers: Record<string, string> = useServiceAccount
+    ? { Authorization: `Bearer ${await getGoogleAccessToken(config)}` }
+    : {};
 
   return withRetry(
     async () => {
-      const res = await fetch(url);
+      const res = await fetch(url, { headers });
       if (!res.ok) {
         const detail = await res.text();
         throw new Error(`Google Sheets API error: ${res.status} ${detail}`);
@@ -58,153 +88,43 @@ async function fetchSheetValues(
   );
 }
 
-// ── Date parsing helpers ────────────────────────────────────────────────────
-
-/**
- * Row 0 の月ヘッダー（"1月", "2月" ...）と Row 1 の日ヘッダー（"7日", "14日" ...）
- * を組み合わせて、データ列ごとの YYYY-MM-DD を算出する。
- *
- * Row 0 例: ['2026/02/19', '', '', '', '', '1月', '', '', '↓デプロイ', '2月', ...]
- * Row 1 例: ['大項目', '小項目', '内容', '実施社', 'SP', '7日', '14日', '21日', '28日', '4日', ...]
- */
-function parseWeekDates(
-  monthRow: string[],
-  dayRow: string[],
-  dataStartIdx: number
-): string[] {
-  // Extract year from first cell (e.g. "2026/02/19")
-  const yearMatch = (monthRow[0] ?? "").match(/^(\d{4})/);
-  const baseYear = yearMatch ? parseInt(yearMatch[1], 10) : new Date().getFullYear();
-
-  // Build month mapping: carry forward the last seen month
-  let currentMonth = 0;
-  let prevMonth = 0;
-  const dates: string[] = [];
-
-  for (let i = dataStartIdx; i < dayRow.length; i++) {
-    // Check if Row 0 has a month label at this index
-    const monthCell = (monthRow[i] ?? "").trim();
-    const monthMatch = monthCell.match(/^(\d{1,2})月$/);
-    if (monthMatch) {
-      currentMonth = parseInt(monthMatch[1], 10);
-    }
-
-    const dayCell = (dayRow[i] ?? "").trim();
-    const dayMatch = dayCell.match(/^(\d{1,2})日$/);
-    if (!dayMatch || currentMonth === 0) {
-      dates.push("");
-      continue;
-    }
-
-    const day = parseInt(dayMatch[1], 10);
-
-    // Handle year boundary (e.g. Dec → Jan)
-    let year = baseYear;
-    if (currentMonth < prevMonth) {
-      year = baseYear + 1;
-    }
-    prevMonth = currentMonth;
-
-    const mm = String(currentMonth).padStart(2, "0");
-    const dd = String(day).padStart(2, "0");
-    dates.push(`${year}-${mm}-${dd}`);
-  }
-
-  return dates;
-}
-
 // ── Main fetch & parse ──────────────────────────────────────────────────────
 
 /**
- * ガントチャート形式のスプレッドシートを取得・構造化して返す。
+ * マスタースケジュールを取得・構造化して返す。
+ * チャンネルに CSV / Excel が取り込まれていればそれを優先し（kv 指定時）、なければ Google Sheets。
+ * レイアウトは config.googleSheetsLayout（チャンネル設定 / GOOGLE_SHEETS_LAYOUT）、
+ * 未設定ならシート先頭行から自動検出する（sheetLayout.ts）。
  *
- * 想定構造:
+ * 従来の想定構造（自動検出で読める）:
  *   Row 0: [参照日, ..., "1月", ..., "2月", ...]   ← 月ヘッダー
  *   Row 1: ["大項目", "小項目", "内容", "実施社", "SP", "7日", "14日", ...] ← 列ヘッダー
  *   Row 2+: データ行（週列に SP 数値が入る）
  */
 export async function fetchScheduleData(
   config: AppConfig,
-  range?: string
+  kv?: StateStore,
+  channelId?: string
 ): Promise<ScheduleData> {
-  const raw = await fetchSheetValues(config, range);
-  if (raw.length < 3) {
-    return { rows: [], weekDates: [], raw };
-  }
-
-  const monthRow = raw[0];
-  const headerRow = raw[1];
-
-  // Find data column start (first "X日" column in Row 1)
-  const dataStartIdx = headerRow.findIndex((h) => /^\d{1,2}日$/.test(h.trim()));
-  if (dataStartIdx < 0) {
-    console.warn("Google Sheets: no date columns found in header row");
-    return { rows: [], weekDates: [], raw };
-  }
-
-  const weekDates = parseWeekDates(monthRow, headerRow, dataStartIdx);
-
-  // Map header columns
-  const lower = (s: string) => s.toLowerCase().trim();
-  const colIdx = (names: string[]): number =>
-    headerRow.findIndex((h) => names.some((n) => lower(h) === n));
-  const colIdxPartial = (names: string[]): number =>
-    headerRow.findIndex((h) => names.some((n) => lower(h).includes(n)));
-
-  const catIdx = colIdx(["大項目"]);
-  const itemIdx = colIdx(["小項目"]) >= 0 ? colIdx(["小項目"]) : colIdxPartial(["項目"]);
-  const descIdx = colIdxPartial(["内容"]);
-  const companyIdx = colIdxPartial(["実施社", "担当"]);
-  const spIdx = colIdx(["sp"]) >= 0 ? colIdx(["sp"]) : colIdxPartial(["sp"]);
-
-  const cellAt = (row: string[], idx: number): string =>
-    idx >= 0 && idx < row.length ? (row[idx] ?? "").trim() : "";
-
-  const rows: ScheduleRow[] = [];
-  let lastCategory = "";
-
-  for (let r = 2; r < raw.length; r++) {
-    const row = raw[r];
-    const cat = cellAt(row, catIdx);
-    const item = cellAt(row, itemIdx);
-    if (!cat && !item) continue; // skip empty / legend rows
-
-    if (cat) lastCategory = cat;
-
-    const spStr = cellAt(row, spIdx);
-    const totalSp = spStr ? parseFloat(spStr) : null;
-
-    // Parse weekly SP allocations
-    const allocations: WeekAllocation[] = [];
-    for (let c = 0; c < weekDates.length; c++) {
-      const date = weekDates[c];
-      if (!date) continue;
-      const val = cellAt(row, dataStartIdx + c);
-      const num = val ? parseFloat(val) : NaN;
-      if (!isNaN(num) && num > 0) {
-        allocations.push({ weekStart: date, sp: num });
-      }
-    }
-
-    const plannedStart = allocations.length > 0 ? allocations[0].weekStart : null;
-    const plannedEnd =
-      allocations.length > 0
-        ? allocations[allocations.length - 1].weekStart
-        : null;
-
-    rows.push({
-      category: lastCategory,
-      item,
-      description: cellAt(row, descIdx),
-      company: cellAt(row, companyIdx),
-      totalSp,
-      allocations,
-      plannedStart,
-      plannedEnd
-    });
+  const upload = kv ? await getUploadedSchedule(kv, channelId) : null;
+  const source = upload ? "upload" : "sheets";
+  const raw = upload ? upload.raw : await fetchSheetValues(config);
+  const layout = config.googleSheetsLayout ?? detectSheetLayout(raw);
+  if (!layout) {
+    if (raw.length > 0) console.warn(`Schedule (${source}): no date header found; layout could not be detected`);
+    return { rows: [], weekDates: [], raw, source };
   }
+  return { ...parseScheduleSheet(raw, layout), source };
+}
 
-  return { rows, weekDates, raw };
+/** Layout + validation report for onboarding / `/pmo sheet` (detect = ignore the configured layout) */
+export async function inspectScheduleSheet(
+  config: AppConfig,
+  options: { detect?: boolean; range?: string } = {}
+): Promise<SheetLayoutReport> {
+  const raw = await fetchSheetValues(config, options.range);
+  const configured = options.detect ? undefined : config.googleSheetsLayout;
+  return validateSheetLayout(raw, configured ?? detectSheetLayout(raw), !configured);
 }
 
 // ── Deviation analysis ──────────────────────────────────────────────────────
@@ -0,0 +1,432 @@
+import type { AppConfig } from "./config";
+import type { StateStore } from "./storage";
+import type { SprintTasksSummary } from "./schema";
+import { withRetry } from "./retry";
+import { getGoogleAccessToken } from "./googleAuth";
+import { addDays, analyzeScheduleDeviation, type ScheduleData, type ScheduleRow } from "./sheetsApi";
+import { listCompletedTasks, earliestSnapshotDate, type CompletedTaskEntry } from "./snapshotStore";
+import { getScheduleTaskLinks, type ScheduleTaskLink } from "./scheduleMapping";
+
+// ── Master schedule write-back ──────────────────────────────────────────────
+// Planned week cells are only recolored (green = weeks with actual SP, blue = remaining
+// plan) and never overwritten, so the plan keeps feeding the deviation analysis. Actual
+// SP per week goes to a separate sheet, the status per 小項目 into the status column.
+// Every value change is appended to a log sheet.
+
+export interface ScheduleCellWrite {
+  rowIndex: number;            // index in ScheduleData.raw
+  colIndex: number;
+  /** New cell value (status column only); undefined = keep the value and only recolor */
+  value?: string;
+  before: string;
+  color: "actual" | "forecast" | null;
+  field: "plan" | "status";
+  category: string;
+  item: string;
+  weekStart?: string;
+}
+
+/** Actual SP per week of one linked 小項目 (null = not covered by the snapshot history yet) */
+export interface ScheduleActualRow {
+  category: string;
+  item: string;
+  values: Array<number | null>;
+}
+
+export interface ScheduleWriteBackPlan {
+  /** Writes into the master schedule sheet */
+  writes: ScheduleCellWrite[];
+  /** Rows of the actuals sheet, columns = ScheduleData.weekDates */
+  actuals: ScheduleActualRow[];
+}
+
+export interface ScheduleSyncResult {
+  actualCells: number;
+  statusCells: number;
+  formattedCells: number;
+  logged: number;
+  dryRun: boolean;
+  skipped?: string;
+}
+
+const ACTUAL_COLOR = { red: 0.72, green: 0.88, blue: 0.74 };
+const FORECAST_COLOR = { red: 0.74, green: 0.84, blue: 0.97 };
+const LOG_HEADER = ["日時", "セル", "大項目", "小項目", "項目", "変更前", "変更後"];
+const ACTUAL_HEADER = ["大項目", "小項目"];
+
+// ── Planning (pure) ─────────────────────────────────────────────────────────
+
+const rowKey = (category: string, item: string) => `${category}\u0000${item}`;
+
+function cellText(data: ScheduleData, rowIndex: number, colIndex: number): string {
+  return (data.raw[rowIndex]?.[colIndex] ?? "").trim();
+}
+
+function rowStatus(
+  row: ScheduleRow,
+  taskIds: string[],
+  completedIds: Set<string>,
+  openStatuses: Map<string, string | null>,
+  delayed: Set<ScheduleRow>
+): string {
+  const open = taskIds.filter((id) => openStatuses.has(id));
+  const completed = taskIds.filter((id) => completedIds.has(id));
+  if (open.length === 0 && completed.length > 0) return "完了";
+  if (delayed.has(row)) return "遅延";
+  const started = completed.length > 0 ||
+    open.some((id) => /doing|進行中|in progress|review|レビュー/i.test(openStatuses.get(id) ?? ""));
+  return started ? "進行中" : "未着手";
+}
+
+/**
+ * Writes for rows with at least one linked task. Actuals are only filled in for weeks
+ * the snapshot history covers (`historySince`); earlier weeks stay null.
+ */
+export function planScheduleWriteBack(
+  data: ScheduleData,
+  links: Record<string, ScheduleTaskLink>,
+  completed: CompletedTaskEntry[],
+  openStatuses: Map<string, string | null>,
+  today: string,
+  historySince: string | null
+): ScheduleWriteBackPlan {
+  const plan: ScheduleWriteBackPlan = { writes: [], actuals: [] };
+  if (!data.layout) return plan;
+  const { dataStartIdx, statusIdx } = data.layout;
+  const periodDays = data.layout.granularity === "day" ? 1 : 7;
+
+  const tasksByRow = new Map<string, string[]>();
+  for (const [taskId, link] of Object.entries(links)) {
+    if (link.category == null || !link.item) continue;
+    const key = rowKey(link.category, link.item);
+    tasksByRow.set(key, [...(tasksByRow.get(key) ?? []), taskId]);
+  }
+  const completedById = new Map(completed.map((c) => [c.taskId, c]));
+  const delayed = new Set(analyzeScheduleDeviation(data, today).delayed);
+
+  for (const row of data.rows) {
+    const taskIds = tasksByRow.get(rowKey(row.category, row.item));
+    if (!taskIds || row.rowIndex == null) continue;
+    const rowIndex = row.rowIndex;
+    const base = { rowIndex, category: row.category, item: row.item };
+
+    const values = data.weekDates.map((weekStart, i): number | null => {
+      if (!weekStart) return null;
+      const colIndex = dataStartIdx + i;
+      const planned = cellText(data, rowIndex, colIndex);
+      const weekEnd = addDays(weekStart, periodDays - 1);
+      const recolor = (color: "actual" | "forecast") => {
+        if (planned) plan.writes.push({ ...base, colIndex, before: planned, color, field: "plan", weekStart });
+      };
+
+      if (weekStart > today) {
+        recolor("forecast");
+        return null;
+      }
+      if (!historySince || weekEnd < historySince) return null;
+
+      const actual = taskIds
+        .map((id) => completedById.get(id))
+        .filter((c): c is CompletedTaskEntry => !!c && c.completedOn >= weekStart && c.completedOn <= weekEnd)
+        .reduce((s, c) => s + (c.sp ?? 0), 0);
+      if (actual > 0) recolor("actual");
+      // Current week with nothing completed yet: still plan
+      else if (weekEnd >= today) recolor("forecast");
+      return actual > 0 || weekEnd < today ? actual : null;
+    });
+    plan.actuals.push({ category: row.category, item: row.item, values });
+
+    if (statusIdx >= 0) {
+      const status = rowStatus(row, taskIds, new Set(completedById.keys()), openStatuses, delayed);
+      const before = cellText(data, rowIndex, statusIdx);
+      if (before !== status) {
+        plan.writes.push({ ...base, colIndex: statusIdx, value: status, before, color: null, field: "status" });
+      }
+    }
+  }
+  return plan;
+}
+
+/** Rows of the actuals sheet, header included */
+export function actualSheetValues(data: ScheduleData, actuals: ScheduleActualRow[]): Array<Array<string | number>> {
+  return [
+    [...ACTUAL_HEADER, ...data.weekDates.map((d) => d ?? "")],
+    ...actuals.map((r) => [r.category, r.item, ...r.values.map((v) => v ?? "")])
+  ];
+}
+
+// ── Sheets API ──────────────────────────────────────────────────────────────
+
+/** "Sheet1!B3:Z" → sheet title + top-left offset of the values range */
+export function parseSheetRange(range: string): { title: string | null; rowOffset: number; colOffset: number } {
+  const bang = range.lastIndexOf("!");
+  const title = bang >= 0 ? range.slice(0, bang).replace(/^'(.*)'$/, "$1") : null;
+  const cells = bang >= 0 ? range.slice(bang + 1) : range;
+  const match = cells.match(/^([A-Za-z]{1,3})(\d+)?(:[A-Za-z]*\d*)?$/);
+  // Without "!", only "A1" / "A1:Z100" style ranges are cell references ("Sheet1" is a title)
+  if (!match || (bang < 0 && !match[2] && !match[3])) {
+    // The whole range is a sheet title
+    return { title: bang >= 0 ? title : range, rowOffset: 0, colOffset: 0 };
+  }
+  const colOffset = match[1].toUpperCase().split("").reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+  const rowOffset = match[2] ? parseInt(match[2], 10) - 1 : 0;
+  return { title, rowOffset, colOffset };
+}
+
+export function columnLetter(index: number): string {
+  let n = index + 1;
+  let s = "";
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    s = String.fromCharCode(65 + rem) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+}
+
+async function sheetsRequest<T>(
+  config: AppConfig,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const token = await getGoogleAccessToken(config);
+  const url = `https://sheets.googleapis.com/v4/spreadsheets/${config.googleSheetsId}${path}`;
+  return withRetry(
+    async () => {
+      const res = await fetch(url, {
+        method: init.method ?? "GET",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(init.body !== undefined ? { "Content-Type": "application/json" } : {})
+        },
+        ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {})
+      });
+      if (!res.ok) {
+        const detail = await res.text();
+        throw new Error(`Google Sheets API error: ${res.status} ${detail}`);
+      }
+      return (await res.json()) as T;
+    },
+    { label: "Google Sheets" }
+  );
+}
+
+async function listSheets(config: AppConfig): Promise<Array<{ sheetId: number; title: string }>> {
+  const data = await sheetsRequest<{ sheets?: Array<{ properties: { sheetId: number; title: string } }> }>(
+    config,
+    "?fields=sheets.properties(sheetId,title)"
+  );
+  return (data.sheets ?? []).map((s) => s.properties);
+}
+
+export async function batchUpdateSpreadsheet(config: AppConfig, requests: unknown[]): Promise<void> {
+  if (requests.length === 0) return;
+  await sheetsRequest(config, ":batchUpdate", { method: "POST", body: { requests } });
+}
+
+export async function appendSheetValues(
+  config: AppConfig,
+  range: string,
+  values: Array<Array<string | number>>
+): Promise<void> {
+  if (values.length === 0) return;
+  await sheetsRequest(
+    config,
+    `/values/${encodeURIComponent(range)}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`,
+    { method: "POST", body: { values } }
+  );
+}
+
+function toCellData(write: ScheduleCellWrite): { cell: Record<string, unknown>; fields: string } {
+  const cell: Record<string, unknown> = {};
+  const fields: string[] = [];
+  if (write.value !== undefined) {
+    fields.push("userEnteredValue");
+    cell.userEnteredValue = { stringValue: write.value };
+  }
+  if (write.field === "plan") {
+    fields.push("userEnteredFormat.backgroundColor");
+    if (write.color) {
+      cell.userEnteredFormat = { backgroundColor: write.color === "actual" ? ACTUAL_COLOR : FORECAST_COLOR };
+    }
+  }
+  return { cell, fields: fields.join(",") };
+}
+
+interface ScheduleLogEntry {
+  cell: string;
+  category: string;
+  item: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/** Replace the actuals sheet; returns the changed cells for the log */
+async function writeActualSheet(
+  config: AppConfig,
+  sheets: Array<{ title: string }>,
+  values: Array<Array<string | number>>
+): Promise<ScheduleLogEntry[]> {
+  const title = config.googleSheetsActualSheet;
+  const range = `'${title}'!A1:ZZZ`;
+  let previous: string[][] = [];
+  if (sheets.some((s) => s.title === title)) {
+    const data = await sheetsRequest<{ values?: string[][] }>(config, `/values/${encodeURIComponent(range)}`);
+    previous = data.values ?? [];
+  } else {
+    await batchUpdateSpreadsheet(config, [{ addSheet: { properties: { title } } }]);
+  }
+
+  const header = values[0];
+  const prevHeader = previous[0] ?? [];
+  const prevRows = new Map(previous.slice(1).map((r) => [rowKey(r[0] ?? "", r[1] ?? ""), r]));
+  const changes: ScheduleLogEntry[] = [];
+  values.slice(1).forEach((row, r) => {
+    const prevRow = prevRows.get(rowKey(String(row[0]), String(row[1])));
+    for (let c = ACTUAL_HEADER.length; c < row.length; c++) {
+      const week = String(header[c]);
+      const prevCol = prevHeader.indexOf(week);
+      const before = prevRow && prevCol >= 0 ? (prevRow[prevCol] ?? "").trim() : "";
+      const after = String(row[c]);
+      if (before === after || (before !== "" && after !== "" && Number(before) === Number(after))) continue;
+      changes.push({
+        cell: `${title}!${columnLetter(c)}${r + 2}`,
+        category: String(row[0]),
+        item: String(row[1]),
+        label: `実績SP (${week} 週)`,
+        before,
+        after
+      });
+    }
+  });
+
+  // The API drops trailing empty cells, so compare without them
+  const trimRow = (row: Array<string | number>) => {
+    const cells = row.map(String);
+    while (cells.length > 0 && cells[cells.length - 1] === "") cells.pop();
+    return cells;
+  };
+  if (JSON.stringify(values.map(trimRow)) !== JSON.stringify(previous.map(trimRow))) {
+    await sheetsRequest(config, `/values/${encodeURIComponent(range)}:clear`, { method: "POST", body: {} });
+    await sheetsRequest(
+      config,
+      `/values/${encodeURIComponent(`'${title}'!A1`)}?valueInputOption=RAW`,
+      { method: "PUT", body: { values } }
+    );
+  }
+  return changes;
+}
+
+async function writeScheduleCells(
+  config: AppConfig,
+  plan: ScheduleWriteBackPlan,
+  data: ScheduleData,
+  now: Date
+): Promise<number> {
+  const range = parseSheetRange(config.googleSheetsRange || "Sheet1");
+  const sheets = await listSheets(config);
+  const target = range.title ? sheets.find((s) => s.title === range.title) : sheets[0];
+  if (!target) throw new Error(`Google Sheets API error: sheet "${range.title}" not found`);
+
+  await batchUpdateSpreadsheet(
+    config,
+    plan.writes.map((w) => {
+      const { cell, fields } = toCellData(w);
+      return {
+        updateCells: {
+          start: {
+            sheetId: target.sheetId,
+            rowIndex: range.rowOffset + w.rowIndex,
+            columnIndex: range.colOffset + w.colIndex
+          },
+          rows: [{ values: [cell] }],
+          fields
+        }
+      };
+    })
+  );
+  const actualChanges = plan.actuals.length > 0
+    ? await writeActualSheet(config, sheets, actualSheetValues(data, plan.actuals))
+    : [];
+
+  // Change log (value changes only)
+  const changes: ScheduleLogEntry[] = [
+    ...plan.writes
+      .filter((w) => w.value !== undefined)
+      .map((w) => ({
+        cell: `${target.title}!${columnLetter(range.colOffset + w.colIndex)}${range.rowOffset + w.rowIndex + 1}`,
+        category: w.category,
+        item: w.item,
+        label: "ステータス",
+        before: w.before,
+        after: w.value ?? ""
+      })),
+    ...actualChanges
+  ];
+  if (changes.length === 0) return 0;
+  const logSheet = config.googleSheetsLogSheet;
+  if (!sheets.some((s) => s.title === logSheet)) {
+    await batchUpdateSpreadsheet(config, [{ addSheet: { properties: { title: logSheet } } }]);
+    await appendSheetValues(config, `'${logSheet}'!A1`, [LOG_HEADER]);
+  }
+  const timestamp = new Date(now.getTime() + 9 * 3600 * 1000).toISOString().slice(0, 16).replace("T", " ");
+  await appendSheetValues(
+    config,
+    `'${logSheet}'!A1`,
+    changes.map((c) => [timestamp, c.cell, c.category, c.item, c.label, c.before, c.after])
+  );
+  return changes.length;
+}
+
+// ── Sync ────────────────────────────────────────────────────────────────────
+
+/** Write Notion actuals next to the master schedule using the stored task links */
+export async function syncMasterSchedule(
+  kv: StateStore,
+  config: AppConfig,
+  params: {
+    scheduleData: ScheduleData;
+    summary: SprintTasksSummary;
+    today: string;
+    now: Date;
+    channelId?: string;
+  }
+): Promise<ScheduleSyncResult> {
+  const { scheduleData, summary, today, now, channelId } = params;
+  const empty = { actualCells: 0, statusCells: 0, formattedCells: 0, logged: 0, dryRun: config.dryRun };
+  if (!scheduleData.layout || scheduleData.rows.length === 0) {
+    return { ...empty, skipped: "schedule sheet has no rows" };
+  }
+  if (scheduleData.source === "upload") {
+    return { ...empty, skipped: "schedule is an uploaded file (no sheet to write to)" };
+  }
+
+  const links = await getScheduleTaskLinks(kv, channelId);
+  if (Object.keys(links).length === 0) {
+    return { ...empty, skipped: "no task ↔ schedule links yet" };
+  }
+
+  const scope = channelId ?? null;
+  const historySince = await earliestSnapshotDate(kv, scope);
+  const firstWeek = scheduleData.weekDates.find((d) => d) ?? today;
+  const completed = await listCompletedTasks(kv, historySince ?? firstWeek, today, scope);
+  const openStatuses = new Map(
+    summary.assignees.flatMap((a) => a.tasks.map((t) => [t.id, t.status ?? null] as [string, string | null]))
+  );
+
+  const plan = planScheduleWriteBack(scheduleData, links, completed, openStatuses, today, historySince);
+  const result = {
+    actualCells: plan.actuals.reduce((n, r) => n + r.values.filter((v) => v != null).length, 0),
+    statusCells: plan.writes.filter((w) => w.field === "status").length,
+    formattedCells: plan.writes.filter((w) => w.field === "plan").length,
+    logged: 0,
+    dryRun: config.dryRun
+  };
+  if (config.dryRun || (plan.writes.length === 0 && plan.actuals.length === 0)) {
+    console.log("Schedule write-back (not written):", result);
+    return result;
+  }
+  result.logged = await writeScheduleCells(config, plan, scheduleData, now);
+  return result;
+}
@@ -49,6 +49,7 @@ export interface SlackMessage {
   user: string;
   reply_count?: number;
   thread_ts?: string;
+  blocks?: unknown[];
 }
 
 export async function conversationsHistory(
@@ -111,6 +112,7 @@ export async function conversationsReplies(
           ts?: string;
           text?: string;
           user?: string;
+          blocks?: unknown[];
         }>;
       };
       if (!d.ok) {
@@ -126,7 +128,8 @@ export async function conversationsReplies(
     .map((m) => ({
       ts: m.ts ?? "",
       text: m.text ?? "",
-      user: m.user ?? ""
+      user: m.user ?? "",
+      ...(m.blocks ? { blocks: m.blocks } : {})
     }));
 }
 
@@ -233,3 +236,92 @@ export async function authTest(
   };
 }
 
+
+// files.getUploadURLExternal / completeUploadExternal only accept form-encoded params
+async function slackFormCall(
+  token: string,
+  method: string,
+  params: Record<string, string>
+): Promise<unknown> {
+  return withRetry(
+    async () => {
+      const res = await fetch(`https://slack.com/api/${method}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/x-www-form-urlencoded"
+        },
+        body: new URLSearchParams(params).toString()
+      });
+      if (!res.ok) {
+        throw new Error(`Slack API HTTP error: ${res.status} ${method}`);
+      }
+      const data = (await res.json()) as { ok: boolean; error?: string };
+      if (!data.ok) {
+        throw new Error(`Slack API error [${method}]: ${data.error ?? "unknown"}`);
+      }
+      return data;
+    },
+    { label: `Slack ${method}` }
+  );
+}
+
+/**
+ * Upload a file and share it in a channel/thread (files.upload v2 flow).
+ * Requires the files:write scope.
+ */
+export async function filesUploadExternal(
+  token: string,
+  channel: string,
+  file: { filename: string; content: Uint8Array<ArrayBuffer>; title?: string },
+  initialComment?: string,
+  threadTs?: string
+): Promise<string> {
+  const upload = (await slackFormCall(token, "files.getUploadURLExternal", {
+    filename: file.filename,
+    length: String(file.content.length)
+  })) as { upload_url: string; file_id: string };
+
+  await withRetry(
+    async () => {
+      const res = await fetch(upload.upload_url, {
+        method: "POST",
+        body: file.content
+      });
+      if (!res.ok) {
+        throw new Error(`Slack file upload HTTP error: ${res.status}`);
+      }
+    },
+    { label: "Slack file upload" }
+  );
+
+  const params: Record<string, string> = {
+    files: JSON.stringify([{ id: upload.file_id, title: file.title ?? file.filename }]),
+    channel_id: channel
+  };
+  if (initialComment) params.initial_comment = initialComment;
+  if (threadTs) params.thread_ts = threadTs;
+  await slackFormCall(token, "files.completeUploadExternal", params);
+  return upload.file_id;
+}
+
+/**
+ * Download a file shared in Slack (url_private / url_private_download).
+ * Requires the files:read scope.
+ */
+export async function downloadSlackFile(token: string, url: string): Promise<Uint8Array> {
+  return withRetry(
+    async () => {
+      const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+      if (!res.ok) {
+        throw new Error(`Slack file download HTTP error: ${res.status}`);
+      }
+      // Missing files:read makes Slack answer with its HTML login page instead of the file
+      if ((res.headers.get("Content-Type") ?? "").includes("text/html")) {
+        throw new Error("Slack file download returned HTML (files:read scope missing?)");
+      }
+      return new Uint8Array(await res.arrayBuffer());
+    },
+    { label: "Slack file download" }
+  );
+}
@@ -0,0 +1,669 @@
+import type { AppConfig, Bindings } from "./config";
+import { getConfig } from "./config";
+import { getChannelConfig, resolveConfig, saveChannelConfig } from "./channelConfig";
+import { getStore } from "./storage";
+import { fetchCurrentSprintTasksSummary } from "./notionApi";
+import { fetchMembers } from "./memberApi";
+import { openSetupModal } from "./onboarding";
+import { chatPostMessage } from "./slackBot";
+import {
+  buildScheduleReviewBlocks,
+  formatScheduleLinks,
+  getScheduleTaskLinks,
+  markScheduleReviewPosted
+} from "./scheduleMapping";
+import { addDays, inspectScheduleSheet } from "./sheetsApi";
+import {
+  deleteUploadedSchedule,
+  fetchScheduleFile,
+  getUploadedSchedule,
+  importScheduleFile,
+  scheduleScopeForChannel
+} from "./scheduleImport";
+import { formatSheetLayoutReport } from "./sheetLayout";
+import { formatFlowSchedule, formatWeekdays } from "./flowSchedule";
+import { getLlmProvider, parseLlmProvider } from "./llmProvider";
+import {
+  addLlmUsage,
+  formatUsd,
+  getDailyLlmUsage,
+  getMonthlyLlmUsage,
+  type LlmUsageTotals
+} from "./llmUsage";
+import {
+  businessCalendar,
+  countWorkingDays,
+  listHolidays,
+  nonWorkingReason,
+  parseHolidayEntries,
+  WEEKDAY_LABELS
+} from "./businessCalendar";
+import { listPhoneRemindersForUser, listRunRecords, toJstDateString } from "./workflow";
+import {
+  calculateAvgDailySpConsumption,
+  calcAvgDailySpFromSprint,
+  detectStagnantDoingTasks,
+  runMorningFlow,
+  runEveningFlow,
+  runSprintPlanningFlow
+} from "./index";
+import { verifySlackSignature } from "./adminAuth";
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+interface SlashCommandPayload {
+  command: string;
+  text: string;
+  userId: string;
+  channelId: string;
+  triggerId: string;
+  responseUrl: string;
+}
+
+// ── Response helpers ───────────────────────────────────────────────────────
+
+function ephemeral(text: string): Response {
+  return new Response(JSON.stringify({ response_type: "ephemeral", text }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+/** Deferred reply via response_url (valid for 30 minutes, up to 5 posts) */
+async function postToResponseUrl(responseUrl: string, text: string): Promise<void> {
+  const res = await fetch(responseUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ response_type: "ephemeral", replace_original: false, text })
+  });
+  if (!res.ok) {
+    console.error(`response_url post failed: ${res.status} ${await res.text()}`);
+  }
+}
+
+const HELP_TEXT = [
+  "*/pmo コマンド一覧*",
+  "• `/pmo status` — スプリントの進捗状況",
+  "• `/pmo tasks` — 自分の担当タスク",
+  "• `/pmo morning` — 自分宛ての朝の確認メッセージを再送",
+  "• `/pmo report` — PMレポートを今すぐ生成",
+  "• `/pmo plan` — 次スプリントの計画案（バックログ選定・担当割り当て）を作成",
+  "• `/pmo settings` — このチャンネルの設定画面（DB・PM・実行時刻）を開く",
+  "• `/pmo mapping [review]` — タスクとマスタースケジュール項目の紐付け（review: 要確認分を確認ボタン付きで投稿）",
+  "• `/pmo sheet [detect]` — マスタースケジュールの読み取り結果（detect: レイアウトを再検出して保存）",
+  "• `/pmo import <URL>|clear` — CSV / Excel のマスタースケジュールを取り込む（ファイルは @bot 付きで共有しても可）",
+  "• `/pmo holidays [add <日付|期間> [名前]|remove <日付>]` — 祝日・休業日の一覧 / このチャンネルの休業日の登録・削除",
+  "• `/pmo llm [openai|anthropic|azure-openai [モデル]|reset]` — このチャンネルで使う LLM の確認・切り替え",
+  "• `/pmo usage [YYYY-MM]` / `/pmo usage budget <USD>|off|reset` — LLM の使用量・推定コスト / 月間予算の設定",
+  "• `/pmo reminders` — このチャンネルでの自分の ☎️ リマインダー一覧（bot との DM では全チャンネル）",
+  "• `/pmo runs [today|yesterday|YYYY-MM-DD] [フロー名]` — このチャンネルのフロー実行履歴"
+].join("\n");
+
+// ── Subcommand handlers ────────────────────────────────────────────────────
+
+async function buildSheetText(
+  env: Bindings,
+  config: AppConfig,
+  channelId: string,
+  args: string[]
+): Promise<string> {
+  const upload = await getUploadedSchedule(getStore(env), await scheduleScopeForChannel(getStore(env), channelId));
+  const uploadNote = upload
+    ? `\n\n📎 取り込み済みファイル *${upload.fileName}*（${upload.uploadedAt.slice(0, 10)}）を優先して使用中です。`
+    : "";
+  if (!config.googleSheetsId) {
+    return "Google Sheets ID が設定されていません。`/pmo settings` から設定してください。" + uploadNote;
+  }
+  const detect = args[0] === "detect";
+  const report = await inspectScheduleSheet(config, { detect });
+  const text = formatSheetLayoutReport(report) + uploadNote;
+  if (!detect || !report.ok || !report.layout) return text;
+
+  // Only channels with their own config can store a layout; the global one comes from GOOGLE_SHEETS_LAYOUT
+  const kv = getStore(env);
+  const channelCfg = await getChannelConfig(kv, channelId);
+  if (!channelCfg) return `${text}\n\nこのチャンネルは未セットアップのため保存していません（GOOGLE_SHEETS_LAYOUT で指定できます）。`;
+  await saveChannelConfig(kv, channelId, { ...channelCfg, googleSheetsLayout: report.layout });
+  return `${text}\n\n✅ 検出したレイアウトをこのチャンネルに保存しました。`;
+}
+
+const HOLIDAY_LIST_DAYS = 60;
+
+async function buildHolidaysText(
+  env: Bindings,
+  config: AppConfig,
+  channelId: string,
+  args: string[]
+): Promise<string> {
+  const action = (args[0] ?? "").toLowerCase();
+  if (action === "add" || action === "remove") {
+    // Only channels with their own config can store holidays; the global ones come from BUSINESS_HOLIDAYS
+    const kv = getStore(env);
+    const channelCfg = await getChannelConfig(kv, channelId);
+    if (!channelCfg) return "このチャンネルは未セットアップのため登録できません（BUSINESS_HOLIDAYS で指定できます）。";
+    const holidays = channelCfg.holidays ?? [];
+
+    if (action === "add") {
+      const entry = args.slice(1).join(" ").trim();
+      const days = Object.keys(parseHolidayEntries([entry]));
+      if (days.length === 0) {
+        return "日付の形式が正しくありません。例: `/pmo holidays add 2026-08-13 夏季休業` / `/pmo holidays add 2026-12-29..2027-01-03 年末年始`";
+      }
+      await saveChannelConfig(kv, channelId, { ...channelCfg, holidays: [...holidays, entry] });
+      return `✅ 休業日を登録しました: ${entry}（${days.length}日）`;
+    }
+
+    const date = args[1] ?? "";
+    const kept = holidays.filter((h) => !(date in parseHolidayEntries([h])));
+    if (kept.length === holidays.length) return `${date || "(日付なし)"} を含む登録済みの休業日はありません。`;
+    await saveChannelConfig(kv, channelId, { ...channelCfg, holidays: kept });
+    return `🗑️ ${date} を含む休業日の登録を削除しました（${holidays.length - kept.length}件）。`;
+  }
+
+  const calendar = businessCalendar(config);
+  const today = toJstDateString();
+  const upcoming = listHolidays(calendar, today, addDays(today, HOLIDAY_LIST_DAYS));
+  const dayLabel = (date: string) =>
+    `${Number(date.slice(5, 7))}/${Number(date.slice(8, 10))}(${WEEKDAY_LABELS[new Date(`${date}T00:00:00Z`).getUTCDay()][0]})`;
+  const lines = [`*今後 ${HOLIDAY_LIST_DAYS} 日の祝日・休業日*（稼働曜日: ${formatWeekdays(config.flowSchedule.activeWeekdays)}）`];
+  lines.push(...(upcoming.length > 0 ? upcoming.map((d) => `• ${dayLabel(d.date)} ${d.name}`) : ["• なし"]));
+  if (config.businessHolidays.length > 0) {
+    lines.push("", "*登録済みの休業日*", ...config.businessHolidays.map((h) => `• ${h}`));
+  }
+  return lines.join("\n");
+}
+
+const CHANNEL_LLM_PROVIDERS = ["openai", "anthropic", "azure-openai"];
+
+async function buildLlmText(
+  env: Bindings,
+  config: AppConfig,
+  channelId: string,
+  args: string[]
+): Promise<string> {
+  const describe = (cfg: AppConfig) => {
+    try {
+      const provider = getLlmProvider(cfg);
+      return `\`${provider.name}\`（モデル: ${provider.model}）`;
+    } catch (err) {
+      return `\`${cfg.llmProvider}\` ⚠️ ${(err as Error).message}`;
+    }
+  };
+  const action = (args[0] ?? "").toLowerCase();
+  if (!action) {
+    return `このチャンネルの LLM: ${describe(config)}\n切り替え: \`/pmo llm <${CHANNEL_LLM_PROVIDERS.join("|")}> [モデル]\` / 既定に戻す: \`/pmo llm reset\``;
+  }
+
+  const kv = getStore(env);
+  const channelCfg = await getChannelConfig(kv, channelId);
+  if (!channelCfg) return "このチャンネルは未セットアップのため切り替えられません（LLM_PROVIDER で指定できます）。";
+
+  if (action === "reset") {
+    const { llmProvider: _provider, llmModel: _model, ...rest } = channelCfg;
+    await saveChannelConfig(kv, channelId, rest);
+    return `✅ LLM をワーカーの既定に戻しました: ${describe(getConfig(env))}`;
+  }
+
+  const llmProvider = parseLlmProvider(action);
+  if (!llmProvider || !CHANNEL_LLM_PROVIDERS.includes(llmProvider)) {
+    return `プロバイダは ${CHANNEL_LLM_PROVIDERS.map((p) => `\`${p}\``).join(" / ")} から指定してください。`;
+  }
+  const llmModel = args[1]?.trim() || undefined;
+  // Reject providers whose API key / endpoint isn't configured on the worker
+  try {
+    getLlmProvider({ ...config, llmProvider, llmModel });
+  } catch (err) {
+    return `⚠️ ${llmProvider} は使用できません: ${(err as Error).message}`;
+  }
+  await saveChannelConfig(kv, channelId, { ...channelCfg, llmProvider, llmModel });
+  return `✅ このチャンネルの LLM を切り替えました: ${describe({ ...config, llmProvider, llmModel })}`;
+}
+
+const formatTokens = (n: number) =>
+  n >= 1e6 ? `${(n / 1e6).toFixed(1)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}k` : String(n);
+
+const formatLlmUsage = (u: LlmUsageTotals) =>
+  `${u.calls}回 / 入力 ${formatTokens(u.inputTokens)}・出力 ${formatTokens(u.outputTokens)} トークン / ${formatUsd(u.costUsd)}`;
+
+async function buildUsageText(
+  env: Bindings,
+  config: AppConfig,
+  channelId: string,
+  args: string[]
+): Promise<string> {
+  const today = toJstDateString();
+  const month = args.find((a) => /^\d{4}-\d{2}$/.test(a)) ?? today.slice(0, 7);
+  // Global-config runs (scope=global) belong to SLACK_PMO_CHANNEL_ID
+  const scopes: Array<string | null> = config.slackPmoChannelId === channelId ? [channelId, null] : [channelId];
+
+  const kv = getStore(env);
+  const days: string[] = [];
+  for (let d = `${month}-01`; d.startsWith(month) && d <= today; d = addDays(d, 1)) days.push(d);
+  const [monthly, daily] = await Promise.all([
+    Promise.all(scopes.map((scope) => getMonthlyLlmUsage(kv, month, scope))),
+    Promise.all(days.flatMap((d) => scopes.map((scope) => getDailyLlmUsage(kv, d, scope))))
+  ]);
+
+  const total = monthly.reduce<LlmUsageTotals | undefined>((sum, u) => addLlmUsage(sum, u), undefined)!;
+  if (total.calls === 0) return `${month} の LLM 使用記録はありません。`;
+
+  const byFlow = new Map<string, LlmUsageTotals>();
+  for (const day of daily) {
+    for (const [flow, usage] of Object.entries(day)) byFlow.set(flow, addLlmUsage(byFlow.get(flow), usage));
+  }
+
+  const budget = config.llmMonthlyBudgetUsd;
+  const lines = [
+    `*💰 LLM 使用量 ${month}*`,
+    `合計: ${formatLlmUsage(total)}`,
+    budget
+      ? `予算: ${formatUsd(budget)}（${Math.round((total.costUsd / budget) * 100)}%）` +
+        (month === today.slice(0, 7) && total.costUsd >= budget
+          ? "\n⚠️ 予算を超えたため、スケジュール紐付け・タスク説明文の生成・返信の具体性チェックをスキップしています"
+          : "")
+      : "予算: 設定なし",
+    "",
+    "*フロー別*",
+    ...[...byFlow.entries()]
+      .sort((a, b) => b[1].costUsd - a[1].costUsd)
+      .map(([flow, usage]) => `• \`${flow}\` — ${formatLlmUsage(usage)}`)
+  ];
+  if (total.unpricedCalls > 0) {
+    lines.push("", `⚠️ 単価が不明なモデルの呼び出し ${total.unpricedCalls}回 はコスト 0 として計算しています（LLM_PRICING で設定できます）`);
+  }
+  return lines.join("\n");
+}
+
+async function buildUsageBudgetText(
+  env: Bindings,
+  channelId: string,
+  value: string | undefined
+): Promise<string> {
+  const kv = getStore(env);
+  const channelCfg = await getChannelConfig(kv, channelId);
+  if (!channelCfg) return "このチャンネルは未セットアップのため設定できません（LLM_MONTHLY_BUDGET_USD で指定できます）。";
+
+  if (value === "reset") {
+    const { llmMonthlyBudgetUsd: _budget, ...rest } = channelCfg;
+    await saveChannelConfig(kv, channelId, rest);
+    const base = getConfig(env).llmMonthlyBudgetUsd;
+    return `✅ 月間予算をワーカーの既定に戻しました: ${base ? formatUsd(base) : "設定なし"}`;
+  }
+  const budget = value === "off" ? 0 : Number(value?.replace(/^\$/, ""));
+  if (!value || !Number.isFinite(budget) || budget < 0) {
+    return "使い方: `/pmo usage budget <USD>`（例: `/pmo usage budget 20`）/ `off`（無制限）/ `reset`（既定に戻す）";
+  }
+  await saveChannelConfig(kv, channelId, { ...channelCfg, llmMonthlyBudgetUsd: budget });
+  return budget > 0
+    ? `✅ このチャンネルの LLM 月間予算を ${formatUsd(budget)} に設定しました。超過するとスケジュール紐付けなど任意の呼び出しをスキップします。`
+    : "✅ このチャンネルの LLM 月間予算を無制限にしました。";
+}
+
+async function buildImportText(
+  env: Bindings,
+  config: AppConfig,
+  channelId: string,
+  userId: string,
+  args: string[]
+): Promise<string> {
+  const kv = getStore(env);
+  const scope = await scheduleScopeForChannel(kv, channelId);
+  const arg = (args[0] ?? "").replace(/^<|>$/g, "");
+
+  if (arg === "clear") {
+    await deleteUploadedSchedule(kv, scope);
+    return "🗑️ 取り込んだマスタースケジュールを削除しました。以降は Google Sheets を参照します。";
+  }
+  if (!/^https?:\/\//.test(arg)) {
+    const upload = await getUploadedSchedule(kv, scope);
+    return upload
+      ? `📎 取り込み済み: *${upload.fileName}*（${upload.source === "slack" ? "Slack" : upload.source}、${upload.uploadedAt.slice(0, 10)} <@${upload.uploadedBy}>）`
+      : "取り込み済みのマスタースケジュールはありません。`/pmo import <URL>` か、@bot 付きで .csv / .xlsx を共有してください。";
+  }
+
+  const { fileName, data } = await fetchScheduleFile(arg);
+  const report = await importScheduleFile(kv, config, { fileName, data, source: arg, uploadedBy: userId, channelId: scope });
+  return formatSheetLayoutReport(report) + (report.ok
+    ? `\n\n✅ *${fileName}* をマスタースケジュールとして取り込みました（Google Sheets より優先）。`
+    : `\n\n*${fileName}* は取り込みませんでした。`);
+}
+
+async function buildMappingText(
+  env: Bindings,
+  config: AppConfig,
+  channelId: string,
+  args: string[]
+): Promise<string> {
+  // Flows store links under the channel only when it has its own config (else "global")
+  const kv = getStore(env);
+  const scope = (await getChannelConfig(kv, channelId)) ? channelId : undefined;
+  const summary = await fetchCurrentSprintTasksSummary(config, new Date());
+  const openTaskIds = new Set(summary.assignees.flatMap((a) => a.tasks.map((t) => t.id)));
+  const links = await getScheduleTaskLinks(kv, scope);
+  const text = formatScheduleLinks(links, openTaskIds);
+  if (args[0] !== "review") return text;
+
+  const items = Object.entries(links)
+    .filter(([id, link]) =>
+      openTaskIds.has(id) && link.source === "llm" && (link.confidence === "low" || link.confidence === "none")
+    )
+    .map(([taskId, link]) => ({ taskId, link }));
+  if (items.length === 0) return `${text}\n\n要確認の紐付けはありません。`;
+  if (!config.slackBotToken) return `${text}\n\nSLACK_BOT_TOKEN が設定されていないため確認ボタンを投稿できません。`;
+  await chatPostMessage(
+    config.slackBotToken,
+    channelId,
+    `🔗 スケジュール項目との紐付けの確認 (${items.length} 件)`,
+    buildScheduleReviewBlocks(items, scope)
+  );
+  await markScheduleReviewPosted(kv, items.map((i) => i.taskId), scope);
+  return `${text}\n\n✅ 要確認の紐付けを確認ボタン付きでチャンネルに投稿しました。`;
+}
+
+async function buildStatusText(env: Bindings, config: AppConfig): Promise<string> {
+  const now = new Date();
+  const today = toJstDateString(now);
+  const summary = await fetchCurrentSprintTasksSummary(config, now);
+
+  const currentSnapshot = summary.assignees.flatMap((a) =>
+    a.tasks.map((t) => ({ id: t.id, name: t.name, status: t.status ?? null, sp: t.sp ?? null }))
+  );
+  const calendar = businessCalendar(config);
+  const [spConsumption, stagnantTasks] = await Promise.all([
+    calculateAvgDailySpConsumption(getStore(env), summary.sprint.id, today, calendar),
+    detectStagnantDoingTasks(getStore(env), summary.sprint.id, today, currentSnapshot)
+  ]);
+  const avgDailySp = spConsumption?.avgDailySp ?? calcAvgDailySpFromSprint(summary, today, calendar);
+
+  const planSp = summary.sprint_metrics?.plan_sp ?? null;
+  const progressSp = summary.sprint_metrics?.progress_sp ?? null;
+  const remainingSp = planSp != null && progressSp != null ? planSp - progressSp : null;
+  const remainingDays = countWorkingDays(calendar, today, summary.sprint.end_date);
+  const holiday = nonWorkingReason(calendar, today);
+  const requiredSpPerDay = summary.sprint_metrics?.required_sp_per_day ?? null;
+  const fmt = (v: number | null | undefined, unit = "") =>
+    v == null ? "-" : `${Math.round(v * 10) / 10}${unit}`;
+
+  const lines = [
+    `*📊 ${summary.sprint.name}* (${summary.sprint.start_date} 〜 ${summary.sprint.end_date})`,
+    `・計画SP: ${fmt(planSp)} / 進捗SP: ${fmt(progressSp)} / 残りSP: ${fmt(remainingSp)}`,
+    `・残り営業日数: ${remainingDays} 日${holiday ? `（本日は休業日: ${holiday}）` : ""}`,
+    `・必要日次消化SP: ${fmt(requiredSpPerDay, " SP/日")}`,
+    `・平均日次消化SP: ${fmt(avgDailySp, " SP/日")}`,
+    `・未完了タスク: ${currentSnapshot.length} 件`,
+    `・スケジュール: ${formatFlowSchedule(config.flowSchedule)}`
+  ];
+  if (stagnantTasks.length > 0) {
+    lines.push(`・停滞中の Doing タスク: ${stagnantTasks.map((t) => t.name).join("、")}`);
+  }
+  return lines.join("\n");
+}
+
+async function resolveMemberName(
+  config: AppConfig,
+  userId: string
+): Promise<string | null> {
+  const members = await fetchMembers(config);
+  return members.find((m) => m.slackUserId === userId)?.name ?? null;
+}
+
+async function buildMyTasksText(config: AppConfig, userId: string): Promise<string> {
+  const memberName = await resolveMemberName(config, userId);
+  if (!memberName) {
+    return "Notion のメンバーと紐付いていません。`/pmo settings` からメンバー設定を確認してください。";
+  }
+
+  const summary = await fetchCurrentSprintTasksSummary(config, new Date());
+  // Partial match (e.g. "北川" matches "北川楓") as in the morning flow
+  const tasks = summary.assignees
+    .filter((a) => a.name === memberName || a.name.includes(memberName) || memberName.includes(a.name))
+    .flatMap((a) => a.tasks);
+
+  if (tasks.length === 0) {
+    return `${memberName}さんの未完了タスクはありません（${summary.sprint.name}）。`;
+  }
+
+  const today = toJstDateString();
+  const lines = tasks.map((t) => {
+    const overdue = t.due && t.due < today ? " ⏰" : "";
+    const link = t.url ? `<${t.url}|${t.name}>` : t.name;
+    return `・${link}（期限: ${t.due ?? "未設定"}、ステータス: ${t.status ?? "-"}、SP: ${t.sp ?? "-"}）${overdue}`;
+  });
+  return `*${memberName}さんの担当タスク* (${summary.sprint.name})\n${lines.join("\n")}`;
+}
+
+async function buildRemindersText(env: Bindings, userId: string, channelId: string): Promise<string> {
+  // In a DM with the bot, list every channel's reminders labelled with the channel
+  const allChannels = channelId.startsWith("D");
+  const reminders = (await listPhoneRemindersForUser(getStore(env), userId))
+    .filter((r) => r.status === "pending" && (allChannels || r.channel === channelId))
+    .sort((a, b) => (a.remindAt || "9999").localeCompare(b.remindAt || "9999"));
+
+  if (reminders.length === 0) {
+    return allChannels ? "登録中の ☎️ リマインダーはありません。" : "このチャンネルで登録中の ☎️ リマインダーはありません。";
+  }
+
+  const lines = reminders.map((r) => {
+    const when = r.remindAt
+      ? new Date(new Date(r.remindAt).getTime() + 9 * 3600 * 1000)
+          .toISOString()
+          .slice(0, 16)
+          .replace("T", " ")
+      : "時刻未設定";
+    const preview = r.messageContent.replace(/\s+/g, " ").slice(0, 40);
+    const where = allChannels ? ` <#${r.channel}>` : "";
+    return `・${when}${where} — <${r.threadLink}|${preview || "(本文なし)"}>`;
+  });
+  return `*☎️ リマインダー (${reminders.length}件)*\n${lines.join("\n")}`;
+}
+
+const RUN_STATUS_ICON: Record<string, string> = { ok: "✅", skipped: "⏭️", error: "❌" };
+
+async function buildRunsText(
+  env: Bindings,
+  config: AppConfig,
+  channelId: string,
+  args: string[]
+): Promise<string> {
+  let date = toJstDateString();
+  let flow: string | undefined;
+  for (const arg of args) {
+    if (arg === "today") continue;
+    if (arg === "yesterday") date = toJstDateString(new Date(), -1);
+    else if (/^\d{4}-\d{2}-\d{2}$/.test(arg)) date = arg;
+    else flow = arg;
+  }
+
+  // Global-config runs (channel=null) belong to SLACK_PMO_CHANNEL_ID
+  const isGlobalChannel = config.slackPmoChannelId === channelId;
+  const runs = (await listRunRecords(getStore(env), date, { flow, limit: 1000 }))
+    .filter((r) => r.channel === channelId || (r.channel === null && isGlobalChannel));
+
+  if (runs.length === 0) {
+    return `${date} の実行履歴はありません${flow ? `（フロー: ${flow}）` : ""}。`;
+  }
+
+  const toJstTime = (iso: string) =>
+    new Date(new Date(iso).getTime() + 9 * 3600 * 1000).toISOString().slice(11, 16);
+  const lines = runs.slice(-20).map((r) => {
+    const stats = [
+      `${Math.round(r.durationMs / 100) / 10}s`,
+      r.llmCalls > 0 ? `LLM ${r.llmCalls}` : null,
+      r.slackPosts > 0 ? `Slack ${r.slackPosts}` : null,
+      r.notionWrites > 0 ? `Notion ${r.notionWrites}` : null
+    ].filter(Boolean).join(" / ");
+    const errors = r.errors.length > 0 ? `\n    ⚠️ ${r.errors.slice(0, 3).join(" / ")}` : "";
+    // Prompt versions only when narrowed to one flow (keeps the full list short)
+    const prompts = flow && r.prompts?.length ? `\n    📝 ${r.prompts.join(", ")}` : "";
+    return `${RUN_STATUS_ICON[r.status] ?? "・"} ${toJstTime(r.startedAt)} \`${r.flow}\` (${r.trigger}) — ${stats}${errors}${prompts}`;
+  });
+
+  let text = `*🗂️ 実行履歴 ${date}* (${runs.length}件${runs.length > 20 ? "、最新20件を表示" : ""})\n${lines.join("\n")}`;
+
+  // When narrowed to one flow, show what the latest run posted
+  const latestWithOutput = flow ? [...runs].reverse().find((r) => r.output) : undefined;
+  if (latestWithOutput?.output) {
+    text += `\n\n*最新の投稿内容（${toJstTime(latestWithOutput.startedAt)}）*\n${latestWithOutput.output.slice(0, 2500)}`;
+  }
+  return text;
+}
+
+// ── Entry point ────────────────────────────────────────────────────────────
+
+export async function handleSlackCommands(
+  request: Request,
+  env: Bindings,
+  ctx?: ExecutionContext
+): Promise<Response> {
+  const body = await request.text();
+  const timestamp = request.headers.get("x-slack-request-timestamp") ?? "";
+  const signature = request.headers.get("x-slack-signature") ?? "";
+
+  // Replay attack prevention
+  const nowSec = Math.floor(Date.now() / 1000);
+  if (Math.abs(nowSec - parseInt(timestamp, 10)) > 300) {
+    return new Response("Request timestamp too old", { status: 400 });
+  }
+
+  // Signature verification
+  const baseConfig = getConfig(env);
+  if (!baseConfig.slackSigningSecret) {
+    console.error("SLACK_SIGNING_SECRET not configured");
+    return new Response("Server configuration error", { status: 500 });
+  }
+
+  const isValid = await verifySlackSignature(
+    body,
+    timestamp,
+    signature,
+    baseConfig.slackSigningSecret
+  );
+  if (!isValid) {
+    return new Response("Invalid signature", { status: 401 });
+  }
+
+  const params = new URLSearchParams(body);
+  const payload: SlashCommandPayload = {
+    command: params.get("command") ?? "",
+    text: (params.get("text") ?? "").trim(),
+    userId: params.get("user_id") ?? "",
+    channelId: params.get("channel_id") ?? "",
+    triggerId: params.get("trigger_id") ?? "",
+    responseUrl: params.get("response_url") ?? ""
+  };
+  const [subcommand = "help", ...args] = payload.text.split(/\s+/).filter(Boolean);
+  console.log(`slash command: ${payload.command} ${subcommand} user=${payload.userId} channel=${payload.channelId}`);
+
+  const config = await resolveConfig(env, payload.channelId);
+
+  // Slack requires an ack within 3s — anything touching Notion/LLM replies via response_url
+  const defer = (ack: string, work: () => Promise<string>): Response => {
+    const task = (async () => {
+      let text: string;
+      try {
+        text = await work();
+      } catch (err) {
+        console.error(`/pmo ${subcommand} failed:`, err);
+        text = `⚠️ 実行中にエラーが発生しました: ${(err as Error).message}`;
+      }
+      if (payload.responseUrl) await postToResponseUrl(payload.responseUrl, text);
+    })();
+    if (ctx) ctx.waitUntil(task);
+    return ephemeral(ack);
+  };
+
+  switch (subcommand.toLowerCase()) {
+    case "status":
+      return defer("⏳ スプリント状況を取得しています…", () => buildStatusText(env, config));
+
+    case "tasks":
+    case "my":
+      return defer("⏳ 担当タスクを取得しています…", () =>
+        buildMyTasksText(config, payload.userId)
+      );
+
+    case "morning":
+    case "remind": {
+      return defer("⏳ 朝の確認メッセージを再生成しています…", async () => {
+        const memberName = await resolveMemberName(config, payload.userId);
+        if (!memberName) {
+          return "Notion のメンバーと紐付いていないため再送できません。`/pmo settings` からメンバー設定を確認してください。";
+        }
+        const result = await runMorningFlow(env, "manual", memberName, payload.channelId);
+        if (!result.ok) return `⚠️ 朝の確認メッセージの送信に失敗しました: ${String(result.error ?? "")}`;
+        if (result.skipped) return `朝の確認メッセージはスキップされました（${String(result.reason ?? "")}）`;
+        return `✅ ${memberName}さん宛ての朝の確認メッセージをチャンネルに投稿しました。`;
+      });
+    }
+
+    case "report":
+      return defer("⏳ PMレポートを生成しています…", async () => {
+        const result = await runEveningFlow(env, "manual", payload.channelId);
+        if (!result.ok) return `⚠️ PMレポートの生成に失敗しました: ${String(result.error ?? "")}`;
+        if (result.skipped) return `PMレポートはスキップされました（${String(result.reason ?? "")}）`;
+        if (result.dryRun) return "DRY_RUN のため PMレポートは投稿されませんでした。";
+        return "✅ PMレポートをチャンネルに投稿しました。";
+      });
+
+    case "plan":
+      return defer("⏳ 次スプリントの計画案を作成しています…", async () => {
+        const result = await runSprintPlanningFlow(env, "manual", payload.channelId);
+        if (!result.ok) return `⚠️ スプリント計画案の作成に失敗しました: ${String(result.error ?? "")}`;
+        if (result.skipped) return `スプリント計画案はスキップされました（${String(result.reason ?? "")}）`;
+        if (result.dryRun) return "DRY_RUN のためスプリント計画案は投稿されませんでした。";
+        return `✅ ${String(result.sprint)} の計画案をチャンネルに投稿しました。`;
+      });
+
+    case "settings":
+    case "setup":
+      // trigger_id expires in 3s, so open the modal before acking
+      if (!config.slackBotToken) return ephemeral("SLACK_BOT_TOKEN が設定されていません。");
+      await openSetupModal(env, payload.triggerId, payload.channelId);
+      return new Response("", { status: 200 });
+
+    case "sheet":
+      return defer("⏳ マスタースケジュールを確認しています…", () =>
+        buildSheetText(env, config, payload.channelId, args)
+      );
+
+    case "import":
+      return defer("⏳ マスタースケジュールを取り込んでいます…", () =>
+        buildImportText(env, config, payload.channelId, payload.userId, args)
+      );
+
+    case "mapping":
+      return defer("⏳ スケジュール紐付けを取得しています…", () =>
+        buildMappingText(env, config, payload.channelId, args)
+      );
+
+    case "holidays":
+    case "holiday":
+      return ephemeral(await buildHolidaysText(env, config, payload.channelId, args));
+
+    case "llm":
+      return ephemeral(await buildLlmText(env, config, payload.channelId, args));
+
+    case "usage":
+      if (args[0]?.toLowerCase() === "budget") {
+        return ephemeral(await buildUsageBudgetText(env, payload.channelId, args[1]?.toLowerCase()));
+      }
+      return defer("⏳ LLM 使用量を集計しています…", () =>
+        buildUsageText(env, config, payload.channelId, args)
+      );
+
+    case "reminders":
+      return ephemeral(await buildRemindersText(env, payload.userId, payload.channelId));
+
+    case "runs":
+    case "history":
+      return defer("⏳ 実行履歴を取得しています…", () =>
+        buildRunsText(env, config, payload.channelId, args)
+      );
+
+    default:
+      return ephemeral(
+        subcommand === "help"
+          ? HELP_TEXT
+          : `不明なサブコマンドです: \`${subcommand}\`\n\n${HELP_TEXT}`
+      );
+  }
+}
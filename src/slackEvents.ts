@@ -1,6 +1,10 @@
 import type { Bindings } from "./config";
 import { getConfig } from "./config";
 import { resolveConfig } from "./channelConfig";
+import { withLlmUsage } from "./llmUsage";
+import { captureMentionEvalSample } from "./mentionEval";
+import { formatActionGuardIssues, validateNotionActions } from "./actionGuard";
+import { getStore } from "./storage";
 import {
   getThreadState,
   saveThreadState,
@@ -22,7 +26,7 @@ import {
   savePhoneReminder,
   deletePhoneReminder
 } from "./workflow";
-import { chatPostMessage, conversationsHistory, conversationsReplies, conversationsOpen } from "./slackBot";
+import { chatPostMessage, conversationsHistory, conversationsReplies, conversationsOpen, downloadSlackFile } from "./slackBot";
 import { interpretPmReply, interpretMention, evaluateAssigneeReply, generateTaskDescription } from "./llmAnalyzer";
 import { updateTaskPage, updateTaskSprint, updateTaskProject, createTaskPage, fetchNotionUserMap, buildUserMapFromDatabase, searchProjectsByName, appendPageContent } from "./notionWriter";
 import { fetchCurrentSprintTasksSummary, fetchSprintCapacity, fetchAllSprints, fetchReferenceDbItems, fetchPageTitles } from "./notionApi";
@@ -33,38 +37,15 @@ import {
   detectStagnantDoingTasks,
   calculateWeeklyDiff
 } from "./index";
-import { fetchScheduleData, analyzeScheduleDeviation } from "./sheetsApi";
+import { fetchScheduleData, analyzeScheduleDeviation, addDays } from "./sheetsApi";
+import { forecastSprintCompletion } from "./forecast";
+import { businessCalendar, countWorkingDays } from "./businessCalendar";
+import { analyzeScheduleProgress, deviationContextForLlm } from "./scheduleDeviation";
+import { importScheduleFile, scheduleFileKind, scheduleScopeForChannel } from "./scheduleImport";
+import { formatSheetLayoutReport } from "./sheetLayout";
 import type { AllocationProposal, NewTask, MentionContext } from "./schema";
 import { buildApprovalButtons, buildTimeSelectionButtons } from "./slackInteractions";
-
-// ── HMAC-SHA256 signature verification ────────────────────────────────────
-
-async function verifySlackSignature(
-  body: string,
-  timestamp: string,
-  signature: string,
-  signingSecret: string
-): Promise<boolean> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    "raw",
-    encoder.encode(signingSecret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-  const mac = await crypto.subtle.sign(
-    "HMAC",
-    key,
-    encoder.encode(`v0:${timestamp}:${body}`)
-  );
-  const computed =
-    "v0=" +
-    Array.from(new Uint8Array(mac))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
-  return computed === signature;
-}
+import { verifySlackSignature } from "./adminAuth";
 
 // ── Execute a Notion task creation ──────────────────────────────────────────
 
@@ -429,7 +410,7 @@ async function handleProjectSelectionReply(
   const userId = (event.user as string) ?? "";
   const userMention = userId ? `<@${userId}> ` : "";
 
-  const pending = await getPendingProjectSelection(env.NOTIFY_CACHE, channel, threadTs);
+  const pending = await getPendingProjectSelection(getStore(env), channel, threadTs);
   if (!pending) return false;
 
   // Only the original requester can select
@@ -438,7 +419,7 @@ async function handleProjectSelectionReply(
   // Cancel keywords
   const cancelWords = ["キャンセル", "cancel", "やめる", "中止"];
   if (cancelWords.some((w) => text.toLowerCase().includes(w))) {
-    await deletePendingProjectSelection(env.NOTIFY_CACHE, channel, threadTs);
+    await deletePendingProjectSelection(getStore(env), channel, threadTs);
     await chatPostMessage(
       config.slackBotToken,
       channel,
@@ -465,7 +446,7 @@ async function handleProjectSelectionReply(
   const selected = pending.candidates[num - 1];
   const resolvedProjectIds = [selected.id];
 
-  await deletePendingProjectSelection(env.NOTIFY_CACHE, channel, threadTs);
+  await deletePendingProjectSelection(getStore(env), channel, threadTs);
 
   // Build confirmation message
   const task = pending.newTask;
@@ -492,7 +473,7 @@ async function handleProjectSelectionReply(
   );
 
   // Store as pending action (same as normal create_task flow)
-  await savePendingAction(env.NOTIFY_CACHE, confirmMsg.channel, confirmMsg.ts, {
+  await savePendingAction(getStore(env), confirmMsg.channel, confirmMsg.ts, {
     actions: [{
       action: "create_task",
       page_id: "",
@@ -508,7 +489,7 @@ async function handleProjectSelectionReply(
   });
 
   // Save thread-level reference for potential modifications
-  await savePendingCreateRef(env.NOTIFY_CACHE, channel, threadTs, {
+  await savePendingCreateRef(getStore(env), channel, threadTs, {
     confirmMsgTs: confirmMsg.ts
   });
 
@@ -518,12 +499,54 @@ async function handleProjectSelectionReply(
 
 // ── Handle @mention (app_mention event) ───────────────────────────────────
 
+interface SlackSharedFile {
+  name?: string;
+  url_private_download?: string;
+  url_private?: string;
+}
+
+async function handleScheduleFileShare(
+  env: Bindings,
+  token: string,
+  channel: string,
+  threadTs: string,
+  userId: string,
+  file: SlackSharedFile
+): Promise<void> {
+  const fileName = file.name ?? "schedule";
+  try {
+    const url = file.url_private_download ?? file.url_private;
+    if (!url) throw new Error("ファイルの URL がありません");
+    const kv = getStore(env);
+    const config = await resolveConfig(env, channel);
+    const report = await importScheduleFile(kv, config, {
+      fileName,
+      data: await downloadSlackFile(token, url),
+      source: "slack",
+      uploadedBy: userId,
+      channelId: await scheduleScopeForChannel(kv, channel)
+    });
+    await chatPostMessage(
+      token,
+      channel,
+      formatSheetLayoutReport(report) + (report.ok
+        ? `\n\n✅ *${fileName}* をマスタースケジュールとして取り込みました（Google Sheets より優先。解除は \`/pmo import clear\`）。`
+        : `\n\n*${fileName}* は取り込みませんでした。`),
+      undefined,
+      threadTs
+    );
+  } catch (err) {
+    console.error("Schedule file import failed:", err);
+    await chatPostMessage(token, channel, `⚠️ ${fileName} を取り込めませんでした: ${(err as Error).message}`, undefined, threadTs);
+  }
+}
+
 async function handleMention(
   env: Bindings,
   event: Record<string, unknown>
 ): Promise<void> {
   const channel = event.channel as string;
-  const config = await resolveConfig(env, channel);
+  const config = withLlmUsage(await resolveConfig(env, channel), getStore(env), "mention", channel);
   if (!config.slackBotToken) return;
 
   const threadTs = (event.thread_ts as string | undefined) ?? (event.ts as string);
@@ -557,6 +580,14 @@ async function handleMention(
     return;
   }
 
+  // ── CSV / Excel shared with the mention → master schedule import ──────
+  const scheduleFile = ((event.files as SlackSharedFile[] | undefined) ?? [])
+    .find((f) => scheduleFileKind(f.name ?? "") != null);
+  if (scheduleFile) {
+    await handleScheduleFileShare(env, config.slackBotToken, channel, threadTs, userId, scheduleFile);
+    return;
+  }
+
   if (!userText) {
     await chatPostMessage(
       config.slackBotToken,
@@ -571,7 +602,7 @@ async function handleMention(
   // Shortcut: if user @mentions with a number and there's a pending project selection,
   // handle it directly without LLM call
   if (/^\d+$/.test(userText) || /^(キャンセル|cancel|やめる|中止)$/i.test(userText)) {
-    const pendingSelection = await getPendingProjectSelection(env.NOTIFY_CACHE, channel, threadTs);
+    const pendingSelection = await getPendingProjectSelection(getStore(env), channel, threadTs);
     if (pendingSelection) {
       const handled = await handleProjectSelectionReply(env, {
         ...event,
@@ -584,6 +615,7 @@ async function handleMention(
   try {
     const now = new Date();
     const today = toJstDateString(now);
+    const calendar = businessCalendar(config);
 
     // Fetch current sprint tasks for LLM context
     const summary = await fetchCurrentSprintTasksSummary(config, now);
@@ -605,6 +637,7 @@ async function handleMention(
       capacities,
       scheduleDataResult,
       spConsumption,
+      forecast,
       weeklyDiff,
       stagnantTasks,
       allSprints,
@@ -617,10 +650,13 @@ async function handleMention(
     ] = await Promise.all([
       fetchMembers(config).catch(() => []),
       fetchSprintCapacity(config, summary.sprint.id).catch(() => []),
-      fetchScheduleData(config).catch(() => null),
-      calculateAvgDailySpConsumption(env.NOTIFY_CACHE, summary.sprint.id, today).catch(() => null),
-      calculateWeeklyDiff(env.NOTIFY_CACHE, summary.sprint.id, today, currentSnapshot).catch(() => null),
-      detectStagnantDoingTasks(env.NOTIFY_CACHE, summary.sprint.id, today, currentSnapshot).catch(() => []),
+      scheduleScopeForChannel(getStore(env), channel)
+        .then((scope) => fetchScheduleData(config, getStore(env), scope))
+        .catch(() => null),
+      calculateAvgDailySpConsumption(getStore(env), summary.sprint.id, today, calendar).catch(() => null),
+      forecastSprintCompletion(getStore(env), summary, today, calendar, channel).catch(() => null),
+      calculateWeeklyDiff(getStore(env), summary.sprint.id, today, currentSnapshot).catch(() => null),
+      detectStagnantDoingTasks(getStore(env), summary.sprint.id, today, currentSnapshot).catch(() => []),
       fetchAllSprints(config).catch(() => []),
       hasThread ? Promise.resolve([]) : fetchReferenceDbItems(config).catch(() => []),
       // Thread & channel context (parallelized with above)
@@ -631,9 +667,9 @@ async function handleMention(
         ? fetchChannelContext(config.slackBotToken, channel).catch(() => [] as Array<{ text: string; user: string; ts: string }>)
         : Promise.resolve([] as Array<{ text: string; user: string; ts: string }>),
       // KV lookups (parallelized with above)
-      getThreadState(env.NOTIFY_CACHE, channel, threadTs).catch(() => null),
-      getMentionHistory(env.NOTIFY_CACHE, channel, threadTs).catch(() => [] as Array<{ role: "user" | "assistant"; content: string }>),
-      getPendingCreateRef(env.NOTIFY_CACHE, channel, threadTs).catch(() => null)
+      getThreadState(getStore(env), channel, threadTs).catch(() => null),
+      getMentionHistory(getStore(env), channel, threadTs).catch(() => [] as Array<{ role: "user" | "assistant"; content: string }>),
+      getPendingCreateRef(getStore(env), channel, threadTs).catch(() => null)
     ]);
 
     // Merge capacity data into members
@@ -647,7 +683,7 @@ async function handleMention(
     // Calculate avg daily SP (priority: KV 7-day history > sprint-level)
     let avgDailySp: number | null = spConsumption ? spConsumption.avgDailySp : null;
     if (avgDailySp == null) {
-      avgDailySp = calcAvgDailySpFromSprint(summary, today);
+      avgDailySp = calcAvgDailySpFromSprint(summary, today, calendar);
     }
 
     // Calculate sprint metrics
@@ -656,11 +692,7 @@ async function handleMention(
     const progressSp = typeof summary.sprint_metrics?.progress_sp === "number"
       ? summary.sprint_metrics.progress_sp : null;
     const remainingSp = planSp != null && progressSp != null ? planSp - progressSp : null;
-    const endDate = new Date(`${summary.sprint.end_date}T00:00:00Z`);
-    const startDate = new Date(`${summary.sprint.start_date}T00:00:00Z`);
-    const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / 86400000) + 1;
-    const elapsedDays = Math.ceil((now.getTime() - startDate.getTime()) / 86400000) + 1;
-    const remainingDays = totalDays > 0 ? Math.max(totalDays - elapsedDays, 1) : 1;
+    const remainingDays = Math.max(countWorkingDays(calendar, addDays(today, 1), summary.sprint.end_date), 1);
     const requiredSpPerDay = typeof summary.sprint_metrics?.required_sp_per_day === "number"
       ? summary.sprint_metrics.required_sp_per_day
       : remainingSp != null
@@ -671,6 +703,8 @@ async function handleMention(
     let scheduleDeviation: MentionContext["scheduleDeviation"] = null;
     if (scheduleDataResult && scheduleDataResult.rows.length > 0) {
       const deviation = analyzeScheduleDeviation(scheduleDataResult, today);
+      const progress = await analyzeScheduleProgress(getStore(env), scheduleDataResult, summary, today, channel)
+        .catch(() => null);
       scheduleDeviation = {
         onTrack: deviation.onTrack.length,
         delayed: deviation.delayed.length,
@@ -684,7 +718,8 @@ async function handleMention(
           category: row.category,
           item: row.item,
           plannedEnd: row.plannedEnd ?? ""
-        }))
+        })),
+        progress: deviationContextForLlm(progress)
       };
     }
 
@@ -728,6 +763,7 @@ async function handleMention(
         required_sp_per_day: requiredSpPerDay
       },
       avgDailySp,
+      forecast,
       members: memberContext,
       scheduleDeviation,
       weeklyDiff,
@@ -782,12 +818,12 @@ async function handleMention(
     const threadState = threadStateResult;
     if (threadState) {
       // Save as assignee reply (for evening flow)
-      await appendReply(env.NOTIFY_CACHE, channel, threadTs, {
+      await appendReply(getStore(env), channel, threadTs, {
         text: userText,
         userId,
         receivedAt: new Date().toISOString()
       });
-      await saveThreadState(env.NOTIFY_CACHE, channel, threadTs, {
+      await saveThreadState(getStore(env), channel, threadTs, {
         ...threadState,
         state: "replied"
       });
@@ -815,7 +851,7 @@ async function handleMention(
     let pendingUpdateActions: Array<{ action: string; page_id: string; task_name: string; new_value: string }> | null = null;
     const pendingCreateRef = pendingCreateRefResult;
     if (pendingCreateRef) {
-      const oldPending = await getPendingAction(env.NOTIFY_CACHE, channel, pendingCreateRef.confirmMsgTs);
+      const oldPending = await getPendingAction(getStore(env), channel, pendingCreateRef.confirmMsgTs);
       if (oldPending) {
         const createActions = oldPending.actions.filter((a) => a.action === "create_task");
         if (createActions.length > 0) {
@@ -838,7 +874,7 @@ async function handleMention(
         }
       } else {
         // Pending action no longer exists — clean up stale ref
-        await deletePendingCreateRef(env.NOTIFY_CACHE, channel, threadTs);
+        await deletePendingCreateRef(getStore(env), channel, threadTs);
       }
     }
 
@@ -856,7 +892,25 @@ async function handleMention(
       ?.map((r) => ({ ...r, content: r.content.slice(0, 500) }))
       .slice(0, 10);
 
-    const result = await interpretMention(config, userText, summary, mentionContext, requestUserName, conversationHistory, pendingCreateTasks, pendingUpdateActions, trimmedThreadContext, trimmedChannelContext, trimmedReferenceItems);
+    const mentionAt = new Date();
+    const result = await interpretMention(config, userText, summary, mentionContext, requestUserName, conversationHistory, pendingCreateTasks, pendingUpdateActions, trimmedThreadContext, trimmedChannelContext, trimmedReferenceItems, mentionAt);
+
+    // Keep the raw input / response as an eval sample (before the guards below rewrite it)
+    if (config.mentionEvalCapture) {
+      await captureMentionEvalSample(getStore(env), channel, {
+        userText,
+        summary,
+        context: mentionContext,
+        requestUserName,
+        conversationHistory,
+        pendingCreateTasks: pendingCreateTasks ?? undefined,
+        pendingUpdateActions: pendingUpdateActions ?? undefined,
+        threadContext: trimmedThreadContext,
+        channelContext: trimmedChannelContext,
+        referenceItems: trimmedReferenceItems,
+        at: mentionAt.toISOString()
+      }, result).catch((err) => console.error("Failed to capture mention eval sample:", (err as Error).message));
+    }
 
     // Guard: if pending create tasks exist but LLM returned intent="update",
     // merge the update actions back into the pending create tasks.
@@ -884,8 +938,8 @@ async function handleMention(
     if (result.intent === "create_task" && result.new_tasks.length > 0) {
       // If modifying a pending create, clean up old pending action first
       if (pendingCreateRef) {
-        await deletePendingAction(env.NOTIFY_CACHE, channel, pendingCreateRef.confirmMsgTs);
-        await deletePendingCreateRef(env.NOTIFY_CACHE, channel, threadTs);
+        await deletePendingAction(getStore(env), channel, pendingCreateRef.confirmMsgTs);
+        await deletePendingCreateRef(getStore(env), channel, threadTs);
         console.log(`Cleaned up old pending create: confirmMsgTs=${pendingCreateRef.confirmMsgTs}`);
       }
 
@@ -1042,14 +1096,14 @@ async function handleMention(
           threadTs
         );
 
-        await savePendingAction(env.NOTIFY_CACHE, askMsg.channel, askMsg.ts, {
+        await savePendingAction(getStore(env), askMsg.channel, askMsg.ts, {
           actions: taskActions,
           requestedBy: userId,
           requestedAt: new Date().toISOString(),
           threadTs
         });
 
-        await savePendingCreateRef(env.NOTIFY_CACHE, channel, threadTs, {
+        await savePendingCreateRef(getStore(env), channel, threadTs, {
           confirmMsgTs: askMsg.ts
         });
 
@@ -1070,14 +1124,14 @@ async function handleMention(
           threadTs
         );
 
-        await savePendingAction(env.NOTIFY_CACHE, confirmMsg.channel, confirmMsg.ts, {
+        await savePendingAction(getStore(env), confirmMsg.channel, confirmMsg.ts, {
           actions: taskActions,
           requestedBy: userId,
           requestedAt: new Date().toISOString(),
           threadTs
         });
 
-        await savePendingCreateRef(env.NOTIFY_CACHE, channel, threadTs, {
+        await savePendingCreateRef(getStore(env), channel, threadTs, {
           confirmMsgTs: confirmMsg.ts
         });
 
@@ -1093,23 +1147,32 @@ async function handleMention(
         threadTs
       );
     } else if (result.intent === "update" && result.actions.length > 0) {
+      // Check the proposed actions against Notion (page / status / assignee / date / SP / sprint / project)
+      const guard = await validateNotionActions(config, result.actions, {
+        requestText: userText,
+        knownPageIds: summary.assignees.flatMap((a) => a.tasks.map((t) => t.id))
+      });
+      const guardText = formatActionGuardIssues(guard);
+      if (guard.actions.length === 0) {
+        await chatPostMessage(
+          config.slackBotToken,
+          channel,
+          `${userMention}提案された更新はどれも実行できませんでした。\n\n${guardText}`,
+          undefined,
+          threadTs
+        );
+        await appendMentionHistory(getStore(env), channel, threadTs, userText, guardText);
+        return;
+      }
+      result.actions = guard.actions;
+
       // If modifying a pending update, clean up old pending action first
       if (pendingCreateRef && pendingUpdateActions) {
-        await deletePendingAction(env.NOTIFY_CACHE, channel, pendingCreateRef.confirmMsgTs);
-        await deletePendingCreateRef(env.NOTIFY_CACHE, channel, threadTs);
+        await deletePendingAction(getStore(env), channel, pendingCreateRef.confirmMsgTs);
+        await deletePendingCreateRef(getStore(env), channel, threadTs);
         console.log(`Cleaned up old pending update: confirmMsgTs=${pendingCreateRef.confirmMsgTs}`);
       }
 
-      // Resolve project names for update_project actions
-      for (const act of result.actions) {
-        if (act.action === "update_project" && act.new_value) {
-          const candidates = await searchProjectsByName(config.notionToken, act.new_value, config.projectDbId);
-          if (candidates.length > 0 && candidates[0].name !== act.new_value) {
-            act.new_value = candidates[0].name;
-          }
-        }
-      }
-
       // Build structured confirmation text in code (same pattern as create_task)
       const actionLabels: Record<string, string> = {
         update_assignee: "担当者",
@@ -1131,7 +1194,7 @@ async function handleMention(
           updateLines.push(`・「${act.task_name}」: ${label} → ${act.new_value}`);
         }
       }
-      const updateResponseText = `以下の更新を実行します。問題なければ ✅ 承認ボタンを押してください:\n\n${updateLines.join("\n")}`;
+      const updateResponseText = `以下の更新を実行します。問題なければ ✅ 承認ボタンを押してください:\n\n${updateLines.join("\n")}${guardText ? `\n\n${guardText}` : ""}`;
 
       // Send confirmation message with explicitly constructed blocks (same as create_task)
       const updateModifyHint = "_修正したい場合は、修正内容をこのスレッドに返信してください_";
@@ -1148,7 +1211,7 @@ async function handleMention(
         threadTs
       );
 
-      await savePendingAction(env.NOTIFY_CACHE, confirmMsg.channel, confirmMsg.ts, {
+      await savePendingAction(getStore(env), confirmMsg.channel, confirmMsg.ts, {
         actions: result.actions,
         requestedBy: userId,
         requestedAt: new Date().toISOString(),
@@ -1156,7 +1219,7 @@ async function handleMention(
       });
 
       // Save thread-level reference so modifications can find this pending action
-      await savePendingCreateRef(env.NOTIFY_CACHE, channel, threadTs, {
+      await savePendingCreateRef(getStore(env), channel, threadTs, {
         confirmMsgTs: confirmMsg.ts
       });
 
@@ -1174,7 +1237,7 @@ async function handleMention(
 
     // Save conversation history for follow-up questions
     await appendMentionHistory(
-      env.NOTIFY_CACHE,
+      getStore(env),
       channel,
       threadTs,
       userText,
@@ -1254,7 +1317,7 @@ async function handlePhoneReaction(
 
     // Save reminder to KV (new format)
     const now = new Date().toISOString();
-    await savePhoneReminder(env.NOTIFY_CACHE, userId, channel, messageTs, {
+    await savePhoneReminder(getStore(env), userId, channel, messageTs, {
       userId,
       channel,
       threadTs: messageTs,
@@ -1289,7 +1352,7 @@ async function handleReactionRemoved(
   const channel = item.channel as string;
   const messageTs = item.ts as string;
 
-  await deletePhoneReminder(env.NOTIFY_CACHE, userId, channel, messageTs);
+  await deletePhoneReminder(getStore(env), userId, channel, messageTs);
   console.log(`Phone reminder removed: user=${userId}, channel=${channel}, threadTs=${messageTs}`);
 
   // Notify user that reminder was cancelled
@@ -1343,13 +1406,13 @@ async function handleAssigneeReply(
   if (event.bot_id || event.bot_profile || !event.user) return;
 
   const channel = event.channel as string;
-  const config = await resolveConfig(env, channel);
+  const config = withLlmUsage(await resolveConfig(env, channel), getStore(env), "reply", channel);
   if (!config.slackBotToken) return;
   const threadTs = event.thread_ts as string;
   const text = (event.text as string) ?? "";
   const user = (event.user as string) ?? "";
 
-  const threadState = await getThreadState(env.NOTIFY_CACHE, channel, threadTs);
+  const threadState = await getThreadState(getStore(env), channel, threadTs);
   if (!threadState) return;
 
   // Already replied — check for additional progress, otherwise treat as casual chat
@@ -1367,7 +1430,7 @@ async function handleAssigneeReply(
     }
 
     if (hasAdditionalProgress) {
-      await appendReply(env.NOTIFY_CACHE, channel, threadTs, {
+      await appendReply(getStore(env), channel, threadTs, {
         text,
         userId: user,
         receivedAt: new Date().toISOString()
@@ -1397,12 +1460,12 @@ async function handleAssigneeReply(
 
   if (isValid) {
     // Good reply: save to KV, mark as replied, stop reminders
-    await appendReply(env.NOTIFY_CACHE, channel, threadTs, {
+    await appendReply(getStore(env), channel, threadTs, {
       text,
       userId: user,
       receivedAt: new Date().toISOString()
     });
-    await saveThreadState(env.NOTIFY_CACHE, channel, threadTs, {
+    await saveThreadState(getStore(env), channel, threadTs, {
       ...threadState,
       state: "replied"
     });
@@ -1425,17 +1488,17 @@ async function handlePmReply(
   if (event.bot_id || event.bot_profile || !event.user) return;
 
   const channel = event.channel as string;
-  const config = await resolveConfig(env, channel);
+  const config = withLlmUsage(await resolveConfig(env, channel), getStore(env), "pm-approval", channel);
   if (!config.slackBotToken) return;
   const threadTs = event.thread_ts as string;
   const text = (event.text as string) ?? "";
 
   const today = toJstDateString();
   // Try channel-scoped PM thread first, then global (backward compat)
-  let pmThread = await getPmThread(env.NOTIFY_CACHE, today, channel);
+  let pmThread = await getPmThread(getStore(env), today, channel);
   let pmThreadScope: string | undefined = channel;
   if (!pmThread) {
-    pmThread = await getPmThread(env.NOTIFY_CACHE, today);
+    pmThread = await getPmThread(getStore(env), today);
     pmThreadScope = undefined;
   }
 
@@ -1452,7 +1515,10 @@ async function handlePmReply(
 
   try {
     const proposal = JSON.parse(pmThread.proposalJson) as AllocationProposal;
-    const actions = await interpretPmReply(config, proposal, text);
+    const proposed = await interpretPmReply(config, proposal, text);
+    const guard = await validateNotionActions(config, proposed.actions, { requestText: text });
+    const guardText = formatActionGuardIssues(guard);
+    const actions = { ...proposed, actions: guard.actions };
 
     // Build confirmation message for PM
     const actionLines = actions.actions
@@ -1460,7 +1526,9 @@ async function handlePmReply(
       .join("\n");
     const confirmText =
       actions.actions.length > 0
-        ? `以下の更新を実行します。問題なければ ✅ 承認ボタンを押してください:\n\n${actionLines}`
+        ? `以下の更新を実行します。問題なければ ✅ 承認ボタンを押してください:\n\n${actionLines}${guardText ? `\n\n${guardText}` : ""}`
+        : guard.rejected.length > 0
+        ? `提案された更新はどれも実行できませんでした。\n\n${guardText}`
         : "更新する内容が見当たりませんでした。もう少し具体的に教えてください。";
 
     const pmConfirmBlocks = actions.actions.length > 0
@@ -1479,7 +1547,7 @@ async function handlePmReply(
 
     if (actions.actions.length > 0) {
       // Save pending action keyed by the confirmation message ts
-      await savePendingAction(env.NOTIFY_CACHE, confirmMsg.channel, confirmMsg.ts, {
+      await savePendingAction(getStore(env), confirmMsg.channel, confirmMsg.ts, {
         actions: actions.actions,
         requestedBy: (event.user as string) ?? "",
         requestedAt: new Date().toISOString()
@@ -1488,11 +1556,11 @@ async function handlePmReply(
 
     // Save back to the SAME scope key we read from + mark the other scope too
     console.log(`[PM-PROCESSED-BY] handlePmReply (thread reply), scope=${pmThreadScope}, channel=${channel}, threadTs=${threadTs}, text="${text.slice(0, 50)}"`)
-    await savePmThread(env.NOTIFY_CACHE, today, { ...pmThread, state: "processed" }, undefined, pmThreadScope);
+    await savePmThread(getStore(env), today, { ...pmThread, state: "processed" }, undefined, pmThreadScope);
     if (pmThreadScope === undefined) {
-      await savePmThread(env.NOTIFY_CACHE, today, { ...pmThread, state: "processed" }, undefined, channel);
+      await savePmThread(getStore(env), today, { ...pmThread, state: "processed" }, undefined, channel);
     } else {
-      await savePmThread(env.NOTIFY_CACHE, today, { ...pmThread, state: "processed" }, undefined, undefined);
+      await savePmThread(getStore(env), today, { ...pmThread, state: "processed" }, undefined, undefined);
     }
   } catch (err) {
     console.error("handlePmReply failed", (err as Error).message);
@@ -1638,7 +1706,7 @@ export async function handleSlackEvents(
         return respondAndProcess(async () => {
           const handled = await handleProjectSelectionReply(env, event);
           if (!handled) {
-            const createRef = await getPendingCreateRef(env.NOTIFY_CACHE, channel, threadTs);
+            const createRef = await getPendingCreateRef(getStore(env), channel, threadTs);
             if (createRef) {
               await handleMention(env, event);
             } else {
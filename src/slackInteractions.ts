@@ -1,7 +1,10 @@
 import type { Bindings } from "./config";
 import { getConfig } from "./config";
 import { resolveConfig } from "./channelConfig";
-import { chatPostMessage, chatUpdate, conversationsOpen, conversationsReplies } from "./slackBot";
+import { withLlmUsage } from "./llmUsage";
+import { usedPromptVersions } from "./promptRegistry";
+import { getStore } from "./storage";
+import { chatPostMessage, chatUpdate, conversationsOpen, conversationsReplies, viewsOpen } from "./slackBot";
 import {
   getPendingAction,
   deletePendingAction,
@@ -14,7 +17,8 @@ import {
   appendReply,
   savePhoneReminder,
   getPhoneReminder,
-  deletePhoneReminder
+  deletePhoneReminder,
+  appendRunRecord
 } from "./workflow";
 import {
   executeNotionActions,
@@ -22,37 +26,38 @@ import {
   sendCompletionNotification
 } from "./slackEvents";
 import { interpretPmReply } from "./llmAnalyzer";
-import { fetchNotionUserMap, buildUserMapFromDatabase, appendPageContent, appendLinksToPage } from "./notionWriter";
+import { validateNotionActions } from "./actionGuard";
+import { openSetupModal, handleSetupModalSubmit, handleMemberConfirmation } from "./onboarding";
+import {
+  fetchNotionUserMap,
+  buildUserMapFromDatabase,
+  appendPageContent,
+  appendLinksToPage,
+  updateTaskSprint,
+  updateTaskPage
+} from "./notionWriter";
+import {
+  getPendingCarryOver,
+  deletePendingCarryOver,
+  buildCarryOverResultText,
+  type CarryOverItem
+} from "./carryOver";
+import {
+  getPendingSprintPlan,
+  deletePendingSprintPlan,
+  selectedSprintPlanTaskIds,
+  buildSprintPlanResultText,
+  type SprintPlanItem
+} from "./sprintPlanning";
+import {
+  getScheduleTaskLinks,
+  getScheduleItemOptions,
+  setManualScheduleLink,
+  buildScheduleMappingModal,
+  scheduleLinkConfirmedText
+} from "./scheduleMapping";
 import type { AllocationProposal, NewTask } from "./schema";
-
-// ── HMAC-SHA256 signature verification (same as slackEvents) ───────────────
-
-async function verifySlackSignature(
-  body: string,
-  timestamp: string,
-  signature: string,
-  signingSecret: string
-): Promise<boolean> {
-  const encoder = new TextEncoder();
-  const key = await crypto.subtle.importKey(
-    "raw",
-    encoder.encode(signingSecret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign"]
-  );
-  const mac = await crypto.subtle.sign(
-    "HMAC",
-    key,
-    encoder.encode(`v0:${timestamp}:${body}`)
-  );
-  const computed =
-    "v0=" +
-    Array.from(new Uint8Array(mac))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
-  return computed === signature;
-}
+import { verifySlackSignature } from "./adminAuth";
 
 // ── Block Kit button builders ──────────────────────────────────────────────
 
@@ -184,6 +189,24 @@ function textSection(text: string): unknown {
 interface SlackInteractionPayload {
   type: string;
   callback_id?: string;
+  view?: {
+    callback_id?: string;
+    private_metadata: string;
+    state: {
+      values: Record<string, Record<string, {
+        value?: string | null;
+        selected_option?: { value: string } | null;
+        selected_time?: string | null;
+        selected_options?: Array<{ value: string }> | null;
+      }>>;
+    };
+  };
+  state?: {
+    values: Record<string, Record<string, {
+      selected_user?: string | null;
+      selected_options?: Array<{ value: string }> | null;
+    }>>;
+  };
   user: { id: string; username?: string };
   channel: { id: string };
   message: {
@@ -269,6 +292,24 @@ export async function handleSlackInteractions(
 
   // ── Modal submissions (view_submission) ─────────────────────────────────
   if (payload.type === "view_submission") {
+    if (payload.view?.callback_id === "onboarding_modal_submit") {
+      const result = await handleSetupModalSubmit(env, {
+        view: payload.view,
+        user: payload.user
+      });
+      const responseBody = result.ok
+        ? { response_action: "clear" }
+        : { response_action: "errors", errors: result.errors };
+      return new Response(JSON.stringify(responseBody), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    if (payload.view?.callback_id === "schedule_map_modal") {
+      await bg(handleScheduleMapSubmit(env, payload));
+      return new Response(JSON.stringify({ response_action: "clear" }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
     return new Response("ok");
   }
 
@@ -287,6 +328,16 @@ export async function handleSlackInteractions(
 
   if (actionId === "task_action_approve" || actionId === "task_action_cancel") {
     handler = handleTaskActionButton(env, payload, actionId === "task_action_approve");
+  } else if (actionId === "carry_over_approve" || actionId === "carry_over_cancel") {
+    handler = handleCarryOverButton(env, payload, actionId === "carry_over_approve");
+  } else if (actionId === "sprint_plan_confirm" || actionId === "sprint_plan_cancel") {
+    handler = handleSprintPlanButton(env, payload, actionId === "sprint_plan_confirm");
+  } else if (actionId === "schedule_map_accept") {
+    handler = handleScheduleMapAccept(env, payload, action.value ?? "{}");
+  } else if (actionId === "schedule_map_edit") {
+    // trigger_id expires in 3s — open the modal before acking
+    await openScheduleMapModal(env, payload, action.value ?? "{}");
+    return new Response("ok");
   } else if (actionId === "pm_report_approve") {
     handler = handlePmReportButton(env, payload);
   } else if (actionId.startsWith("eod_")) {
@@ -295,6 +346,25 @@ export async function handleSlackInteractions(
     handler = handleReminderScheduleButton(env, payload, action);
   } else if (actionId === "phone_reminder_stop") {
     handler = handleReminderStopButton(env, payload, action);
+  } else if (actionId === "onboarding_open_modal") {
+    // trigger_id expires in 3s — open the modal before acking
+    await openSetupModal(env, payload.trigger_id, action.value || payload.channel.id);
+    return new Response("ok");
+  } else if (actionId === "onboarding_confirm_members") {
+    const { channelId } = JSON.parse(action.value ?? "{}") as { channelId?: string };
+    const pmUserId =
+      payload.state?.values?.pm_select?.onboarding_pm_select?.selected_user ?? payload.user.id;
+    handler = handleMemberConfirmation(env, channelId ?? payload.channel.id, pmUserId);
+  } else if (actionId === "onboarding_edit_members") {
+    handler = (async () => {
+      const config = getConfig(env);
+      if (!config.slackBotToken) return;
+      await chatPostMessage(
+        config.slackBotToken,
+        payload.channel.id,
+        `<@${payload.user.id}> メンバー設定を修正するには \`/pmo settings\` から設定し直してください。`
+      );
+    })();
   }
 
   if (!handler) {
@@ -320,6 +390,46 @@ export async function handleSlackInteractions(
 
 // ── Task/Update approval button handler ────────────────────────────────────
 
+/** Record an approval-triggered Notion update in run history (best-effort) */
+async function recordNotionUpdateRun(
+  env: Bindings,
+  flow: string,
+  channel: string,
+  startedAt: Date,
+  results: string[],
+  dryRun: boolean,
+  llmCalls = 0,
+  prompts: string[] = []
+): Promise<void> {
+  // executeNotionActions reports per-action failures as "...失敗 (message)"
+  const errors = results.filter((r) => r.includes("失敗"));
+  const finishedAt = new Date();
+  try {
+    await appendRunRecord(
+      getStore(env),
+      {
+        flow,
+        trigger: "slack",
+        channel,
+        status: errors.length > 0 && errors.length === results.length ? "error" : "ok",
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        llmCalls,
+        slackPosts: 0,
+        notionWrites: dryRun ? 0 : results.length - errors.length,
+        errors,
+        counts: { actions: results.length },
+        output: results.join("\n") || undefined,
+        prompts: prompts.length > 0 ? prompts : undefined
+      },
+      getConfig(env).runHistoryRetentionDays
+    );
+  } catch (err) {
+    console.error(`Failed to record run history for ${flow}:`, err);
+  }
+}
+
 async function handleTaskActionButton(
   env: Bindings,
   payload: SlackInteractionPayload,
@@ -332,7 +442,7 @@ async function handleTaskActionButton(
   const threadTs = payload.message.thread_ts;
   const userId = payload.user.id;
 
-  const pending = await getPendingAction(env.NOTIFY_CACHE, channel, messageTs);
+  const pending = await getPendingAction(getStore(env), channel, messageTs);
   if (!pending) {
     console.log(`Button click but no pending action found: channel=${channel} ts=${messageTs}`);
     return;
@@ -356,9 +466,9 @@ async function handleTaskActionButton(
         textSection(`❌ <@${userId}> がキャンセルしました`)
       ]
     );
-    await deletePendingAction(env.NOTIFY_CACHE, channel, messageTs);
+    await deletePendingAction(getStore(env), channel, messageTs);
     if (pending.threadTs) {
-      await deletePendingCreateRef(env.NOTIFY_CACHE, channel, pending.threadTs);
+      await deletePendingCreateRef(getStore(env), channel, pending.threadTs);
     }
     console.log(`Action cancelled by ${userId}: channel=${channel} ts=${messageTs}`);
     return;
@@ -423,9 +533,9 @@ async function handleTaskActionButton(
         `・タスク追加: ${r.newTask.task_name}（担当: ${r.newTask.assignee}、期限: ${r.newTask.due}、SP: ${r.newTask.sp}）`
     );
 
-    await deletePendingAction(env.NOTIFY_CACHE, channel, messageTs);
+    await deletePendingAction(getStore(env), channel, messageTs);
     if (pending.threadTs) {
-      await deletePendingCreateRef(env.NOTIFY_CACHE, channel, pending.threadTs);
+      await deletePendingCreateRef(getStore(env), channel, pending.threadTs);
     }
 
     // Update original message: remove buttons, add result
@@ -447,16 +557,18 @@ async function handleTaskActionButton(
     }
   } else {
     // Update actions (update_due, update_sp, update_status, etc.)
+    const startedAt = new Date();
     const results = await executeNotionActions(
       config.notionToken,
       pending.actions,
       config.dryRun,
       config.projectDbId
     );
+    await recordNotionUpdateRun(env, "notion-update", channel, startedAt, results, config.dryRun);
 
-    await deletePendingAction(env.NOTIFY_CACHE, channel, messageTs);
+    await deletePendingAction(getStore(env), channel, messageTs);
     if (pending.threadTs) {
-      await deletePendingCreateRef(env.NOTIFY_CACHE, channel, pending.threadTs);
+      await deletePendingCreateRef(getStore(env), channel, pending.threadTs);
     }
 
     const summaryMsg =
@@ -533,17 +645,17 @@ async function handlePmReportButton(
   payload: SlackInteractionPayload
 ): Promise<void> {
   const channel = payload.channel.id;
-  const config = await resolveConfig(env, channel);
+  const config = withLlmUsage(await resolveConfig(env, channel), getStore(env), "pm-approval", channel);
   if (!config.slackBotToken) return;
   const messageTs = payload.message.ts;
   const userId = payload.user.id;
 
   const today = toJstDateString();
   // Try channel-scoped PM thread first, then global (backward compat)
-  let pmThread = await getPmThread(env.NOTIFY_CACHE, today, channel);
+  let pmThread = await getPmThread(getStore(env), today, channel);
   let pmThreadScope: string | undefined = channel;
   if (!pmThread) {
-    pmThread = await getPmThread(env.NOTIFY_CACHE, today);
+    pmThread = await getPmThread(getStore(env), today);
     pmThreadScope = undefined;
   }
 
@@ -568,25 +680,32 @@ async function handlePmReportButton(
   // Mark as processed FIRST to prevent reminder from firing during execution
   // Save back to the SAME scope key we read from, so the reminder cron sees "processed"
   console.log(`[PM-PROCESSED-BY] handlePmReportButton (OK button), scope=${pmThreadScope}, channel=${channel}, ts=${messageTs}`)
-  await savePmThread(env.NOTIFY_CACHE, today, { ...pmThread, state: "processed" }, undefined, pmThreadScope);
+  await savePmThread(getStore(env), today, { ...pmThread, state: "processed" }, undefined, pmThreadScope);
   // Also mark the other scope as processed in case reminder checks both
   if (pmThreadScope === undefined) {
-    await savePmThread(env.NOTIFY_CACHE, today, { ...pmThread, state: "processed" }, undefined, channel);
+    await savePmThread(getStore(env), today, { ...pmThread, state: "processed" }, undefined, channel);
   } else {
-    await savePmThread(env.NOTIFY_CACHE, today, { ...pmThread, state: "processed" }, undefined, undefined);
+    await savePmThread(getStore(env), today, { ...pmThread, state: "processed" }, undefined, undefined);
   }
 
   // Full approval
+  const startedAt = new Date();
   const proposal = JSON.parse(pmThread.proposalJson) as AllocationProposal;
   const approvalText = "全提案を承認します";
   const actions = await interpretPmReply(config, proposal, approvalText);
+  // No confirmation step here: actions failing the guard are reported as failures instead
+  const guard = await validateNotionActions(config, actions.actions);
 
-  const results = await executeNotionActions(
-    config.notionToken,
-    actions.actions,
-    config.dryRun,
-    config.projectDbId
-  );
+  const results = [
+    ...(await executeNotionActions(
+      config.notionToken,
+      guard.actions,
+      config.dryRun,
+      config.projectDbId
+    )),
+    ...guard.rejected.map((r) => `・${r.action.task_name}: 更新失敗 (${r.reason})`)
+  ];
+  await recordNotionUpdateRun(env, "pm-approval", channel, startedAt, results, config.dryRun, 1, usedPromptVersions(config));
 
   const summaryMsg = results.length > 0
     ? `\n\nNotion更新完了:\n${results.join("\n")}`
@@ -621,6 +740,300 @@ async function handlePmReportButton(
   console.log(`PM report approved by ${userId}`);
 }
 
+// ── Sprint carry-over approval button handler ──────────────────────────────
+
+async function handleCarryOverButton(
+  env: Bindings,
+  payload: SlackInteractionPayload,
+  approved: boolean
+): Promise<void> {
+  const channel = payload.channel.id;
+  const config = await resolveConfig(env, channel);
+  if (!config.slackBotToken) return;
+  const messageTs = payload.message.ts;
+  const userId = payload.user.id;
+
+  const pending = await getPendingCarryOver(getStore(env), channel, messageTs);
+  if (!pending) {
+    await chatPostMessage(
+      config.slackBotToken,
+      channel,
+      `⚠️ このボタンは既に処理済みか、有効期限が切れています。`,
+      undefined,
+      messageTs
+    );
+    return;
+  }
+  // Delete first so a double click can't apply the move twice
+  await deletePendingCarryOver(getStore(env), channel, messageTs);
+
+  const originalText = payload.message.text;
+  const blocksWithoutActions = (payload.message.blocks ?? []).filter(
+    (b: unknown) => (b as Record<string, unknown>).type !== "actions"
+  );
+
+  if (!approved) {
+    await chatUpdate(
+      config.slackBotToken,
+      channel,
+      messageTs,
+      originalText + "\n\n❌ キャンセルされました",
+      [...blocksWithoutActions, textSection(`❌ <@${userId}> がキャンセルしました（Notion は変更していません）`)]
+    );
+    return;
+  }
+
+  const startedAt = new Date();
+  const moved: CarryOverItem[] = [];
+  const failed: Array<{ item: CarryOverItem; error: string }> = [];
+  for (const item of pending.items) {
+    if (config.dryRun) {
+      moved.push(item);
+      continue;
+    }
+    try {
+      await updateTaskSprint(
+        config.notionToken,
+        item.id,
+        item.decision === "next_sprint" ? pending.toSprint.id : "",
+        config.taskSprintRelationProperty
+      );
+      moved.push(item);
+    } catch (err) {
+      console.error(`Carry-over failed for ${item.id}`, (err as Error).message);
+      failed.push({ item, error: (err as Error).message });
+    }
+  }
+  const results = [
+    ...moved.map((i) => `・${i.name}: ${i.decision === "next_sprint" ? "スプリント移動" : "バックログ戻し"}`),
+    ...failed.map((f) => `・${f.item.name}: スプリント移動失敗 (${f.error})`)
+  ];
+  await recordNotionUpdateRun(env, "carry-over-apply", channel, startedAt, results, config.dryRun);
+
+  const resultText = buildCarryOverResultText(pending, moved, failed, config.dryRun);
+  await chatUpdate(
+    config.slackBotToken,
+    channel,
+    messageTs,
+    originalText + "\n\n" + resultText,
+    [...blocksWithoutActions, textSection(`✅ <@${userId}> が承認しました\n\n${resultText}`)]
+  );
+  console.log(`Carry-over approved by ${userId}: moved=${moved.length} failed=${failed.length}`);
+}
+
+// ── Schedule mapping review (accept / edit modal) ──────────────────────────
+
+/** Replace the review row of one task with a confirmation line */
+async function markScheduleReviewRow(
+  token: string,
+  channel: string,
+  ts: string,
+  blocks: unknown[],
+  taskId: string,
+  text: string
+): Promise<void> {
+  const updated = blocks.map((b) =>
+    (b as Record<string, unknown>).block_id === `schedule_map_${taskId}`
+      ? { type: "context", elements: [{ type: "mrkdwn", text }] }
+      : b
+  );
+  await chatUpdate(token, channel, ts, text, updated);
+}
+
+async function handleScheduleMapAccept(
+  env: Bindings,
+  payload: SlackInteractionPayload,
+  value: string
+): Promise<void> {
+  const channel = payload.channel.id;
+  const config = await resolveConfig(env, channel);
+  if (!config.slackBotToken) return;
+  const { taskId, scope } = JSON.parse(value) as { taskId: string; scope: string | null };
+
+  const link = (await getScheduleTaskLinks(getStore(env), scope ?? undefined))[taskId];
+  if (!link) {
+    await chatPostMessage(
+      config.slackBotToken,
+      channel,
+      `⚠️ この紐付けは見つかりませんでした（期限切れの可能性があります）。`,
+      undefined,
+      payload.message.thread_ts ?? payload.message.ts
+    );
+    return;
+  }
+  const saved = await setManualScheduleLink(getStore(env), taskId, link, payload.user.id, scope ?? undefined);
+  await markScheduleReviewRow(
+    config.slackBotToken,
+    channel,
+    payload.message.ts,
+    payload.message.blocks ?? [],
+    taskId,
+    scheduleLinkConfirmedText(saved, payload.user.id)
+  );
+}
+
+async function openScheduleMapModal(
+  env: Bindings,
+  payload: SlackInteractionPayload,
+  value: string
+): Promise<void> {
+  const config = await resolveConfig(env, payload.channel.id);
+  if (!config.slackBotToken) return;
+  const { taskId, scope } = JSON.parse(value) as { taskId: string; scope: string | null };
+  const [links, options] = await Promise.all([
+    getScheduleTaskLinks(getStore(env), scope ?? undefined),
+    getScheduleItemOptions(getStore(env), scope ?? undefined)
+  ]);
+  const link = links[taskId];
+  if (!link) return;
+  await viewsOpen(
+    config.slackBotToken,
+    payload.trigger_id,
+    buildScheduleMappingModal(taskId, link, options, {
+      scope,
+      channel: payload.channel.id,
+      ts: payload.message.ts,
+      threadTs: payload.message.thread_ts ?? payload.message.ts
+    })
+  );
+}
+
+async function handleScheduleMapSubmit(
+  env: Bindings,
+  payload: SlackInteractionPayload
+): Promise<void> {
+  const view = payload.view!;
+  const { taskId, scope, channel, ts, threadTs } = JSON.parse(view.private_metadata) as {
+    taskId: string;
+    scope: string | null;
+    channel: string;
+    ts: string;
+    threadTs: string;
+  };
+  const config = await resolveConfig(env, channel);
+  if (!config.slackBotToken) return;
+
+  const selected = view.state.values.schedule_item?.value?.selected_option?.value;
+  const [links, options] = await Promise.all([
+    getScheduleTaskLinks(getStore(env), scope ?? undefined),
+    getScheduleItemOptions(getStore(env), scope ?? undefined)
+  ]);
+  const link = links[taskId];
+  if (!link || !selected) return;
+  const option = options.find((o) => o.key === selected);
+  const saved = await setManualScheduleLink(
+    getStore(env),
+    taskId,
+    { taskName: link.taskName, category: option?.category ?? null, item: option?.item ?? null },
+    payload.user.id,
+    scope ?? undefined
+  );
+
+  // Blocks of the review message are not in a view_submission payload — re-read the thread
+  const replies = await conversationsReplies(config.slackBotToken, channel, threadTs, 100, true);
+  const message = replies.find((m) => m.ts === ts);
+  const text = scheduleLinkConfirmedText(saved, payload.user.id);
+  if (!message?.blocks) {
+    await chatPostMessage(config.slackBotToken, channel, text, undefined, threadTs);
+    return;
+  }
+  await markScheduleReviewRow(config.slackBotToken, channel, ts, message.blocks, taskId, text);
+}
+
+// ── Sprint planning confirm button handler ─────────────────────────────────
+
+async function handleSprintPlanButton(
+  env: Bindings,
+  payload: SlackInteractionPayload,
+  confirmed: boolean
+): Promise<void> {
+  const channel = payload.channel.id;
+  const config = await resolveConfig(env, channel);
+  if (!config.slackBotToken) return;
+  const messageTs = payload.message.ts;
+  const userId = payload.user.id;
+
+  const pending = await getPendingSprintPlan(getStore(env), channel, messageTs);
+  if (!pending) {
+    await chatPostMessage(
+      config.slackBotToken,
+      channel,
+      `⚠️ このボタンは既に処理済みか、有効期限が切れています。`,
+      undefined,
+      messageTs
+    );
+    return;
+  }
+
+  // Unticked line items are rejected; nothing ticked (or no checkbox state) keeps the proposal open
+  const selected = selectedSprintPlanTaskIds(payload.state?.values);
+  const accepted = pending.items.filter((i) => selected.has(i.taskId));
+  if (confirmed && accepted.length === 0) {
+    await chatPostMessage(
+      config.slackBotToken,
+      channel,
+      `⚠️ <@${userId}> 追加するタスクが選ばれていません。チェックを入れて確定するか、キャンセルしてください。`,
+      undefined,
+      messageTs
+    );
+    return;
+  }
+  await deletePendingSprintPlan(getStore(env), channel, messageTs);
+
+  const originalText = payload.message.text;
+  const blocksWithoutActions = (payload.message.blocks ?? []).filter(
+    (b: unknown) => (b as Record<string, unknown>).type !== "actions"
+  );
+
+  if (!confirmed) {
+    await chatUpdate(
+      config.slackBotToken,
+      channel,
+      messageTs,
+      originalText + "\n\n❌ キャンセルされました",
+      [...blocksWithoutActions, textSection(`❌ <@${userId}> がキャンセルしました（Notion は変更していません）`)]
+    );
+    return;
+  }
+
+  const rejected = pending.items.filter((i) => !selected.has(i.taskId));
+
+  const startedAt = new Date();
+  const applied: SprintPlanItem[] = [];
+  const failed: Array<{ item: SprintPlanItem; error: string }> = [];
+  for (const item of accepted) {
+    if (config.dryRun) {
+      applied.push(item);
+      continue;
+    }
+    try {
+      await updateTaskSprint(config.notionToken, item.taskId, pending.sprint.id, config.taskSprintRelationProperty);
+      if (item.assignee && !item.currentAssignees.includes(item.assignee)) {
+        await updateTaskPage(config.notionToken, item.taskId, { assignee: item.assignee });
+      }
+      applied.push(item);
+    } catch (err) {
+      console.error(`Sprint plan apply failed for ${item.taskId}`, (err as Error).message);
+      failed.push({ item, error: (err as Error).message });
+    }
+  }
+  const results = [
+    ...applied.map((i) => `・${i.taskName}: スプリント追加（${i.assignee ?? "未割当"}）`),
+    ...failed.map((f) => `・${f.item.taskName}: スプリント追加失敗 (${f.error})`)
+  ];
+  await recordNotionUpdateRun(env, "sprint-plan-apply", channel, startedAt, results, config.dryRun);
+
+  const resultText = buildSprintPlanResultText(pending, applied, rejected, failed, config.dryRun);
+  await chatUpdate(
+    config.slackBotToken,
+    channel,
+    messageTs,
+    originalText + "\n\n" + resultText,
+    [...blocksWithoutActions, textSection(`✅ <@${userId}> が確定しました\n\n${resultText}`)]
+  );
+  console.log(`Sprint plan confirmed by ${userId}: applied=${applied.length} rejected=${rejected.length} failed=${failed.length}`);
+}
+
 // ── EOD reminder button handler ────────────────────────────────────────────
 
 async function handleEodButton(
@@ -661,14 +1074,14 @@ async function handleEodButton(
   );
 
   // Find and update the thread state if this is a tracked thread
-  const threadState = await getThreadState(env.NOTIFY_CACHE, channel, threadTs);
+  const threadState = await getThreadState(getStore(env), channel, threadTs);
   if (threadState && threadState.state === "pending") {
-    await saveThreadState(env.NOTIFY_CACHE, channel, threadTs, {
+    await saveThreadState(getStore(env), channel, threadTs, {
       ...threadState,
       state: "replied"
     });
 
-    await appendReply(env.NOTIFY_CACHE, channel, threadTs, {
+    await appendReply(getStore(env), channel, threadTs, {
       text: responseText,
       userId,
       receivedAt: new Date().toISOString()
@@ -726,7 +1139,7 @@ async function handleSetReminderShortcut(
   );
 
   const now = new Date().toISOString();
-  await savePhoneReminder(env.NOTIFY_CACHE, userId, channel, threadTs, {
+  await savePhoneReminder(getStore(env), userId, channel, threadTs, {
     userId,
     channel,
     threadTs,
@@ -761,7 +1174,7 @@ async function handleReminderScheduleButton(
     threadTs: string;
   };
 
-  const reminder = await getPhoneReminder(env.NOTIFY_CACHE, userId, channel, threadTs);
+  const reminder = await getPhoneReminder(getStore(env), userId, channel, threadTs);
   if (!reminder) {
     console.log(`handleReminderScheduleButton: no reminder found for user=${userId}, threadTs=${threadTs}`);
     const dmChannel = payload.channel.id;
@@ -780,7 +1193,7 @@ async function handleReminderScheduleButton(
   const remindAt = new Date(Date.now() + hours * 3600 * 1000).toISOString();
 
   // Update KV
-  await savePhoneReminder(env.NOTIFY_CACHE, userId, channel, threadTs, {
+  await savePhoneReminder(getStore(env), userId, channel, threadTs, {
     ...reminder,
     remindAt,
     status: "pending"
@@ -830,7 +1243,7 @@ async function handleReminderStopButton(
   };
 
   // Delete from KV
-  await deletePhoneReminder(env.NOTIFY_CACHE, userId, channel, threadTs);
+  await deletePhoneReminder(getStore(env), userId, channel, threadTs);
 
   // Update DM to show stopped state (remove buttons)
   const dmChannel = payload.channel.id;
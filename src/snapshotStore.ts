@@ -0,0 +1,270 @@
+import type { StateStore } from "./storage";
+import { isCompletedStatus, isDoingStatus } from "./notionApi";
+
+// ── Historical task snapshots ───────────────────────────────────────────────
+// One snapshot per sprint per JST day (taken by the 05:00 job), kept across sprints
+// so burndown / cycle time / reports can look back further than the 7-day KV snapshots.
+
+export interface TaskDayState {
+  id: string;
+  name: string;
+  status: string | null;
+  sp: number | null;
+  assignees: string[];
+  due: string | null;
+}
+
+export interface SprintDaySnapshot {
+  sprintId: string;
+  date: string;          // JST YYYY-MM-DD
+  capturedAt: string;    // ISO
+  planSp: number | null;
+  progressSp: number | null;
+  tasks: TaskDayState[]; // all tasks in the sprint, completed ones included
+}
+
+export interface SnapshotSprintMeta {
+  sprintId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  scope: string | null;  // channel ID, null = global config
+}
+
+const SPRINT_DAY_KEY = (sprintId: string, date: string) => `snapshot:sprint:${sprintId}:${date}`;
+/** Meta per scope: channels sharing a sprint DB each record the sprint under their own scope */
+const SPRINT_META_ID = (scope: string | null, sprintId: string) => `${scope ?? "global"}:${sprintId}`;
+const SPRINT_META_KEY = (metaId: string) => `snapshot:sprint-meta:${metaId}`;
+const SPRINT_INDEX_KEY = "snapshot:sprints"; // meta IDs
+const TASK_SPRINTS_KEY = (taskId: string) => `snapshot:task-sprints:${taskId}`;
+export const SNAPSHOT_DEFAULT_RETENTION_DAYS = 400;
+
+async function listSprintDays(kv: StateStore, sprintId: string): Promise<string[]> {
+  const prefix = `snapshot:sprint:${sprintId}:`;
+  const dates: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await kv.list({ prefix, cursor });
+    for (const key of result.keys) dates.push(key.name.slice(prefix.length));
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+  return dates.sort();
+}
+
+// ── Write ───────────────────────────────────────────────────────────────────
+
+export async function saveSprintDaySnapshot(
+  kv: StateStore,
+  meta: SnapshotSprintMeta,
+  snapshot: SprintDaySnapshot,
+  retentionDays = SNAPSHOT_DEFAULT_RETENTION_DAYS
+): Promise<void> {
+  const ttl = retentionDays * 24 * 3600;
+  await kv.put(SPRINT_DAY_KEY(snapshot.sprintId, snapshot.date), JSON.stringify(snapshot), {
+    expirationTtl: ttl
+  });
+  const metaId = SPRINT_META_ID(meta.scope, meta.sprintId);
+  await kv.put(SPRINT_META_KEY(metaId), JSON.stringify(meta), { expirationTtl: ttl });
+  await kv.appendToList(SPRINT_INDEX_KEY, metaId, { unique: true });
+
+  // Index task → sprint only for tasks not seen in this sprint before (keeps writes small)
+  const previousDays = (await listSprintDays(kv, snapshot.sprintId)).filter((d) => d < snapshot.date);
+  const previous = previousDays.length > 0
+    ? await getSprintDaySnapshot(kv, snapshot.sprintId, previousDays[previousDays.length - 1])
+    : null;
+  const known = new Set(previous?.tasks.map((t) => t.id) ?? []);
+  for (const task of snapshot.tasks) {
+    if (known.has(task.id)) continue;
+    await kv.appendToList(TASK_SPRINTS_KEY(task.id), snapshot.sprintId, { unique: true, expirationTtl: ttl });
+  }
+}
+
+// ── Read ────────────────────────────────────────────────────────────────────
+
+export async function getSprintDaySnapshot(
+  kv: StateStore,
+  sprintId: string,
+  date: string
+): Promise<SprintDaySnapshot | null> {
+  return (await kv.get(SPRINT_DAY_KEY(sprintId, date), "json")) as SprintDaySnapshot | null;
+}
+
+export async function listSnapshotSprints(
+  kv: StateStore,
+  scope?: string
+): Promise<SnapshotSprintMeta[]> {
+  const metaIds = await kv.getList<string>(SPRINT_INDEX_KEY);
+  const metas: SnapshotSprintMeta[] = [];
+  for (const metaId of metaIds) {
+    if (scope !== undefined && !metaId.startsWith(`${scope}:`)) continue;
+    const meta = (await kv.get(SPRINT_META_KEY(metaId), "json")) as SnapshotSprintMeta | null;
+    if (!meta) continue;
+    if (scope !== undefined && meta.scope !== scope) continue;
+    metas.push(meta);
+  }
+  return metas.sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/** Meta of `sprintId` recorded under `scope`, else under whichever scope recorded it */
+export async function findSnapshotSprint(
+  kv: StateStore,
+  sprintId: string,
+  scope: string | null
+): Promise<SnapshotSprintMeta | null> {
+  const metas = (await listSnapshotSprints(kv)).filter((s) => s.sprintId === sprintId);
+  return metas.find((s) => s.scope === scope) ?? metas[0] ?? null;
+}
+
+/** Sprint whose period contains `date` (latest start wins when periods overlap) */
+export async function findSnapshotSprintOn(
+  kv: StateStore,
+  date: string,
+  scope?: string
+): Promise<SnapshotSprintMeta | null> {
+  const sprints = await listSnapshotSprints(kv, scope);
+  const containing = sprints.filter((s) => s.startDate <= date && date <= s.endDate);
+  return containing[containing.length - 1] ?? null;
+}
+
+/**
+ * State of a sprint as of `date`: that day's snapshot, or the latest earlier one
+ * (e.g. a missed 05:00 run). Returns null if no snapshot exists on or before `date`.
+ */
+export async function getSprintStateOn(
+  kv: StateStore,
+  sprintId: string,
+  date: string
+): Promise<SprintDaySnapshot | null> {
+  const days = (await listSprintDays(kv, sprintId)).filter((d) => d <= date);
+  if (days.length === 0) return null;
+  return getSprintDaySnapshot(kv, sprintId, days[days.length - 1]);
+}
+
+/** All daily snapshots of a sprint in date order (burndown input) */
+export async function getSprintSnapshotSeries(
+  kv: StateStore,
+  sprintId: string
+): Promise<SprintDaySnapshot[]> {
+  const series: SprintDaySnapshot[] = [];
+  for (const date of await listSprintDays(kv, sprintId)) {
+    const snapshot = await getSprintDaySnapshot(kv, sprintId, date);
+    if (snapshot) series.push(snapshot);
+  }
+  return series;
+}
+
+export interface TaskHistoryEntry extends TaskDayState {
+  date: string;
+  sprintId: string;
+}
+
+export interface TaskHistory {
+  taskId: string;
+  days: TaskHistoryEntry[];
+  /** Day-over-day changes of status / SP / assignees / due / sprint */
+  changes: Array<{ date: string; field: string; from: unknown; to: unknown }>;
+  firstSeen: string | null;
+  startedAt: string | null;    // first day in a Doing status
+  completedAt: string | null;  // first day in a completed status
+  cycleTimeDays: number | null;
+}
+
+/** Daily history of one task across every sprint it appeared in */
+export async function getTaskHistory(kv: StateStore, taskId: string): Promise<TaskHistory> {
+  const sprintIds = await kv.getList<string>(TASK_SPRINTS_KEY(taskId));
+  const days: TaskHistoryEntry[] = [];
+  for (const sprintId of sprintIds) {
+    for (const snapshot of await getSprintSnapshotSeries(kv, sprintId)) {
+      const task = snapshot.tasks.find((t) => t.id === taskId);
+      if (task) days.push({ ...task, date: snapshot.date, sprintId });
+    }
+  }
+  days.sort((a, b) => a.date.localeCompare(b.date));
+
+  const changes: TaskHistory["changes"] = [];
+  for (let i = 1; i < days.length; i++) {
+    const prev = days[i - 1];
+    const cur = days[i];
+    const compare: Array<[string, unknown, unknown]> = [
+      ["status", prev.status, cur.status],
+      ["sp", prev.sp, cur.sp],
+      ["assignees", prev.assignees.join(","), cur.assignees.join(",")],
+      ["due", prev.due, cur.due],
+      ["sprint", prev.sprintId, cur.sprintId]
+    ];
+    for (const [field, from, to] of compare) {
+      if (from !== to) changes.push({ date: cur.date, field, from, to });
+    }
+  }
+
+  const startedAt = days.find((d) => isDoingStatus(d.status))?.date ?? null;
+  const completedAt = days.find((d) => isCompletedStatus(d.status))?.date ?? null;
+  const cycleTimeDays =
+    startedAt && completedAt
+      ? Math.round(
+          (new Date(`${completedAt}T00:00:00Z`).getTime() - new Date(`${startedAt}T00:00:00Z`).getTime()) /
+            86400000
+        )
+      : null;
+
+  return {
+    taskId,
+    days,
+    changes,
+    firstSeen: days[0]?.date ?? null,
+    startedAt,
+    completedAt,
+    cycleTimeDays
+  };
+}
+
+export interface CompletedTaskEntry {
+  taskId: string;
+  name: string;
+  sp: number | null;
+  completedOn: string;   // first snapshot day in a completed status
+  sprintId: string;
+}
+
+/**
+ * Tasks that moved to a completed status between `since` and `until` (inclusive), across
+ * the sprints of a scope (null = global). Tasks already completed when first seen are
+ * skipped because their completion day is unknown.
+ */
+export async function listCompletedTasks(
+  kv: StateStore,
+  since: string,
+  until: string,
+  scope: string | null
+): Promise<CompletedTaskEntry[]> {
+  const sprints = (await listSnapshotSprints(kv)).filter(
+    (s) => s.scope === scope && s.endDate >= since && s.startDate <= until
+  );
+  const byTask = new Map<string, CompletedTaskEntry>();
+  for (const sprint of sprints) {
+    const series = await getSprintSnapshotSeries(kv, sprint.sprintId);
+    for (let i = 1; i < series.length; i++) {
+      const date = series[i].date;
+      if (date < since || date > until) continue;
+      const prevById = new Map(series[i - 1].tasks.map((t) => [t.id, t]));
+      for (const task of series[i].tasks) {
+        const prev = prevById.get(task.id);
+        if (!prev || !isCompletedStatus(task.status) || isCompletedStatus(prev.status)) continue;
+        const seen = byTask.get(task.id);
+        if (seen && seen.completedOn <= date) continue;
+        byTask.set(task.id, { taskId: task.id, name: task.name, sp: task.sp, completedOn: date, sprintId: sprint.sprintId });
+      }
+    }
+  }
+  return [...byTask.values()].sort((a, b) => a.completedOn.localeCompare(b.completedOn));
+}
+
+/** Earliest snapshot day of a scope (null = no history yet) */
+export async function earliestSnapshotDate(kv: StateStore, scope: string | null): Promise<string | null> {
+  let earliest: string | null = null;
+  for (const sprint of (await listSnapshotSprints(kv)).filter((s) => s.scope === scope)) {
+    const first = (await listSprintDays(kv, sprint.sprintId))[0];
+    if (first && (!earliest || first < earliest)) earliest = first;
+  }
+  return earliest;
+}
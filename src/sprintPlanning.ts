@@ -0,0 +1,234 @@
+import { keyedJsonState, type StateStore } from "./storage";
+import type { SprintPlanProposal } from "./schema";
+import type { SprintRef } from "./sprintRetro";
+import { addDays, type ScheduleData } from "./sheetsApi";
+
+// ── Sprint planning assistant ───────────────────────────────────────────────
+// Proposes a backlog → next-sprint selection with assignees; the PM unticks
+// line items in the Slack message and confirms before anything is written.
+
+export interface BacklogCandidate {
+  id: string;
+  name: string;
+  status: string | null;
+  priority: string | null;
+  sp: number | null;
+  assignees: string[];
+  due: string | null;
+  category: string | null;
+  subItem: string | null;
+}
+
+export interface SprintPlanItem {
+  taskId: string;
+  taskName: string;
+  assignee: string | null;
+  currentAssignees: string[];
+  sp: number | null;
+  reason: string;
+}
+
+export interface PendingSprintPlan {
+  sprint: SprintRef;
+  items: SprintPlanItem[];
+  requestedAt: string;
+  scope: string | null;   // channel ID, null = global config
+}
+
+export interface SprintPlanRecord {
+  sprintId: string;
+  proposedAt: string;
+  channel: string | null;
+  ts: string | null;
+  items: number;
+}
+
+const pendingSprintPlans = keyedJsonState<PendingSprintPlan, [channel: string, ts: string]>(
+  (channel, ts) => `pending-sprint-plan:${channel}:${ts}`,
+  14 * 24 * 3600
+);
+const sprintPlanRecords = keyedJsonState<SprintPlanRecord, [sprintId: string, channelId?: string]>(
+  (sprintId, channelId) => `sprint-plan:${channelId ?? "global"}:${sprintId}`,
+  180 * 24 * 3600
+);
+
+/** Slack allows at most 10 options per checkboxes element */
+const CHECKBOX_GROUP_SIZE = 10;
+export const SPRINT_PLAN_BLOCK_PREFIX = "sprint_plan_items_";
+
+/** Earliest sprint that starts after today */
+export function findUpcomingSprint<T extends SprintRef>(sprints: T[], today: string): T | null {
+  const upcoming = sprints
+    .filter((s) => s.start_date && s.start_date > today)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date));
+  return upcoming[0] ?? null;
+}
+
+/** Master-schedule items with SP allocated to weeks overlapping the sprint period */
+export function scheduleAllocationsForPeriod(
+  scheduleData: ScheduleData | null,
+  start: string,
+  end: string
+): Array<{ category: string; item: string; sp: number; plannedEnd: string | null }> {
+  if (!scheduleData) return [];
+  const result: Array<{ category: string; item: string; sp: number; plannedEnd: string | null }> = [];
+  for (const row of scheduleData.rows) {
+    const sp = row.allocations
+      .filter((a) => a.weekStart && addDays(a.weekStart, 6) >= start && a.weekStart <= end)
+      .reduce((s, a) => s + (a.sp ?? 0), 0);
+    if (sp > 0) {
+      result.push({ category: row.category, item: row.item, sp, plannedEnd: row.plannedEnd });
+    }
+  }
+  return result.sort((a, b) => b.sp - a.sp);
+}
+
+export function buildSprintPlanItems(
+  backlog: BacklogCandidate[],
+  proposal: SprintPlanProposal
+): SprintPlanItem[] {
+  const byId = new Map(backlog.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  const items: SprintPlanItem[] = [];
+  for (const p of proposal.items) {
+    const task = byId.get(p.task_id);
+    // Ignore hallucinated IDs and duplicates
+    if (!task || seen.has(task.id)) continue;
+    seen.add(task.id);
+    items.push({
+      taskId: task.id,
+      taskName: task.name,
+      assignee: p.assignee,
+      currentAssignees: task.assignees,
+      sp: task.sp ?? p.sp,
+      reason: p.reason
+    });
+  }
+  return items;
+}
+
+// ── State ───────────────────────────────────────────────────────────────────
+
+export const savePendingSprintPlan = (kv: StateStore, channel: string, ts: string, pending: PendingSprintPlan) =>
+  pendingSprintPlans.put(kv, pending, channel, ts);
+export const getPendingSprintPlan = pendingSprintPlans.get;
+export const deletePendingSprintPlan = pendingSprintPlans.delete;
+
+export const getSprintPlanRecord = sprintPlanRecords.get;
+export const saveSprintPlanRecord = (kv: StateStore, record: SprintPlanRecord, channelId?: string) =>
+  sprintPlanRecords.put(kv, record, record.sprintId, channelId);
+
+// ── Slack message ───────────────────────────────────────────────────────────
+
+function sumSp(items: SprintPlanItem[]): number {
+  return items.reduce((s, i) => s + (i.sp ?? 0), 0);
+}
+
+// plain_text in checkbox options is limited to 75 chars
+function truncate(text: string, max = 75): string {
+  return text.length > max ? text.slice(0, max - 1) + "…" : text;
+}
+
+export function buildSprintPlanText(
+  pending: PendingSprintPlan,
+  summary: string,
+  budget: { spBudget: number | null; committedSp: number },
+  pmUserId?: string
+): string {
+  const total = sumSp(pending.items);
+  const budgetLine = budget.spBudget != null
+    ? `目安キャパシティ ${budget.spBudget} SP（うち計画済み ${budget.committedSp} SP）`
+    : `計画済み ${budget.committedSp} SP`;
+  return [
+    `${pmUserId ? `<@${pmUserId}> ` : ""}🗓️ *${pending.sprint.name} のスプリント計画案* (${pending.sprint.start_date} 〜 ${pending.sprint.end_date})`,
+    `提案: ${pending.items.length} 件 (${total} SP)・${budgetLine}`,
+    "",
+    summary,
+    "",
+    ...pending.items.map((i) =>
+      `• ${i.taskName}（${i.sp ?? "-"} SP・${i.assignee ?? "未割当"}）— ${i.reason}`
+    ),
+    "",
+    "採用しない項目のチェックを外して「確定」を押すと、Notion のスプリントと担当者を更新します。"
+  ].join("\n");
+}
+
+export function buildSprintPlanBlocks(text: string, pending: PendingSprintPlan): unknown[] {
+  const blocks: unknown[] = [{ type: "section", text: { type: "mrkdwn", text: text.slice(0, 3000) } }];
+
+  for (let i = 0; i < pending.items.length; i += CHECKBOX_GROUP_SIZE) {
+    const options = pending.items.slice(i, i + CHECKBOX_GROUP_SIZE).map((item) => ({
+      text: { type: "plain_text", text: truncate(item.taskName), emoji: true },
+      description: {
+        type: "plain_text",
+        text: truncate(`${item.sp ?? "-"} SP・${item.assignee ?? "未割当"}`)
+      },
+      value: item.taskId
+    }));
+    blocks.push({
+      type: "actions",
+      block_id: `${SPRINT_PLAN_BLOCK_PREFIX}${i / CHECKBOX_GROUP_SIZE}`,
+      elements: [
+        {
+          type: "checkboxes",
+          action_id: "sprint_plan_select",
+          options,
+          initial_options: options
+        }
+      ]
+    });
+  }
+
+  blocks.push({
+    type: "actions",
+    block_id: "sprint_plan_buttons",
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: "✅ 確定", emoji: true },
+        style: "primary",
+        action_id: "sprint_plan_confirm"
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "❌ キャンセル", emoji: true },
+        style: "danger",
+        action_id: "sprint_plan_cancel"
+      }
+    ]
+  });
+  return blocks;
+}
+
+/** Task IDs still ticked in the message (block_actions `state.values`) */
+export function selectedSprintPlanTaskIds(
+  values: Record<string, Record<string, { selected_options?: Array<{ value: string }> | null }>> | undefined
+): Set<string> {
+  const ids = new Set<string>();
+  for (const [blockId, block] of Object.entries(values ?? {})) {
+    if (!blockId.startsWith(SPRINT_PLAN_BLOCK_PREFIX)) continue;
+    for (const element of Object.values(block)) {
+      for (const option of element.selected_options ?? []) ids.add(option.value);
+    }
+  }
+  return ids;
+}
+
+export function buildSprintPlanResultText(
+  pending: PendingSprintPlan,
+  applied: SprintPlanItem[],
+  rejected: SprintPlanItem[],
+  failed: Array<{ item: SprintPlanItem; error: string }>,
+  dryRun: boolean
+): string {
+  const lines = [
+    `${dryRun ? "（DRY_RUN）" : ""}✅ ${pending.sprint.name} に ${applied.length} 件 (${sumSp(applied)} SP) を追加しました`
+  ];
+  if (rejected.length > 0) {
+    lines.push(`・見送り: ${rejected.length} 件 (${sumSp(rejected)} SP)`);
+  }
+  if (failed.length > 0) {
+    lines.push(`⚠️ 失敗: ${failed.length} 件`, ...failed.map((f) => `・${f.item.taskName}: ${f.error}`));
+  }
+  return lines.join("\n");
+}
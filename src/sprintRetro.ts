@@ -0,0 +1,308 @@
+import { keyedJsonState, type StateStore } from "./storage";
+import type { SprintRetrospective } from "./schema";
+import { isCompletedStatus, isDoingStatus } from "./notionApi";
+import { getSprintSnapshotSeries, type TaskDayState } from "./snapshotStore";
+import { analyzeScheduleDeviation, type ScheduleData } from "./sheetsApi";
+import { daysBetween } from "./dates";
+
+// ── Sprint retrospective ────────────────────────────────────────────────────
+// Metrics for a sprint that just ended: final task states come from Notion,
+// day-by-day behaviour (scope changes, stagnation) from the snapshot history.
+
+export interface SprintRef {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface SprintRetroMetrics {
+  sprint: SprintRef;
+  plannedSp: number;
+  initialPlanSp: number | null;   // plan SP on the first recorded day
+  completedSp: number;
+  completionRate: number | null;  // completed / planned (0-1)
+  completedTasks: number;
+  totalTasks: number;
+  addedTasks: Array<{ id: string; name: string; sp: number | null; addedOn: string }>;
+  carryOver: Array<{ id: string; name: string; status: string | null; sp: number | null; assignees: string[] }>;
+  carryOverSp: number;
+  members: Array<{
+    name: string;
+    completedSp: number;
+    completedTasks: number;
+    carryOverSp: number;
+    carryOverTasks: number;
+  }>;
+  stagnant: Array<{ id: string; name: string; assignees: string[]; doingDays: number; completed: boolean }>;
+  scheduleDeviation: { summary: string; delayed: string[]; atRisk: string[] } | null;
+  historyDays: number;
+}
+
+
+/** Sprints that ended longer ago than this are not picked up automatically */
+export const SPRINT_RETRO_LOOKBACK_DAYS = 7;
+
+/** Same threshold as detectStagnantDoingTasks (same Doing status for 2+ days) */
+const STAGNANT_DOING_DAYS = 2;
+
+// ── Boundary detection ──────────────────────────────────────────────────────
+
+/** Most recently ended sprint (end_date before today, within the lookback window) */
+export function findEndedSprint<T extends SprintRef>(sprints: T[], today: string): T | null {
+  const ended = sprints
+    .filter((s) => s.end_date && s.end_date < today && daysBetween(s.end_date, today) <= SPRINT_RETRO_LOOKBACK_DAYS)
+    .sort((a, b) => a.end_date.localeCompare(b.end_date));
+  return ended[ended.length - 1] ?? null;
+}
+
+export interface SprintRetroRecord {
+  sprintId: string;
+  postedAt: string;
+  channel: string;
+  ts: string;
+  notionUrl: string | null;
+}
+
+const sprintRetroRecords = keyedJsonState<SprintRetroRecord, [sprintId: string, channelId?: string]>(
+  (sprintId, channelId) => `sprint-retro:${channelId ?? "global"}:${sprintId}`,
+  180 * 24 * 3600
+);
+
+export const getSprintRetroRecord = sprintRetroRecords.get;
+export const saveSprintRetroRecord = (kv: StateStore, record: SprintRetroRecord, channelId?: string) =>
+  sprintRetroRecords.put(kv, record, record.sprintId, channelId);
+
+// ── Metrics ─────────────────────────────────────────────────────────────────
+
+export async function computeSprintRetroMetrics(
+  kv: StateStore,
+  sprint: SprintRef,
+  finalTasks: TaskDayState[],
+  scheduleData: ScheduleData | null
+): Promise<SprintRetroMetrics> {
+  const history = await getSprintSnapshotSeries(kv, sprint.id);
+
+  const completed = finalTasks.filter((t) => isCompletedStatus(t.status));
+  const incomplete = finalTasks.filter((t) => !isCompletedStatus(t.status));
+  const completedSp = completed.reduce((s, t) => s + (t.sp ?? 0), 0);
+  const carryOverSp = incomplete.reduce((s, t) => s + (t.sp ?? 0), 0);
+
+  // Plan SP: latest value recorded on the sprint page, else the sum of task SP
+  const latestPlan = [...history].reverse().find((s) => s.planSp != null)?.planSp ?? null;
+  const plannedSp = latestPlan ?? completedSp + carryOverSp;
+  const initialPlanSp = history.find((s) => s.planSp != null)?.planSp ?? null;
+
+  // Tasks that first appeared after the first recorded day = mid-sprint additions
+  const firstSeen = new Map<string, string>();
+  for (const snapshot of history) {
+    for (const task of snapshot.tasks) {
+      if (!firstSeen.has(task.id)) firstSeen.set(task.id, snapshot.date);
+    }
+  }
+  const firstDay = history[0]?.date;
+  const addedTasks = firstDay
+    ? finalTasks
+        .filter((t) => {
+          const seen = firstSeen.get(t.id);
+          return seen == null || seen > firstDay;
+        })
+        .map((t) => ({ id: t.id, name: t.name, sp: t.sp, addedOn: firstSeen.get(t.id) ?? sprint.end_date }))
+    : [];
+
+  // Per-member throughput (a task with several assignees counts for each of them)
+  const memberMap = new Map<string, SprintRetroMetrics["members"][number]>();
+  const memberEntry = (name: string) => {
+    let entry = memberMap.get(name);
+    if (!entry) {
+      entry = { name, completedSp: 0, completedTasks: 0, carryOverSp: 0, carryOverTasks: 0 };
+      memberMap.set(name, entry);
+    }
+    return entry;
+  };
+  for (const task of finalTasks) {
+    const done = isCompletedStatus(task.status);
+    for (const name of task.assignees.length > 0 ? task.assignees : ["未割当"]) {
+      const entry = memberEntry(name);
+      if (done) {
+        entry.completedSp += task.sp ?? 0;
+        entry.completedTasks++;
+      } else {
+        entry.carryOverSp += task.sp ?? 0;
+        entry.carryOverTasks++;
+      }
+    }
+  }
+
+  // Longest streak of consecutive recorded days in the same Doing status
+  const stagnant: SprintRetroMetrics["stagnant"] = [];
+  const finalById = new Map(finalTasks.map((t) => [t.id, t]));
+  const streaks = new Map<string, { status: string | null; since: string; longest: number }>();
+  for (const snapshot of history) {
+    for (const task of snapshot.tasks) {
+      const streak = streaks.get(task.id) ?? { status: null, since: snapshot.date, longest: 0 };
+      if (!isDoingStatus(task.status)) {
+        streak.status = null;
+      } else if (streak.status === task.status) {
+        streak.longest = Math.max(streak.longest, daysBetween(streak.since, snapshot.date));
+      } else {
+        streak.status = task.status;
+        streak.since = snapshot.date;
+      }
+      streaks.set(task.id, streak);
+    }
+  }
+  for (const [id, streak] of streaks) {
+    if (streak.longest < STAGNANT_DOING_DAYS) continue;
+    const task = finalById.get(id);
+    if (!task) continue;
+    stagnant.push({
+      id,
+      name: task.name,
+      assignees: task.assignees,
+      doingDays: streak.longest,
+      completed: isCompletedStatus(task.status)
+    });
+  }
+  stagnant.sort((a, b) => b.doingDays - a.doingDays);
+
+  let scheduleDeviation: SprintRetroMetrics["scheduleDeviation"] = null;
+  if (scheduleData && scheduleData.rows.length > 0) {
+    const deviation = analyzeScheduleDeviation(scheduleData, sprint.end_date);
+    scheduleDeviation = {
+      summary: deviation.summary,
+      delayed: deviation.delayed.map((r) => r.item),
+      atRisk: deviation.atRisk.map((r) => r.item)
+    };
+  }
+
+  return {
+    sprint,
+    plannedSp,
+    initialPlanSp,
+    completedSp,
+    completionRate: plannedSp > 0 ? completedSp / plannedSp : null,
+    completedTasks: completed.length,
+    totalTasks: finalTasks.length,
+    addedTasks,
+    carryOver: incomplete.map((t) => ({
+      id: t.id,
+      name: t.name,
+      status: t.status,
+      sp: t.sp,
+      assignees: t.assignees
+    })),
+    carryOverSp,
+    members: [...memberMap.values()].sort((a, b) => b.completedSp - a.completedSp),
+    stagnant,
+    scheduleDeviation,
+    historyDays: history.length
+  };
+}
+
+// ── Output ──────────────────────────────────────────────────────────────────
+
+function percent(rate: number | null): string {
+  return rate == null ? "-" : `${Math.round(rate * 100)}%`;
+}
+
+export function buildRetroSlackText(
+  metrics: SprintRetroMetrics,
+  retro: SprintRetrospective,
+  notionUrl: string | null
+): string {
+  const lines: string[] = [
+    `🔁 *${metrics.sprint.name} 振り返り* (${metrics.sprint.start_date} 〜 ${metrics.sprint.end_date})`,
+    "",
+    `*計画 ${metrics.plannedSp} SP / 完了 ${metrics.completedSp} SP（${percent(metrics.completionRate)}）*` +
+      `・タスク ${metrics.completedTasks}/${metrics.totalTasks} 件完了`,
+    `持ち越し: ${metrics.carryOver.length} 件 (${metrics.carryOverSp} SP)` +
+      (metrics.addedTasks.length > 0 ? `・期間中の追加: ${metrics.addedTasks.length} 件` : ""),
+    "",
+    retro.summary
+  ];
+
+  if (metrics.members.length > 0) {
+    lines.push("", "*メンバー別*");
+    for (const m of metrics.members) {
+      lines.push(`• ${m.name}: 完了 ${m.completedSp} SP (${m.completedTasks}件)` +
+        (m.carryOverTasks > 0 ? ` / 持ち越し ${m.carryOverSp} SP (${m.carryOverTasks}件)` : ""));
+    }
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push("", `*${title}*`, ...items.map((i) => `• ${i}`));
+  };
+  section("Keep", retro.keep);
+  section("Problem", retro.problem);
+  section("Try", retro.try);
+
+  if (notionUrl) lines.push("", `📝 Notion: ${notionUrl}`);
+  return lines.join("\n");
+}
+
+// Notion rich_text content is limited to 2000 chars per element
+function richText(content: string) {
+  return [{ type: "text", text: { content: content.slice(0, 2000) } }];
+}
+
+function heading(text: string) {
+  return { object: "block", type: "heading_2", heading_2: { rich_text: richText(text) } };
+}
+
+function paragraph(text: string) {
+  return { object: "block", type: "paragraph", paragraph: { rich_text: richText(text) } };
+}
+
+function bullet(text: string) {
+  return { object: "block", type: "bulleted_list_item", bulleted_list_item: { rich_text: richText(text) } };
+}
+
+/** Page body for the retrospective page (kept under Notion's 100-children limit) */
+export function buildRetroNotionBlocks(
+  metrics: SprintRetroMetrics,
+  retro: SprintRetrospective
+): unknown[] {
+  const blocks: unknown[] = [
+    heading("サマリー"),
+    paragraph(retro.summary),
+    bullet(`計画 ${metrics.plannedSp} SP / 完了 ${metrics.completedSp} SP（${percent(metrics.completionRate)}）`),
+    bullet(`タスク ${metrics.completedTasks}/${metrics.totalTasks} 件完了`),
+    bullet(`持ち越し ${metrics.carryOver.length} 件 (${metrics.carryOverSp} SP)`)
+  ];
+  if (metrics.initialPlanSp != null && metrics.initialPlanSp !== metrics.plannedSp) {
+    blocks.push(bullet(`計画SPの変動: ${metrics.initialPlanSp} → ${metrics.plannedSp} SP`));
+  }
+
+  blocks.push(heading("Keep"), ...retro.keep.map(bullet));
+  blocks.push(heading("Problem"), ...retro.problem.map(bullet));
+  blocks.push(heading("Try"), ...retro.try.map(bullet));
+
+  blocks.push(
+    heading("メンバー別スループット"),
+    ...metrics.members.map((m) =>
+      bullet(`${m.name}: 完了 ${m.completedSp} SP (${m.completedTasks}件) / 持ち越し ${m.carryOverSp} SP (${m.carryOverTasks}件)`)
+    )
+  );
+  if (metrics.carryOver.length > 0) {
+    blocks.push(
+      heading("持ち越しタスク"),
+      ...metrics.carryOver.slice(0, 30).map((t) =>
+        bullet(`${t.name}（${t.status ?? "未設定"}・${t.sp ?? "-"} SP・${t.assignees.join(", ") || "未割当"}）`)
+      )
+    );
+  }
+  if (metrics.stagnant.length > 0) {
+    blocks.push(
+      heading("停滞したタスク"),
+      ...metrics.stagnant.slice(0, 15).map((t) =>
+        bullet(`${t.name}: 同じステータスで ${t.doingDays} 日${t.completed ? "（最終的に完了）" : ""}`)
+      )
+    );
+  }
+  if (metrics.scheduleDeviation) {
+    blocks.push(heading("スケジュール乖離"), paragraph(metrics.scheduleDeviation.summary));
+  }
+  return blocks.slice(0, 100);
+}
@@ -0,0 +1,437 @@
+import type { Bindings } from "./config";
+
+// ── State store abstraction ─────────────────────────────────────────────────
+// KV-compatible get/put/delete/list + list primitives that D1 can do atomically.
+// Backend is chosen by STATE_BACKEND ("kv" default, "d1" requires the PMO_DB binding).
+
+export interface StateListResult {
+  keys: Array<{ name: string; expiration?: number }>;
+  list_complete: boolean;
+  cursor?: string;
+}
+
+export interface StateStore {
+  get(key: string): Promise<string | null>;
+  get(key: string, type: "json"): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix: string; cursor?: string; limit?: number }): Promise<StateListResult>;
+  /**
+   * Append an item to the list stored at `key`.
+   * maxItems keeps only the newest N; unique skips items already in the list.
+   * Atomic on D1; read-modify-write on KV (kept for compatibility).
+   */
+  appendToList<T>(
+    key: string,
+    item: T,
+    options?: { expirationTtl?: number; maxItems?: number; unique?: boolean }
+  ): Promise<void>;
+  /** Append several items in one operation (a pair of turns is never split or interleaved) */
+  appendManyToList<T>(
+    key: string,
+    items: T[],
+    options?: { expirationTtl?: number; maxItems?: number; unique?: boolean }
+  ): Promise<void>;
+  getList<T>(key: string): Promise<T[]>;
+  removeFromList<T>(key: string, item: T): Promise<void>;
+  /**
+   * Add `deltas` to the numeric fields of the counter at `key`.
+   * Atomic upsert on D1; on KV every call writes its own key, summed by getCounters.
+   */
+  incrementCounters(key: string, deltas: Record<string, number>, options?: { expirationTtl?: number }): Promise<void>;
+  getCounters(key: string): Promise<Record<string, number>>;
+  /** Delete expired rows (no-op on KV, which expires keys itself) */
+  purgeExpired(): Promise<number>;
+}
+
+// ── KV implementation ───────────────────────────────────────────────────────
+// Lists are stored as a JSON array under the key itself (same format as before).
+// Counters are one key per increment ("<key>#<id>", deltas in the value and metadata)
+// so concurrent increments never overwrite each other; reads sum the listed metadata.
+
+/** Separates a counter key from the id of one KV increment */
+const COUNTER_ENTRY_SEPARATOR = "#";
+
+function addCounters(total: Record<string, number>, deltas: Record<string, number>): void {
+  for (const [field, value] of Object.entries(deltas)) {
+    if (typeof value === "number") total[field] = (total[field] ?? 0) + value;
+  }
+}
+
+export function createKvStore(kv: KVNamespace): StateStore {
+  async function get(key: string): Promise<string | null>;
+  async function get(key: string, type: "json"): Promise<unknown>;
+  async function get(key: string, type?: "json"): Promise<unknown> {
+    return type === "json" ? kv.get(key, "json") : kv.get(key);
+  }
+
+  return {
+    get,
+    async put(key, value, options) {
+      await kv.put(key, value, options?.expirationTtl ? { expirationTtl: options.expirationTtl } : undefined);
+    },
+    async delete(key) {
+      await kv.delete(key);
+    },
+    async list({ prefix, cursor, limit }) {
+      const result = await kv.list({ prefix, cursor, limit });
+      return {
+        keys: result.keys.map((k) => ({ name: k.name, expiration: k.expiration })),
+        list_complete: result.list_complete,
+        cursor: result.list_complete ? undefined : result.cursor
+      };
+    },
+    async appendToList(key, item, options = {}) {
+      await this.appendManyToList(key, [item], options);
+    },
+    async appendManyToList(key, newItems, options = {}) {
+      const raw = await kv.get(key);
+      let items: unknown[] = raw ? JSON.parse(raw) : [];
+      const seen = new Set(items.map((i) => JSON.stringify(i)));
+      const added = options.unique
+        ? newItems.filter((item) => {
+            const serialized = JSON.stringify(item);
+            if (seen.has(serialized)) return false;
+            seen.add(serialized);
+            return true;
+          })
+        : newItems;
+      if (added.length === 0) return;
+      items.push(...added);
+      if (options.maxItems) items = items.slice(-options.maxItems);
+      await kv.put(
+        key,
+        JSON.stringify(items),
+        options.expirationTtl ? { expirationTtl: options.expirationTtl } : undefined
+      );
+    },
+    async getList<T>(key: string) {
+      const raw = await kv.get(key);
+      return raw ? (JSON.parse(raw) as T[]) : [];
+    },
+    async removeFromList(key, item) {
+      const raw = await kv.get(key);
+      if (!raw) return;
+      const serialized = JSON.stringify(item);
+      const items = (JSON.parse(raw) as unknown[]).filter((i) => JSON.stringify(i) !== serialized);
+      await kv.put(key, JSON.stringify(items));
+    },
+    async incrementCounters(key, deltas, options = {}) {
+      const id = `${Date.now().toString(36)}-${crypto.randomUUID().slice(0, 8)}`;
+      await kv.put(`${key}${COUNTER_ENTRY_SEPARATOR}${id}`, JSON.stringify(deltas), {
+        metadata: deltas,
+        ...(options.expirationTtl ? { expirationTtl: options.expirationTtl } : {})
+      });
+    },
+    async getCounters(key) {
+      const total: Record<string, number> = {};
+      let cursor: string | undefined;
+      do {
+        const page = await kv.list<Record<string, number>>({ prefix: `${key}${COUNTER_ENTRY_SEPARATOR}`, cursor });
+        for (const entry of page.keys) {
+          const deltas = entry.metadata ?? ((await kv.get(entry.name, "json")) as Record<string, number> | null);
+          if (deltas) addCounters(total, deltas);
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+      return total;
+    },
+    async purgeExpired() {
+      return 0;
+    }
+  };
+}
+
+// ── D1 implementation ───────────────────────────────────────────────────────
+// Schema: migrations/0001_state_store.sql, 0002_state_counters.sql
+//   state_kv(key PK, value, expires_at)       — plain values
+//   state_list_items(id, list_key, value, expires_at) — one row per appended item
+//   state_counters(key, field, value, expires_at) — one row per counter field
+
+const D1_LIST_PAGE_SIZE = 1000;
+
+function expiresAt(ttlSeconds?: number): number | null {
+  return ttlSeconds ? Math.floor(Date.now() / 1000) + ttlSeconds : null;
+}
+
+function nowSec(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export function createD1Store(db: D1Database): StateStore {
+  async function get(key: string): Promise<string | null>;
+  async function get(key: string, type: "json"): Promise<unknown>;
+  async function get(key: string, type?: "json"): Promise<unknown> {
+    const row = await db
+      .prepare("SELECT value FROM state_kv WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)")
+      .bind(key, nowSec())
+      .first<{ value: string }>();
+    if (!row) return null;
+    return type === "json" ? JSON.parse(row.value) : row.value;
+  }
+
+  return {
+    get,
+    async put(key, value, options) {
+      await db
+        .prepare(
+          "INSERT INTO state_kv (key, value, expires_at) VALUES (?, ?, ?) " +
+          "ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at"
+        )
+        .bind(key, value, expiresAt(options?.expirationTtl))
+        .run();
+    },
+    async delete(key) {
+      await db.batch([
+        db.prepare("DELETE FROM state_kv WHERE key = ?").bind(key),
+        db.prepare("DELETE FROM state_list_items WHERE list_key = ?").bind(key),
+        db.prepare("DELETE FROM state_counters WHERE key = ?").bind(key)
+      ]);
+    },
+    async list({ prefix, cursor, limit }) {
+      const pageSize = Math.min(limit ?? D1_LIST_PAGE_SIZE, D1_LIST_PAGE_SIZE);
+      // cursor = last key of the previous page; "\uffff" bounds the prefix range
+      const { results } = await db
+        .prepare(
+          "SELECT key, expires_at FROM state_kv " +
+          "WHERE key >= ? AND key < ? AND key > ? AND (expires_at IS NULL OR expires_at > ?) " +
+          "ORDER BY key LIMIT ?"
+        )
+        .bind(prefix, prefix + "\uffff", cursor ?? "", nowSec(), pageSize + 1)
+        .all<{ key: string; expires_at: number | null }>();
+      const page = results.slice(0, pageSize);
+      const complete = results.length <= pageSize;
+      return {
+        keys: page.map((r) => ({ name: r.key, expiration: r.expires_at ?? undefined })),
+        list_complete: complete,
+        cursor: complete ? undefined : page[page.length - 1].key
+      };
+    },
+    async appendToList(key, item, options = {}) {
+      await this.appendManyToList(key, [item], options);
+    },
+    async appendManyToList(key, items, options = {}) {
+      if (items.length === 0) return;
+      const exp = expiresAt(options.expirationTtl);
+      const statements = [
+        ...items.map((item) =>
+          options.unique
+            ? db
+                .prepare(
+                  "INSERT INTO state_list_items (list_key, value, expires_at) " +
+                  "SELECT ?1, ?2, ?3 WHERE NOT EXISTS " +
+                  "(SELECT 1 FROM state_list_items WHERE list_key = ?1 AND value = ?2)"
+                )
+                .bind(key, JSON.stringify(item), exp)
+            : db
+                .prepare("INSERT INTO state_list_items (list_key, value, expires_at) VALUES (?, ?, ?)")
+                .bind(key, JSON.stringify(item), exp)
+        ),
+        // TTL applies to the whole list (KV semantics: every append refreshes it)
+        db.prepare("UPDATE state_list_items SET expires_at = ? WHERE list_key = ?").bind(exp, key)
+      ];
+      if (options.maxItems) {
+        statements.push(
+          db
+            .prepare(
+              "DELETE FROM state_list_items WHERE list_key = ?1 AND id NOT IN " +
+              "(SELECT id FROM state_list_items WHERE list_key = ?1 ORDER BY id DESC LIMIT ?2)"
+            )
+            .bind(key, options.maxItems)
+        );
+      }
+      // batch() runs as a single transaction
+      await db.batch(statements);
+    },
+    async getList<T>(key: string) {
+      const { results } = await db
+        .prepare(
+          "SELECT value FROM state_list_items " +
+          "WHERE list_key = ? AND (expires_at IS NULL OR expires_at > ?) ORDER BY id"
+        )
+        .bind(key, nowSec())
+        .all<{ value: string }>();
+      return results.map((r) => JSON.parse(r.value) as T);
+    },
+    async removeFromList(key, item) {
+      await db
+        .prepare("DELETE FROM state_list_items WHERE list_key = ? AND value = ?")
+        .bind(key, JSON.stringify(item))
+        .run();
+    },
+    async incrementCounters(key, deltas, options = {}) {
+      const exp = expiresAt(options.expirationTtl);
+      const statements = Object.entries(deltas).map(([field, value]) =>
+        db
+          .prepare(
+            "INSERT INTO state_counters (key, field, value, expires_at) VALUES (?, ?, ?, ?) " +
+            "ON CONFLICT(key, field) DO UPDATE SET value = value + excluded.value, expires_at = excluded.expires_at"
+          )
+          .bind(key, field, value, exp)
+      );
+      if (statements.length > 0) await db.batch(statements);
+    },
+    async getCounters(key) {
+      // Rows migrated from KV keep their "<key>#<id>" key and are summed in
+      const { results } = await db
+        .prepare(
+          "SELECT field, SUM(value) AS value FROM state_counters " +
+          "WHERE (key = ?1 OR (key >= ?2 AND key < ?3)) AND (expires_at IS NULL OR expires_at > ?4) GROUP BY field"
+        )
+        .bind(key, key + COUNTER_ENTRY_SEPARATOR, key + COUNTER_ENTRY_SEPARATOR + "\uffff", nowSec())
+        .all<{ field: string; value: number }>();
+      return Object.fromEntries(results.map((r) => [r.field, r.value]));
+    },
+    async purgeExpired() {
+      const now = nowSec();
+      const results = await db.batch([
+        db.prepare("DELETE FROM state_kv WHERE expires_at IS NOT NULL AND expires_at <= ?").bind(now),
+        db.prepare("DELETE FROM state_list_items WHERE expires_at IS NOT NULL AND expires_at <= ?").bind(now),
+        db.prepare("DELETE FROM state_counters WHERE expires_at IS NOT NULL AND expires_at <= ?").bind(now)
+      ]);
+      return results.reduce((n, r) => n + (r.meta.changes ?? 0), 0);
+    }
+  };
+}
+
+// ── Keyed JSON values ───────────────────────────────────────────────────────
+
+/** get / put / delete of JSON values in one key family with a fixed TTL (pending proposals, per-sprint records) */
+export function keyedJsonState<T, K extends unknown[]>(key: (...parts: K) => string, ttlSeconds: number) {
+  return {
+    async get(kv: StateStore, ...parts: K): Promise<T | null> {
+      return (await kv.get(key(...parts), "json")) as T | null;
+    },
+    async put(kv: StateStore, value: T, ...parts: K): Promise<void> {
+      await kv.put(key(...parts), JSON.stringify(value), { expirationTtl: ttlSeconds });
+    },
+    async delete(kv: StateStore, ...parts: K): Promise<void> {
+      await kv.delete(key(...parts));
+    }
+  };
+}
+
+// ── Backend selection ───────────────────────────────────────────────────────
+
+const storeCache = new WeakMap<Bindings, StateStore>();
+
+export function getStore(env: Bindings): StateStore {
+  const cached = storeCache.get(env);
+  if (cached) return cached;
+
+  let store: StateStore;
+  if (env.STATE_BACKEND === "d1") {
+    if (!env.PMO_DB) throw new Error("STATE_BACKEND=d1 requires the PMO_DB D1 binding");
+    store = createD1Store(env.PMO_DB);
+  } else {
+    store = createKvStore(env.NOTIFY_CACHE);
+  }
+  storeCache.set(env, store);
+  return store;
+}
+
+// ── KV → D1 migration ───────────────────────────────────────────────────────
+
+/** Keys whose KV value is a JSON array appended by appendToList */
+const LIST_KEY_PATTERNS = [
+  /^reply:/,
+  /^active-threads:/,
+  /^mention-history:/,
+  /^channel-config-list$/,
+  /^snapshot:sprints$/,
+  /^snapshot:task-sprints:/,
+  /^mention-eval-runs$/
+];
+
+/** Keys written by incrementCounters on KV ("<counter key>#<id>") */
+const COUNTER_KEY_PATTERNS = [/^llm-usage(-month)?:[^#]+#/];
+
+export interface StateMigrationResult {
+  migrated: number;
+  lists: number;
+  counters: number;
+  skipped: number;
+  cursor?: string;
+  done: boolean;
+}
+
+/**
+ * Copy one page of KV keys into D1 (idempotent: values are upserted, lists replaced).
+ * Call repeatedly with the returned cursor until done — a single invocation can't
+ * cover the whole namespace within the Workers subrequest limit.
+ */
+export async function migrateKvToD1(
+  kv: KVNamespace,
+  db: D1Database,
+  cursor?: string,
+  limit = 200
+): Promise<StateMigrationResult> {
+  const page = await kv.list({ cursor, limit });
+  const result: StateMigrationResult = { migrated: 0, lists: 0, counters: 0, skipped: 0, done: page.list_complete };
+  if (!page.list_complete) result.cursor = page.cursor;
+
+  for (const key of page.keys) {
+    const raw = await kv.get(key.name);
+    if (raw === null) {
+      result.skipped++;
+      continue;
+    }
+    const exp = key.expiration ?? null;
+
+    if (LIST_KEY_PATTERNS.some((re) => re.test(key.name))) {
+      let items: unknown[];
+      try {
+        items = JSON.parse(raw) as unknown[];
+        if (!Array.isArray(items)) throw new Error("not an array");
+      } catch {
+        result.skipped++;
+        continue;
+      }
+      await db.batch([
+        db.prepare("DELETE FROM state_list_items WHERE list_key = ?").bind(key.name),
+        ...items.map((item) =>
+          db
+            .prepare("INSERT INTO state_list_items (list_key, value, expires_at) VALUES (?, ?, ?)")
+            .bind(key.name, JSON.stringify(item), exp)
+        )
+      ]);
+      result.lists++;
+      continue;
+    }
+
+    if (COUNTER_KEY_PATTERNS.some((re) => re.test(key.name))) {
+      let deltas: Record<string, number>;
+      try {
+        deltas = JSON.parse(raw) as Record<string, number>;
+      } catch {
+        result.skipped++;
+        continue;
+      }
+      // Each increment keeps its own key (replaced, not added, so re-runs don't double count)
+      const statements = Object.entries(deltas)
+        .filter(([, value]) => typeof value === "number")
+        .map(([field, value]) =>
+          db
+            .prepare(
+              "INSERT INTO state_counters (key, field, value, expires_at) VALUES (?, ?, ?, ?) " +
+              "ON CONFLICT(key, field) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at"
+            )
+            .bind(key.name, field, value, exp)
+        );
+      if (statements.length > 0) await db.batch(statements);
+      result.counters++;
+      continue;
+    }
+
+    await db
+      .prepare(
+        "INSERT INTO state_kv (key, value, expires_at) VALUES (?, ?, ?) " +
+        "ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at"
+      )
+      .bind(key.name, raw, exp)
+      .run();
+    result.migrated++;
+  }
+
+  return result;
+}
@@ -1,3 +1,5 @@
+import type { StateStore } from "./storage";
+
 // ── JST date utility ─────────────────────────────────────────────────────
 /** UTC の Date を JST (UTC+9) の "YYYY-MM-DD" 文字列に変換する */
 export function toJstDateString(date: Date = new Date(), offsetDays = 0): string {
@@ -68,7 +70,7 @@ const MENTION_HISTORY_KEY = (channel: string, threadTs: string) =>
 const DEFAULT_TTL = 7 * 24 * 3600;
 
 export async function saveThreadState(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   ts: string,
   state: ThreadState,
@@ -80,7 +82,7 @@ export async function saveThreadState(
 }
 
 export async function getThreadState(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   ts: string
 ): Promise<ThreadState | null> {
@@ -90,7 +92,7 @@ export async function getThreadState(
 }
 
 export async function savePmThread(
-  kv: KVNamespace,
+  kv: StateStore,
   date: string,
   state: PmThreadState,
   ttlSeconds = DEFAULT_TTL,
@@ -106,7 +108,7 @@ export async function savePmThread(
 }
 
 export async function getPmThread(
-  kv: KVNamespace,
+  kv: StateStore,
   date: string,
   scope?: string
 ): Promise<PmThreadState | null> {
@@ -116,55 +118,43 @@ export async function getPmThread(
 }
 
 export async function appendReply(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string,
   reply: StoredReply,
   ttlSeconds = DEFAULT_TTL
 ): Promise<void> {
-  const key = REPLY_KEY(channel, threadTs);
-  const existing = await kv.get(key);
-  const replies: StoredReply[] = existing ? JSON.parse(existing) : [];
-  replies.push(reply);
-  await kv.put(key, JSON.stringify(replies), { expirationTtl: ttlSeconds });
+  await kv.appendToList(REPLY_KEY(channel, threadTs), reply, { expirationTtl: ttlSeconds });
 }
 
 export async function getReplies(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string
 ): Promise<StoredReply[]> {
-  const raw = await kv.get(REPLY_KEY(channel, threadTs));
-  if (!raw) return [];
-  return JSON.parse(raw) as StoredReply[];
+  return kv.getList<StoredReply>(REPLY_KEY(channel, threadTs));
 }
 
 export async function addActiveThread(
-  kv: KVNamespace,
+  kv: StateStore,
   date: string,
   entry: ActiveThread,
   ttlSeconds = DEFAULT_TTL,
   scope?: string
 ): Promise<void> {
-  const key = ACTIVE_THREADS_KEY(date, scope);
-  const existing = await kv.get(key);
-  const threads: ActiveThread[] = existing ? JSON.parse(existing) : [];
-  threads.push(entry);
-  await kv.put(key, JSON.stringify(threads), { expirationTtl: ttlSeconds });
+  await kv.appendToList(ACTIVE_THREADS_KEY(date, scope), entry, { expirationTtl: ttlSeconds });
 }
 
 export async function getActiveThreads(
-  kv: KVNamespace,
+  kv: StateStore,
   date: string,
   scope?: string
 ): Promise<ActiveThread[]> {
-  const raw = await kv.get(ACTIVE_THREADS_KEY(date, scope));
-  if (!raw) return [];
-  return JSON.parse(raw) as ActiveThread[];
+  return kv.getList<ActiveThread>(ACTIVE_THREADS_KEY(date, scope));
 }
 
 export async function savePendingAction(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   ts: string,
   action: PendingNotionAction,
@@ -176,7 +166,7 @@ export async function savePendingAction(
 }
 
 export async function getPendingAction(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   ts: string
 ): Promise<PendingNotionAction | null> {
@@ -186,7 +176,7 @@ export async function getPendingAction(
 }
 
 export async function deletePendingAction(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   ts: string
 ): Promise<void> {
@@ -204,37 +194,32 @@ const MENTION_HISTORY_TTL = 24 * 3600; // 24h
 const MAX_HISTORY_TURNS = 10; // 直近5往復まで保持
 
 export async function getMentionHistory(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string
 ): Promise<MentionMessage[]> {
-  const raw = await kv.get(MENTION_HISTORY_KEY(channel, threadTs));
-  if (!raw) return [];
-  return JSON.parse(raw) as MentionMessage[];
+  return kv.getList<MentionMessage>(MENTION_HISTORY_KEY(channel, threadTs));
 }
 
 export async function appendMentionHistory(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string,
   userMessage: string,
   assistantMessage: string
 ): Promise<void> {
   const key = MENTION_HISTORY_KEY(channel, threadTs);
-  const existing = await kv.get(key);
-  const history: MentionMessage[] = existing ? JSON.parse(existing) : [];
-
-  history.push(
-    { role: "user", content: userMessage },
-    { role: "assistant", content: assistantMessage }
+  // 古い履歴は maxItems（偶数）で切り捨て
+  const options = { expirationTtl: MENTION_HISTORY_TTL, maxItems: MAX_HISTORY_TURNS };
+  // 1往復をまとめて追記（片方だけ残る・他の書き込みと交互になるのを防ぐ）
+  await kv.appendManyToList<MentionMessage>(
+    key,
+    [
+      { role: "user", content: userMessage },
+      { role: "assistant", content: assistantMessage }
+    ],
+    options
   );
-
-  // 古い履歴を切り捨て
-  const trimmed = history.slice(-MAX_HISTORY_TURNS);
-
-  await kv.put(key, JSON.stringify(trimmed), {
-    expirationTtl: MENTION_HISTORY_TTL
-  });
 }
 
 // ── Pending project selection (for multi-candidate disambiguation) ───────
@@ -260,7 +245,7 @@ const PROJECT_SELECTION_KEY = (channel: string, threadTs: string) =>
 const PROJECT_SELECTION_TTL = 3600; // 1 hour
 
 export async function savePendingProjectSelection(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string,
   selection: PendingProjectSelection
@@ -273,7 +258,7 @@ export async function savePendingProjectSelection(
 }
 
 export async function getPendingProjectSelection(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string
 ): Promise<PendingProjectSelection | null> {
@@ -283,7 +268,7 @@ export async function getPendingProjectSelection(
 }
 
 export async function deletePendingProjectSelection(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string
 ): Promise<void> {
@@ -302,7 +287,7 @@ const PENDING_CREATE_REF_KEY = (channel: string, threadTs: string) =>
   `pending-create-ref:${channel}:${threadTs}`;
 
 export async function savePendingCreateRef(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string,
   ref: PendingCreateRef
@@ -315,7 +300,7 @@ export async function savePendingCreateRef(
 }
 
 export async function getPendingCreateRef(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string
 ): Promise<PendingCreateRef | null> {
@@ -325,7 +310,7 @@ export async function getPendingCreateRef(
 }
 
 export async function deletePendingCreateRef(
-  kv: KVNamespace,
+  kv: StateStore,
   channel: string,
   threadTs: string
 ): Promise<void> {
@@ -353,7 +338,7 @@ const PHONE_REMINDER_KEY = (userId: string, channel: string, threadTs: string) =
 const PHONE_REMINDER_TTL = 30 * 24 * 3600; // 30 days
 
 export async function savePhoneReminder(
-  kv: KVNamespace,
+  kv: StateStore,
   userId: string,
   channel: string,
   threadTs: string,
@@ -367,7 +352,7 @@ export async function savePhoneReminder(
 }
 
 export async function getPhoneReminder(
-  kv: KVNamespace,
+  kv: StateStore,
   userId: string,
   channel: string,
   threadTs: string
@@ -378,7 +363,7 @@ export async function getPhoneReminder(
 }
 
 export async function deletePhoneReminder(
-  kv: KVNamespace,
+  kv: StateStore,
   userId: string,
   channel: string,
   threadTs: string
@@ -387,7 +372,7 @@ export async function deletePhoneReminder(
 }
 
 export async function listAllPhoneReminders(
-  kv: KVNamespace
+  kv: StateStore
 ): Promise<PhoneReminder[]> {
   const reminders: PhoneReminder[] = [];
   let cursor: string | undefined;
@@ -411,10 +396,39 @@ export async function listAllPhoneReminders(
   return reminders;
 }
 
+export async function listPhoneRemindersForUser(
+  kv: StateStore,
+  userId: string
+): Promise<PhoneReminder[]> {
+  const reminders: PhoneReminder[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await kv.list({
+      prefix: `phone-reminder:${userId}:`,
+      cursor
+    });
+
+    for (const key of result.keys) {
+      const raw = await kv.get(key.name);
+      if (raw) {
+        reminders.push(JSON.parse(raw) as PhoneReminder);
+      }
+    }
+
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+
+  return reminders;
+}
+
 // ── Cron Heartbeat (health monitoring) ───────────────────────────────────
 
-const CRON_HEARTBEAT_KEY = (name: string) => `cron-heartbeat:${name}`;
-const CRON_ALERT_KEY = (name: string, date: string) => `cron-alert:${name}:${date}`;
+// scope = channel ID for per-channel flows; omitted for global runs (SLACK_PMO_CHANNEL_ID / watchdog)
+const CRON_HEARTBEAT_KEY = (name: string, scope?: string) =>
+  scope ? `cron-heartbeat:${scope}:${name}` : `cron-heartbeat:${name}`;
+const CRON_ALERT_KEY = (name: string, date: string, scope?: string) =>
+  scope ? `cron-alert:${scope}:${name}:${date}` : `cron-alert:${name}:${date}`;
 const HEARTBEAT_TTL = 48 * 3600; // 48 hours
 const ALERT_TTL = 24 * 3600; // 24 hours
 
@@ -422,46 +436,242 @@ const MONITORED_CRONS = ["morning", "evening", "snapshot", "reminder", "watchdog
 export type CronName = (typeof MONITORED_CRONS)[number];
 
 export async function saveCronHeartbeat(
-  kv: KVNamespace,
-  name: string
+  kv: StateStore,
+  name: string,
+  scope?: string
 ): Promise<void> {
-  await kv.put(CRON_HEARTBEAT_KEY(name), new Date().toISOString(), {
+  await kv.put(CRON_HEARTBEAT_KEY(name, scope), new Date().toISOString(), {
     expirationTtl: HEARTBEAT_TTL
   });
 }
 
 export async function getCronHeartbeat(
-  kv: KVNamespace,
-  name: string
+  kv: StateStore,
+  name: string,
+  scope?: string
 ): Promise<string | null> {
-  return kv.get(CRON_HEARTBEAT_KEY(name));
+  return kv.get(CRON_HEARTBEAT_KEY(name, scope));
 }
 
 export async function getAllCronHeartbeats(
-  kv: KVNamespace
+  kv: StateStore,
+  scope?: string
 ): Promise<Record<string, string | null>> {
   const result: Record<string, string | null> = {};
   for (const name of MONITORED_CRONS) {
-    result[name] = await kv.get(CRON_HEARTBEAT_KEY(name));
+    // watchdog is global only
+    if (scope && name === "watchdog") continue;
+    result[name] = await kv.get(CRON_HEARTBEAT_KEY(name, scope));
   }
   return result;
 }
 
 export async function hasCronAlertBeenSent(
-  kv: KVNamespace,
+  kv: StateStore,
   name: string,
-  date: string
+  date: string,
+  scope?: string
 ): Promise<boolean> {
-  const val = await kv.get(CRON_ALERT_KEY(name, date));
+  const val = await kv.get(CRON_ALERT_KEY(name, date, scope));
   return val !== null;
 }
 
 export async function markCronAlertSent(
-  kv: KVNamespace,
+  kv: StateStore,
   name: string,
-  date: string
+  date: string,
+  scope?: string
 ): Promise<void> {
-  await kv.put(CRON_ALERT_KEY(name, date), "1", {
+  await kv.put(CRON_ALERT_KEY(name, date, scope), "1", {
     expirationTtl: ALERT_TTL
   });
 }
+
+// ── Flow outcomes (per flow × channel × day) ────────────────────────────
+
+export type FlowOutcomeStatus = "ok" | "skipped" | "error";
+
+export interface FlowOutcome {
+  name: string;
+  scope: string | null;       // channel ID, null = global config
+  status: FlowOutcomeStatus;
+  trigger: string;            // cron / manual / catchup
+  startedAt: string;          // ISO
+  durationMs: number;
+  counts: Record<string, number>; // numeric fields of the flow result (sent, reminded, ...)
+  detail?: string;            // skip reason or error message
+  runs: number;               // how many times the flow ran that day (last outcome wins)
+}
+
+const FLOW_OUTCOME_KEY = (date: string, name: string, scope?: string) =>
+  `cron-outcome:${date}:${scope ?? "global"}:${name}`;
+const FLOW_OUTCOME_TTL = 7 * 24 * 3600; // 7 days
+
+export async function saveFlowOutcome(
+  kv: StateStore,
+  date: string,
+  outcome: Omit<FlowOutcome, "runs">
+): Promise<void> {
+  const key = FLOW_OUTCOME_KEY(date, outcome.name, outcome.scope ?? undefined);
+  const prev = await kv.get(key);
+  const runs = prev ? (JSON.parse(prev) as FlowOutcome).runs + 1 : 1;
+  await kv.put(key, JSON.stringify({ ...outcome, runs }), {
+    expirationTtl: FLOW_OUTCOME_TTL
+  });
+}
+
+export async function getFlowOutcome(
+  kv: StateStore,
+  date: string,
+  name: string,
+  scope?: string
+): Promise<FlowOutcome | null> {
+  const raw = await kv.get(FLOW_OUTCOME_KEY(date, name, scope));
+  return raw ? (JSON.parse(raw) as FlowOutcome) : null;
+}
+
+/** All outcomes recorded for one scope on a given date, keyed by flow name */
+export async function listFlowOutcomes(
+  kv: StateStore,
+  date: string,
+  scope?: string
+): Promise<Record<string, FlowOutcome>> {
+  const prefix = `cron-outcome:${date}:${scope ?? "global"}:`;
+  const result: Record<string, FlowOutcome> = {};
+  let cursor: string | undefined;
+
+  do {
+    const list = await kv.list({ prefix, cursor });
+    for (const key of list.keys) {
+      const raw = await kv.get(key.name);
+      if (!raw) continue;
+      const outcome = JSON.parse(raw) as FlowOutcome;
+      result[outcome.name] = outcome;
+    }
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor);
+
+  return result;
+}
+
+// ── Admin audit log ─────────────────────────────────────────────────────────
+
+export interface AdminAuditEntry {
+  at: string;              // ISO timestamp
+  keyId: string | null;    // null = unauthenticated attempt
+  authMethod: "bearer" | "hmac" | null;
+  method: string;
+  path: string;
+  query: string;
+  channel: string | null;
+  status: number;
+  durationMs: number;
+  ip: string | null;
+  error?: string;
+}
+
+// One key per entry (no read-modify-write), ordered by time within a day
+const ADMIN_AUDIT_KEY = (date: string, at: string, nonce: string) =>
+  `admin-audit:${date}:${at}:${nonce}`;
+const ADMIN_AUDIT_TTL = 90 * 24 * 3600; // 90 days
+
+export async function appendAdminAuditLog(
+  kv: StateStore,
+  entry: AdminAuditEntry
+): Promise<void> {
+  const date = toJstDateString(new Date(entry.at));
+  const nonce = crypto.randomUUID().slice(0, 8);
+  await kv.put(ADMIN_AUDIT_KEY(date, entry.at, nonce), JSON.stringify(entry), {
+    expirationTtl: ADMIN_AUDIT_TTL
+  });
+}
+
+export async function listAdminAuditLog(
+  kv: StateStore,
+  date: string,
+  limit = 200
+): Promise<AdminAuditEntry[]> {
+  const entries: AdminAuditEntry[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await kv.list({ prefix: `admin-audit:${date}:`, cursor });
+    for (const key of result.keys) {
+      const raw = await kv.get(key.name);
+      if (raw) entries.push(JSON.parse(raw) as AdminAuditEntry);
+      if (entries.length >= limit) return entries;
+    }
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+
+  return entries;
+}
+
+// ── Run history ─────────────────────────────────────────────────────────────
+
+export interface RunRecord {
+  id: string;
+  flow: string;               // morning / evening / reminder / pm-approval ...
+  trigger: string;            // cron / manual / catchup / slack
+  channel: string | null;     // null = global config
+  status: FlowOutcomeStatus;
+  startedAt: string;          // ISO
+  finishedAt: string;         // ISO
+  durationMs: number;
+  llmCalls: number;
+  slackPosts: number;
+  notionWrites: number;
+  errors: string[];           // fatal error + best-effort failures (Sheets, GitHub, ...)
+  counts: Record<string, number>;
+  output?: string;            // what was posted (truncated)
+  prompts?: string[];         // prompt template versions rendered ("pm-report@v3" ...)
+}
+
+const RUN_RECORD_KEY = (date: string, startedAt: string, id: string) =>
+  `run:${date}:${startedAt}:${id}`;
+export const RUN_HISTORY_DEFAULT_RETENTION_DAYS = 30;
+const RUN_OUTPUT_MAX_CHARS = 4000;
+
+export async function appendRunRecord(
+  kv: StateStore,
+  record: Omit<RunRecord, "id">,
+  retentionDays = RUN_HISTORY_DEFAULT_RETENTION_DAYS
+): Promise<RunRecord> {
+  const date = toJstDateString(new Date(record.startedAt));
+  const id = crypto.randomUUID().slice(0, 8);
+  const stored: RunRecord = {
+    ...record,
+    id,
+    output: record.output?.slice(0, RUN_OUTPUT_MAX_CHARS)
+  };
+  await kv.put(RUN_RECORD_KEY(date, record.startedAt, id), JSON.stringify(stored), {
+    expirationTtl: retentionDays * 24 * 3600
+  });
+  return stored;
+}
+
+export async function listRunRecords(
+  kv: StateStore,
+  date: string,
+  filter: { channel?: string; flow?: string; limit?: number } = {}
+): Promise<RunRecord[]> {
+  const limit = filter.limit ?? 200;
+  const records: RunRecord[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await kv.list({ prefix: `run:${date}:`, cursor });
+    for (const key of result.keys) {
+      const raw = await kv.get(key.name);
+      if (!raw) continue;
+      const record = JSON.parse(raw) as RunRecord;
+      if (filter.channel && record.channel !== filter.channel) continue;
+      if (filter.flow && record.flow !== filter.flow) continue;
+      records.push(record);
+      if (records.length >= limit) return records;
+    }
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+
+  return records;
+}